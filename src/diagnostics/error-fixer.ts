@@ -12,6 +12,27 @@ export interface BuildError {
   code?: string;
   severity: "error" | "warning";
   raw: string;
+  notes?: BuildNote[]; // notes the compiler attached to this diagnostic
+  fixIts?: FixIt[]; // edits the compiler suggests for this diagnostic
+}
+
+export interface BuildNote {
+  file: string;
+  line: number;
+  column?: number;
+  message: string;
+  fixIts?: FixIt[];
+}
+
+/**
+ * A compiler-suggested edit: replace `length` characters at line:column
+ * (1-based) with `replacement`; length 0 is an insertion
+ */
+export interface FixIt {
+  line: number;
+  column: number;
+  length: number;
+  replacement: string;
 }
 
 export interface ErrorFix {
@@ -68,6 +89,81 @@ export function parseBuildErrors(output: string): BuildError[] {
   return errors;
 }
 
+const DIAGNOSTIC_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s*(error|warning|note|remark):\s*(.+)$/;
+const CARET_LINE_PATTERN = /^[ \t~^]*\^[ \t~^]*$|^[ \t]*~[ \t~]*$/;
+
+/**
+ * Read the fix-its printed under a caret line: each replacement starts at a
+ * `~` range it replaces, or anywhere else as an insertion
+ */
+function parseFixIts(caretLine: string, fixItLine: string, line: number): FixIt[] {
+  const ranges = new Map<number, number>();
+  for (const match of caretLine.matchAll(/~+/g)) {
+    ranges.set(match.index!, match[0].length);
+  }
+
+  const fixIts: FixIt[] = [];
+  for (const match of fixItLine.matchAll(/\S+/g)) {
+    const column = match.index!;
+    const previous = fixIts[fixIts.length - 1];
+    if (previous && !ranges.has(column) && column === previous.column - 1 + previous.replacement.length + 1) {
+      previous.replacement += " " + match[0];
+      continue;
+    }
+    fixIts.push({ line, column: column + 1, length: ranges.get(column) ?? 0, replacement: match[0] });
+  }
+  return fixIts;
+}
+
+/**
+ * Parse swiftc diagnostics (-diagnostic-style=llvm): errors and warnings
+ * with their notes, and the fix-its printed under the source excerpt
+ */
+export function parseCompilerDiagnostics(output: string): BuildError[] {
+  const diagnostics: BuildError[] = [];
+  const lines = output.split("\n");
+  let current: BuildError | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(DIAGNOSTIC_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const [, file, lineNum, col, severity, message] = match;
+    const line = parseInt(lineNum, 10);
+    const column = col ? parseInt(col, 10) : undefined;
+    let target: BuildError | BuildNote | null = null;
+
+    if (severity === "error" || severity === "warning") {
+      current = { file, line, column, message, severity, raw: lines[i] };
+      diagnostics.push(current);
+      target = current;
+    } else if (severity === "note" && current) {
+      target = { file, line, column, message };
+      current.notes = [...(current.notes ?? []), target];
+    }
+
+    // Source excerpt, caret line, then optionally the fix-it line
+    const isContext = (index: number) => index < lines.length && !DIAGNOSTIC_PATTERN.test(lines[index]);
+    if (isContext(i + 1) && isContext(i + 2) && CARET_LINE_PATTERN.test(lines[i + 2])) {
+      const caretLine = lines[i + 2];
+      i += 2;
+      if (isContext(i + 1) && lines[i + 1].trim() && !CARET_LINE_PATTERN.test(lines[i + 1])) {
+        const fixIts = parseFixIts(caretLine, lines[i + 1], line);
+        const firstColumn = lines[i + 1].search(/\S/);
+        // Only a line that starts under the marked range is a fix-it, not unrelated output
+        if (target && (caretLine[firstColumn] === "~" || caretLine[firstColumn] === "^")) {
+          target.fixIts = fixIts;
+          i += 1;
+        }
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
 /**
  * Generate a hash for an error to track recurrence
  */
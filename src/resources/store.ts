@@ -0,0 +1,306 @@
+/**
+ * MCP Resources
+ * Screenshots, build logs, test results and the dev session as readable resources
+ */
+
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { basename, extname } from "path";
+import { XcodeBuildResult } from "../xcode/builder.js";
+import { TestSuiteResult, formatTestResults } from "../xcode/testing.js";
+import { getSession } from "../workflow/dev.js";
+import { listArtifacts } from "../utils/artifacts.js";
+import { createBoundedBuffer, DEFAULT_MAX_OUTPUT_SIZE } from "../utils/process.js";
+import { ClientScope, clientState, currentClientScope } from "../utils/client-scope.js";
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export type ResourceContents =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+export type ResourcesChangedListener = (change: { updated: string[]; listChanged: boolean }) => void;
+
+interface RecordedResult<T> {
+  id: number;
+  createdAt: string;
+  label: string;
+  result: T;
+}
+
+const MAX_RECORDED_RESULTS = 20;
+
+export const SESSION_URI = "session://current";
+export const LATEST_SCREENSHOT_URI = "screenshot://latest";
+export const LATEST_BUILD_LOG_URI = "buildlog://latest";
+export const LATEST_TEST_RESULT_URI = "testresult://latest";
+
+// Recorded results belong to the client whose tool call produced them
+const recorded = clientState(() => ({
+  nextId: 1,
+  builds: [] as RecordedResult<XcodeBuildResult>[],
+  testRuns: [] as RecordedResult<TestSuiteResult>[],
+}));
+const listeners = new Map<ResourcesChangedListener, ClientScope>();
+
+/**
+ * Register a listener for new or updated resources of the current client.
+ * Returns an unregister function.
+ */
+export function onResourcesChanged(listener: ResourcesChangedListener): () => void {
+  listeners.set(listener, currentClientScope());
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell the current client's listeners that the given resources have new contents
+ */
+export function notifyResourcesUpdated(uris: string[], listChanged = false): void {
+  const scope = currentClientScope();
+  for (const [listener, listenerScope] of listeners) {
+    if (listenerScope !== scope) {
+      continue;
+    }
+    try {
+      listener({ updated: uris, listChanged });
+    } catch {
+      // A failing listener must not break the tool call that produced the resource
+    }
+  }
+}
+
+function remember<T>(list: RecordedResult<T>[], label: string, result: T): RecordedResult<T>[] {
+  const entry = { id: recorded().nextId++, createdAt: new Date().toISOString(), label, result };
+  return [...list, entry].slice(-MAX_RECORDED_RESULTS);
+}
+
+/**
+ * Keep a build result as a buildlog:// resource. Returns its URI.
+ */
+export function recordBuildResult(result: XcodeBuildResult, label: string): string {
+  const state = recorded();
+  state.builds = remember(state.builds, label, result);
+  const uri = `buildlog://${state.builds[state.builds.length - 1].id}`;
+  notifyResourcesUpdated([uri, LATEST_BUILD_LOG_URI], true);
+  return uri;
+}
+
+/**
+ * Keep a test run as a testresult:// resource. Returns its URI.
+ */
+export function recordTestResult(result: TestSuiteResult, label: string): string {
+  const state = recorded();
+  state.testRuns = remember(state.testRuns, label, result);
+  const uri = `testresult://${state.testRuns[state.testRuns.length - 1].id}`;
+  notifyResourcesUpdated([uri, LATEST_TEST_RESULT_URI], true);
+  return uri;
+}
+
+/**
+ * Forget recorded build and test results
+ */
+export function clearRecordedResults(): void {
+  const state = recorded();
+  state.builds = [];
+  state.testRuns = [];
+}
+
+function imageMimeType(path: string): string {
+  const extension = extname(path).toLowerCase();
+  return extension === ".jpg" || extension === ".jpeg" ? "image/jpeg" : "image/png";
+}
+
+function latestScreenshotPath(): string | undefined {
+  const fromSession = getSession()?.lastScreenshotPath;
+  if (fromSession) {
+    return fromSession;
+  }
+  const screenshots = listArtifacts({ type: "screenshot" });
+  return screenshots[screenshots.length - 1]?.path;
+}
+
+function buildStatus(result: XcodeBuildResult): string {
+  return result.success ? "succeeded" : "failed";
+}
+
+function testSummary(result: TestSuiteResult): string {
+  return `${result.passed}/${result.totalTests} passed${result.failed > 0 ? `, ${result.failed} failed` : ""}`;
+}
+
+/**
+ * List every resource currently available, newest first within each kind
+ */
+export function listResources(): ResourceDescriptor[] {
+  const resources: ResourceDescriptor[] = [];
+  const { builds, testRuns } = recorded();
+
+  const session = getSession();
+  if (session) {
+    resources.push({
+      uri: SESSION_URI,
+      name: `Dev session: ${session.scheme}`,
+      description: `${basename(session.projectPath)} on ${session.simulator.name}`,
+      mimeType: "application/json",
+    });
+  }
+
+  const latestScreenshot = latestScreenshotPath();
+  if (latestScreenshot) {
+    resources.push({
+      uri: LATEST_SCREENSHOT_URI,
+      name: "Latest screenshot",
+      description: latestScreenshot,
+      mimeType: imageMimeType(latestScreenshot),
+    });
+  }
+  for (const artifact of listArtifacts({ type: "screenshot" }).reverse()) {
+    resources.push({
+      uri: `screenshot://${artifact.id}`,
+      name: `Screenshot ${basename(artifact.path)}`,
+      description: [artifact.createdAt, artifact.tool, artifact.udid].filter(Boolean).join(" "),
+      mimeType: imageMimeType(artifact.path),
+    });
+  }
+
+  if (builds.length > 0) {
+    const latest = builds[builds.length - 1];
+    resources.push({
+      uri: LATEST_BUILD_LOG_URI,
+      name: "Latest build log",
+      description: `${latest.label} ${buildStatus(latest.result)}`,
+      mimeType: "text/plain",
+    });
+  }
+  for (const entry of [...builds].reverse()) {
+    resources.push({
+      uri: `buildlog://${entry.id}`,
+      name: `Build log #${entry.id}`,
+      description: `${entry.createdAt} ${entry.label} ${buildStatus(entry.result)}`,
+      mimeType: "text/plain",
+    });
+  }
+
+  if (testRuns.length > 0) {
+    const latest = testRuns[testRuns.length - 1];
+    resources.push({
+      uri: LATEST_TEST_RESULT_URI,
+      name: "Latest test results",
+      description: `${latest.label} ${testSummary(latest.result)}`,
+      mimeType: "application/json",
+    });
+  }
+  for (const entry of [...testRuns].reverse()) {
+    resources.push({
+      uri: `testresult://${entry.id}`,
+      name: `Test results #${entry.id}`,
+      description: `${entry.createdAt} ${entry.label} ${testSummary(entry.result)}`,
+      mimeType: "application/json",
+    });
+  }
+
+  return resources;
+}
+
+function findRecorded<T>(list: RecordedResult<T>[], key: string): RecordedResult<T> | undefined {
+  if (key === "latest") {
+    return list[list.length - 1];
+  }
+  return list.find((entry) => String(entry.id) === key);
+}
+
+async function readBuildLog(uri: string, entry: RecordedResult<XcodeBuildResult>): Promise<ResourceContents> {
+  const { result } = entry;
+  // The spilled log has everything; the in-memory output may have been truncated.
+  // Serve it under the same head/tail cap so a huge log can't flood the client.
+  if (result.logPath) {
+    try {
+      const buffer = createBoundedBuffer(DEFAULT_MAX_OUTPUT_SIZE);
+      for await (const chunk of createReadStream(result.logPath, { encoding: "utf-8" })) {
+        buffer.push(chunk as string);
+      }
+      return { uri, mimeType: "text/plain", text: `${buffer.toString(result.logPath)}\n\nFull log: ${result.logPath}` };
+    } catch {
+      // Log was cleaned up; fall back to what we kept in memory
+    }
+  }
+  const text = [
+    result.output,
+    result.errors.length > 0 ? `\nErrors:\n${result.errors.join("\n")}` : "",
+    result.error && result.errors.length === 0 ? `\nError: ${result.error}` : "",
+  ].join("");
+  return { uri, mimeType: "text/plain", text };
+}
+
+function readTestResult(uri: string, entry: RecordedResult<TestSuiteResult>): ResourceContents {
+  // Raw output is in the log file; keep the JSON to the structured results
+  const payload = {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    label: entry.label,
+    summary: formatTestResults(entry.result),
+    ...entry.result,
+    output: undefined,
+  };
+  return { uri, mimeType: "application/json", text: JSON.stringify(payload, null, 2) };
+}
+
+/**
+ * Read a resource by URI. Throws if it does not exist.
+ */
+export async function readResource(uri: string): Promise<ResourceContents> {
+  const match = /^([a-z]+):\/\/(.+)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+  const [, scheme, key] = match;
+  const { builds, testRuns } = recorded();
+
+  switch (scheme) {
+    case "session": {
+      const session = key === "current" ? getSession() : null;
+      if (!session) {
+        throw new Error("No active development session");
+      }
+      const payload = { ...session, latestBuildLog: builds.length > 0 ? LATEST_BUILD_LOG_URI : undefined };
+      return { uri, mimeType: "application/json", text: JSON.stringify(payload, null, 2) };
+    }
+
+    case "screenshot": {
+      const path =
+        key === "latest"
+          ? latestScreenshotPath()
+          : listArtifacts({ type: "screenshot" }).find((artifact) => artifact.id === key)?.path;
+      if (!path) {
+        throw new Error(`Screenshot not found: ${uri}`);
+      }
+      const data = await readFile(path);
+      return { uri, mimeType: imageMimeType(path), blob: data.toString("base64") };
+    }
+
+    case "buildlog": {
+      const entry = findRecorded(builds, key);
+      if (!entry) {
+        throw new Error(`Build log not found: ${uri}`);
+      }
+      return readBuildLog(uri, entry);
+    }
+
+    case "testresult": {
+      const entry = findRecorded(testRuns, key);
+      if (!entry) {
+        throw new Error(`Test result not found: ${uri}`);
+      }
+      return readTestResult(uri, entry);
+    }
+
+    default:
+      throw new Error(`Unknown resource: ${uri}`);
+  }
+}
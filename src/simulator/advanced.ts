@@ -3,13 +3,15 @@
  * Video recording, push notifications, network conditioning
  */
 
-import * as path from "path";
-import * as os from "os";
-import { executeCommand, executeShell } from "../utils/process.js";
+import { BackgroundProcess, executeCommand, executeShell, startCommand } from "../utils/process.js";
 import { getBootedSimulator } from "./controller.js";
+import { createArtifactPath, registerArtifact } from "../utils/artifacts.js";
 
 // Active recordings
-const activeRecordings: Map<string, { process: any; outputPath: string; startTime: Date }> = new Map();
+const activeRecordings: Map<
+  string,
+  { process: BackgroundProcess; outputPath: string; startTime: Date; managed: boolean }
+> = new Map();
 
 export interface RecordingOptions {
   udid?: string;
@@ -48,9 +50,8 @@ export async function startRecording(
     return { success: false, error: "Recording already in progress for this simulator" };
   }
 
-  // Generate output path
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const outputPath = options.outputPath || path.join(os.tmpdir(), `simulator-recording-${timestamp}.mp4`);
+  // Default to a managed path in the artifact store
+  const outputPath = options.outputPath || (await createArtifactPath("recording", ".mp4"));
 
   // Start recording in background
   const args = [
@@ -64,18 +65,15 @@ export async function startRecording(
   ];
 
   try {
-    // We need to run this as a background process
-    const { spawn } = await import("child_process");
-    const recordProcess = spawn("xcrun", args, {
-      detached: true,
-      stdio: "ignore",
-    });
+    // Runs until stopRecording interrupts it
+    const recordProcess = startCommand("xcrun", args);
 
     // Store recording info
     activeRecordings.set(targetUdid, {
       process: recordProcess,
       outputPath,
       startTime: new Date(),
+      managed: !options.outputPath,
     });
 
     return {
@@ -118,7 +116,7 @@ export async function stopRecording(options: {
 
   try {
     // Send SIGINT to stop recording gracefully
-    recording.process.kill("SIGINT");
+    recording.process.interrupt();
 
     // Wait a moment for the file to be finalized
     await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -127,6 +125,10 @@ export async function stopRecording(options: {
 
     activeRecordings.delete(targetUdid);
 
+    if (recording.managed) {
+      await registerArtifact(recording.outputPath, "recording", { udid: targetUdid });
+    }
+
     return {
       success: true,
       outputPath: recording.outputPath,
@@ -206,25 +208,21 @@ export async function sendPushNotification(
     targetUdid = booted.udid;
   }
 
-  // Create temp file with payload
-  const payloadJson = JSON.stringify(payload);
-  const tempFile = path.join(os.tmpdir(), `push-${Date.now()}.json`);
-
   try {
-    const { writeFile, unlink } = await import("fs/promises");
-    await writeFile(tempFile, payloadJson);
+    // Keep the payload in the artifact store so the push can be reproduced
+    const payloadPath = await createArtifactPath("payload", ".json");
+    const { writeFile } = await import("fs/promises");
+    await writeFile(payloadPath, JSON.stringify(payload));
+    await registerArtifact(payloadPath, "payload", { udid: targetUdid });
 
     const result = await executeCommand("xcrun", [
       "simctl",
       "push",
       targetUdid,
       bundleId,
-      tempFile,
+      payloadPath,
     ]);
 
-    // Clean up
-    await unlink(tempFile).catch(() => {});
-
     if (result.exitCode !== 0) {
       return { success: false, error: result.stderr || "Failed to send push notification" };
     }
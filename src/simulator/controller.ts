@@ -5,9 +5,9 @@
 
 import { executeCommand } from "../utils/process.js";
 import { ensureDir } from "../utils/tempfile.js";
-import { dirname, join } from "path";
-import { tmpdir } from "os";
-import { randomBytes } from "crypto";
+import { createArtifactPath, registerArtifact } from "../utils/artifacts.js";
+import { dirname } from "path";
+import { writeFile } from "fs/promises";
 
 export interface SimulatorDevice {
   udid: string;
@@ -57,6 +57,7 @@ export interface AppLaunchResult {
 export async function listSimulators(): Promise<SimulatorListResult> {
   const result = await executeCommand("xcrun", ["simctl", "list", "--json"], {
     timeout: 30000,
+    readOnly: true,
   });
 
   if (result.exitCode !== 0) {
@@ -426,10 +427,8 @@ export async function takeScreenshot(
   udid: string,
   outputPath?: string
 ): Promise<ScreenshotResult> {
-  // Generate default path if not provided
-  const finalPath =
-    outputPath ||
-    join(tmpdir(), `ios-screenshot-${randomBytes(4).toString("hex")}.png`);
+  // Default to a managed path in the artifact store
+  const finalPath = outputPath || (await createArtifactPath("screenshot", ".png"));
 
   // Ensure directory exists
   await ensureDir(dirname(finalPath));
@@ -447,6 +446,10 @@ export async function takeScreenshot(
     };
   }
 
+  if (!outputPath) {
+    await registerArtifact(finalPath, "screenshot", { udid });
+  }
+
   return {
     success: true,
     path: finalPath,
@@ -510,32 +513,29 @@ export async function pushNotification(
   bundleId: string,
   payload: object
 ): Promise<SimulatorResult> {
-  // Create a temporary file with the payload
-  const { createTempFile } = await import("../utils/tempfile.js");
-  const tempFile = await createTempFile(JSON.stringify(payload), ".json");
-
-  try {
-    const result = await executeCommand(
-      "xcrun",
-      ["simctl", "push", udid, bundleId, tempFile.path],
-      { timeout: 10000 }
-    );
+  // Keep the payload in the artifact store so the push can be reproduced
+  const payloadPath = await createArtifactPath("payload", ".json");
+  await writeFile(payloadPath, JSON.stringify(payload), "utf-8");
+  await registerArtifact(payloadPath, "payload", { udid });
 
-    if (result.exitCode !== 0) {
-      return {
-        success: false,
-        message: "",
-        error: result.stderr || `Failed to push notification`,
-      };
-    }
+  const result = await executeCommand(
+    "xcrun",
+    ["simctl", "push", udid, bundleId, payloadPath],
+    { timeout: 10000 }
+  );
 
+  if (result.exitCode !== 0) {
     return {
-      success: true,
-      message: `Pushed notification to ${bundleId}`,
+      success: false,
+      message: "",
+      error: result.stderr || `Failed to push notification`,
     };
-  } finally {
-    await tempFile.cleanup();
   }
+
+  return {
+    success: true,
+    message: `Pushed notification to ${bundleId}`,
+  };
 }
 
 /**
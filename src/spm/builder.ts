@@ -0,0 +1,396 @@
+/**
+ * Swift Package Manager Build Tools
+ * Builds, resolves and describes standalone Swift packages with `swift build`
+ * and `swift package`
+ */
+
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+import { BuildError, parseCompilerDiagnostics } from "../diagnostics/error-fixer.js";
+import { resolveSwiftPath } from "../swift/toolchains.js";
+import { getProjectConfig } from "../utils/config.js";
+import { executeCommand, ProcessResult } from "../utils/process.js";
+import { createLogPath } from "../utils/tempfile.js";
+import { DEFAULT_BUILD_OUTPUT_SIZE, XcodeBuildResult } from "../xcode/builder.js";
+
+export interface SpmBuildResult extends XcodeBuildResult {
+  diagnostics: BuildError[]; // parsed compiler errors and warnings with notes and fix-its
+}
+
+export interface SpmBuildOptions {
+  configuration?: "debug" | "release";
+  product?: string; // build only this product
+  target?: string; // build only this target
+  buildTests?: boolean; // also build test targets
+  toolchain?: string; // toolchain id, version or path
+  timeout?: number;
+  onProgress?: (event: { message: string }) => void; // "[12/40] Compiling ..." steps
+  signal?: AbortSignal;
+  maxOutputSize?: number;
+  logPath?: string;
+}
+
+export interface SpmPin {
+  identity: string;
+  location: string; // repository URL or local path
+  version?: string;
+  branch?: string;
+  revision?: string;
+}
+
+export interface SpmResolveResult {
+  success: boolean;
+  pins: SpmPin[]; // from Package.resolved
+  output: string;
+  error?: string;
+}
+
+export interface SpmProduct {
+  name: string;
+  type: string; // executable, library (automatic|static|dynamic), plugin, macro, ...
+  targets: string[];
+}
+
+export interface SpmTarget {
+  name: string;
+  type: string; // executable, library, test, macro, plugin, ...
+  path: string;
+  sources: number; // number of source files
+  targetDependencies: string[];
+  productDependencies: string[];
+}
+
+export interface SpmDependency {
+  identity: string;
+  location: string; // URL or local path
+  requirement?: string; // e.g. "1.2.0..<2.0.0", "exact 1.0.0", "branch main"
+}
+
+export interface SpmPackageDescription {
+  name: string;
+  path: string;
+  toolsVersion: string;
+  platforms: Array<{ name: string; version: string }>;
+  products: SpmProduct[];
+  targets: SpmTarget[];
+  dependencies: SpmDependency[];
+}
+
+export interface SpmDescribeResult {
+  success: boolean;
+  package?: SpmPackageDescription;
+  error?: string;
+}
+
+// Shapes of the JSON SwiftPM writes, as far as they are read here
+interface ResolvedPinJson {
+  identity?: string; // format 2 and 3
+  location?: string;
+  package?: string; // format 1
+  repositoryURL?: string;
+  state?: { version?: string | null; branch?: string | null; revision?: string };
+}
+
+interface DescriptionJson {
+  name: string;
+  path: string;
+  tools_version: string;
+  platforms?: Array<{ name: string; version: string }>;
+  products?: Array<{ name: string; type: Record<string, string[] | null> | string; targets?: string[] }>;
+  targets?: Array<{
+    name: string;
+    type: string;
+    path: string;
+    sources?: string[];
+    target_dependencies?: string[];
+    product_dependencies?: string[];
+  }>;
+  dependencies?: Array<{ identity: string; url?: string; path?: string; requirement?: RequirementJson }>;
+}
+
+interface RequirementJson {
+  range?: Array<{ lower_bound: string; upper_bound: string }>;
+  exact?: string[];
+  branch?: string[];
+  revision?: string[];
+}
+
+const DEFAULT_BUILD_TIMEOUT = 600000; // 10 minutes
+const RESOLVE_TIMEOUT = 300000;
+const DESCRIBE_TIMEOUT = 120000;
+
+const buildStepPattern = /^\[(\d+)\/(\d+)\]\s+(.+)$/;
+
+/**
+ * Check that path is a package directory (has a Package.swift)
+ */
+export async function isSwiftPackage(path: string): Promise<boolean> {
+  try {
+    return (await stat(join(path, "Package.swift"))).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the package path and toolchain shared by every SwiftPM command
+ */
+export async function prepareSpmCommand(
+  packagePath: string,
+  toolchain?: string
+): Promise<{ swiftPath?: string; error?: string }> {
+  if (!(await isSwiftPackage(packagePath))) {
+    return { error: `Invalid package path: ${packagePath}. Must be a directory containing Package.swift` };
+  }
+  return resolveSwiftPath(toolchain);
+}
+
+/**
+ * Compiler diagnostics from SwiftPM output, each reported once even when
+ * several compile jobs print it
+ */
+export function parseSpmDiagnostics(output: string): BuildError[] {
+  const seen = new Set<string>();
+  return parseCompilerDiagnostics(output).filter((diagnostic) => {
+    if (seen.has(diagnostic.raw)) {
+      return false;
+    }
+    seen.add(diagnostic.raw);
+    return true;
+  });
+}
+
+/**
+ * Result for a finished, cancelled or timed-out SwiftPM build command
+ */
+export function spmBuildResult(
+  result: ProcessResult,
+  buildTime: number,
+  timeout: number,
+  logPath: string,
+  what: string
+): SpmBuildResult {
+  const diagnostics = parseSpmDiagnostics([result.stdout, result.stderr].filter(Boolean).join("\n"));
+  const base = {
+    output: result.stdout,
+    diagnostics,
+    errors: diagnostics.filter((d) => d.severity === "error").map((d) => d.raw),
+    warnings: diagnostics.filter((d) => d.severity === "warning").map((d) => d.raw),
+    buildTime,
+    logPath,
+    truncated: result.truncated,
+  };
+
+  if (result.cancelled) {
+    return { ...base, success: false, error: `${what} cancelled`, cancelled: true };
+  }
+  if (result.timedOut) {
+    return { ...base, success: false, error: `${what} timed out after ${timeout / 1000} seconds` };
+  }
+  if (result.exitCode !== 0) {
+    return { ...base, success: false, error: result.stderr || `swift exited with code ${result.exitCode}` };
+  }
+  return { ...base, success: true };
+}
+
+/**
+ * Line handler reporting "[n/total] ..." build steps as progress
+ */
+export function spmProgressParser(onProgress?: (event: { message: string }) => void): ((line: string) => void) | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+  return (line: string) => {
+    const match = line.trim().match(buildStepPattern);
+    if (match) {
+      onProgress({ message: `[${match[1]}/${match[2]}] ${match[3]}` });
+    }
+  };
+}
+
+/**
+ * Build a Swift package with `swift build`
+ */
+export async function spmBuild(packagePath: string, options: SpmBuildOptions = {}): Promise<SpmBuildResult> {
+  const startTime = Date.now();
+  const {
+    configuration = "debug",
+    product,
+    target,
+    buildTests = false,
+    timeout = getProjectConfig().timeouts?.build ?? DEFAULT_BUILD_TIMEOUT,
+    onProgress,
+    signal,
+    maxOutputSize = DEFAULT_BUILD_OUTPUT_SIZE,
+  } = options;
+
+  const { swiftPath, error } = await prepareSpmCommand(packagePath, options.toolchain);
+  if (!swiftPath) {
+    return { success: false, output: "", error, diagnostics: [], warnings: [], errors: [], buildTime: 0 };
+  }
+
+  // LLVM-style diagnostics can be parsed; the default style draws boxes
+  const args = ["build", "--package-path", packagePath, "-c", configuration, "-Xswiftc", "-diagnostic-style=llvm"];
+  if (product) {
+    args.push("--product", product);
+  }
+  if (target) {
+    args.push("--target", target);
+  }
+  if (buildTests) {
+    args.push("--build-tests");
+  }
+
+  const logPath = options.logPath ?? (await createLogPath("swift-build"));
+  const result = await executeCommand(swiftPath, args, {
+    cwd: packagePath,
+    timeout,
+    onLine: spmProgressParser(onProgress),
+    signal,
+    maxOutputSize,
+    logPath,
+  });
+
+  return spmBuildResult(result, Date.now() - startTime, timeout, logPath, "Build");
+}
+
+/**
+ * Pins from Package.resolved (format versions 1 to 3)
+ */
+export function parsePackageResolved(contents: string): SpmPin[] {
+  const resolved = JSON.parse(contents);
+  const pins: ResolvedPinJson[] = resolved.pins ?? resolved.object?.pins ?? [];
+  return pins.map((pin) => ({
+    identity: pin.identity ?? String(pin.package).toLowerCase(),
+    location: pin.location ?? pin.repositoryURL ?? "",
+    version: pin.state?.version ?? undefined,
+    branch: pin.state?.branch ?? undefined,
+    revision: pin.state?.revision ?? undefined,
+  }));
+}
+
+/**
+ * Resolve a package's dependencies with `swift package resolve`
+ */
+export async function spmResolve(
+  packagePath: string,
+  options: { toolchain?: string; timeout?: number; signal?: AbortSignal } = {}
+): Promise<SpmResolveResult> {
+  const { swiftPath, error } = await prepareSpmCommand(packagePath, options.toolchain);
+  if (!swiftPath) {
+    return { success: false, pins: [], output: "", error };
+  }
+
+  const timeout = options.timeout ?? RESOLVE_TIMEOUT;
+  const result = await executeCommand(swiftPath, ["package", "--package-path", packagePath, "resolve"], {
+    cwd: packagePath,
+    timeout,
+    signal: options.signal,
+  });
+  const output = [result.stdout, result.stderr].filter(Boolean).join("\n");
+
+  if (result.timedOut) {
+    return { success: false, pins: [], output, error: `Resolve timed out after ${timeout / 1000} seconds` };
+  }
+  if (result.exitCode !== 0) {
+    return { success: false, pins: [], output, error: result.stderr || `swift exited with code ${result.exitCode}` };
+  }
+
+  // Packages without dependencies have no Package.resolved
+  let pins: SpmPin[] = [];
+  try {
+    pins = parsePackageResolved(await readFile(join(packagePath, "Package.resolved"), "utf-8"));
+  } catch {
+    pins = [];
+  }
+  return { success: true, pins, output };
+}
+
+function describeProductType(type: Record<string, string[] | null> | string): string {
+  if (typeof type === "string") {
+    return type;
+  }
+  const [kind, detail] = Object.entries(type)[0] ?? ["unknown", null];
+  return Array.isArray(detail) && detail.length > 0 ? `${kind} (${detail.join(", ")})` : kind;
+}
+
+function describeRequirement(requirement: RequirementJson | undefined): string | undefined {
+  if (!requirement) {
+    return undefined;
+  }
+  if (requirement.range) {
+    return requirement.range.map((range) => `${range.lower_bound}..<${range.upper_bound}`).join(", ");
+  }
+  for (const kind of ["exact", "branch", "revision"] as const) {
+    if (requirement[kind]) {
+      return `${kind} ${requirement[kind]!.join(", ")}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse `swift package describe --type json` output. Anything SwiftPM prints
+ * before the JSON (fetch progress, warnings) is skipped.
+ */
+export function parsePackageDescription(output: string): SpmPackageDescription {
+  const start = output.indexOf("{");
+  const json: DescriptionJson = JSON.parse(start >= 0 ? output.slice(start) : output);
+
+  return {
+    name: json.name,
+    path: json.path,
+    toolsVersion: json.tools_version,
+    platforms: (json.platforms ?? []).map((platform) => ({
+      name: platform.name,
+      version: platform.version,
+    })),
+    products: (json.products ?? []).map((product) => ({
+      name: product.name,
+      type: describeProductType(product.type),
+      targets: product.targets ?? [],
+    })),
+    targets: (json.targets ?? []).map((target) => ({
+      name: target.name,
+      type: target.type,
+      path: target.path,
+      sources: target.sources?.length ?? 0,
+      targetDependencies: target.target_dependencies ?? [],
+      productDependencies: target.product_dependencies ?? [],
+    })),
+    dependencies: (json.dependencies ?? []).map((dependency) => ({
+      identity: dependency.identity,
+      location: dependency.url ?? dependency.path ?? "",
+      requirement: describeRequirement(dependency.requirement),
+    })),
+  };
+}
+
+/**
+ * Describe a package's products, targets and dependencies
+ */
+export async function spmDescribe(
+  packagePath: string,
+  options: { toolchain?: string; timeout?: number } = {}
+): Promise<SpmDescribeResult> {
+  const { swiftPath, error } = await prepareSpmCommand(packagePath, options.toolchain);
+  if (!swiftPath) {
+    return { success: false, error };
+  }
+
+  const result = await executeCommand(swiftPath, ["package", "--package-path", packagePath, "describe", "--type", "json"], {
+    cwd: packagePath,
+    timeout: options.timeout ?? DESCRIBE_TIMEOUT,
+    readOnly: true,
+  });
+  if (result.exitCode !== 0 || result.timedOut) {
+    return { success: false, error: result.stderr || (result.timedOut ? "Describe timed out" : `swift exited with code ${result.exitCode}`) };
+  }
+
+  try {
+    return { success: true, package: parsePackageDescription(result.stdout) };
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : String(parseError);
+    return { success: false, error: `Could not parse package description: ${message}` };
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Swift Package Manager Testing
+ * Runs `swift test` and collects XCTest and swift-testing results
+ */
+
+import { BuildError } from "../diagnostics/error-fixer.js";
+import { getProjectConfig } from "../utils/config.js";
+import { executeCommand } from "../utils/process.js";
+import { createLogPath } from "../utils/tempfile.js";
+import { DEFAULT_BUILD_OUTPUT_SIZE } from "../xcode/builder.js";
+import { TestResult, TestSuiteResult } from "../xcode/testing.js";
+import { parseSpmDiagnostics, prepareSpmCommand, spmProgressParser } from "./builder.js";
+
+export interface SpmTestResult extends TestSuiteResult {
+  diagnostics: BuildError[]; // compiler errors and warnings from building the tests
+}
+
+export interface SpmTestOptions {
+  filter?: string[]; // --filter patterns, e.g. "MyTests.testLogin"
+  skip?: string[]; // --skip patterns
+  configuration?: "debug" | "release";
+  parallel?: boolean;
+  toolchain?: string;
+  timeout?: number;
+  onProgress?: (event: { message: string }) => void;
+  signal?: AbortSignal;
+  maxOutputSize?: number;
+  logPath?: string;
+}
+
+const DEFAULT_TEST_TIMEOUT = 600000; // 10 minutes
+
+// XCTest: "Test Case '-[Module.Class test]' passed (0.001 seconds)." on macOS,
+// "Test Case 'Class.test' passed (0.001 seconds)" on Linux
+const xctestStartedPattern = /Test Case '(?:-\[([\w.]+) (\w+)\]|([\w.]+)\.(\w+))' started/;
+const xctestFinishedPattern =
+  /Test Case '(?:-\[([\w.]+) (\w+)\]|([\w.]+)\.(\w+))' (passed|failed|skipped) \((\d+\.?\d*) seconds\)/;
+// "/path/FooTests.swift:12: error: -[Module.Class test] : XCTAssertEqual failed: ..."
+const xctestFailurePattern = /^(\S+?:\d+): error: (?:-\[)?[\w.]+[ .]\w+\]? : (.+)$/;
+
+// swift-testing prints a symbol, then e.g. 'Test addition() passed after 0.001 seconds.'
+const swiftTestingFinishedPattern = /^\S+\s+Test (.+?) (passed|failed) after (\d+\.?\d*) seconds/;
+const swiftTestingSkippedPattern = /^\S+\s+Test (.+?) skipped/;
+const swiftTestingSummaryPattern = /^\S+\s+Test run with \d+ tests?/;
+const swiftTestingIssuePattern = /^\S+\s+Test (.+?) recorded an issue(?: at (\S+?))?: (.+)$/;
+
+/**
+ * Collect test results from `swift test` output lines. XCTest results carry
+ * their class; swift-testing results are named by function or display name.
+ */
+export function createSpmTestCollector(): { push: (line: string) => void; tests: TestResult[] } {
+  const tests: TestResult[] = [];
+  const failures = new Map<string, string>(); // pending failure message per test
+  let currentXCTest: string | null = null;
+
+  return {
+    tests,
+    push(rawLine: string) {
+      const line = rawLine.trim();
+
+      let match = line.match(xctestStartedPattern);
+      if (match) {
+        currentXCTest = `${match[1] ?? match[3]}.${match[2] ?? match[4]}`;
+        return;
+      }
+
+      match = line.match(xctestFailurePattern);
+      if (match && currentXCTest) {
+        if (!failures.has(currentXCTest)) {
+          failures.set(currentXCTest, `${match[1]}: ${match[2]}`);
+        }
+        return;
+      }
+
+      match = line.match(xctestFinishedPattern);
+      if (match) {
+        const test = { className: match[1] ?? match[3], name: match[2] ?? match[4] };
+        const key = `${test.className}.${test.name}`;
+        const status = match[5] as TestResult["status"];
+        tests.push({
+          ...test,
+          status,
+          duration: status === "skipped" ? 0 : parseFloat(match[6]),
+          failureMessage: status === "failed" ? (failures.get(key) ?? "") : undefined,
+        });
+        currentXCTest = null;
+        return;
+      }
+
+      if (swiftTestingSummaryPattern.test(line)) {
+        return;
+      }
+
+      match = line.match(swiftTestingIssuePattern);
+      if (match) {
+        if (!failures.has(match[1])) {
+          failures.set(match[1], match[2] ? `${match[2]}: ${match[3]}` : match[3]);
+        }
+        return;
+      }
+
+      match = line.match(swiftTestingFinishedPattern);
+      if (match) {
+        const failed = match[2] === "failed";
+        tests.push({
+          className: "",
+          name: match[1],
+          status: failed ? "failed" : "passed",
+          duration: parseFloat(match[3]),
+          failureMessage: failed ? (failures.get(match[1]) ?? "") : undefined,
+        });
+        return;
+      }
+
+      match = line.match(swiftTestingSkippedPattern);
+      if (match) {
+        tests.push({ className: "", name: match[1], status: "skipped", duration: 0 });
+      }
+    },
+  };
+}
+
+/**
+ * Run a package's tests with `swift test`
+ */
+export async function spmTest(packagePath: string, options: SpmTestOptions = {}): Promise<SpmTestResult> {
+  const startTime = Date.now();
+  const {
+    filter = [],
+    skip = [],
+    configuration = "debug",
+    parallel = false,
+    timeout = getProjectConfig().timeouts?.test ?? DEFAULT_TEST_TIMEOUT,
+    onProgress,
+    signal,
+    maxOutputSize = DEFAULT_BUILD_OUTPUT_SIZE,
+  } = options;
+  const empty = { totalTests: 0, passed: 0, failed: 0, skipped: 0, duration: 0, tests: [], output: "", diagnostics: [] };
+
+  const { swiftPath, error } = await prepareSpmCommand(packagePath, options.toolchain);
+  if (!swiftPath) {
+    return { ...empty, success: false, error };
+  }
+
+  const args = ["test", "--package-path", packagePath, "-c", configuration, "-Xswiftc", "-diagnostic-style=llvm"];
+  for (const pattern of filter) {
+    args.push("--filter", pattern);
+  }
+  for (const pattern of skip) {
+    args.push("--skip", pattern);
+  }
+  if (parallel) {
+    args.push("--parallel");
+  }
+
+  const logPath = options.logPath ?? (await createLogPath("swift-test"));
+  const collector = createSpmTestCollector();
+  const progress = spmProgressParser(onProgress);
+
+  const result = await executeCommand(swiftPath, args, {
+    cwd: packagePath,
+    timeout,
+    onLine: (line) => {
+      collector.push(line);
+      progress?.(line);
+    },
+    signal,
+    maxOutputSize,
+    logPath,
+  });
+
+  const tests = collector.tests;
+  const passed = tests.filter((t) => t.status === "passed").length;
+  const failed = tests.filter((t) => t.status === "failed").length;
+  const skipped = tests.filter((t) => t.status === "skipped").length;
+  const diagnostics = parseSpmDiagnostics([result.stdout, result.stderr].filter(Boolean).join("\n"));
+  const summary = {
+    totalTests: tests.length,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    tests,
+    output: result.stdout,
+    diagnostics,
+    logPath,
+    truncated: result.truncated,
+  };
+
+  if (result.cancelled) {
+    return { ...summary, success: false, error: "Tests cancelled", cancelled: true };
+  }
+  if (result.timedOut) {
+    return { ...summary, success: false, error: `Tests timed out after ${timeout / 1000} seconds` };
+  }
+
+  const buildFailed = diagnostics.some((d) => d.severity === "error") && tests.length === 0;
+  let testError: string | undefined;
+  if (buildFailed) {
+    testError = "Build failed";
+  } else if (failed > 0) {
+    testError = `${failed} test(s) failed`;
+  } else if (result.exitCode !== 0) {
+    testError = result.stderr || `swift exited with code ${result.exitCode}`;
+  }
+
+  return { ...summary, success: result.exitCode === 0 && failed === 0, error: testError };
+}
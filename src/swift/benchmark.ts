@@ -0,0 +1,186 @@
+/**
+ * Swift Benchmarking
+ * Compiles named variants into one optimized harness that times each of
+ * them in-process, so compile time never shows up in the measurements.
+ */
+
+import { executeSwift } from "./executor.js";
+
+export interface BenchmarkVariant {
+  name: string;
+  code: string; // body of the closure to measure
+}
+
+export interface BenchmarkOptions {
+  setup?: string; // declarations shared by all variants, run once
+  warmup?: number; // unmeasured iterations per variant, default 5
+  iterations?: number; // measured iterations per variant, default 50
+  timeout?: number; // for running the harness, default 120000
+  toolchain?: string; // toolchain id, version or path
+}
+
+export interface BenchmarkStats {
+  min: number; // nanoseconds
+  median: number;
+  p95: number;
+  mean: number;
+  stddev: number;
+  samples: number;
+}
+
+export interface BenchmarkVariantResult {
+  name: string;
+  stats: BenchmarkStats;
+  relative: number; // median divided by the fastest variant's median
+}
+
+export interface SwiftBenchmarkResult {
+  success: boolean;
+  variants: BenchmarkVariantResult[];
+  warmup: number;
+  iterations: number;
+  stdout: string; // anything the variants printed
+  stderr: string;
+  error?: string;
+}
+
+const DEFAULT_WARMUP = 5;
+const DEFAULT_ITERATIONS = 50;
+const DEFAULT_TIMEOUT = 120000;
+const STATS_MARKER = "__IOS_DEV_MCP_BENCH__";
+
+/**
+ * Generate the harness: setup, then each variant as a closure that is run
+ * `warmup` times and timed `iterations` times. Each variant prints one line
+ * of summary statistics, so the output stays short however many iterations
+ * run: min, median, p95 (nearest rank), mean and sample standard deviation
+ * in nanoseconds, then the sample count.
+ */
+export function generateBenchmarkHarness(
+  variants: BenchmarkVariant[],
+  setup: string,
+  warmup: number,
+  iterations: number
+): string {
+  const runs = variants.map((variant, index) => [`__benchmark(${index}) {`, variant.code, "}"].join("\n"));
+
+  return [
+    "import Dispatch",
+    "import Foundation",
+    "",
+    setup,
+    "",
+    "@_optimize(none) func __benchmarkConsume<T>(_ value: T) {}",
+    "",
+    "func __benchmark<T>(_ index: Int, _ body: () -> T) {",
+    `    for _ in 0..<${warmup} { __benchmarkConsume(body()) }`,
+    "    var samples: [UInt64] = []",
+    `    samples.reserveCapacity(${iterations})`,
+    `    for _ in 0..<${iterations} {`,
+    "        let start = DispatchTime.now().uptimeNanoseconds",
+    "        __benchmarkConsume(body())",
+    "        samples.append(DispatchTime.now().uptimeNanoseconds - start)",
+    "    }",
+    "    let sorted = samples.sorted().map { Double($0) }",
+    "    let count = sorted.count",
+    "    let mean = sorted.reduce(0, +) / Double(count)",
+    "    let variance = count > 1 ? sorted.reduce(0) { $0 + ($1 - mean) * ($1 - mean) } / Double(count - 1) : 0",
+    "    let median = count % 2 == 1 ? sorted[count / 2] : (sorted[count / 2 - 1] + sorted[count / 2]) / 2",
+    "    let p95 = sorted[min(count - 1, max(0, Int((0.95 * Double(count)).rounded(.up)) - 1))]",
+    "    let stats = [sorted[0], median, p95, mean, variance.squareRoot(), Double(count)]",
+    `    print("${STATS_MARKER}\\t\\(index)\\t" + stats.map { String($0) }.joined(separator: "\\t"))`,
+    "}",
+    "",
+    ...runs,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Compile the variants once with -O and measure each of them
+ */
+export async function benchmarkSwift(
+  variants: BenchmarkVariant[],
+  options: BenchmarkOptions = {}
+): Promise<SwiftBenchmarkResult> {
+  const { setup = "", warmup = DEFAULT_WARMUP, iterations = DEFAULT_ITERATIONS, timeout = DEFAULT_TIMEOUT } = options;
+  const base = { variants: [], warmup, iterations, stdout: "", stderr: "" };
+
+  if (variants.length === 0) {
+    return { ...base, success: false, error: "Provide at least one variant" };
+  }
+  if (new Set(variants.map((variant) => variant.name)).size !== variants.length) {
+    return { ...base, success: false, error: "Variant names must be unique" };
+  }
+
+  const harness = generateBenchmarkHarness(variants, setup, warmup, iterations);
+  const execution = await executeSwift(harness, { optimize: true, timeout, toolchain: options.toolchain });
+
+  const stats = new Map<number, BenchmarkStats>();
+  const printed: string[] = [];
+  for (const line of execution.stdout.split("\n")) {
+    const [marker, index, ...values] = line.split("\t");
+    if (marker === STATS_MARKER && values.length === 6) {
+      const [min, median, p95, mean, stddev, samples] = values.map(Number);
+      stats.set(Number(index), { min, median, p95, mean, stddev, samples });
+    } else if (line) {
+      printed.push(line);
+    }
+  }
+
+  const measured = variants.flatMap((variant, index) =>
+    stats.has(index) ? [{ name: variant.name, stats: stats.get(index)! }] : []
+  );
+  const fastest = Math.min(...measured.map((variant) => variant.stats.median));
+  const results = measured.map((variant) => ({
+    ...variant,
+    relative: fastest > 0 ? variant.stats.median / fastest : 1,
+  }));
+
+  const incomplete = results.length < variants.length;
+  return {
+    success: execution.success && !incomplete,
+    variants: results,
+    warmup,
+    iterations,
+    stdout: printed.join("\n"),
+    stderr: execution.stderr,
+    error: execution.error ?? (incomplete ? "Not every variant finished" : undefined),
+  };
+}
+
+function formatDuration(nanoseconds: number): string {
+  if (nanoseconds < 1e3) return `${Math.round(nanoseconds)} ns`;
+  if (nanoseconds < 1e6) return `${(nanoseconds / 1e3).toFixed(2)} µs`;
+  if (nanoseconds < 1e9) return `${(nanoseconds / 1e6).toFixed(2)} ms`;
+  return `${(nanoseconds / 1e9).toFixed(3)} s`;
+}
+
+/**
+ * Side-by-side table of the variants, fastest median first
+ */
+export function formatBenchmarkReport(result: SwiftBenchmarkResult): string {
+  const header = ["variant", "min", "median", "p95", "mean", "stddev", "vs fastest"];
+  const rows = [...result.variants]
+    .sort((a, b) => a.stats.median - b.stats.median)
+    .map((variant) => [
+      variant.name,
+      formatDuration(variant.stats.min),
+      formatDuration(variant.stats.median),
+      formatDuration(variant.stats.p95),
+      formatDuration(variant.stats.mean),
+      formatDuration(variant.stats.stddev),
+      variant.relative === 1 ? "fastest" : `${variant.relative.toFixed(2)}x`,
+    ]);
+
+  const widths = header.map((_, column) => Math.max(...[header, ...rows].map((row) => row[column].length)));
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ");
+
+  return [
+    `Benchmark: ${result.warmup} warmup + ${result.iterations} measured iterations per variant (swiftc -O)`,
+    "",
+    formatRow(header),
+    ...rows.map(formatRow),
+  ].join("\n");
+}
@@ -3,89 +3,137 @@
  * Executes Swift code snippets and returns the output
  */
 
+import { rm } from "fs/promises";
+import { join } from "path";
 import { executeCommand } from "../utils/process.js";
-import { createTempFile } from "../utils/tempfile.js";
+import { createTempDir } from "../utils/tempfile.js";
+import { getProjectConfig } from "../utils/config.js";
+import { executeSwiftPackage, SwiftDependency } from "./package.js";
+import { cleanDiagnostics, notRunResult, prepareProgram, runResult, writeProgram } from "./program.js";
+import { runInSandbox, SandboxReport, SwiftSandboxOptions } from "./sandbox.js";
+import { resolveSwiftPath, toolchainTool } from "./toolchains.js";
 
 export interface SwiftExecutionResult {
   success: boolean;
-  output: string;
-  error?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null; // null when the program did not run to completion (invalid input, compile error, timeout)
+  error?: string; // why it failed: timeout, compile error, nonzero exit
   executionTime: number;
   timedOut: boolean;
+  sandbox?: SandboxReport; // limits applied, and which one was hit
 }
 
 export interface SwiftExecutorOptions {
   timeout?: number; // in milliseconds, default 30000
-  swiftPath?: string; // path to swift binary
+  swiftPath?: string; // path to swift binary, overrides toolchain
+  toolchain?: string; // toolchain id, version or path, default the project config's or swift on PATH
+  dependencies?: SwiftDependency[]; // SwiftPM packages the code imports
+  cacheDir?: string; // SwiftPM package and build cache for dependencies
+  mainFile?: string; // entry point when passing several files
+  args?: string[]; // command-line arguments for the program
+  stdin?: string;
+  env?: Record<string, string>; // added to the server's environment, or the only variables when sandboxed
+  sandbox?: SwiftSandboxOptions | boolean; // the project config's swiftSandbox takes precedence
+  optimize?: boolean; // compile with -O (release configuration for packages)
 }
 
 const DEFAULT_TIMEOUT = 30000;
+const COMPILE_TIMEOUT = 120000;
 
 /**
- * Execute Swift code and return the result
+ * Sandbox settings for a run. A sandbox from the project config always
+ * applies, so a caller can't opt out of it or loosen its limits.
+ */
+function sandboxOptions(option: SwiftSandboxOptions | boolean | undefined): SwiftSandboxOptions | null {
+  const value = getProjectConfig().swiftSandbox || option || false;
+  if (value === false) {
+    return null;
+  }
+  return value === true ? {} : value;
+}
+
+/**
+ * Execute Swift code and return the result. A single file runs through the
+ * interpreter; several files, sandboxed and optimized runs are compiled with
+ * swiftc first. With dependencies, the code is built as a SwiftPM executable
+ * package instead.
  */
 export async function executeSwift(
-  code: string,
+  source: string | Record<string, string>,
   options: SwiftExecutorOptions = {}
 ): Promise<SwiftExecutionResult> {
-  const { timeout = DEFAULT_TIMEOUT, swiftPath = "swift" } = options;
+  const {
+    timeout = getProjectConfig().timeouts?.swift ?? DEFAULT_TIMEOUT,
+    dependencies = [],
+    cacheDir,
+    mainFile,
+    args = [],
+    stdin,
+    env,
+    optimize = false,
+  } = options;
+  const sandbox = sandboxOptions(options.sandbox);
 
   const startTime = Date.now();
-  let tempFile: { path: string; cleanup: () => Promise<void> } | null = null;
+  const { program, error } = prepareProgram(source, mainFile);
+  if (!program) {
+    return notRunResult(error!, startTime);
+  }
+
+  const resolved = options.swiftPath ? { swiftPath: options.swiftPath } : await resolveSwiftPath(options.toolchain);
+  if (!resolved.swiftPath) {
+    return notRunResult(resolved.error!, startTime);
+  }
+  const swiftPath = resolved.swiftPath;
+
+  let tempDir: string | null = null;
 
   try {
-    // Create a temporary file with the Swift code
-    tempFile = await createTempFile(code, ".swift");
-
-    // Execute the Swift code
-    const result = await executeCommand(swiftPath, [tempFile.path], {
-      timeout,
-    });
-
-    const executionTime = Date.now() - startTime;
-
-    if (result.timedOut) {
-      return {
-        success: false,
-        output: "",
-        error: `Execution timed out after ${timeout / 1000} seconds`,
-        executionTime,
-        timedOut: true,
-      };
+    if (dependencies.length > 0) {
+      return await executeSwiftPackage(program, {
+        dependencies,
+        timeout,
+        swiftPath,
+        cacheDir,
+        args,
+        stdin,
+        env,
+        sandbox: sandbox ?? undefined,
+        optimize,
+      });
     }
 
-    if (result.exitCode !== 0) {
-      // Swift compilation or runtime error
-      return {
-        success: false,
-        output: result.stdout,
-        error: result.stderr || `Swift exited with code ${result.exitCode}`,
-        executionTime,
-        timedOut: false,
-      };
+    tempDir = await createTempDir();
+    const swiftPaths = await writeProgram(tempDir, program);
+    const run = { cwd: tempDir, timeout, input: stdin, env };
+
+    if (swiftPaths.length === 1 && !sandbox && !optimize) {
+      const result = await executeCommand(swiftPath, [swiftPaths[0], ...args], run);
+      return { ...runResult(result, startTime, timeout), stderr: cleanDiagnostics(result.stderr, tempDir, program) };
+    }
+
+    const binary = join(tempDir, ".build", "main");
+    const compile = await executeCommand(
+      toolchainTool(swiftPath, "swiftc"),
+      [...(optimize ? ["-O"] : []), "-o", binary, ...swiftPaths],
+      { cwd: tempDir, timeout: COMPILE_TIMEOUT }
+    );
+    if (compile.exitCode !== 0 || compile.timedOut) {
+      const diagnostics = cleanDiagnostics([compile.stderr, compile.stdout].filter(Boolean).join("\n"), tempDir, program);
+      return notRunResult(compile.timedOut ? "Compilation timed out" : "Compilation failed", startTime, diagnostics);
     }
 
-    return {
-      success: true,
-      output: result.stdout,
-      executionTime,
-      timedOut: false,
-    };
+    if (sandbox) {
+      return await runInSandbox(binary, args, { scratch: tempDir, timeout, stdin, env, sandbox }, startTime);
+    }
+    return runResult(await executeCommand(binary, args, run), startTime, timeout);
   } catch (error) {
-    const executionTime = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
-
-    return {
-      success: false,
-      output: "",
-      error: `Failed to execute Swift code: ${errorMessage}`,
-      executionTime,
-      timedOut: false,
-    };
+    return notRunResult(`Failed to execute Swift code: ${errorMessage}`, startTime);
   } finally {
-    // Clean up temp file
-    if (tempFile) {
-      await tempFile.cleanup();
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
     }
   }
 }
@@ -93,21 +141,20 @@ export async function executeSwift(
 /**
  * Check if Swift is available on the system
  */
-export async function isSwiftAvailable(): Promise<boolean> {
-  try {
-    const result = await executeCommand("swift", ["--version"], { timeout: 5000 });
-    return result.exitCode === 0;
-  } catch {
-    return false;
-  }
+export async function isSwiftAvailable(toolchain?: string): Promise<boolean> {
+  return (await getSwiftVersion(toolchain)) !== null;
 }
 
 /**
  * Get Swift version information
  */
-export async function getSwiftVersion(): Promise<string | null> {
+export async function getSwiftVersion(toolchain?: string): Promise<string | null> {
   try {
-    const result = await executeCommand("swift", ["--version"], { timeout: 5000 });
+    const { swiftPath } = await resolveSwiftPath(toolchain);
+    if (!swiftPath) {
+      return null;
+    }
+    const result = await executeCommand(swiftPath, ["--version"], { timeout: 5000 });
     if (result.exitCode === 0) {
       // Parse the first line of version output
       const firstLine = result.stdout.split("\n")[0];
@@ -0,0 +1,235 @@
+/**
+ * SwiftPM Snippet Packages
+ * Runs snippets that import packages by wrapping them in a generated
+ * executable package. Each dependency set gets its own package directory
+ * under a persistent cache, so resolved checkouts and build products are
+ * reused between runs.
+ */
+
+import { createHash } from "crypto";
+import { rm, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { basename, join, resolve } from "path";
+import { executeCommand } from "../utils/process.js";
+import { ensureDir } from "../utils/tempfile.js";
+import type { SwiftExecutionResult } from "./executor.js";
+import { cleanDiagnostics, notRunResult, runResult, SwiftProgram, writeProgram } from "./program.js";
+import { runInSandbox, SwiftSandboxOptions } from "./sandbox.js";
+
+export interface SwiftDependency {
+  url?: string; // git URL of the package
+  path?: string; // local package directory
+  from?: string; // up to next major from this version
+  exact?: string;
+  branch?: string;
+  revision?: string;
+  products: string[]; // products the snippet imports, e.g. ["Collections"]
+}
+
+export interface SwiftPackageRunOptions {
+  dependencies: SwiftDependency[];
+  timeout: number; // for running the snippet
+  buildTimeout?: number; // for resolving and building, default 10 minutes
+  swiftPath?: string;
+  cacheDir?: string; // default IOS_DEV_MCP_SWIFTPM_CACHE or ~/.ios-dev-mcp/swiftpm
+  args?: string[];
+  stdin?: string;
+  env?: Record<string, string>;
+  sandbox?: SwiftSandboxOptions; // run the product in the sandbox, with Sources as its scratch directory
+  optimize?: boolean; // build the release configuration
+}
+
+const DEFAULT_BUILD_TIMEOUT = 10 * 60 * 1000;
+const TARGET_NAME = "Snippet";
+
+// Runs that share a package directory rewrite the same Sources, so they take turns
+const packageLocks = new Map<string, Promise<unknown>>();
+
+function defaultCacheDir(): string {
+  return process.env.IOS_DEV_MCP_SWIFTPM_CACHE || join(homedir(), ".ios-dev-mcp", "swiftpm");
+}
+
+/**
+ * SwiftPM's identity for a dependency: the last path component, without .git
+ */
+function packageIdentity(dependency: SwiftDependency): string {
+  const location = (dependency.url ?? dependency.path ?? "").replace(/\/+$/, "");
+  return basename(location).replace(/\.git$/, "").toLowerCase();
+}
+
+/**
+ * Check a dependency list, returning a message for the first problem found
+ */
+export function validateDependencies(dependencies: SwiftDependency[]): string | null {
+  for (const dependency of dependencies) {
+    const name = dependency.url ?? dependency.path ?? "(unnamed)";
+    if (!dependency.url === !dependency.path) {
+      return `Dependency ${name}: specify exactly one of url or path`;
+    }
+
+    const requirements = [dependency.from, dependency.exact, dependency.branch, dependency.revision].filter(
+      (value) => value !== undefined
+    );
+    if (dependency.url && requirements.length !== 1) {
+      return `Dependency ${name}: specify exactly one of from, exact, branch or revision`;
+    }
+    if (dependency.path && requirements.length > 0) {
+      return `Dependency ${name}: local path dependencies take no version requirement`;
+    }
+    if (dependency.products.length === 0) {
+      return `Dependency ${name}: list the products to import`;
+    }
+  }
+  return null;
+}
+
+function packageDeclaration(dependency: SwiftDependency): string {
+  if (dependency.path) {
+    return `.package(path: ${JSON.stringify(resolve(dependency.path))})`;
+  }
+
+  const url = JSON.stringify(dependency.url);
+  if (dependency.from) return `.package(url: ${url}, from: ${JSON.stringify(dependency.from)})`;
+  if (dependency.exact) return `.package(url: ${url}, exact: ${JSON.stringify(dependency.exact)})`;
+  if (dependency.branch) return `.package(url: ${url}, branch: ${JSON.stringify(dependency.branch)})`;
+  return `.package(url: ${url}, revision: ${JSON.stringify(dependency.revision)})`;
+}
+
+/**
+ * Generate the Package.swift for a snippet with these dependencies
+ */
+export function generatePackageManifest(dependencies: SwiftDependency[]): string {
+  const packages = dependencies.map((dependency) => `        ${packageDeclaration(dependency)},`);
+  const products = dependencies.flatMap((dependency) =>
+    dependency.products.map(
+      (product) =>
+        `                .product(name: ${JSON.stringify(product)}, package: ${JSON.stringify(packageIdentity(dependency))}),`
+    )
+  );
+
+  return [
+    "// swift-tools-version:5.9",
+    "import PackageDescription",
+    "",
+    "let package = Package(",
+    `    name: "${TARGET_NAME}",`,
+    "    platforms: [.macOS(.v13)],",
+    "    dependencies: [",
+    ...packages,
+    "    ],",
+    "    targets: [",
+    "        .executableTarget(",
+    `            name: "${TARGET_NAME}",`,
+    "            dependencies: [",
+    ...products,
+    "            ],",
+    '            path: "Sources"',
+    "        ),",
+    "    ]",
+    ")",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Directory of the generated package for a dependency set. Local paths are
+ * resolved first so the same package reached by different relative paths
+ * shares a directory.
+ */
+export function packageDirectory(dependencies: SwiftDependency[], cacheDir = defaultCacheDir()): string {
+  const key = createHash("sha256").update(generatePackageManifest(dependencies)).digest("hex").slice(0, 16);
+  return join(cacheDir, "packages", key);
+}
+
+async function withPackageLock<T>(directory: string, fn: () => Promise<T>): Promise<T> {
+  const previous = packageLocks.get(directory) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  packageLocks.set(directory, run);
+  try {
+    return await run;
+  } finally {
+    if (packageLocks.get(directory) === run) {
+      packageLocks.delete(directory);
+    }
+  }
+}
+
+/**
+ * Build the program as an executable package and run it
+ */
+export async function executeSwiftPackage(
+  program: SwiftProgram,
+  options: SwiftPackageRunOptions
+): Promise<SwiftExecutionResult> {
+  const {
+    dependencies,
+    timeout,
+    buildTimeout = DEFAULT_BUILD_TIMEOUT,
+    swiftPath = "swift",
+    cacheDir = defaultCacheDir(),
+    args = [],
+    stdin,
+    env,
+    sandbox,
+    optimize = false,
+  } = options;
+  const configuration = optimize ? "release" : "debug";
+  const startTime = Date.now();
+
+  const invalid = validateDependencies(dependencies);
+  if (invalid) {
+    return notRunResult(invalid, startTime);
+  }
+
+  const directory = packageDirectory(dependencies, cacheDir);
+  return withPackageLock(directory, async () => {
+    const sources = join(directory, "Sources");
+    await rm(sources, { recursive: true, force: true });
+    await ensureDir(sources);
+    await writeFile(join(directory, "Package.swift"), generatePackageManifest(dependencies), "utf-8");
+    await writeProgram(sources, program);
+
+    const scratchPath = join(directory, ".build");
+    const build = await executeCommand(
+      swiftPath,
+      [
+        "build",
+        "--package-path",
+        directory,
+        "--scratch-path",
+        scratchPath,
+        "--cache-path",
+        join(cacheDir, "cache"),
+        "--product",
+        TARGET_NAME,
+        "-c",
+        configuration,
+      ],
+      { timeout: buildTimeout }
+    );
+
+    if (build.timedOut) {
+      return {
+        ...notRunResult(`Building the package timed out after ${buildTimeout / 1000} seconds`, startTime),
+        timedOut: true,
+      };
+    }
+    if (build.exitCode !== 0) {
+      const output = [build.stderr, build.stdout].filter(Boolean).join("\n");
+      return notRunResult("Build failed", startTime, cleanDiagnostics(output, sources, program));
+    }
+
+    const product = join(scratchPath, configuration, TARGET_NAME);
+    if (sandbox) {
+      return runInSandbox(product, args, { scratch: sources, timeout, stdin, env, sandbox }, startTime);
+    }
+
+    const result = await executeCommand(product, args, {
+      cwd: sources,
+      timeout,
+      input: stdin,
+      env,
+    });
+    return runResult(result, startTime, timeout);
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Swift Programs
+ * Source file sets for the executor: validation, writing them to disk with the
+ * main file as main.swift (the only file swiftc allows top-level code in), and
+ * turning compiler and process results into a SwiftExecutionResult.
+ */
+
+import { writeFile } from "fs/promises";
+import { dirname, isAbsolute, join, normalize } from "path";
+import { ProcessResult } from "../utils/process.js";
+import { ensureDir } from "../utils/tempfile.js";
+import type { SwiftExecutionResult } from "./executor.js";
+
+export interface SwiftProgram {
+  files: Record<string, string>; // relative path -> contents
+  mainFile: string; // entry point, one of files
+}
+
+const MAIN_SWIFT = "main.swift";
+
+/**
+ * Check that every file name is a relative path inside the program directory
+ */
+export function validateFileNames(names: string[]): string | null {
+  for (const name of names) {
+    if (isAbsolute(name) || normalize(name).split(/[\\/]/).includes("..")) {
+      return `File name ${name} must be a path inside the program directory`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a program from a single code string or a file map, checking file
+ * names and picking the main file: mainFile, else main.swift, else the only
+ * .swift file
+ */
+export function prepareProgram(
+  source: string | Record<string, string>,
+  mainFile?: string
+): { program?: SwiftProgram; error?: string } {
+  const files = typeof source === "string" ? { [mainFile ?? MAIN_SWIFT]: source } : source;
+  const names = Object.keys(files);
+
+  const invalid = validateFileNames(names);
+  if (invalid) {
+    return { error: invalid };
+  }
+
+  const swiftFiles = names.filter((name) => name.endsWith(".swift"));
+  const main = mainFile ?? (names.includes(MAIN_SWIFT) ? MAIN_SWIFT : swiftFiles.length === 1 ? swiftFiles[0] : undefined);
+  if (!main) {
+    return { error: "Specify mainFile: there is no main.swift and more than one .swift file" };
+  }
+  if (!(main in files) || !main.endsWith(".swift")) {
+    return { error: `Main file ${main} must be one of the .swift files` };
+  }
+  if (main !== MAIN_SWIFT && names.includes(MAIN_SWIFT)) {
+    return { error: `main.swift can only be used as the main file (main file is ${main})` };
+  }
+
+  return { program: { files, mainFile: main } };
+}
+
+/**
+ * Write the program into directory, returning the .swift paths to compile
+ */
+export async function writeProgram(directory: string, program: SwiftProgram): Promise<string[]> {
+  const swiftPaths: string[] = [];
+  for (const [name, contents] of Object.entries(program.files)) {
+    const path = join(directory, name === program.mainFile ? MAIN_SWIFT : name);
+    await ensureDir(dirname(path));
+    await writeFile(path, contents, "utf-8");
+    if (path.endsWith(".swift")) {
+      swiftPaths.push(path);
+    }
+  }
+  return swiftPaths;
+}
+
+/**
+ * Make compiler diagnostics refer to the caller's file names
+ */
+export function cleanDiagnostics(text: string, directory: string, program: SwiftProgram): string {
+  const relative = text.split(`${directory}/`).join("");
+  if (program.mainFile === MAIN_SWIFT) {
+    return relative;
+  }
+  return relative.replace(/(^|[\s(])main\.swift:/gm, `$1${program.mainFile}:`);
+}
+
+/**
+ * Failure before the program ran: invalid input, or compilation failed
+ */
+export function notRunResult(error: string, startTime: number, stderr = ""): SwiftExecutionResult {
+  return {
+    success: false,
+    stdout: "",
+    stderr,
+    exitCode: null,
+    error,
+    executionTime: Date.now() - startTime,
+    timedOut: false,
+  };
+}
+
+/**
+ * Result of running the program (or the interpreter on it)
+ */
+export function runResult(result: ProcessResult, startTime: number, timeout: number): SwiftExecutionResult {
+  const executionTime = Date.now() - startTime;
+
+  if (result.timedOut) {
+    return {
+      success: false,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: null,
+      error: `Execution timed out after ${timeout / 1000} seconds`,
+      executionTime,
+      timedOut: true,
+    };
+  }
+
+  if (result.signal) {
+    return {
+      success: false,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: null,
+      error: `Terminated by ${result.signal}`,
+      executionTime,
+      timedOut: false,
+    };
+  }
+
+  return {
+    success: result.exitCode === 0,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    error: result.exitCode === 0 ? undefined : `Exited with code ${result.exitCode}`,
+    executionTime,
+    timedOut: false,
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * Swift REPL Sessions
+ * Named, long-lived `swift repl` processes, so declarations from one
+ * evaluation are still there in the next. Each evaluation is followed by a
+ * marker printed to stdout and stderr; output up to both markers belongs to
+ * that evaluation.
+ */
+
+import { BackgroundProcess, createBoundedBuffer, DEFAULT_MAX_OUTPUT_SIZE, startCommand } from "../utils/process.js";
+import { clientState } from "../utils/client-scope.js";
+import { getProjectConfig } from "../utils/config.js";
+import { resolveSwiftPath } from "./toolchains.js";
+
+/**
+ * A running REPL process, as seen by the session manager. interrupt() stops
+ * the running evaluation and keeps the process.
+ */
+export type ReplProcess = BackgroundProcess;
+
+export type ReplLauncher = (command: string, args: string[]) => ReplProcess;
+
+export interface ReplSessionInfo {
+  name: string;
+  createdAt: string; // ISO time
+  lastUsedAt: string;
+  evaluations: number;
+  idleTimeout: number; // ms without evaluations before the session is closed
+}
+
+export interface ReplEvalResult {
+  success: boolean;
+  output: string;
+  errors: string;
+  executionTime: number;
+  timedOut: boolean;
+  truncated?: boolean; // set when output exceeded the per-evaluation cap
+  error?: string;
+}
+
+type BoundedBuffer = ReturnType<typeof createBoundedBuffer>;
+
+interface PendingEval {
+  id: number;
+  stdout: BoundedBuffer;
+  stderr: BoundedBuffer;
+  unscanned: { stdout: string; stderr: string }; // stream tails held back until known not to start a marker
+  sawStdoutMarker: boolean;
+  sawStderrMarker: boolean;
+  done: () => void;
+}
+
+interface ReplSession {
+  info: ReplSessionInfo;
+  process: ReplProcess;
+  swiftPath: string;
+  nextEvalId: number;
+  pending: PendingEval | null;
+  queue: Promise<unknown>; // evaluations run one at a time
+  exited: boolean;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export const DEFAULT_REPL_IDLE_TIMEOUT = 15 * 60 * 1000;
+const DEFAULT_EVAL_TIMEOUT = 30000;
+const STARTUP_TIMEOUT = 60000;
+const RESYNC_TIMEOUT = 5000; // wait for the REPL to settle after an interrupt
+const MAX_SESSIONS = 5; // per client
+
+// Prompts such as "  1> " or "  2. " that the REPL may echo
+const PROMPT_PATTERN = /^\s*\d+[>.] ?/gm;
+
+// Sessions by name, one set per client
+const replState = clientState(() => new Map<string, ReplSession>());
+
+/**
+ * Default launcher that starts the REPL through the command runner
+ */
+export const spawnReplLauncher: ReplLauncher = (command, args) =>
+  startCommand(command, args, { env: { TERM: "dumb" } });
+
+let activeLauncher: ReplLauncher = spawnReplLauncher;
+
+/**
+ * Replace the REPL launcher. Pass null to restore the spawning launcher.
+ * Returns the previous launcher so callers can restore it.
+ */
+export function setReplLauncher(launcher: ReplLauncher | null): ReplLauncher {
+  const previous = activeLauncher;
+  activeLauncher = launcher ?? spawnReplLauncher;
+  return previous;
+}
+
+const marker = (id: number) => `__IOS_DEV_MCP_EVAL_${id}__`;
+
+/**
+ * Code that prints this evaluation's marker on both streams. Output is
+ * flushed first, since the REPL's stdout is a pipe and fully buffered. The
+ * marker is concatenated at runtime so an echo of the input never matches.
+ */
+function markerCode(id: number): string {
+  const text = `"__IOS_DEV_MCP_" + "EVAL_${id}__"`;
+  return `print(${text}); _ = fflush(stdout); _ = fputs(${text} + "\\n", stderr)\n`;
+}
+
+function cleanOutput(text: string): string {
+  return text.replace(PROMPT_PATTERN, "").trim();
+}
+
+/**
+ * Route REPL output to the pending evaluation, completing it once both
+ * of its markers arrived. Output from earlier (interrupted) evaluations is
+ * dropped, and each stream keeps at most DEFAULT_MAX_OUTPUT_SIZE characters.
+ */
+function handleOutput(session: ReplSession, chunk: string, stream: "stdout" | "stderr"): void {
+  const pending = session.pending;
+  if (!pending) {
+    return;
+  }
+
+  if (stream === "stdout" ? pending.sawStdoutMarker : pending.sawStderrMarker) {
+    return;
+  }
+  const text = pending.unscanned[stream] + chunk;
+  const expected = marker(pending.id);
+
+  const index = text.indexOf(expected);
+  if (index === -1) {
+    // The end may be the start of a marker split across chunks
+    const held = Math.max(0, text.length - expected.length + 1);
+    pending[stream].push(text.slice(0, held));
+    pending.unscanned[stream] = text.slice(held);
+    return;
+  }
+  pending[stream].push(text.slice(0, index));
+  pending.unscanned[stream] = "";
+  if (stream === "stdout") {
+    pending.sawStdoutMarker = true;
+  } else {
+    pending.sawStderrMarker = true;
+  }
+  if (pending.sawStdoutMarker && pending.sawStderrMarker) {
+    session.pending = null;
+    pending.done();
+  }
+}
+
+/**
+ * Send code followed by a marker and wait for the marker on both streams.
+ * `completed` is false when the timeout passes first.
+ */
+function sendAndWait(
+  session: ReplSession,
+  code: string,
+  timeout: number
+): Promise<{ completed: boolean; stdout: string; stderr: string; truncated: boolean }> {
+  const id = session.nextEvalId++;
+
+  return new Promise((resolve) => {
+    const output = (completed: boolean) => ({
+      completed,
+      stdout: pending.stdout.toString() + pending.unscanned.stdout,
+      stderr: pending.stderr.toString() + pending.unscanned.stderr,
+      truncated: pending.stdout.truncated || pending.stderr.truncated,
+    });
+    const pending: PendingEval = {
+      id,
+      stdout: createBoundedBuffer(DEFAULT_MAX_OUTPUT_SIZE),
+      stderr: createBoundedBuffer(DEFAULT_MAX_OUTPUT_SIZE),
+      unscanned: { stdout: "", stderr: "" },
+      sawStdoutMarker: false,
+      sawStderrMarker: false,
+      done: () => {
+        clearTimeout(timer);
+        resolve(output(true));
+      },
+    };
+    const timer = setTimeout(() => {
+      if (session.pending === pending) {
+        session.pending = null;
+      }
+      resolve(output(false));
+    }, timeout);
+
+    session.pending = pending;
+    session.process.write(code.endsWith("\n") ? code : `${code}\n`);
+    session.process.write(markerCode(id));
+  });
+}
+
+function scheduleIdleClose(session: ReplSession, sessions: Map<string, ReplSession>): void {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    if (sessions.get(session.info.name) === session) {
+      sessions.delete(session.info.name);
+    }
+    stopSession(session);
+  }, session.info.idleTimeout);
+  session.idleTimer.unref();
+}
+
+function stopSession(session: ReplSession): void {
+  clearTimeout(session.idleTimer);
+  if (!session.exited) {
+    session.exited = true;
+    session.process.kill();
+  }
+}
+
+/**
+ * Start a REPL process and wait until it evaluates code
+ */
+async function launchSession(
+  info: ReplSessionInfo,
+  swiftPath: string
+): Promise<{ success: boolean; session?: ReplSession; error?: string }> {
+  let repl: ReplProcess;
+  try {
+    repl = activeLauncher(swiftPath, ["repl"]);
+  } catch (error) {
+    return { success: false, error: `Failed to start ${swiftPath} repl: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const session: ReplSession = {
+    info,
+    process: repl,
+    swiftPath,
+    nextEvalId: 1,
+    pending: null,
+    queue: Promise.resolve(),
+    exited: false,
+  };
+
+  let exitCode: number | null | undefined;
+  repl.onOutput((chunk, stream) => handleOutput(session, chunk, stream));
+  repl.onExit((code) => {
+    exitCode = code;
+    session.exited = true;
+    clearTimeout(session.idleTimer);
+    const pending = session.pending;
+    session.pending = null;
+    pending?.done();
+  });
+
+  // Foundation provides fflush/fputs for the markers on every platform
+  const ready = await sendAndWait(session, "import Foundation", STARTUP_TIMEOUT);
+  if (!ready.completed || session.exited) {
+    stopSession(session);
+    const reason = !session.exited || exitCode === undefined
+      ? "did not start in time"
+      : exitCode === null
+        ? "could not be started"
+        : `exited with code ${exitCode}`;
+    const details = cleanOutput(ready.stderr);
+    return { success: false, error: `${swiftPath} repl ${reason}${details ? `:\n${details}` : ""}` };
+  }
+  return { success: true, session };
+}
+
+/**
+ * Create a named REPL session for the current client
+ */
+export async function createReplSession(
+  name: string,
+  options: { swiftPath?: string; toolchain?: string; idleTimeout?: number } = {}
+): Promise<{ success: boolean; session?: ReplSessionInfo; error?: string }> {
+  const sessions = replState();
+  if (sessions.has(name)) {
+    return { success: false, error: `REPL session "${name}" already exists` };
+  }
+  if (sessions.size >= MAX_SESSIONS) {
+    return {
+      success: false,
+      error: `Too many REPL sessions (${MAX_SESSIONS}). Close one of: ${[...sessions.keys()].join(", ")}`,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const info: ReplSessionInfo = {
+    name,
+    createdAt: now,
+    lastUsedAt: now,
+    evaluations: 0,
+    idleTimeout: options.idleTimeout ?? DEFAULT_REPL_IDLE_TIMEOUT,
+  };
+
+  const resolved = options.swiftPath ? { swiftPath: options.swiftPath } : await resolveSwiftPath(options.toolchain);
+  if (!resolved.swiftPath) {
+    return { success: false, error: resolved.error };
+  }
+
+  const launched = await launchSession(info, resolved.swiftPath);
+  if (!launched.success) {
+    return { success: false, error: launched.error };
+  }
+  // A concurrent create with the same name may have won meanwhile
+  if (sessions.has(name)) {
+    stopSession(launched.session!);
+    return { success: false, error: `REPL session "${name}" already exists` };
+  }
+
+  sessions.set(name, launched.session!);
+  scheduleIdleClose(launched.session!, sessions);
+  return { success: true, session: { ...info } };
+}
+
+/**
+ * Evaluate code in a session. A timeout interrupts only this evaluation;
+ * the session and its earlier declarations are kept.
+ */
+export async function evaluateInReplSession(
+  name: string,
+  code: string,
+  options: { timeout?: number } = {}
+): Promise<ReplEvalResult> {
+  const sessions = replState();
+  const session = sessions.get(name);
+  if (!session) {
+    return {
+      success: false,
+      output: "",
+      errors: "",
+      executionTime: 0,
+      timedOut: false,
+      error: `No REPL session named "${name}". Create one with swift_repl_create.`,
+    };
+  }
+
+  const timeout = options.timeout ?? getProjectConfig().timeouts?.swift ?? DEFAULT_EVAL_TIMEOUT;
+
+  const run = async (): Promise<ReplEvalResult> => {
+    if (session.exited) {
+      sessions.delete(name);
+      return {
+        success: false,
+        output: "",
+        errors: "",
+        executionTime: 0,
+        timedOut: false,
+        error: `REPL session "${name}" exited; create it again to continue`,
+      };
+    }
+
+    const startTime = Date.now();
+    const result = await sendAndWait(session, code, timeout);
+    const executionTime = Date.now() - startTime;
+    const output = cleanOutput(result.stdout);
+    const errors = cleanOutput(result.stderr);
+    const truncated = result.truncated || undefined;
+
+    session.info.evaluations++;
+    session.info.lastUsedAt = new Date().toISOString();
+
+    if (session.exited) {
+      sessions.delete(name);
+      return {
+        success: false,
+        output,
+        errors,
+        executionTime,
+        timedOut: false,
+        error: `REPL session "${name}" exited; create it again to continue`,
+      };
+    }
+    scheduleIdleClose(session, sessions);
+
+    if (!result.completed) {
+      // Interrupt the evaluation, then wait for a fresh marker so its leftover
+      // output doesn't end up in the next evaluation
+      session.process.interrupt();
+      const resync = await sendAndWait(session, "", RESYNC_TIMEOUT);
+      if (!resync.completed) {
+        sessions.delete(name);
+        stopSession(session);
+      }
+      return {
+        success: false,
+        output,
+        errors,
+        executionTime,
+        timedOut: true,
+        truncated,
+        error: resync.completed
+          ? `Evaluation interrupted after ${timeout / 1000} seconds; the session is still available`
+          : `Evaluation timed out after ${timeout / 1000} seconds and the REPL did not recover; session "${name}" was closed`,
+      };
+    }
+
+    const failed = /(^|\n)\s*error:/.test(result.stderr) || /(^|\n)\s*error:/.test(result.stdout);
+    return { success: !failed, output, errors, executionTime, timedOut: false, truncated };
+  };
+
+  const evaluation = session.queue.then(run);
+  session.queue = evaluation.catch(() => {});
+  return evaluation;
+}
+
+/**
+ * Restart a session's REPL, discarding everything declared so far
+ */
+export async function resetReplSession(
+  name: string
+): Promise<{ success: boolean; session?: ReplSessionInfo; error?: string }> {
+  const sessions = replState();
+  const session = sessions.get(name);
+  if (!session) {
+    return { success: false, error: `No REPL session named "${name}"` };
+  }
+
+  sessions.delete(name);
+  await session.queue;
+  stopSession(session);
+
+  const now = new Date().toISOString();
+  const info: ReplSessionInfo = { ...session.info, lastUsedAt: now, evaluations: 0 };
+  const launched = await launchSession(info, session.swiftPath);
+  if (!launched.success) {
+    return { success: false, error: `${launched.error}\nSession "${name}" was closed.` };
+  }
+
+  sessions.set(name, launched.session!);
+  scheduleIdleClose(launched.session!, sessions);
+  return { success: true, session: { ...info } };
+}
+
+/**
+ * Close a session and stop its REPL
+ */
+export function closeReplSession(name: string): { success: boolean; error?: string } {
+  const sessions = replState();
+  const session = sessions.get(name);
+  if (!session) {
+    return { success: false, error: `No REPL session named "${name}"` };
+  }
+  sessions.delete(name);
+  stopSession(session);
+  return { success: true };
+}
+
+/**
+ * Close every session of the current client
+ */
+export function closeAllReplSessions(): void {
+  const sessions = replState();
+  for (const session of sessions.values()) {
+    stopSession(session);
+  }
+  sessions.clear();
+}
+
+/**
+ * The current client's sessions
+ */
+export function listReplSessions(): ReplSessionInfo[] {
+  return [...replState().values()].map((session) => ({ ...session.info }));
+}
@@ -0,0 +1,202 @@
+/**
+ * Swift Sandbox
+ * Runs a compiled snippet under resource limits: CPU time and address space
+ * through ulimit, capped output, a scratch working directory and a scrubbed
+ * environment. Network access is denied with sandbox-exec on macOS and with
+ * a network namespace (`unshare -rn`) on Linux, where either is available.
+ * Only sandbox-exec also confines writes to the scratch directory; elsewhere
+ * the program can write wherever the server can.
+ */
+
+import { existsSync, realpathSync } from "fs";
+import { executeCommand, ProcessResult } from "../utils/process.js";
+import type { SwiftExecutionResult } from "./executor.js";
+import { runResult } from "./program.js";
+
+export interface SwiftSandboxOptions {
+  cpuSeconds?: number; // default 10
+  memoryMB?: number; // address space, default 1024; not enforceable on macOS
+  maxOutputSize?: number; // characters kept per stream, default 1 MB
+  allowNetwork?: boolean; // default false
+}
+
+export type SandboxLimit = "timeout" | "cpu" | "memory" | "output";
+
+export interface SandboxReport {
+  limitHit?: SandboxLimit;
+  cpuSeconds: number;
+  memoryMB?: number; // unset when the platform can't limit address space
+  maxOutputSize: number;
+  networkDenied: boolean;
+  writesConfined: boolean; // writes outside the scratch directory are denied (sandbox-exec only)
+}
+
+export interface SandboxCommand {
+  command: string;
+  args: string[];
+  memoryLimited: boolean;
+  networkDenied: boolean;
+  writesConfined: boolean;
+}
+
+const DEFAULT_CPU_SECONDS = 10;
+const DEFAULT_MEMORY_MB = 1024;
+const DEFAULT_MAX_OUTPUT_SIZE = 1024 * 1024;
+const SANDBOX_EXEC = "/usr/bin/sandbox-exec";
+
+// Timeouts already get their message from runResult
+const LIMIT_ERRORS: Record<Exclude<SandboxLimit, "timeout">, (report: SandboxReport) => string> = {
+  cpu: (report) => `CPU time limit of ${report.cpuSeconds}s exceeded`,
+  memory: (report) => `Memory limit of ${report.memoryMB} MB exceeded`,
+  output: (report) => `Output exceeded ${report.maxOutputSize} characters and was truncated`,
+};
+
+// Whether `unshare -rn` works here; user namespaces are often disabled in containers
+let unshareProbe: Promise<boolean> | null = null;
+
+function canUnshareNetwork(): Promise<boolean> {
+  unshareProbe ??= executeCommand("unshare", ["-rn", "true"], { timeout: 5000, readOnly: true }).then(
+    (result) => result.exitCode === 0,
+    () => false
+  );
+  return unshareProbe;
+}
+
+function sandboxProfile(scratch: string): string {
+  return [
+    "(version 1)",
+    "(allow default)",
+    "(deny network*)",
+    "(deny file-write*)",
+    `(allow file-write* (subpath ${JSON.stringify(scratch)}) (literal "/dev/null") (regex #"^/dev/(fd/|tty)"))`,
+  ].join("\n");
+}
+
+/**
+ * Wrap binary in ulimits and, when requested and possible, network denial
+ */
+export function sandboxCommand(
+  binary: string,
+  args: string[],
+  options: {
+    scratch: string;
+    cpuSeconds: number;
+    memoryMB: number;
+    denyNetwork: boolean;
+    platform: NodeJS.Platform;
+    unshare: boolean; // whether `unshare -rn` works here
+  }
+): SandboxCommand {
+  const memoryLimited = options.platform !== "darwin";
+  // The soft limit sends SIGXCPU; at the hard limit Linux sends SIGKILL instead,
+  // so it sits a second later for programs that handle SIGXCPU
+  const limits = [`ulimit -St ${options.cpuSeconds}`, `ulimit -Ht ${options.cpuSeconds + 1}`];
+  if (memoryLimited) {
+    limits.push(`ulimit -v ${options.memoryMB * 1024}`);
+  }
+  const shell = ["/bin/sh", "-c", `${limits.join("; ")}; exec "$0" "$@"`, binary, ...args];
+
+  if (options.denyNetwork && options.platform === "darwin" && existsSync(SANDBOX_EXEC)) {
+    return {
+      command: SANDBOX_EXEC,
+      args: ["-p", sandboxProfile(options.scratch), ...shell],
+      memoryLimited,
+      networkDenied: true,
+      writesConfined: true,
+    };
+  }
+  if (options.denyNetwork && options.platform === "linux" && options.unshare) {
+    return { command: "unshare", args: ["-rn", ...shell], memoryLimited, networkDenied: true, writesConfined: false };
+  }
+  return { command: shell[0], args: shell.slice(1), memoryLimited, networkDenied: false, writesConfined: false };
+}
+
+/**
+ * Environment for sandboxed programs: nothing inherited from the server
+ */
+export function sandboxEnvironment(scratch: string, env: Record<string, string> = {}): Record<string, string> {
+  return { PATH: "/usr/bin:/bin", HOME: scratch, TMPDIR: scratch, LANG: "en_US.UTF-8", ...env };
+}
+
+function detectLimit(result: ProcessResult, memoryLimited: boolean): SandboxLimit | undefined {
+  // Cancelling and timing out kill the program too; only SIGXCPU comes from the CPU limit
+  if (result.cancelled) return undefined;
+  if (result.timedOut) return "timeout";
+  if (result.signal === "SIGXCPU") return "cpu";
+  if (memoryLimited && result.exitCode !== 0 && /allocate memory|out of memory|Cannot allocate/i.test(result.stderr)) {
+    return "memory";
+  }
+  if (result.truncated) return "output";
+  return undefined;
+}
+
+interface SandboxRunOptions {
+  scratch: string; // working directory, HOME and TMPDIR
+  timeout: number;
+  stdin?: string;
+  env?: Record<string, string>;
+  sandbox: SwiftSandboxOptions;
+}
+
+async function runSandboxed(
+  binary: string,
+  args: string[],
+  options: SandboxRunOptions
+): Promise<{ result: ProcessResult; report: SandboxReport }> {
+  const {
+    cpuSeconds = DEFAULT_CPU_SECONDS,
+    memoryMB = DEFAULT_MEMORY_MB,
+    maxOutputSize = DEFAULT_MAX_OUTPUT_SIZE,
+    allowNetwork = false,
+  } = options.sandbox;
+  const scratch = realpathSync(options.scratch);
+  const denyNetwork = !allowNetwork;
+
+  const wrapped = sandboxCommand(binary, args, {
+    scratch,
+    cpuSeconds,
+    memoryMB,
+    denyNetwork,
+    platform: process.platform,
+    unshare: denyNetwork && process.platform === "linux" && (await canUnshareNetwork()),
+  });
+
+  const result = await executeCommand(wrapped.command, wrapped.args, {
+    cwd: scratch,
+    timeout: options.timeout,
+    input: options.stdin,
+    env: sandboxEnvironment(scratch, options.env),
+    cleanEnv: true,
+    maxOutputSize,
+  });
+
+  return {
+    result,
+    report: {
+      limitHit: detectLimit(result, wrapped.memoryLimited),
+      cpuSeconds,
+      memoryMB: wrapped.memoryLimited ? memoryMB : undefined,
+      maxOutputSize,
+      networkDenied: wrapped.networkDenied,
+      writesConfined: wrapped.writesConfined,
+    },
+  };
+}
+
+/**
+ * Run a compiled program in the sandbox, explaining which limit stopped it
+ */
+export async function runInSandbox(
+  binary: string,
+  args: string[],
+  options: SandboxRunOptions,
+  startTime: number
+): Promise<SwiftExecutionResult> {
+  const { result, report } = await runSandboxed(binary, args, options);
+  const execution = { ...runResult(result, startTime, options.timeout), sandbox: report };
+  if (report.limitHit && report.limitHit !== "timeout") {
+    execution.success = false;
+    execution.error = LIMIT_ERRORS[report.limitHit](report);
+  }
+  return execution;
+}
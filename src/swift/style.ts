@@ -0,0 +1,368 @@
+/**
+ * Swift Style
+ * Lints and autocorrects Swift with swift-format and SwiftLint, using the
+ * project's .swift-format and .swiftlint.yml. Fixes are made on copies first,
+ * so they can be previewed as a unified diff before anything is written.
+ */
+
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { findConfigFile, getProjectConfigPath } from "../utils/config.js";
+import { executeCommand } from "../utils/process.js";
+import { createTempDir } from "../utils/tempfile.js";
+
+export type StyleTool = "swift-format" | "swiftlint";
+
+export interface StyleViolation {
+  file: string;
+  line: number;
+  column?: number;
+  rule: string; // e.g. "line_length" or "Indentation"
+  severity: "error" | "warning";
+  message: string;
+  tool: StyleTool;
+}
+
+export interface StyleTarget {
+  paths?: string[]; // files or directories (searched recursively for .swift files)
+  code?: string; // inline code, instead of paths
+  fileName?: string; // name reported for inline code, default snippet.swift
+}
+
+export interface StyleOptions {
+  tools?: StyleTool[]; // default: every installed tool
+  configDir?: string; // where to start looking for .swift-format and .swiftlint.yml
+  timeout?: number; // per tool run, default 120000
+}
+
+export interface StyleLintResult {
+  success: boolean; // true when the tools ran and found no error-severity violations
+  violations: StyleViolation[];
+  tools: StyleTool[]; // tools that ran
+  configs: Partial<Record<StyleTool, string>>; // config file each tool used
+  error?: string;
+}
+
+export interface StyleFixResult {
+  success: boolean;
+  tools: StyleTool[];
+  configs: Partial<Record<StyleTool, string>>;
+  diff: string; // unified diff of every change, empty when nothing changed
+  changedFiles: string[];
+  written: boolean; // whether the changes were written back to the files
+  formatted?: string; // corrected inline code
+  error?: string;
+}
+
+const STYLE_TOOLS: StyleTool[] = ["swift-format", "swiftlint"];
+const CONFIG_FILES: Record<StyleTool, string> = { "swift-format": ".swift-format", swiftlint: ".swiftlint.yml" };
+const DEFAULT_TIMEOUT = 120000;
+const DEFAULT_FILE_NAME = "snippet.swift";
+
+// "/path/File.swift:3:1: warning: [Indentation] replace leading whitespace with 2 spaces"
+const SWIFT_FORMAT_PATTERN = /^(.+?):(\d+):(\d+): (error|warning): \[(\w+)\] (.+)$/;
+
+interface SwiftLintJson {
+  file: string | null;
+  line: number | null;
+  character: number | null;
+  severity: string; // "Warning" or "Error"
+  rule_id: string;
+  reason: string;
+}
+
+/**
+ * Command that runs a style tool, or null when it isn't installed.
+ * swift-format also ships as `swift format` in Swift 6 toolchains.
+ */
+async function styleToolCommand(tool: StyleTool): Promise<string[] | null> {
+  const candidates = tool === "swiftlint" ? [["swiftlint"]] : [["swift-format"], ["swift", "format"]];
+  for (const command of candidates) {
+    const versionArg = tool === "swiftlint" ? "version" : "--version";
+    const result = await executeCommand(command[0], [...command.slice(1), versionArg], {
+      timeout: 10000,
+      readOnly: true,
+    }).catch(() => null);
+    if (result?.exitCode === 0) {
+      return command;
+    }
+  }
+  return null;
+}
+
+/**
+ * Commands for the requested tools; every installed tool when none are requested
+ */
+async function resolveStyleTools(requested?: StyleTool[]): Promise<{ commands?: Map<StyleTool, string[]>; error?: string }> {
+  const commands = new Map<StyleTool, string[]>();
+  for (const tool of requested ?? STYLE_TOOLS) {
+    const command = await styleToolCommand(tool);
+    if (command) {
+      commands.set(tool, command);
+    } else if (requested) {
+      return { error: `${tool} is not installed` };
+    }
+  }
+  if (commands.size === 0) {
+    return { error: "Neither swift-format nor SwiftLint is installed" };
+  }
+  return { commands };
+}
+
+/**
+ * Every .swift file under the given paths, skipping hidden directories
+ * such as .build and .git. Explicitly named files are always included.
+ */
+export async function collectSwiftFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string) => {
+    for (const entry of (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.name.endsWith(".swift")) {
+        files.push(path);
+      }
+    }
+  };
+
+  for (const path of paths.map((p) => resolve(p))) {
+    if ((await stat(path)).isDirectory()) {
+      await walk(path);
+    } else {
+      files.push(path);
+    }
+  }
+  return [...new Set(files)];
+}
+
+/**
+ * Nearest .swift-format and .swiftlint.yml, searching up from startDir
+ */
+async function findStyleConfigs(startDir: string, tools: StyleTool[]): Promise<Partial<Record<StyleTool, string>>> {
+  const configs: Partial<Record<StyleTool, string>> = {};
+  for (const tool of tools) {
+    const path = await findConfigFile(startDir, CONFIG_FILES[tool]);
+    if (path) {
+      configs[tool] = path;
+    }
+  }
+  return configs;
+}
+
+async function configSearchDir(target: StyleTarget, options: StyleOptions): Promise<string> {
+  if (options.configDir) {
+    return resolve(options.configDir);
+  }
+  if (target.paths?.length) {
+    const first = resolve(target.paths[0]);
+    return (await stat(first)).isDirectory() ? first : dirname(first);
+  }
+  const projectConfig = getProjectConfigPath();
+  return projectConfig ? dirname(projectConfig) : process.cwd();
+}
+
+/**
+ * Parse `swift-format lint` output
+ */
+export function parseSwiftFormatLint(output: string): StyleViolation[] {
+  return output.split("\n").flatMap((line) => {
+    const match = line.trim().match(SWIFT_FORMAT_PATTERN);
+    if (!match) {
+      return [];
+    }
+    const [, file, lineNum, col, severity, rule, message] = match;
+    return [
+      {
+        file,
+        line: parseInt(lineNum, 10),
+        column: parseInt(col, 10),
+        rule,
+        severity: severity as "error" | "warning",
+        message,
+        tool: "swift-format" as const,
+      },
+    ];
+  });
+}
+
+/**
+ * Parse `swiftlint lint --reporter json` output
+ */
+export function parseSwiftLintJson(output: string): StyleViolation[] {
+  const violations: SwiftLintJson[] = JSON.parse(output || "[]");
+  return violations.map((violation) => ({
+    file: violation.file ?? "",
+    line: violation.line ?? 0,
+    column: violation.character ?? undefined,
+    rule: violation.rule_id,
+    severity: violation.severity.toLowerCase() === "error" ? "error" : "warning",
+    message: violation.reason,
+    tool: "swiftlint",
+  }));
+}
+
+/**
+ * Files to operate on: the given paths, or inline code written to a temp dir
+ */
+async function prepareFiles(
+  target: StyleTarget,
+  workDir: string
+): Promise<{ files: string[]; displayName: (file: string) => string }> {
+  if (target.code !== undefined) {
+    const fileName = target.fileName ?? DEFAULT_FILE_NAME;
+    const path = join(workDir, "code", basename(fileName));
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, target.code, "utf-8");
+    return { files: [path], displayName: (file) => (file === path ? fileName : file) };
+  }
+  return { files: await collectSwiftFiles(target.paths ?? []), displayName: (file) => file };
+}
+
+function configArgs(tool: StyleTool, config: string | undefined): string[] {
+  if (!config) {
+    return [];
+  }
+  return tool === "swiftlint" ? ["--config", config] : ["--configuration", config];
+}
+
+/**
+ * Lint files, directories or inline code and return structured violations
+ */
+export async function lintSwift(target: StyleTarget, options: StyleOptions = {}): Promise<StyleLintResult> {
+  const { commands, error } = await resolveStyleTools(options.tools);
+  if (!commands) {
+    return { success: false, violations: [], tools: [], configs: {}, error };
+  }
+  const tools = [...commands.keys()];
+
+  const workDir = await createTempDir();
+  try {
+    const configs = await findStyleConfigs(await configSearchDir(target, options), tools);
+    const { files, displayName } = await prepareFiles(target, workDir);
+    if (files.length === 0) {
+      return { success: true, violations: [], tools, configs };
+    }
+
+    const violations: StyleViolation[] = [];
+    for (const [tool, command] of commands) {
+      const args =
+        tool === "swiftlint"
+          ? ["lint", "--reporter", "json", "--quiet", "--no-cache", ...configArgs(tool, configs[tool]), ...files]
+          : ["lint", ...configArgs(tool, configs[tool]), ...files];
+      const result = await executeCommand(command[0], [...command.slice(1), ...args], {
+        timeout: options.timeout ?? DEFAULT_TIMEOUT,
+        readOnly: true,
+      });
+      if (result.timedOut) {
+        return { success: false, violations, tools, configs, error: `${tool} timed out` };
+      }
+
+      let found: StyleViolation[];
+      try {
+        found =
+          tool === "swiftlint"
+            ? parseSwiftLintJson(result.stdout)
+            : parseSwiftFormatLint([result.stderr, result.stdout].join("\n"));
+      } catch {
+        return { success: false, violations, tools, configs, error: result.stderr || `${tool} output could not be parsed` };
+      }
+      // A nonzero exit with violations just means some were errors; without any, the tool failed
+      if (result.exitCode !== 0 && found.length === 0) {
+        return { success: false, violations, tools, configs, error: result.stderr || `${tool} exited with code ${result.exitCode}` };
+      }
+      violations.push(...found);
+    }
+
+    const named = violations
+      .map((violation) => ({ ...violation, file: displayName(violation.file) }))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+    return { success: !named.some((v) => v.severity === "error"), violations: named, tools, configs };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, violations: [], tools, configs: {}, error: `Failed to lint: ${errorMessage}` };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Autocorrect with swift-format (format) and SwiftLint (--fix), on copies.
+ * Returns the unified diff, and writes the results back when `write` is set.
+ */
+export async function fixSwift(
+  target: StyleTarget,
+  options: StyleOptions & { write?: boolean } = {}
+): Promise<StyleFixResult> {
+  const { commands, error } = await resolveStyleTools(options.tools);
+  const empty = { tools: [], configs: {}, diff: "", changedFiles: [], written: false };
+  if (!commands) {
+    return { ...empty, success: false, error };
+  }
+  const tools = [...commands.keys()];
+
+  const workDir = await createTempDir();
+  try {
+    const configs = await findStyleConfigs(await configSearchDir(target, options), tools);
+    const { files, displayName } = await prepareFiles(target, workDir);
+
+    const copies = files.map((file, index) => join(workDir, "fixed", String(index), basename(file)));
+    for (const [index, file] of files.entries()) {
+      await mkdir(dirname(copies[index]), { recursive: true });
+      await copyFile(file, copies[index]);
+    }
+
+    if (copies.length > 0) {
+      for (const [tool, command] of commands) {
+        const args =
+          tool === "swiftlint"
+            ? ["--fix", "--quiet", "--no-cache", ...configArgs(tool, configs[tool]), ...copies]
+            : ["format", "--in-place", ...configArgs(tool, configs[tool]), ...copies];
+        const result = await executeCommand(command[0], [...command.slice(1), ...args], {
+          timeout: options.timeout ?? DEFAULT_TIMEOUT,
+        });
+        if (result.exitCode !== 0 || result.timedOut) {
+          const reason = result.timedOut ? "timed out" : result.stderr || `exited with code ${result.exitCode}`;
+          return { ...empty, tools, configs, success: false, error: `${tool} ${reason}` };
+        }
+      }
+    }
+
+    const diffs: string[] = [];
+    const changedFiles: string[] = [];
+    for (const [index, file] of files.entries()) {
+      const [original, fixed] = await Promise.all([readFile(file, "utf-8"), readFile(copies[index], "utf-8")]);
+      if (original === fixed) {
+        continue;
+      }
+      const name = displayName(file);
+      changedFiles.push(name);
+      const diff = await executeCommand("diff", ["-u", "--label", `a/${name}`, "--label", `b/${name}`, file, copies[index]], {
+        readOnly: true,
+      });
+      diffs.push(diff.stdout);
+      if (options.write && target.code === undefined) {
+        await writeFile(file, fixed, "utf-8");
+      }
+    }
+
+    return {
+      success: true,
+      tools,
+      configs,
+      diff: diffs.join("\n"),
+      changedFiles,
+      written: !!options.write && target.code === undefined && changedFiles.length > 0,
+      formatted: target.code !== undefined && copies.length > 0 ? await readFile(copies[0], "utf-8") : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { ...empty, tools, success: false, error: `Failed to fix: ${errorMessage}` };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Swift Toolchains
+ * Finds installed toolchains (PATH, the TOOLCHAINS variable, Xcode toolchain
+ * directories and swiftly) and resolves the one a call or project selects.
+ * Without a selection, plain `swift` from PATH is used.
+ */
+
+import { accessSync, constants, existsSync, readdirSync, readFileSync, realpathSync, statSync } from "fs";
+import { homedir } from "os";
+import { basename, dirname, isAbsolute, join } from "path";
+import { getProjectConfig } from "../utils/config.js";
+import { executeCommand } from "../utils/process.js";
+
+export type ToolchainSource = "path" | "toolchains-env" | "xcode" | "swiftly";
+
+export interface SwiftToolchain {
+  id: string; // bundle identifier, swiftly version name, or "default" for PATH
+  name: string;
+  source: ToolchainSource;
+  swiftPath: string;
+  version?: string; // e.g. "5.10.1", from swift --version
+  versionLine?: string; // full first line of swift --version
+}
+
+export interface ToolchainDiscoveryOptions {
+  env?: NodeJS.ProcessEnv;
+  toolchainDirs?: string[]; // default /Library/Developer/Toolchains and ~/Library/Developer/Toolchains
+  versions?: boolean; // run swift --version for each toolchain, default true
+}
+
+function isExecutable(path: string): boolean {
+  try {
+    accessSync(path, constants.X_OK);
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function listDirectories(parent: string): string[] {
+  try {
+    return readdirSync(parent)
+      .map((name) => join(parent, name))
+      .filter((path) => statSync(path).isDirectory());
+  } catch {
+    return [];
+  }
+}
+
+function findOnPath(env: NodeJS.ProcessEnv): string | null {
+  for (const dir of (env.PATH ?? "").split(":").filter(Boolean)) {
+    const candidate = join(dir, "swift");
+    if (isExecutable(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * CFBundleIdentifier from an .xctoolchain's Info.plist, if it is XML
+ */
+function bundleIdentifier(toolchainDir: string): string | null {
+  try {
+    const plist = readFileSync(join(toolchainDir, "Info.plist"), "utf-8");
+    return plist.match(/<key>CFBundleIdentifier<\/key>\s*<string>([^<]+)<\/string>/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run `swift --version` and pull out the version number
+ */
+export async function readToolchainVersion(swiftPath: string): Promise<{ version?: string; versionLine?: string }> {
+  try {
+    const result = await executeCommand(swiftPath, ["--version"], { timeout: 10000, readOnly: true });
+    if (result.exitCode !== 0) {
+      return {};
+    }
+    const versionLine = result.stdout.split("\n").find((line) => /Swift version/.test(line)) ?? result.stdout.split("\n")[0];
+    return { version: versionLine?.match(/Swift version (\S+)/)?.[1], versionLine };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Every toolchain that can be found, deduplicated by the real path of swift
+ */
+export async function discoverToolchains(options: ToolchainDiscoveryOptions = {}): Promise<SwiftToolchain[]> {
+  const {
+    env = process.env,
+    toolchainDirs = ["/Library/Developer/Toolchains", join(homedir(), "Library/Developer/Toolchains")],
+    versions = true,
+  } = options;
+  const found: SwiftToolchain[] = [];
+
+  const onPath = findOnPath(env);
+  if (onPath) {
+    found.push({ id: "default", name: "swift on PATH", source: "path", swiftPath: onPath });
+  }
+
+  // On macOS, TOOLCHAINS names a toolchain that xcrun (and the /usr/bin/swift shim) should use
+  if (env.TOOLCHAINS) {
+    const result = await executeCommand("xcrun", ["--toolchain", env.TOOLCHAINS, "--find", "swift"], {
+      timeout: 10000,
+      readOnly: true,
+    }).catch(() => null);
+    if (result?.exitCode === 0 && result.stdout) {
+      found.push({ id: env.TOOLCHAINS, name: `TOOLCHAINS=${env.TOOLCHAINS}`, source: "toolchains-env", swiftPath: result.stdout });
+    }
+  }
+
+  for (const parent of toolchainDirs) {
+    for (const dir of listDirectories(parent).filter((path) => path.endsWith(".xctoolchain"))) {
+      const swiftPath = join(dir, "usr", "bin", "swift");
+      if (isExecutable(swiftPath)) {
+        const name = basename(dir, ".xctoolchain");
+        found.push({ id: bundleIdentifier(dir) ?? name, name, source: "xcode", swiftPath });
+      }
+    }
+  }
+
+  const swiftlyHome = env.SWIFTLY_HOME_DIR ?? join(homedir(), ".local", "share", "swiftly");
+  for (const dir of listDirectories(join(swiftlyHome, "toolchains"))) {
+    const swiftPath = join(dir, "usr", "bin", "swift");
+    if (isExecutable(swiftPath)) {
+      found.push({ id: basename(dir), name: `swiftly ${basename(dir)}`, source: "swiftly", swiftPath });
+    }
+  }
+
+  const seen = new Set<string>();
+  const toolchains = found.filter((toolchain) => {
+    const real = existsSync(toolchain.swiftPath) ? realpathSync(toolchain.swiftPath) : toolchain.swiftPath;
+    if (seen.has(real)) {
+      return false;
+    }
+    seen.add(real);
+    return true;
+  });
+
+  if (versions) {
+    for (const toolchain of toolchains) {
+      Object.assign(toolchain, await readToolchainVersion(toolchain.swiftPath));
+    }
+  }
+  return toolchains;
+}
+
+function matchesVersion(version: string | undefined, wanted: string): boolean {
+  return !!version && (version === wanted || (version.startsWith(wanted) && /^[.-]/.test(version.slice(wanted.length))));
+}
+
+/**
+ * Resolve a toolchain selector: a path (toolchain directory or swift binary),
+ * an id or name from discovery, or a version such as "5.10" (matching 5.10.x
+ * and 5.10-dev).
+ * Without a selector, the project config's toolchain applies.
+ */
+export async function resolveToolchain(
+  selector: string | undefined,
+  options: ToolchainDiscoveryOptions = {}
+): Promise<{ toolchain?: SwiftToolchain; error?: string }> {
+  const wanted = selector ?? getProjectConfig().toolchain;
+  if (!wanted) {
+    return {};
+  }
+
+  if (wanted.includes("/")) {
+    const candidates = [join(wanted, "usr", "bin", "swift"), join(wanted, "swift"), wanted];
+    const swiftPath = candidates.find(isExecutable);
+    if (!swiftPath) {
+      return { error: `No swift executable at ${wanted}` };
+    }
+    return { toolchain: { id: wanted, name: wanted, source: "path", swiftPath } };
+  }
+
+  // Versions are only read when the selector isn't an id or name
+  const toolchains = await discoverToolchains({ ...options, versions: false });
+  let match = toolchains.find((toolchain) => toolchain.id === wanted || toolchain.name === wanted);
+  if (!match && options.versions !== false) {
+    for (const toolchain of toolchains) {
+      Object.assign(toolchain, await readToolchainVersion(toolchain.swiftPath));
+    }
+    match = toolchains.find((toolchain) => matchesVersion(toolchain.version, wanted));
+  }
+  if (!match) {
+    const available = toolchains.map((toolchain) => toolchain.id).join(", ") || "none found";
+    return { error: `Unknown Swift toolchain "${wanted}" (available: ${available})` };
+  }
+  return { toolchain: match };
+}
+
+/**
+ * swift executable for a selector; plain "swift" when nothing is selected
+ */
+export async function resolveSwiftPath(selector?: string): Promise<{ swiftPath?: string; error?: string }> {
+  const { toolchain, error } = await resolveToolchain(selector);
+  if (error) {
+    return { error };
+  }
+  return { swiftPath: toolchain?.swiftPath ?? "swift" };
+}
+
+/**
+ * Another tool from the same toolchain as swiftPath, e.g. swiftc
+ */
+export function toolchainTool(swiftPath: string, tool: string): string {
+  return isAbsolute(swiftPath) ? join(dirname(swiftPath), tool) : tool;
+}
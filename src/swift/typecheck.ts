@@ -0,0 +1,149 @@
+/**
+ * Swift Typechecking
+ * Validates Swift sources with `swiftc -typecheck` without building or running
+ * them, optionally against an SDK such as the iOS simulator's
+ */
+
+import { rm } from "fs/promises";
+import { BuildError, parseCompilerDiagnostics } from "../diagnostics/error-fixer.js";
+import { executeCommand } from "../utils/process.js";
+import { createTempDir } from "../utils/tempfile.js";
+import { cleanDiagnostics, validateFileNames, writeProgram } from "./program.js";
+import { resolveSwiftPath, toolchainTool } from "./toolchains.js";
+
+export interface SwiftTypecheckOptions {
+  sdk?: string; // SDK name (iphonesimulator, iphoneos, macosx) or path
+  target?: string; // target triple, derived from the SDK when omitted
+  mainFile?: string; // file with top-level code, if it isn't main.swift
+  swiftcPath?: string; // overrides toolchain
+  toolchain?: string; // toolchain id, version or path, default the project config's or swiftc on PATH
+  timeout?: number; // in milliseconds, default 60000
+}
+
+export interface SwiftTypecheckResult {
+  success: boolean; // true when there are no errors (warnings are allowed)
+  diagnostics: BuildError[];
+  sdk?: string; // SDK path the sources were checked against
+  target?: string;
+  notice?: string; // set when the requested SDK wasn't available
+  error?: string; // set when the typecheck could not run
+}
+
+const DEFAULT_TIMEOUT = 60000;
+
+/**
+ * Resolve an SDK name to its path and a matching target triple
+ */
+async function resolveSdk(sdk: string): Promise<{ path?: string; target?: string; error?: string }> {
+  if (sdk.startsWith("/")) {
+    return { path: sdk };
+  }
+
+  const pathResult = await executeCommand("xcrun", ["--sdk", sdk, "--show-sdk-path"], {
+    timeout: 10000,
+    readOnly: true,
+  });
+  if (pathResult.exitCode !== 0 || !pathResult.stdout) {
+    return { error: pathResult.stderr || `xcrun could not find the ${sdk} SDK` };
+  }
+
+  const versionResult = await executeCommand("xcrun", ["--sdk", sdk, "--show-sdk-version"], {
+    timeout: 10000,
+    readOnly: true,
+  });
+  const version = versionResult.exitCode === 0 ? versionResult.stdout : "";
+  const arch = process.arch === "arm64" ? "arm64" : "x86_64";
+
+  let target: string | undefined;
+  if (version && sdk.startsWith("iphonesimulator")) {
+    target = `${arch}-apple-ios${version}-simulator`;
+  } else if (version && sdk.startsWith("iphoneos")) {
+    target = `arm64-apple-ios${version}`;
+  }
+  return { path: pathResult.stdout, target };
+}
+
+/**
+ * Typecheck a single code string or a file map and return its diagnostics
+ */
+export async function typecheckSwift(
+  source: string | Record<string, string>,
+  options: SwiftTypecheckOptions = {}
+): Promise<SwiftTypecheckResult> {
+  const { sdk, mainFile = "main.swift", timeout = DEFAULT_TIMEOUT } = options;
+  const files = typeof source === "string" ? { [mainFile]: source } : source;
+
+  const invalid = validateFileNames(Object.keys(files));
+  if (invalid) {
+    return { success: false, diagnostics: [], error: invalid };
+  }
+
+  let swiftcPath = options.swiftcPath;
+  if (!swiftcPath) {
+    const resolved = await resolveSwiftPath(options.toolchain);
+    if (!resolved.swiftPath) {
+      return { success: false, diagnostics: [], error: resolved.error };
+    }
+    swiftcPath = toolchainTool(resolved.swiftPath, "swiftc");
+  }
+
+  let sdkPath: string | undefined;
+  let target = options.target;
+  let notice: string | undefined;
+  if (sdk) {
+    const resolved = await resolveSdk(sdk);
+    if (resolved.path) {
+      sdkPath = resolved.path;
+      target ??= resolved.target;
+    } else {
+      notice = `The ${sdk} SDK is not available (${resolved.error}); checked against the host SDK instead.`;
+    }
+  }
+
+  const program = { files, mainFile };
+  const tempDir = await createTempDir();
+  try {
+    const swiftPaths = await writeProgram(tempDir, program);
+    if (swiftPaths.length === 0) {
+      return { success: false, diagnostics: [], error: "No .swift files to typecheck" };
+    }
+
+    // @main types, or several files without a main file, need library mode
+    const hasMain = mainFile in files;
+    const hasMainAttribute = Object.values(files).some((contents) => /^\s*@main\b/m.test(contents));
+    const args = ["-typecheck", "-diagnostic-style=llvm"];
+    if (hasMainAttribute || (!hasMain && swiftPaths.length > 1)) {
+      args.push("-parse-as-library");
+    }
+    if (sdkPath) {
+      args.push("-sdk", sdkPath);
+    }
+    if (target) {
+      args.push("-target", target);
+    }
+    args.push(...swiftPaths);
+
+    const result = await executeCommand(swiftcPath, args, { cwd: tempDir, timeout, readOnly: true });
+    if (result.timedOut) {
+      return { success: false, diagnostics: [], sdk: sdkPath, target, notice, error: "Typecheck timed out" };
+    }
+
+    const output = cleanDiagnostics([result.stderr, result.stdout].filter(Boolean).join("\n"), tempDir, program);
+    const diagnostics = parseCompilerDiagnostics(output);
+    const failedWithoutDiagnostics = result.exitCode !== 0 && !diagnostics.some((d) => d.severity === "error");
+
+    return {
+      success: result.exitCode === 0,
+      diagnostics,
+      sdk: sdkPath,
+      target,
+      notice,
+      error: failedWithoutDiagnostics ? output || `swiftc exited with code ${result.exitCode}` : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, diagnostics: [], error: `Failed to typecheck: ${errorMessage}` };
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
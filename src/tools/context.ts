@@ -0,0 +1,39 @@
+/**
+ * Context Tools
+ * CLAUDE.md generation
+ */
+
+import { z } from "zod";
+import { writeClaudeMd } from "../context/claude-md.js";
+import { defineTool } from "./registry.js";
+
+export const generateClaudeMdTool = defineTool({
+  name: "generate_claude_md",
+  description:
+    "Generate a CLAUDE.md context file for an iOS project. This file helps Claude understand your project structure, build configuration, and common commands.",
+  dryRun: false,
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    outputPath: z.string().optional().describe("Where to save CLAUDE.md (default: project directory)"),
+  }),
+  handler: async (args) => {
+    const { projectPath, outputPath } = args;
+
+    const result = await writeClaudeMd({ projectPath, outputPath });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to generate CLAUDE.md: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `CLAUDE.md generated at: ${result.path}\n\nThis file provides context about your iOS project for Claude.` }],
+    };
+  },
+});
+
+export const contextTools = [
+  generateClaudeMdTool,
+];
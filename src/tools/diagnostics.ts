@@ -0,0 +1,82 @@
+/**
+ * Diagnostics Tools
+ * Build error analysis and fix tracking
+ */
+
+import { z } from "zod";
+import { parseBuildErrors, analyzeErrors, getSessionStats } from "../diagnostics/error-fixer.js";
+import { defineTool } from "./registry.js";
+
+export const analyzeBuildErrorsTool = defineTool({
+  name: "analyze_build_errors",
+  description:
+    "Analyze build errors and suggest fixes. Tracks recurring issues to prevent debugging loops. Use this after a build failure to get smart fix suggestions.",
+  schema: z.object({
+    buildOutput: z.string().describe("The raw build output containing errors"),
+  }),
+  handler: async (args) => {
+    const { buildOutput } = args;
+
+    const errors = parseBuildErrors(buildOutput);
+
+    if (errors.length === 0) {
+      return {
+        content: [{ type: "text", text: "No errors found in build output." }],
+      };
+    }
+
+    const analysis = analyzeErrors(errors);
+
+    let output = analysis.summary + "\n\nDetailed Fixes:\n";
+
+    for (const { error, suggestions } of analysis.fixes.slice(0, 5)) {
+      output += `\n--- ${error.file}:${error.line} ---\n`;
+      output += `Error: ${error.message}\n`;
+      for (const fix of suggestions) {
+        output += `\n[${fix.confidence}] ${fix.description}\n`;
+        output += `${fix.explanation}\n`;
+      }
+    }
+
+    if (analysis.recurringIssues.length > 0) {
+      output += "\n\n⚠️ RECURRING ISSUES - Consider changing approach:\n";
+      for (const issue of analysis.recurringIssues) {
+        output += `- ${issue.errorType}: seen ${issue.count} times\n`;
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const getErrorStatsTool = defineTool({
+  name: "get_error_stats",
+  description:
+    "Get statistics about errors encountered in this session. Helps identify patterns and recurring issues.",
+  schema: z.object({}),
+  handler: async () => {
+    const stats = getSessionStats();
+
+    const output = [
+      "Session Error Statistics:",
+      "",
+      `Total errors encountered: ${stats.totalErrors}`,
+      `Resolved: ${stats.resolvedErrors}`,
+      `Recurring issues: ${stats.recurringErrors}`,
+      "",
+      "Top Issue Types:",
+      ...stats.topIssueTypes.map(t => `  - ${t.type}: ${t.count}`),
+    ].join("\n");
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const diagnosticsTools = [
+  analyzeBuildErrorsTool,
+  getErrorStatsTool,
+];
@@ -0,0 +1,50 @@
+/**
+ * Inline Screenshots
+ * Shared options and content blocks for tools that return a screenshot
+ */
+
+import { z } from "zod";
+import { encodeImage } from "../utils/image.js";
+import { ImageContent, TextContent } from "./registry.js";
+
+/**
+ * Schema fields for tools that can inline their screenshot
+ */
+export const inlineImageOptions = {
+  inlineImage: z.boolean().optional().describe("Return the screenshot as an image content block as well as its path (default: true)"),
+  imageMaxDimension: z.number().int().positive().optional().describe("Downscale the inline image so its longest side is at most this many pixels"),
+  imageFormat: z.enum(["png", "jpeg"]).optional().describe("Inline image format (default: png, re-encoded as jpeg if it exceeds imageMaxBytes)"),
+  imageMaxBytes: z.number().int().positive().optional().describe("Size budget for the inline image in bytes (default: 1048576)"),
+};
+
+export interface InlineImageArgs {
+  inlineImage?: boolean;
+  imageMaxDimension?: number;
+  imageFormat?: "png" | "jpeg";
+  imageMaxBytes?: number;
+}
+
+/**
+ * Content blocks for a screenshot: the image itself, or a note when it
+ * could not be inlined. Empty when inlining is turned off.
+ */
+export async function screenshotContent(
+  path: string | undefined,
+  args: InlineImageArgs
+): Promise<Array<TextContent | ImageContent>> {
+  if (!path || args.inlineImage === false) {
+    return [];
+  }
+
+  const result = await encodeImage(path, {
+    maxDimension: args.imageMaxDimension,
+    format: args.imageFormat,
+    maxBytes: args.imageMaxBytes,
+  });
+
+  if (!result.success || !result.image) {
+    return [{ type: "text", text: `(Screenshot not inlined: ${result.error})` }];
+  }
+
+  return [{ type: "image", data: result.image.data, mimeType: result.image.mimeType }];
+}
@@ -0,0 +1,73 @@
+/**
+ * Tool Definitions
+ * Every tool the server exposes, in ListTools order
+ */
+
+import { createToolRegistry, RegisteredTool } from "./registry.js";
+import { resolveToolProfile } from "./profiles.js";
+import { getProjectConfig, ProjectConfig, toolArgumentDefaults } from "../utils/config.js";
+import { swiftTools } from "./swift.js";
+import { xcodeTools } from "./xcode.js";
+import { spmTools } from "./spm.js";
+import { simulatorTools } from "./simulator.js";
+import { workflowTools } from "./workflow.js";
+import { uiTools } from "./ui.js";
+import { diagnosticsTools } from "./diagnostics.js";
+import { webTools } from "./web.js";
+import { contextTools } from "./context.js";
+import { systemTools } from "./system.js";
+
+const groups: Record<string, RegisteredTool[]> = {
+  swift: swiftTools,
+  xcode: xcodeTools,
+  spm: spmTools,
+  simulator: simulatorTools,
+  workflow: workflowTools,
+  ui: uiTools,
+  diagnostics: diagnosticsTools,
+  web: webTools,
+  context: contextTools,
+  system: systemTools,
+};
+
+export const allTools: RegisteredTool[] = Object.values(groups).flat();
+
+/**
+ * Tool names per group, for tool profiles
+ */
+export const toolGroups: Record<string, string[]> = Object.fromEntries(
+  Object.entries(groups).map(([group, tools]) => [group, tools.map((tool) => tool.name)])
+);
+
+type ActiveProfile = { success: boolean; enabled?: Set<string>; error?: string };
+
+// Resolved once per loaded config
+let resolvedProfile: { config: ProjectConfig; result: ActiveProfile } | null = null;
+
+/**
+ * Resolve the active profile from the project config. Without a profile
+ * every tool is enabled.
+ */
+export function activeToolProfile(): ActiveProfile {
+  const config = getProjectConfig();
+  if (resolvedProfile?.config === config) {
+    return resolvedProfile.result;
+  }
+
+  const profile = config.profile ? config.profiles?.[config.profile] : undefined;
+  let result: ActiveProfile;
+  if (!profile) {
+    result = { success: true, enabled: new Set(allTools.map((tool) => tool.name)) };
+  } else {
+    const resolved = resolveToolProfile(profile, toolGroups);
+    result = resolved.success ? resolved : { success: false, error: `Profile "${config.profile}": ${resolved.error}` };
+  }
+  resolvedProfile = { config, result };
+  return result;
+}
+
+export const toolRegistry = createToolRegistry(allTools, {
+  defaults: () => toolArgumentDefaults(),
+  isEnabled: (name) => activeToolProfile().enabled?.has(name) ?? false,
+  dryRun: true,
+});
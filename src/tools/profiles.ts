@@ -0,0 +1,43 @@
+/**
+ * Tool Profiles
+ * Named subsets of tools, configured in .ios-dev-mcp.json
+ */
+
+import { ToolProfile } from "../utils/config.js";
+
+/**
+ * Resolve a profile to the set of enabled tool names. Profile entries may
+ * name a tool group (e.g. "ui") or a single tool (e.g. "ui_tap").
+ */
+export function resolveToolProfile(
+  profile: ToolProfile,
+  groups: Record<string, string[]>
+): { success: boolean; enabled?: Set<string>; error?: string } {
+  const allNames = Object.values(groups).flat();
+  const unknown: string[] = [];
+
+  const expand = (entries: string[]) =>
+    entries.flatMap((entry) => {
+      if (groups[entry]) {
+        return groups[entry];
+      }
+      if (allNames.includes(entry)) {
+        return [entry];
+      }
+      unknown.push(entry);
+      return [];
+    });
+
+  const enabled = new Set(profile.include ? expand(profile.include) : allNames);
+  for (const name of expand(profile.exclude ?? [])) {
+    enabled.delete(name);
+  }
+
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `Unknown tool groups or tools: ${unknown.join(", ")}. Groups: ${Object.keys(groups).join(", ")}`,
+    };
+  }
+  return { success: true, enabled };
+}
@@ -0,0 +1,246 @@
+/**
+ * Tool Registry
+ * Tools are defined once as a zod schema plus handler. The registry derives
+ * the JSON Schema advertised in ListTools and validates arguments before a
+ * handler runs, so handlers receive typed, checked input.
+ */
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { dryRun, formatPlan, isDryRunCall } from "../utils/dry-run.js";
+
+/**
+ * Per-call context passed from the MCP request to tool handlers
+ */
+export interface ToolContext {
+  onProgress?: (event: { message: string }) => void; // xcodebuild progress, queue position, ...
+  signal?: AbortSignal; // aborted when the client sends notifications/cancelled
+}
+
+export type TextContent = { type: "text"; text: string };
+export type ImageContent = { type: "image"; data: string; mimeType: string }; // base64 data
+
+// A type alias (not an interface) so it is assignable to the SDK's CallToolResult
+export type ToolResponse = {
+  content: Array<TextContent | ImageContent>;
+  isError?: boolean;
+};
+
+export interface ToolDefinition<Schema extends z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: Schema;
+  handler: (args: z.infer<Schema>, context: ToolContext) => Promise<ToolResponse>;
+  dryRun?: boolean; // false for tools with side effects outside executeCommand (file writes, long-lived processes)
+}
+
+/**
+ * A tool with its argument type erased, ready to be registered
+ */
+export interface RegisteredTool {
+  name: string;
+  description: string;
+  schema: z.AnyZodObject;
+  execute: (args: unknown, context: ToolContext) => Promise<ToolResponse>;
+  dryRun?: boolean;
+}
+
+export interface ToolRegistryOptions {
+  defaults?: () => Record<string, unknown>; // argument defaults, applied under explicit arguments
+  isEnabled?: (name: string) => boolean; // disabled tools are hidden from list() and refused by call()
+  dryRun?: boolean; // advertise and honor the dryRun argument
+}
+
+export interface ToolRegistry {
+  list(): Tool[];
+  has(name: string): boolean;
+  call(name: string, args: unknown, context?: ToolContext): Promise<ToolResponse>;
+  argumentsFor(name: string, args: Record<string, unknown>): Record<string, unknown>; // args with defaults applied, as call() sees them
+}
+
+/**
+ * Define a tool. Arguments are validated against `schema` (applying defaults)
+ * before `handler` runs; invalid input returns field-level errors instead.
+ */
+export function defineTool<Schema extends z.AnyZodObject>(
+  definition: ToolDefinition<Schema>
+): RegisteredTool {
+  const { name, description, schema, handler, dryRun } = definition;
+
+  return {
+    name,
+    description,
+    schema,
+    dryRun,
+    execute: async (args, context) => {
+      const parsed = schema.safeParse(args ?? {});
+      if (!parsed.success) {
+        return invalidArgumentsResponse(name, parsed.error);
+      }
+      return handler(parsed.data, context);
+    },
+  };
+}
+
+/**
+ * Format validation issues as one line per field
+ */
+export function formatValidationErrors(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const field = issue.path.length > 0 ? issue.path.join(".") : "(arguments)";
+    return `${field}: ${issue.message}`;
+  });
+}
+
+function invalidArgumentsResponse(name: string, error: z.ZodError): ToolResponse {
+  const lines = formatValidationErrors(error).map((line) => `  - ${line}`);
+  return {
+    content: [{ type: "text", text: `Invalid arguments for ${name}:\n${lines.join("\n")}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Response for a tool call the client cancelled
+ */
+export function cancelledResponse(operation: string): ToolResponse {
+  return {
+    content: [{ type: "text", text: `${operation} cancelled.` }],
+    isError: true,
+  };
+}
+
+/**
+ * JSON Schema for a tool's arguments, as advertised to clients
+ */
+export function toInputSchema(schema: z.AnyZodObject): Tool["inputSchema"] {
+  // Inline everything ($ref-free) and leave additionalProperties open, since
+  // unknown arguments are stripped rather than rejected
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    removeAdditionalStrategy: "strict",
+    allowedAdditionalProperties: undefined,
+  }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+
+  return { ...jsonSchema, type: "object" } as Tool["inputSchema"];
+}
+
+/**
+ * Advertise defaults in a tool's JSON Schema; defaulted arguments are no
+ * longer required
+ */
+function withDefaults(inputSchema: Tool["inputSchema"], defaults: Record<string, unknown>): Tool["inputSchema"] {
+  const properties = { ...(inputSchema.properties ?? {}) } as Record<string, Record<string, unknown>>;
+  const defaulted = Object.keys(defaults).filter((key) => key in properties);
+  if (defaulted.length === 0) {
+    return inputSchema;
+  }
+
+  for (const key of defaulted) {
+    properties[key] = { ...properties[key], default: defaults[key] };
+  }
+  const schema: Tool["inputSchema"] = { ...inputSchema, properties };
+  const required = (inputSchema.required ?? []).filter((key) => !defaulted.includes(key));
+  if (required.length > 0) {
+    schema.required = required;
+  } else {
+    delete schema.required;
+  }
+  return schema;
+}
+
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description: "Return the commands this call would run instead of running them",
+};
+
+/**
+ * Merge defaults for the tool's own arguments under the explicit ones
+ */
+function applyDefaults(schema: z.AnyZodObject, args: unknown, defaults: Record<string, unknown>): unknown {
+  if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+    return args;
+  }
+
+  const merged: Record<string, unknown> = {};
+  for (const key of Object.keys(schema.shape)) {
+    if (key in defaults) {
+      merged[key] = defaults[key];
+    }
+  }
+  for (const [key, value] of Object.entries(args ?? {})) {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build a registry from tool definitions. Names must be unique.
+ */
+export function createToolRegistry(tools: RegisteredTool[], options: ToolRegistryOptions = {}): ToolRegistry {
+  const isEnabled = options.isEnabled ?? (() => true);
+
+  const byName = new Map<string, RegisteredTool>();
+  for (const tool of tools) {
+    if (byName.has(tool.name)) {
+      throw new Error(`Duplicate tool definition: ${tool.name}`);
+    }
+    byName.set(tool.name, tool);
+  }
+
+  const listing: Tool[] = tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool.schema),
+  }));
+
+  return {
+    list: () => {
+      const defaults = options.defaults?.() ?? {};
+      return listing
+        .filter((tool) => isEnabled(tool.name))
+        .map((tool) => {
+          const inputSchema = { ...withDefaults(tool.inputSchema, defaults) };
+          if (options.dryRun && byName.get(tool.name)!.dryRun !== false) {
+            inputSchema.properties = { ...inputSchema.properties, dryRun: DRY_RUN_PROPERTY };
+          }
+          return { ...tool, inputSchema };
+        });
+    },
+    has: (name) => byName.has(name),
+    argumentsFor: (name, args) => {
+      const tool = byName.get(name);
+      return tool ? (applyDefaults(tool.schema, args, options.defaults?.() ?? {}) as Record<string, unknown>) : args;
+    },
+    call: async (name, args, context = {}) => {
+      const tool = byName.get(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      if (!isEnabled(name)) {
+        return {
+          content: [{ type: "text", text: `Tool ${name} is disabled by the active tool profile.` }],
+          isError: true,
+        };
+      }
+      const merged = applyDefaults(tool.schema, args, options.defaults?.() ?? {});
+      if (!options.dryRun || !isDryRunCall(args)) {
+        return tool.execute(merged, context);
+      }
+
+      if (tool.dryRun === false) {
+        return {
+          content: [{ type: "text", text: `Tool ${name} can't run as a dry run: it has side effects outside the commands it runs.` }],
+          isError: true,
+        };
+      }
+      // The plan comes first so the (simulated) result isn't mistaken for a real one
+      const { value, plan } = await dryRun(() => tool.execute(merged, context));
+      return { ...value, content: [{ type: "text", text: formatPlan(plan) }, ...value.content] };
+    },
+  };
+}
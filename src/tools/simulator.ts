@@ -0,0 +1,826 @@
+/**
+ * Simulator Tools
+ * Simulator lifecycle, apps, recording, push and environment
+ */
+
+import { z } from "zod";
+import {
+  listSimulators,
+  findSimulator,
+  bootSimulator,
+  shutdownSimulator,
+  getBootedSimulator,
+  installApp,
+  uninstallApp,
+  launchApp,
+  terminateApp,
+  takeScreenshot,
+  getAppContainer,
+  openUrl,
+  getLogs,
+  listApps,
+} from "../simulator/controller.js";
+import {
+  startRecording,
+  stopRecording,
+  sendSimplePush,
+  setNetworkCondition,
+  setLocation,
+  setNamedLocation,
+  triggerMemoryWarning,
+  simulateBiometric,
+} from "../simulator/advanced.js";
+import { defineTool } from "./registry.js";
+import { inlineImageOptions, screenshotContent } from "./images.js";
+
+export const simulatorListTool = defineTool({
+  name: "simulator_list",
+  description: "List all available iOS simulators with their states and runtimes.",
+  schema: z.object({
+    onlyBooted: z.boolean().optional().describe("Only return booted simulators"),
+    onlyAvailable: z.boolean().optional().describe("Only return available simulators"),
+  }),
+  handler: async (args) => {
+    const { onlyBooted, onlyAvailable } = args;
+
+    const result = await listSimulators();
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to list simulators: ${result.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let devices = result.devices;
+    if (onlyBooted) {
+      devices = devices.filter((d) => d.state === "Booted");
+    }
+    if (onlyAvailable) {
+      devices = devices.filter((d) => d.isAvailable);
+    }
+
+    if (devices.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No simulators found matching the criteria",
+          },
+        ],
+      };
+    }
+
+    const output = devices
+      .map((d) => `${d.name} (${d.state}) - ${d.runtime}\n  UDID: ${d.udid}`)
+      .join("\n\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${devices.length} simulator(s):\n\n${output}`,
+        },
+      ],
+    };
+  },
+});
+
+export const simulatorBootTool = defineTool({
+  name: "simulator_boot",
+  description: "Boot an iOS simulator. Can specify by UDID or by device name.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (takes precedence over deviceName)"),
+    deviceName: z.string().optional().describe("Device name (e.g., 'iPhone 15 Pro')"),
+    osVersion: z.string().optional().describe("iOS version (e.g., '17.2') - used with deviceName"),
+  }),
+  handler: async (args) => {
+    let udid = args.udid;
+    const { deviceName, osVersion } = args;
+
+    if (!udid && !deviceName) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Either 'udid' or 'deviceName' is required",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Find by name if UDID not provided
+    if (!udid && deviceName) {
+      const device = await findSimulator(deviceName, osVersion);
+      if (!device) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Simulator not found: ${deviceName}${osVersion ? ` (iOS ${osVersion})` : ""}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = device.udid;
+    }
+
+    const result = await bootSimulator(udid!);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorShutdownTool = defineTool({
+  name: "simulator_shutdown",
+  description: "Shutdown an iOS simulator.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (if not provided, shuts down booted simulator)"),
+  }),
+  handler: async (args) => {
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await shutdownSimulator(udid);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorInstallAppTool = defineTool({
+  name: "simulator_install_app",
+  description: "Install an app bundle (.app) on an iOS simulator.",
+  schema: z.object({
+    appPath: z.string().describe("Path to .app bundle"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { appPath } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Boot a simulator first or provide a UDID.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await installApp(udid, appPath);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorUninstallAppTool = defineTool({
+  name: "simulator_uninstall_app",
+  description: "Uninstall an app from an iOS simulator.",
+  schema: z.object({
+    bundleId: z.string().describe("App bundle identifier"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { bundleId } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Boot a simulator first or provide a UDID.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await uninstallApp(udid, bundleId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorLaunchAppTool = defineTool({
+  name: "simulator_launch_app",
+  description: "Launch an installed app on an iOS simulator.",
+  schema: z.object({
+    bundleId: z.string().describe("App bundle identifier"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+    args: z.array(z.string()).optional().describe("Command-line arguments to pass to the app"),
+  }),
+  handler: async (args) => {
+    const { bundleId } = args;
+    let udid = args.udid;
+    const appArgs = args.args;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Boot a simulator first or provide a UDID.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await launchApp(udid, bundleId, appArgs);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success
+            ? `${result.message}${result.pid ? ` (PID: ${result.pid})` : ""}`
+            : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorTerminateAppTool = defineTool({
+  name: "simulator_terminate_app",
+  description: "Terminate a running app on an iOS simulator.",
+  schema: z.object({
+    bundleId: z.string().describe("App bundle identifier"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { bundleId } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await terminateApp(udid, bundleId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorScreenshotTool = defineTool({
+  name: "simulator_screenshot",
+  description: "Take a screenshot of an iOS simulator.",
+  schema: z.object({
+    outputPath: z.string().optional().describe("Where to save the screenshot (PNG format)"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+    ...inlineImageOptions,
+  }),
+  handler: async (args) => {
+    const { outputPath } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Boot a simulator first or provide a UDID.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await takeScreenshot(udid, outputPath);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Screenshot saved to: ${result.path}`,
+        },
+        ...(await screenshotContent(result.path, args)),
+      ],
+    };
+  },
+});
+
+export const simulatorOpenUrlTool = defineTool({
+  name: "simulator_open_url",
+  description: "Open a URL in an iOS simulator (deep link or web URL).",
+  schema: z.object({
+    url: z.string().describe("URL to open"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { url } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Boot a simulator first or provide a UDID.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await openUrl(udid, url);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success ? result.message : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorGetAppContainerTool = defineTool({
+  name: "simulator_get_app_container",
+  description: "Get the container path for an installed app.",
+  schema: z.object({
+    bundleId: z.string().describe("App bundle identifier"),
+    containerType: z.enum(["app", "data", "groups"]).optional().describe("Container type"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { bundleId, containerType = "app" } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await getAppContainer(udid, bundleId, containerType);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success
+            ? `${containerType} container: ${result.path}`
+            : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorGetLogsTool = defineTool({
+  name: "simulator_get_logs",
+  description: "Get recent logs from an iOS simulator, optionally filtered by app.",
+  schema: z.object({
+    bundleId: z.string().optional().describe("Filter logs by app bundle identifier"),
+    predicate: z.string().optional().describe("Custom predicate for log filtering"),
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+  }),
+  handler: async (args) => {
+    const { bundleId, predicate } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await getLogs(udid, { bundleId, predicate });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.success
+            ? result.logs || "(no logs found)"
+            : `Failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+export const simulatorListAppsTool = defineTool({
+  name: "simulator_list_apps",
+  description:
+    "List all installed applications on an iOS simulator. Returns bundle IDs, app names, and versions. By default only shows user-installed apps (not system apps like Safari, Settings, etc.).",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (if not provided, uses booted simulator)"),
+    includeSystem: z.boolean().optional().describe("Include system apps (Safari, Settings, etc.). Defaults to false."),
+  }),
+  handler: async (args) => {
+    const { includeSystem } = args;
+    let udid = args.udid;
+
+    if (!udid) {
+      const booted = await getBootedSimulator();
+      if (!booted) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No booted simulator found. Please boot a simulator first.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      udid = booted.udid;
+    }
+
+    const result = await listApps(udid, { includeSystem });
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to list apps: ${result.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const userApps = result.userApps || [];
+    const systemApps = result.systemApps || [];
+
+    let output = `Installed Apps on Simulator:\n\n`;
+
+    if (userApps.length > 0) {
+      output += `User Apps (${userApps.length}):\n`;
+      for (const app of userApps) {
+        output += `  - ${app.name} (${app.bundleId}) v${app.version}\n`;
+      }
+    } else {
+      output += `No user apps installed.\n`;
+    }
+
+    if (includeSystem && systemApps.length > 0) {
+      output += `\nSystem Apps (${systemApps.length}):\n`;
+      for (const app of systemApps) {
+        output += `  - ${app.name} (${app.bundleId})\n`;
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+      isError: false,
+    };
+  },
+});
+
+export const simulatorStartRecordingTool = defineTool({
+  name: "simulator_start_recording",
+  description:
+    "Start recording video of the simulator screen. Useful for capturing UI interactions and debugging.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+    outputPath: z.string().optional().describe("Where to save the video (optional, defaults to temp directory)"),
+  }),
+  handler: async (args) => {
+    const { udid, outputPath } = args;
+
+    const result = await startRecording({ udid, outputPath });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to start recording: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Recording started. Output will be saved to: ${result.outputPath}\n\nUse simulator_stop_recording when done.` }],
+    };
+  },
+});
+
+export const simulatorStopRecordingTool = defineTool({
+  name: "simulator_stop_recording",
+  description: "Stop the current video recording and save the file.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { udid } = args;
+
+    const result = await stopRecording({ udid });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to stop recording: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Recording saved to: ${result.outputPath}\nDuration: ${result.duration?.toFixed(1)}s` }],
+    };
+  },
+});
+
+export const sendPushTool = defineTool({
+  name: "send_push",
+  description:
+    "Send a push notification to an app in the simulator. Great for testing notification handling.",
+  schema: z.object({
+    bundleId: z.string().describe("App bundle identifier"),
+    title: z.string().describe("Notification title"),
+    body: z.string().describe("Notification body text"),
+    badge: z.number().optional().describe("Badge number (optional)"),
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { bundleId, title, body, badge, udid } = args;
+
+    const result = await sendSimplePush(bundleId, title, body, { udid, badge });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to send push: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Push notification sent to ${bundleId}:\n"${title}"\n${body}` }],
+    };
+  },
+});
+
+export const setNetworkConditionTool = defineTool({
+  name: "set_network_condition",
+  description:
+    "Simulate different network conditions (3G, LTE, WiFi, bad network, etc.). Useful for testing offline behavior and network error handling.",
+  schema: z.object({
+    condition: z.enum(["100% Loss", "3G", "DSL", "Edge", "High Latency DNS", "LTE", "Very Bad Network", "WiFi", "WiFi 802.11ac", "reset"]).describe("Network condition to simulate"),
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { condition, udid } = args;
+
+    const result = await setNetworkCondition(condition, { udid });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to set network condition: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: condition === "reset"
+        ? "Network conditions reset to normal."
+        : `Network condition set to: ${condition}` }],
+    };
+  },
+});
+
+export const setLocationTool = defineTool({
+  name: "set_location",
+  description: "Set the simulated GPS location for the simulator.",
+  schema: z.object({
+    latitude: z.number().optional().describe("Latitude coordinate"),
+    longitude: z.number().optional().describe("Longitude coordinate"),
+    preset: z.enum(["apple", "london", "tokyo", "newyork", "sydney", "sanfrancisco"]).optional().describe("Use a preset location instead of coordinates"),
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { latitude, longitude, preset, udid } = args;
+
+    let result;
+    if (preset) {
+      result = await setNamedLocation(preset, { udid });
+    } else if (latitude !== undefined && longitude !== undefined) {
+      result = await setLocation(latitude, longitude, { udid });
+    } else {
+      return {
+        content: [{ type: "text", text: "Provide either latitude/longitude or a preset location." }],
+        isError: true,
+      };
+    }
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to set location: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: preset
+        ? `Location set to: ${preset}`
+        : `Location set to: ${latitude}, ${longitude}` }],
+    };
+  },
+});
+
+export const triggerMemoryWarningTool = defineTool({
+  name: "trigger_memory_warning",
+  description: "Trigger a memory warning in the running app. Useful for testing memory handling.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { udid } = args;
+
+    const result = await triggerMemoryWarning({ udid });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to trigger memory warning: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: "Memory warning triggered. Check how your app handles it." }],
+    };
+  },
+});
+
+export const simulateBiometricTool = defineTool({
+  name: "simulate_biometric",
+  description: "Simulate Face ID or Touch ID authentication (match or fail).",
+  schema: z.object({
+    match: z.boolean().describe("Whether the biometric should match (true) or fail (false)"),
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { match, udid } = args;
+
+    const result = await simulateBiometric(match, { udid });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to simulate biometric: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: match
+        ? "Biometric authentication succeeded (simulated)."
+        : "Biometric authentication failed (simulated)." }],
+    };
+  },
+});
+
+export const simulatorTools = [
+  simulatorListTool,
+  simulatorBootTool,
+  simulatorShutdownTool,
+  simulatorInstallAppTool,
+  simulatorUninstallAppTool,
+  simulatorLaunchAppTool,
+  simulatorTerminateAppTool,
+  simulatorScreenshotTool,
+  simulatorOpenUrlTool,
+  simulatorGetAppContainerTool,
+  simulatorGetLogsTool,
+  simulatorListAppsTool,
+  simulatorStartRecordingTool,
+  simulatorStopRecordingTool,
+  sendPushTool,
+  setNetworkConditionTool,
+  setLocationTool,
+  triggerMemoryWarningTool,
+  simulateBiometricTool,
+];
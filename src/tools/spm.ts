@@ -0,0 +1,197 @@
+/**
+ * Swift Package Manager Tools
+ * Build, test, resolve and describe standalone Swift packages
+ */
+
+import { z } from "zod";
+import { SpmPackageDescription, spmBuild, spmDescribe, spmResolve } from "../spm/builder.js";
+import { spmTest } from "../spm/testing.js";
+import { formatTestResults } from "../xcode/testing.js";
+import { recordBuildResult, recordTestResult } from "../resources/store.js";
+import { formatDiagnostic } from "./swift.js";
+import { defineTool, cancelledResponse } from "./registry.js";
+
+const packagePath = z.string().describe("Path to the package directory (containing Package.swift)");
+// Not "configuration": the project config's Xcode configuration (Debug, Release, ...) isn't a SwiftPM one
+const buildConfiguration = z.enum(["debug", "release"]).optional().describe("Build configuration (default: debug)");
+const toolchain = z
+  .string()
+  .optional()
+  .describe("Swift toolchain: an id, name or version from swift_toolchains, or a toolchain path");
+
+export const spmBuildTool = defineTool({
+  name: "spm_build",
+  description:
+    "Build a Swift package with swift build. Returns errors and warnings as structured diagnostics with notes and fix-its. Works on macOS and Linux.",
+  schema: z.object({
+    packagePath,
+    buildConfiguration,
+    product: z.string().optional().describe("Build only this product"),
+    target: z.string().optional().describe("Build only this target"),
+    buildTests: z.boolean().optional().describe("Also build the test targets"),
+    toolchain,
+  }),
+  handler: async (args, context) => {
+    const result = await spmBuild(args.packagePath, {
+      configuration: args.buildConfiguration,
+      product: args.product,
+      target: args.target,
+      buildTests: args.buildTests,
+      toolchain: args.toolchain,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Build");
+    }
+
+    const buildLogUri = recordBuildResult(result, `spm_build ${args.packagePath}`);
+    const errors = result.diagnostics.filter((d) => d.severity === "error").length;
+    const warnings = result.diagnostics.length - errors;
+
+    const sections = [
+      result.success
+        ? `Build Succeeded\nTime: ${(result.buildTime / 1000).toFixed(2)}s`
+        : `Build Failed\nError: ${errors > 0 ? `${errors} error${errors === 1 ? "" : "s"}` : result.error}`,
+      result.diagnostics.length > 0 ? `Diagnostics (${errors} errors, ${warnings} warnings):` : "",
+      result.diagnostics.map(formatDiagnostic).join("\n\n"),
+      [result.logPath ? `Full log: ${result.logPath}` : "", `Build log resource: ${buildLogUri}`].filter(Boolean).join("\n"),
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const spmTestTool = defineTool({
+  name: "spm_test",
+  description:
+    "Run a Swift package's tests with swift test. Parses XCTest and swift-testing results, and build errors if the tests don't compile.",
+  schema: z.object({
+    packagePath,
+    filter: z.array(z.string()).optional().describe("Only run tests matching these patterns (e.g., ['MathTests.testAdd'])"),
+    skip: z.array(z.string()).optional().describe("Skip tests matching these patterns"),
+    buildConfiguration,
+    parallel: z.boolean().optional().describe("Run XCTest tests in parallel"),
+    toolchain,
+  }),
+  handler: async (args, context) => {
+    const result = await spmTest(args.packagePath, {
+      filter: args.filter,
+      skip: args.skip,
+      configuration: args.buildConfiguration,
+      parallel: args.parallel,
+      toolchain: args.toolchain,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Test run");
+    }
+
+    const resultUri = recordTestResult(result, `spm_test ${args.packagePath}`);
+    const buildErrors = result.diagnostics.filter((d) => d.severity === "error");
+    const sections = [
+      formatTestResults(result),
+      result.error && result.failed === 0 ? `Error: ${result.error}` : "",
+      buildErrors.length > 0 ? `Build errors:\n\n${buildErrors.map(formatDiagnostic).join("\n\n")}` : "",
+      `Results resource: ${resultUri}`,
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const spmResolveTool = defineTool({
+  name: "spm_resolve",
+  description: "Resolve a Swift package's dependencies with swift package resolve and list the pinned versions.",
+  schema: z.object({
+    packagePath,
+    toolchain,
+  }),
+  handler: async (args, context) => {
+    const result = await spmResolve(args.packagePath, { toolchain: args.toolchain, signal: context.signal });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to resolve dependencies: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const pins = result.pins.map((pin) => {
+      const state = pin.version ?? [pin.branch, pin.revision?.slice(0, 12)].filter(Boolean).join(" @ ");
+      return `- ${pin.identity} ${state} (${pin.location})`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: pins.length > 0 ? `Resolved ${pins.length} package(s):\n${pins.join("\n")}` : "No dependencies to resolve.",
+        },
+      ],
+    };
+  },
+});
+
+function formatPackageDescription(description: SpmPackageDescription): string {
+  const lines = [`Package: ${description.name} (tools version ${description.toolsVersion})`, `Path: ${description.path}`];
+  if (description.platforms.length > 0) {
+    lines.push(`Platforms: ${description.platforms.map((p) => `${p.name} ${p.version}`).join(", ")}`);
+  }
+
+  lines.push("", `Products (${description.products.length}):`);
+  for (const product of description.products) {
+    lines.push(`  - ${product.name} [${product.type}]: ${product.targets.join(", ")}`);
+  }
+
+  lines.push("", `Targets (${description.targets.length}):`);
+  for (const target of description.targets) {
+    const dependencies = [...target.targetDependencies, ...target.productDependencies];
+    lines.push(`  - ${target.name} [${target.type}] ${target.path} (${target.sources} source files)`);
+    if (dependencies.length > 0) {
+      lines.push(`      depends on: ${dependencies.join(", ")}`);
+    }
+  }
+
+  if (description.dependencies.length > 0) {
+    lines.push("", `Dependencies (${description.dependencies.length}):`);
+    for (const dependency of description.dependencies) {
+      lines.push(`  - ${dependency.identity}${dependency.requirement ? ` ${dependency.requirement}` : ""} (${dependency.location})`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export const spmDescribeTool = defineTool({
+  name: "spm_describe",
+  description: "Describe a Swift package: its platforms, products, targets with their dependencies, and package dependencies.",
+  schema: z.object({
+    packagePath,
+    toolchain,
+  }),
+  handler: async (args) => {
+    const result = await spmDescribe(args.packagePath, { toolchain: args.toolchain });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to describe package: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: formatPackageDescription(result.package!) }],
+    };
+  },
+});
+
+export const spmTools = [spmBuildTool, spmTestTool, spmResolveTool, spmDescribeTool];
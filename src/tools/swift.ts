@@ -0,0 +1,519 @@
+/**
+ * Swift Tools
+ * Run Swift snippets
+ */
+
+import { z } from "zod";
+import { executeSwift, SwiftExecutionResult } from "../swift/executor.js";
+import { SandboxReport } from "../swift/sandbox.js";
+import {
+  closeReplSession,
+  createReplSession,
+  evaluateInReplSession,
+  listReplSessions,
+  ReplSessionInfo,
+  resetReplSession,
+} from "../swift/repl.js";
+import { typecheckSwift } from "../swift/typecheck.js";
+import { benchmarkSwift, formatBenchmarkReport } from "../swift/benchmark.js";
+import { discoverToolchains, resolveToolchain, SwiftToolchain } from "../swift/toolchains.js";
+import { fixSwift, lintSwift, StyleFixResult, StyleViolation } from "../swift/style.js";
+import { BuildError, FixIt } from "../diagnostics/error-fixer.js";
+import { defineTool } from "./registry.js";
+
+const swiftDependency = z.object({
+  url: z.string().optional().describe("Git URL of the package"),
+  path: z.string().optional().describe("Local package directory (instead of url)"),
+  from: z.string().optional().describe("Minimum version, up to the next major"),
+  exact: z.string().optional().describe("Exact version"),
+  branch: z.string().optional().describe("Branch name"),
+  revision: z.string().optional().describe("Commit hash"),
+  products: z.array(z.string()).min(1).describe("Products the code imports, e.g. [\"Collections\"]"),
+});
+
+const toolchain = z
+  .string()
+  .optional()
+  .describe("Swift toolchain: an id, name or version from swift_toolchains, or a toolchain path (default: project config, then swift on PATH)");
+
+function formatSandbox(report: SandboxReport): string {
+  const limits = [
+    `CPU ${report.cpuSeconds}s`,
+    report.memoryMB ? `memory ${report.memoryMB} MB` : "memory unlimited on this platform",
+    `output ${report.maxOutputSize} characters`,
+    report.networkDenied ? "network denied" : "network allowed",
+    report.writesConfined ? "writes confined to the scratch directory" : "writes not confined",
+  ];
+  return `Sandbox: ${limits.join(", ")}${report.limitHit ? ` (limit hit: ${report.limitHit})` : ""}`;
+}
+
+function formatExecution(result: SwiftExecutionResult): string {
+  return [
+    result.exitCode === null || (result.sandbox?.limitHit && result.error)
+      ? (result.error ?? "Did not run")
+      : `Exit code: ${result.exitCode}`,
+    result.sandbox ? formatSandbox(result.sandbox) : "",
+    result.stdout ? `stdout:\n${result.stdout}` : "",
+    result.stderr ? `stderr:\n${result.stderr}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export const swiftExecuteTool = defineTool({
+  name: "swift_execute",
+  description:
+    "Execute Swift code and return its stdout, stderr and exit code. Pass code for a single file, or files for a small module split across files (main.swift or mainFile is the entry point). Pass dependencies to import SwiftPM packages; the first run resolves and builds them, later runs reuse the cache.",
+  schema: z.object({
+    code: z.string().optional().describe("Swift code to execute (a single file)"),
+    files: z
+      .record(z.string())
+      .optional()
+      .describe("Source files by relative path, e.g. {\"main.swift\": \"...\", \"Models/User.swift\": \"...\"}"),
+    mainFile: z.string().optional().describe("Entry point among files (default: main.swift, or the only .swift file)"),
+    args: z.array(z.string()).optional().describe("Command-line arguments (CommandLine.arguments[1...])"),
+    stdin: z.string().optional().describe("Input piped to standard input"),
+    env: z.record(z.string()).optional().describe("Environment variables for the program"),
+    timeout: z.number().optional().describe("Execution timeout in milliseconds (default: 30000)"),
+    dependencies: z
+      .array(swiftDependency)
+      .optional()
+      .describe("SwiftPM packages to build the code against, each with a url and one of from/exact/branch/revision, or a local path"),
+    sandbox: z
+      .union([
+        z.boolean(),
+        z.object({
+          cpuSeconds: z.number().int().positive().optional().describe("CPU time limit (default: 10)"),
+          memoryMB: z.number().int().positive().optional().describe("Address-space limit in MB (default: 1024; Linux only)"),
+          maxOutputSize: z.number().int().positive().optional().describe("Characters kept per stream (default: 1048576)"),
+          allowNetwork: z.boolean().optional().describe("Allow network access (default: false)"),
+        }),
+      ])
+      .optional()
+      .describe("Run under CPU, memory and output limits in a scratch directory with a clean environment and no network"),
+    toolchain,
+  }),
+  handler: async (args) => {
+    const { code, files, mainFile, timeout, dependencies, stdin, env, sandbox } = args;
+
+    if ((code === undefined) === (files === undefined)) {
+      return {
+        content: [{ type: "text", text: "Pass either code or files." }],
+        isError: true,
+      };
+    }
+
+    const result = await executeSwift(files ?? code!, {
+      mainFile,
+      args: args.args,
+      stdin,
+      env,
+      timeout,
+      dependencies,
+      sandbox,
+      toolchain: args.toolchain,
+    });
+
+    return {
+      content: [{ type: "text", text: formatExecution(result) }],
+      isError: !result.success,
+    };
+  },
+});
+
+function formatFixIt(fixIt: FixIt): string {
+  const edit = fixIt.length === 0 ? "insert" : `replace ${fixIt.length} characters with`;
+  return `fix-it: ${fixIt.line}:${fixIt.column} ${edit} ${JSON.stringify(fixIt.replacement)}`;
+}
+
+export function formatDiagnostic(diagnostic: BuildError): string {
+  const location = (file: string, line: number, column?: number) => `${file}:${line}${column ? `:${column}` : ""}`;
+  const lines = [`${location(diagnostic.file, diagnostic.line, diagnostic.column)}: ${diagnostic.severity}: ${diagnostic.message}`];
+  for (const fixIt of diagnostic.fixIts ?? []) {
+    lines.push(`  ${formatFixIt(fixIt)}`);
+  }
+  for (const note of diagnostic.notes ?? []) {
+    lines.push(`  note: ${location(note.file, note.line, note.column)}: ${note.message}`);
+    for (const fixIt of note.fixIts ?? []) {
+      lines.push(`    ${formatFixIt(fixIt)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export const swiftTypecheckTool = defineTool({
+  name: "swift_typecheck",
+  description:
+    "Typecheck Swift code with swiftc -typecheck without building or running it, returning errors and warnings with their notes and fix-its. Use sdk: \"iphonesimulator\" to check SwiftUI/UIKit code against the iOS simulator SDK.",
+  schema: z.object({
+    code: z.string().optional().describe("Swift code to check (a single file)"),
+    files: z.record(z.string()).optional().describe("Source files by relative path, instead of code"),
+    mainFile: z.string().optional().describe("File with top-level code, if it isn't main.swift"),
+    sdk: z.string().optional().describe("SDK name (iphonesimulator, iphoneos, macosx) or path; falls back to the host SDK if unavailable"),
+    target: z.string().optional().describe("Target triple, e.g. arm64-apple-ios17.0-simulator (default: derived from the SDK)"),
+    toolchain,
+  }),
+  handler: async (args) => {
+    const { code, files, mainFile, sdk, target } = args;
+
+    if ((code === undefined) === (files === undefined)) {
+      return {
+        content: [{ type: "text", text: "Pass either code or files." }],
+        isError: true,
+      };
+    }
+
+    const result = await typecheckSwift(files ?? code!, { mainFile, sdk, target, toolchain: args.toolchain });
+
+    const errors = result.diagnostics.filter((d) => d.severity === "error").length;
+    const warnings = result.diagnostics.length - errors;
+    const summary = result.success
+      ? `Typecheck passed${warnings ? ` with ${warnings} warning${warnings === 1 ? "" : "s"}` : ""}.`
+      : `Typecheck failed: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}.`;
+
+    const sections = [
+      summary,
+      result.sdk ? `SDK: ${result.sdk}${result.target ? ` (${result.target})` : ""}` : "",
+      result.notice ?? "",
+      result.error ?? "",
+      result.diagnostics.map(formatDiagnostic).join("\n\n"),
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const swiftBenchmarkTool = defineTool({
+  name: "swift_benchmark",
+  description:
+    "Benchmark one or more named Swift variants side by side. Compiles once with -O, runs each variant's closure body for warmup and measured iterations, and reports min/median/p95/mean/stddev per variant, excluding compile time.",
+  schema: z.object({
+    variants: z
+      .array(
+        z.object({
+          name: z.string().regex(/^[\w .-]+$/, "Use letters, digits, spaces, '_', '-' or '.'").describe("Variant name"),
+          code: z.string().describe("Body of the closure to measure; its last expression's value is kept alive"),
+        })
+      )
+      .min(1)
+      .describe("Implementations to compare"),
+    setup: z.string().optional().describe("Shared declarations and input data, run once before measuring"),
+    warmup: z.number().int().min(0).optional().describe("Unmeasured iterations per variant (default: 5)"),
+    iterations: z.number().int().min(1).max(100000).optional().describe("Measured iterations per variant (default: 50)"),
+    timeout: z.number().optional().describe("Timeout for running the benchmark in milliseconds (default: 120000)"),
+    toolchain,
+  }),
+  handler: async (args) => {
+    const { variants, setup, warmup, iterations, timeout } = args;
+
+    const result = await benchmarkSwift(variants, { setup, warmup, iterations, timeout, toolchain: args.toolchain });
+
+    const sections = [
+      result.variants.length > 0 ? formatBenchmarkReport(result) : "",
+      result.error ? `Benchmark failed: ${result.error}` : "",
+      result.stdout ? `stdout:\n${result.stdout}` : "",
+      !result.success && result.stderr ? `stderr:\n${result.stderr}` : "",
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+const styleTarget = {
+  paths: z.array(z.string()).optional().describe("Swift files or directories (searched recursively)"),
+  code: z.string().optional().describe("Inline Swift code, instead of paths"),
+  fileName: z.string().optional().describe("File name for inline code, used by path-based rules (default: snippet.swift)"),
+  configDir: z
+    .string()
+    .optional()
+    .describe("Directory to search upward from for .swift-format and .swiftlint.yml (default: next to the first path, or the project)"),
+};
+const styleTools = z.array(z.enum(["swift-format", "swiftlint"])).min(1);
+
+function formatViolation(violation: StyleViolation): string {
+  const location = `${violation.file}:${violation.line}${violation.column ? `:${violation.column}` : ""}`;
+  return `${location}: ${violation.severity}: [${violation.rule}] ${violation.message} (${violation.tool})`;
+}
+
+function formatFixResult(result: StyleFixResult, write: boolean, inline: boolean): string {
+  const configs = Object.entries(result.configs).map(([tool, path]) => `${tool} config: ${path}`);
+  if (result.changedFiles.length === 0) {
+    return [`No changes (${result.tools.join(", ")}).`, ...configs].join("\n");
+  }
+
+  const count = `${result.changedFiles.length} file${result.changedFiles.length === 1 ? "" : "s"}`;
+  const summary = result.written
+    ? `Wrote ${count}: ${result.changedFiles.join(", ")}`
+    : `${count} would change${inline || write ? "" : " (pass write: true to apply)"}: ${result.changedFiles.join(", ")}`;
+  return [
+    [summary, `Tools: ${result.tools.join(", ")}`, ...configs].join("\n"),
+    result.diff,
+    inline && result.formatted !== undefined ? `Corrected code:\n${result.formatted}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export const swiftFormatTool = defineTool({
+  name: "swift_format",
+  description:
+    "Format Swift files, directories or inline code with swift-format, following the project's .swift-format. Returns a unified diff preview; pass write: true to write the changes.",
+  schema: z.object({
+    ...styleTarget,
+    write: z.boolean().optional().describe("Write the formatted files (default: preview only)"),
+    tools: styleTools.optional().describe("Formatters to run in order (default: [\"swift-format\"]; swiftlint applies its autocorrections)"),
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const { paths, code, fileName, configDir, write = false, tools = ["swift-format"] } = args;
+
+    if ((code === undefined) === (paths === undefined)) {
+      return {
+        content: [{ type: "text", text: "Pass either code or paths." }],
+        isError: true,
+      };
+    }
+
+    const result = await fixSwift({ paths, code, fileName }, { tools, configDir, write });
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Formatting failed: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: formatFixResult(result, write, code !== undefined) }],
+    };
+  },
+});
+
+export const swiftLintTool = defineTool({
+  name: "swift_lint",
+  description:
+    "Lint Swift files, directories or inline code with swift-format and/or SwiftLint, following the project's .swift-format and .swiftlint.yml. Returns violations with file, line, rule and severity. Pass fix: true for a diff preview of the autocorrections, plus write: true to apply them.",
+  schema: z.object({
+    ...styleTarget,
+    tools: styleTools.optional().describe("Linters to run (default: every installed one)"),
+    fix: z.boolean().optional().describe("Autocorrect instead of reporting (preview as a unified diff)"),
+    write: z.boolean().optional().describe("With fix, write the corrected files"),
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const { paths, code, fileName, configDir, tools, fix = false, write = false } = args;
+
+    if ((code === undefined) === (paths === undefined)) {
+      return {
+        content: [{ type: "text", text: "Pass either code or paths." }],
+        isError: true,
+      };
+    }
+
+    if (fix) {
+      const result = await fixSwift({ paths, code, fileName }, { tools, configDir, write });
+      return {
+        content: [
+          { type: "text", text: result.success ? formatFixResult(result, write, code !== undefined) : `Autocorrect failed: ${result.error}` },
+        ],
+        isError: !result.success,
+      };
+    }
+
+    const result = await lintSwift({ paths, code, fileName }, { tools, configDir });
+    if (result.error) {
+      return {
+        content: [{ type: "text", text: `Lint failed: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const errors = result.violations.filter((v) => v.severity === "error").length;
+    const warnings = result.violations.length - errors;
+    const summary =
+      result.violations.length === 0
+        ? `No violations (${result.tools.join(", ")}).`
+        : `${result.violations.length} violation${result.violations.length === 1 ? "" : "s"}: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"} (${result.tools.join(", ")}).`;
+    const configs = Object.entries(result.configs).map(([tool, path]) => `${tool} config: ${path}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [[summary, ...configs].join("\n"), result.violations.map(formatViolation).join("\n")].filter(Boolean).join("\n\n"),
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+});
+
+function describeToolchain(toolchain: SwiftToolchain, selected: boolean): string {
+  const version = toolchain.version ? ` Swift ${toolchain.version}` : " (version unknown)";
+  return `${selected ? "* " : "- "}${toolchain.id}${version} [${toolchain.source}]\n    ${toolchain.swiftPath}`;
+}
+
+export const swiftToolchainsTool = defineTool({
+  name: "swift_toolchains",
+  description:
+    "List installed Swift toolchains: swift on PATH, the TOOLCHAINS environment variable, Xcode toolchains in /Library/Developer/Toolchains and ~/Library/Developer/Toolchains, and swiftly installs. Pass an id, name or version as toolchain to the Swift tools, or set toolchain in .ios-dev-mcp.json.",
+  schema: z.object({}),
+  handler: async () => {
+    const [toolchains, selection] = await Promise.all([discoverToolchains(), resolveToolchain(undefined)]);
+    if (toolchains.length === 0) {
+      return {
+        content: [{ type: "text", text: "No Swift toolchains found." }],
+      };
+    }
+
+    // Without a selection, swift on PATH is used
+    const selected = selection.toolchain?.swiftPath ?? toolchains.find((t) => t.source === "path")?.swiftPath;
+    const lines = [
+      `Swift toolchains (${toolchains.length}):`,
+      "",
+      ...toolchains.map((t) => describeToolchain(t, t.swiftPath === selected)),
+    ];
+    if (selection.error) {
+      lines.push("", `Configured toolchain: ${selection.error}`);
+    } else if (selection.toolchain && !toolchains.some((t) => t.swiftPath === selected)) {
+      lines.push("", `Configured toolchain: ${selection.toolchain.swiftPath}`);
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+    };
+  },
+});
+
+const sessionName = z.string().regex(/^[\w.-]+$/, "Use letters, digits, '_', '-' or '.'").describe("REPL session name");
+
+function describeSession(session: ReplSessionInfo): string {
+  return `${session.name} (${session.evaluations} evaluations, closes after ${Math.round(session.idleTimeout / 60000)} min idle)`;
+}
+
+export const swiftReplCreateTool = defineTool({
+  name: "swift_repl_create",
+  description:
+    "Start a named Swift REPL session. Declarations (variables, functions, types, imports) persist across swift_repl_eval calls until the session is reset or closed. Idle sessions are closed automatically.",
+  schema: z.object({
+    name: sessionName,
+    idleTimeoutMinutes: z.number().positive().optional().describe("Close the session after this many idle minutes (default: 15)"),
+    toolchain,
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const { name, idleTimeoutMinutes } = args;
+
+    const result = await createReplSession(name, {
+      idleTimeout: idleTimeoutMinutes ? idleTimeoutMinutes * 60000 : undefined,
+      toolchain: args.toolchain,
+    });
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to create REPL session: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const sessions = listReplSessions().map((session) => `- ${describeSession(session)}`);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `REPL session "${name}" is ready.\n\nSessions:\n${sessions.join("\n")}`,
+        },
+      ],
+    };
+  },
+});
+
+export const swiftReplEvalTool = defineTool({
+  name: "swift_repl_eval",
+  description:
+    "Evaluate Swift code in a REPL session created with swift_repl_create. Returns only this evaluation's output. A timeout interrupts the evaluation but keeps the session and its state.",
+  schema: z.object({
+    name: sessionName,
+    code: z.string().describe("Swift code to evaluate"),
+    timeout: z.number().optional().describe("Evaluation timeout in milliseconds (default: 30000)"),
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const { name, code, timeout } = args;
+
+    const result = await evaluateInReplSession(name, code, { timeout });
+    const sections = [
+      result.output ? `Output:\n${result.output}` : "",
+      result.errors ? `Errors:\n${result.errors}` : "",
+    ].filter(Boolean);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: [result.error ?? "Evaluation failed", ...sections].join("\n\n") }],
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") || "(no output)" }],
+    };
+  },
+});
+
+export const swiftReplResetTool = defineTool({
+  name: "swift_repl_reset",
+  description: "Restart a REPL session with a fresh Swift REPL, discarding everything declared in it.",
+  schema: z.object({
+    name: sessionName,
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const result = await resetReplSession(args.name);
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to reset REPL session: ${result.error}` }],
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: "text", text: `REPL session "${args.name}" was reset.` }],
+    };
+  },
+});
+
+export const swiftReplCloseTool = defineTool({
+  name: "swift_repl_close",
+  description: "Close a REPL session and stop its Swift REPL process.",
+  schema: z.object({
+    name: sessionName,
+  }),
+  dryRun: false,
+  handler: async (args) => {
+    const result = closeReplSession(args.name);
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to close REPL session: ${result.error}` }],
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: "text", text: `REPL session "${args.name}" closed.` }],
+    };
+  },
+});
+
+export const swiftTools = [
+  swiftExecuteTool,
+  swiftTypecheckTool,
+  swiftBenchmarkTool,
+  swiftToolchainsTool,
+  swiftFormatTool,
+  swiftLintTool,
+  swiftReplCreateTool,
+  swiftReplEvalTool,
+  swiftReplResetTool,
+  swiftReplCloseTool,
+];
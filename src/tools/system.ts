@@ -0,0 +1,261 @@
+/**
+ * System Tools
+ * Tool availability, job queue, audit log and artifacts
+ */
+
+import { z } from "zod";
+import { getSwiftVersion, isSwiftAvailable } from "../swift/executor.js";
+import { resolveToolchain } from "../swift/toolchains.js";
+import { getXcodeVersion, isXcodeAvailable } from "../xcode/builder.js";
+import { getBootedSimulator, isSimctlAvailable } from "../simulator/controller.js";
+import { listJobs } from "../workflow/scheduler.js";
+import { getAuditDirectory, queryAudit } from "../utils/audit.js";
+import {
+  collectArtifacts,
+  getSessionDirectory,
+  listArtifacts,
+  purgeArtifacts,
+} from "../utils/artifacts.js";
+import { defineTool } from "./registry.js";
+
+export const iosDevInfoTool = defineTool({
+  name: "ios_dev_info",
+  description: "Get information about available iOS development tools (Swift, Xcode, simctl).",
+  schema: z.object({
+    toolchain: z
+      .string()
+      .optional()
+      .describe("Swift toolchain to report on: an id, name or version from swift_toolchains, or a toolchain path"),
+  }),
+  handler: async (args) => {
+    // Resolve once; a toolchain's swift path is itself a valid selector
+    const selection = await resolveToolchain(args.toolchain);
+    const swiftPath = selection.toolchain?.swiftPath;
+    const [swiftAvailable, xcodeAvailable, simctlAvailable] = await Promise.all([
+      !selection.error && isSwiftAvailable(swiftPath),
+      isXcodeAvailable(),
+      isSimctlAvailable(),
+    ]);
+
+    const results: string[] = ["iOS Development Tools Status:", ""];
+
+    if (swiftAvailable) {
+      const version = await getSwiftVersion(swiftPath);
+      results.push(`Swift: Available (${version || "version unknown"})`);
+    } else {
+      results.push(`Swift: Not available${selection.error ? ` (${selection.error})` : ""}`);
+    }
+    if (selection.toolchain) {
+      results.push(`  Toolchain: ${selection.toolchain.id} (${selection.toolchain.swiftPath})`);
+    }
+
+    if (xcodeAvailable) {
+      const version = await getXcodeVersion();
+      results.push(`Xcode: Available (${version || "version unknown"})`);
+    } else {
+      results.push("Xcode: Not available");
+    }
+
+    if (simctlAvailable) {
+      results.push("simctl: Available");
+
+      // Show booted simulators
+      const booted = await getBootedSimulator();
+      if (booted) {
+        results.push(`  Booted: ${booted.name} (${booted.udid})`);
+      } else {
+        results.push("  No simulators booted");
+      }
+    } else {
+      results.push("simctl: Not available");
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: results.join("\n"),
+        },
+      ],
+    };
+  },
+});
+
+export const jobsListTool = defineTool({
+  name: "jobs_list",
+  description:
+    "List running and queued tool calls. Calls that touch the same simulator or project run one at a time; this shows what is running and each queued call's position.",
+  schema: z.object({}),
+  handler: async () => {
+    const jobs = listJobs();
+    const now = Date.now();
+
+    if (jobs.length === 0) {
+      return {
+        content: [{ type: "text", text: "No running or queued jobs." }],
+      };
+    }
+
+    const describe = (resources: string[]) =>
+      resources.length > 0 ? ` [${resources.join(", ")}]` : "";
+
+    const lines: string[] = [];
+    const running = jobs.filter((job) => job.state === "running");
+    const queued = jobs.filter((job) => job.state === "queued");
+
+    lines.push(`Running (${running.length}):`);
+    for (const job of running) {
+      const elapsed = ((now - (job.startedAt ?? now)) / 1000).toFixed(1);
+      lines.push(`  #${job.id} ${job.tool}${describe(job.resources)} - ${elapsed}s`);
+    }
+
+    if (queued.length > 0) {
+      lines.push("");
+      lines.push(`Queued (${queued.length}):`);
+      for (const job of queued) {
+        const waiting = ((now - job.queuedAt) / 1000).toFixed(1);
+        lines.push(
+          `  ${job.position}. #${job.id} ${job.tool}${describe(job.resources)} - waiting ${waiting}s for ${job.blockedBy.map((id) => `#${id}`).join(", ")}`
+        );
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+    };
+  },
+});
+
+export const auditQueryTool = defineTool({
+  name: "audit_query",
+  description:
+    "Query the audit log of tool calls and the commands they executed (xcrun, xcodebuild, swift...). Filter by time range, tool and simulator UDID.",
+  schema: z.object({
+    since: z.string().optional().describe("Only entries at or after this ISO 8601 time"),
+    until: z.string().optional().describe("Only entries at or before this ISO 8601 time"),
+    tool: z.string().optional().describe("Only calls to this tool and the commands they ran"),
+    udid: z.string().optional().describe("Only entries that targeted this simulator"),
+    type: z.enum(["tool", "command"]).optional().describe("Only tool calls or only executed commands"),
+    limit: z.number().optional().describe("Maximum number of most recent entries to return (default: 50)"),
+  }),
+  handler: async (args) => {
+    const directory = getAuditDirectory();
+    if (!directory) {
+      return {
+        content: [{ type: "text", text: "Audit log is disabled (IOS_DEV_MCP_AUDIT=off)." }],
+        isError: true,
+      };
+    }
+
+    const parseTime = (value?: string) => (value ? new Date(value) : undefined);
+    const since = parseTime(args.since);
+    const until = parseTime(args.until);
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return {
+        content: [{ type: "text", text: "Invalid since/until time. Use ISO 8601, e.g. 2024-01-31T14:00:00Z." }],
+        isError: true,
+      };
+    }
+
+    const { tool, udid, type, limit = 50 } = args;
+    const entries = await queryAudit({ since, until, tool, udid, type, limit });
+
+    if (entries.length === 0) {
+      return {
+        content: [{ type: "text", text: `No matching audit entries in ${directory}.` }],
+      };
+    }
+
+    const lines = entries.map((entry) => {
+      const target = entry.udid ? ` [${entry.udid}]` : "";
+      if (entry.type === "tool") {
+        const error = entry.error ? ` - ${entry.error}` : "";
+        return `${entry.timestamp} #${entry.callId} ${entry.tool}${target} ${entry.status} (${entry.durationMs}ms) ${JSON.stringify(entry.args)}${error}`;
+      }
+      const caller = entry.callId ? ` (#${entry.callId} ${entry.tool})` : "";
+      const status = entry.cancelled ? "cancelled" : entry.timedOut ? "timed out" : `exit ${entry.exitCode}`;
+      return `${entry.timestamp}   $ ${[entry.command, ...entry.args].join(" ")}${target}${caller} - ${status} (${entry.durationMs}ms)`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${entries.length} audit entries (log: ${directory}):\n\n${lines.join("\n")}`,
+        },
+      ],
+    };
+  },
+});
+
+export const artifactsListTool = defineTool({
+  name: "artifacts_list",
+  description:
+    "List files produced in this session (screenshots, screen recordings, push payloads, xcodebuild result bundles, archives and exports) with their type, simulator, originating tool and size.",
+  schema: z.object({
+    type: z.enum(["screenshot", "recording", "payload", "result-bundle", "archive", "export"]).optional().describe("Only list artifacts of this type"),
+    udid: z.string().optional().describe("Only list artifacts from this simulator"),
+  }),
+  handler: async (args) => {
+    const artifacts = listArtifacts(args);
+
+    if (artifacts.length === 0) {
+      return {
+        content: [{ type: "text", text: `No artifacts in ${getSessionDirectory()}.` }],
+      };
+    }
+
+    const totalBytes = artifacts.reduce((total, artifact) => total + artifact.size, 0);
+    const lines = artifacts.map((artifact) => {
+      const origin = [artifact.tool, artifact.udid].filter(Boolean).join(" on ");
+      return `${artifact.createdAt} ${artifact.type} ${(artifact.size / 1024).toFixed(1)} KB${origin ? ` (${origin})` : ""}\n  ${artifact.path}`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${artifacts.length} artifacts, ${(totalBytes / 1024 / 1024).toFixed(1)} MB total:\n\n${lines.join("\n")}`,
+        },
+      ],
+    };
+  },
+});
+
+export const artifactsPurgeTool = defineTool({
+  name: "artifacts_purge",
+  description:
+    "Delete artifacts from this session. With no filters, deletes all of them. Also removes expired artifacts from earlier sessions.",
+  dryRun: false,
+  schema: z.object({
+    type: z.enum(["screenshot", "recording", "payload", "result-bundle", "archive", "export"]).optional().describe("Only delete artifacts of this type"),
+    udid: z.string().optional().describe("Only delete artifacts from this simulator"),
+    olderThanMinutes: z.number().optional().describe("Only delete artifacts older than this many minutes"),
+  }),
+  handler: async (args) => {
+    const { type, udid, olderThanMinutes } = args;
+    const { removed, freedBytes } = await purgeArtifacts({
+      type,
+      udid,
+      olderThanMs: olderThanMinutes !== undefined ? olderThanMinutes * 60 * 1000 : undefined,
+    });
+    const { staleSessions } = await collectArtifacts();
+
+    let text = `Deleted ${removed.length} artifacts (${(freedBytes / 1024 / 1024).toFixed(1)} MB).`;
+    if (staleSessions.length > 0) {
+      text += `\nRemoved ${staleSessions.length} expired session directories.`;
+    }
+
+    return {
+      content: [{ type: "text", text }],
+    };
+  },
+});
+
+export const systemTools = [
+  iosDevInfoTool,
+  jobsListTool,
+  auditQueryTool,
+  artifactsListTool,
+  artifactsPurgeTool,
+];
@@ -0,0 +1,674 @@
+/**
+ * UI Tools
+ * Gestures, accessibility inspection and integrated automation
+ */
+
+import { z } from "zod";
+import {
+  tap,
+  swipe,
+  typeText,
+  pressKey,
+  pressButton,
+  dismissKeyboard,
+  scroll,
+  longPress,
+  doubleTap,
+  setAppearance,
+} from "../ui/automation.js";
+import { findElement, describeScreen } from "../ui/accessibility.js";
+import {
+  analyzeScreen,
+  findAndTap,
+  findAndType,
+  startRecording as startUIRecording,
+  stopRecording as stopUIRecording,
+  generateXCUITest,
+  runAutomatedFlow,
+  getAutomationStatus,
+} from "../ui/integrated-automation.js";
+import { startWDA } from "../ui/webdriver-agent.js";
+import { defineTool } from "./registry.js";
+import { inlineImageOptions, screenshotContent } from "./images.js";
+
+export const uiTapTool = defineTool({
+  name: "ui_tap",
+  description:
+    "Tap at specific coordinates on the simulator screen. Coordinates are relative to the Simulator window.",
+  schema: z.object({
+    x: z.number().describe("X coordinate"),
+    y: z.number().describe("Y coordinate"),
+  }),
+  handler: async (args) => {
+    const { x, y } = args;
+
+    const result = await tap(x, y);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiDoubleTapTool = defineTool({
+  name: "ui_double_tap",
+  description: "Double tap at specific coordinates.",
+  schema: z.object({
+    x: z.number().describe("X coordinate"),
+    y: z.number().describe("Y coordinate"),
+  }),
+  handler: async (args) => {
+    const { x, y } = args;
+
+    const result = await doubleTap(x, y);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiLongPressTool = defineTool({
+  name: "ui_long_press",
+  description: "Long press at specific coordinates.",
+  schema: z.object({
+    x: z.number().describe("X coordinate"),
+    y: z.number().describe("Y coordinate"),
+    duration: z.number().optional().describe("Duration in milliseconds (default: 1000)"),
+  }),
+  handler: async (args) => {
+    const { x, y, duration = 1000 } = args;
+
+    const result = await longPress(x, y, duration);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiSwipeTool = defineTool({
+  name: "ui_swipe",
+  description: "Swipe from one point to another on the simulator.",
+  schema: z.object({
+    fromX: z.number().describe("Start X coordinate"),
+    fromY: z.number().describe("Start Y coordinate"),
+    toX: z.number().describe("End X coordinate"),
+    toY: z.number().describe("End Y coordinate"),
+    duration: z.number().optional().describe("Duration in milliseconds (default: 300)"),
+  }),
+  handler: async (args) => {
+    const { fromX, fromY, toX, toY, duration = 300 } = args;
+
+    const result = await swipe({ x: fromX, y: fromY }, { x: toX, y: toY }, duration);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiTypeTool = defineTool({
+  name: "ui_type",
+  description: "Type text into the currently focused text field in the simulator.",
+  schema: z.object({
+    text: z.string().describe("Text to type"),
+  }),
+  handler: async (args) => {
+    const { text } = args;
+
+    const result = await typeText(text);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiPressKeyTool = defineTool({
+  name: "ui_press_key",
+  description: "Press a key or key combination (e.g., 'return', 'escape', 'tab').",
+  schema: z.object({
+    key: z.string().describe("Key to press (e.g., 'return', 'escape', 'tab', 'delete', 'up', 'down', 'left', 'right')"),
+    modifiers: z.array(z.enum(["command", "control", "option", "shift"])).optional().describe("Modifier keys to hold"),
+  }),
+  handler: async (args) => {
+    const { key, modifiers } = args;
+
+    const result = await pressKey(key, modifiers);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiPressButtonTool = defineTool({
+  name: "ui_press_button",
+  description:
+    "Press a hardware button on the simulator (home, lock, volume, shake, siri, apple_pay). Uses IDB when available for most reliable operation.",
+  schema: z.object({
+    button: z.enum(["home", "lock", "volume_up", "volume_down", "shake", "siri", "apple_pay"]).describe("Hardware button to press"),
+  }),
+  handler: async (args) => {
+    const { button } = args;
+
+    const result = await pressButton(button);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiScrollTool = defineTool({
+  name: "ui_scroll",
+  description: "Scroll in a direction. Uses IDB when available for most reliable operation.",
+  schema: z.object({
+    direction: z.enum(["up", "down", "left", "right"]).describe("Direction to scroll"),
+    amount: z.number().optional().describe("Amount to scroll in pixels (default: 100)"),
+    x: z.number().optional().describe("Starting X coordinate for scroll (default: 200)"),
+    y: z.number().optional().describe("Starting Y coordinate for scroll (default: 400)"),
+  }),
+  handler: async (args) => {
+    const { direction, amount = 100, x, y } = args;
+
+    const result = await scroll(direction, amount, { x, y });
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiDismissKeyboardTool = defineTool({
+  name: "ui_dismiss_keyboard",
+  description: "Dismiss the on-screen keyboard.",
+  schema: z.object({}),
+  handler: async () => {
+    const result = await dismissKeyboard();
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiSetAppearanceTool = defineTool({
+  name: "ui_set_appearance",
+  description: "Set the simulator appearance mode (light/dark).",
+  schema: z.object({
+    mode: z.enum(["light", "dark"]).describe("Appearance mode"),
+  }),
+  handler: async (args) => {
+    const { mode } = args;
+
+    const result = await setAppearance(mode);
+
+    return {
+      content: [{ type: "text", text: result.success ? result.message : `Failed: ${result.error}` }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiDescribeScreenTool = defineTool({
+  name: "ui_describe_screen",
+  description:
+    "Describe the current screen's interactive elements (buttons, text fields, etc.). Useful for understanding what can be tapped or interacted with.",
+  schema: z.object({
+    udid: z.string().optional().describe("Simulator UDID (optional)"),
+  }),
+  handler: async (args) => {
+    const { udid } = args;
+
+    const result = await describeScreen({ udid });
+
+    return {
+      content: [{ type: "text", text: result.description || result.error || "Unable to describe screen" }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiFindElementTool = defineTool({
+  name: "ui_find_element",
+  description: "Find a UI element by label, identifier, or type. Returns its location for tapping.",
+  schema: z.object({
+    label: z.string().optional().describe("Element accessibility label"),
+    identifier: z.string().optional().describe("Element accessibility identifier"),
+    type: z.string().optional().describe("Element type (button, textField, etc.)"),
+  }),
+  handler: async (args) => {
+    const result = await findElement(args);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: result.error || "Element not found" }],
+        isError: true,
+      };
+    }
+
+    const output = [
+      `Element found: ${result.element?.type}`,
+      result.element?.label ? `Label: ${result.element.label}` : "",
+      result.tapPoint ? `Tap at: (${result.tapPoint.x}, ${result.tapPoint.y})` : "",
+    ].filter(Boolean).join("\n");
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const uiAutomationStatusTool = defineTool({
+  name: "ui_automation_status",
+  description:
+    "Check the status of UI automation systems (IDB, AXe, WebDriverAgent, cliclick, AppleScript). Shows what methods are available for reliable UI testing. IDB is recommended for best reliability.",
+  schema: z.object({}),
+  handler: async () => {
+    const status = await getAutomationStatus();
+
+    const lines: string[] = [
+      "# UI Automation Status",
+      "",
+      "## IDB (Facebook iOS Development Bridge) - RECOMMENDED",
+      `- Available: ${status.idb.available ? "✅ Installed" : "❌ Not installed"}`,
+    ];
+
+    if (!status.idb.available) {
+      lines.push("- Install: `brew install idb-companion && pip install fb-idb`");
+    } else {
+      lines.push("- IDB provides reliable tap/swipe/scroll/type without window focus");
+    }
+
+    lines.push("");
+    lines.push("## AXe (Apple Accessibility APIs)");
+    lines.push(`- Available: ${status.axe.available ? "✅ Installed" : "❌ Not installed"}`);
+
+    if (!status.axe.available && !status.idb.available) {
+      lines.push("- Install: `brew install axe`");
+    }
+
+    lines.push("");
+    lines.push("## WebDriverAgent");
+    lines.push(`- Installed: ${status.wda.installed ? "✅" : "❌"}`);
+    lines.push(`- Running: ${status.wda.running ? "✅" : "❌"}`);
+
+    if (status.wda.port) {
+      lines.push(`- Port: ${status.wda.port}`);
+    }
+
+    lines.push("");
+    lines.push("## Fallback Methods");
+    lines.push(`- cliclick: ${status.fallback.cliclick ? "✅ Available" : "❌ Not installed (brew install cliclick)"}`);
+    lines.push(`- AppleScript: ${status.fallback.applescript ? "✅ Available" : "❌ Not available"}`);
+    lines.push("");
+    lines.push(`## Recording: ${status.recording ? "🔴 Active" : "⏹️ Stopped"}`);
+    lines.push("");
+    lines.push(`## Recommended Method: ${status.recommendedMethod}`);
+
+    if (!status.idb.available && !status.axe.available && !status.wda.installed) {
+      lines.push("");
+      lines.push("## Setup Recommendations:");
+      lines.push("```bash");
+      lines.push("# Option 1: IDB (RECOMMENDED - most reliable)");
+      lines.push("brew install idb-companion && pip install fb-idb");
+      lines.push("");
+      lines.push("# Option 2: WebDriverAgent (for element inspection)");
+      lines.push("npm install -g appium");
+      lines.push("appium driver install xcuitest");
+      lines.push("```");
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+    };
+  },
+});
+
+export const uiAutomationStartTool = defineTool({
+  name: "ui_automation_start",
+  description:
+    "Start WebDriverAgent for reliable UI automation. WDA provides accurate element discovery and interaction. Falls back to AppleScript/cliclick if WDA unavailable.",
+  schema: z.object({
+    bundleId: z.string().optional().describe("Bundle ID of the app to automate (optional)"),
+    port: z.number().optional().describe("WDA port (default: 8100)"),
+  }),
+  handler: async (args) => {
+    const { bundleId, port } = args;
+
+    const result = await startWDA({ bundleId, port });
+
+    if (result.success) {
+      return {
+        content: [{
+          type: "text",
+          text: `WebDriverAgent started successfully!\n` +
+            `Port: ${result.session?.port}\n` +
+            `Session: ${result.session?.sessionId}\n\n` +
+            `You can now use ui_analyze_screen, ui_find_and_tap, etc. for reliable automation.`
+        }],
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `Failed to start WDA: ${result.error}\n\n` +
+          `Falling back to cliclick/AppleScript methods. These still work but are less reliable.\n` +
+          `To install WDA: npm install -g appium && appium driver install xcuitest`
+      }],
+      isError: true,
+    };
+  },
+});
+
+export const uiAnalyzeScreenTool = defineTool({
+  name: "ui_analyze_screen",
+  description:
+    "Analyze the current screen - takes screenshot and discovers all UI elements with their coordinates. Essential for understanding what can be interacted with.",
+  schema: z.object({
+    includeScreenshot: z.boolean().optional().describe("Include screenshot path in result (default: true)"),
+    ...inlineImageOptions,
+  }),
+  handler: async (args) => {
+    const includeScreenshot = args.includeScreenshot !== false;
+
+    const analysis = await analyzeScreen({ includeScreenshot });
+
+    if (!analysis.success) {
+      return {
+        content: [{ type: "text", text: `Failed to analyze screen: ${analysis.error}` }],
+        isError: true,
+      };
+    }
+
+    const lines: string[] = [
+      `# Screen Analysis (via ${analysis.method})`,
+      "",
+    ];
+
+    if (analysis.screenshotPath) {
+      lines.push(`Screenshot: ${analysis.screenshotPath}`);
+      lines.push("");
+    }
+
+    lines.push(`## Summary`);
+    lines.push(`- Total elements: ${analysis.elements.length}`);
+    lines.push(`- Interactive elements: ${analysis.interactiveElements.length}`);
+    lines.push(`- Buttons: ${analysis.buttons.length}`);
+    lines.push(`- Text fields: ${analysis.textFields.length}`);
+    lines.push("");
+
+    if (analysis.buttons.length > 0) {
+      lines.push("## Buttons");
+      for (const btn of analysis.buttons.slice(0, 10)) {
+        lines.push(`- "${btn.label || btn.value || "Unlabeled"}" at (${Math.round(btn.centerX)}, ${Math.round(btn.centerY)})`);
+      }
+      if (analysis.buttons.length > 10) {
+        lines.push(`  ... and ${analysis.buttons.length - 10} more`);
+      }
+      lines.push("");
+    }
+
+    if (analysis.textFields.length > 0) {
+      lines.push("## Text Fields");
+      for (const field of analysis.textFields.slice(0, 10)) {
+        lines.push(`- "${field.label || field.value || "Unlabeled"}" at (${Math.round(field.centerX)}, ${Math.round(field.centerY)})`);
+      }
+      lines.push("");
+    }
+
+    if (analysis.interactiveElements.length > 0) {
+      lines.push("## Other Interactive Elements");
+      const others = analysis.interactiveElements.filter(
+        e => !analysis.buttons.includes(e) && !analysis.textFields.includes(e)
+      ).slice(0, 10);
+      for (const el of others) {
+        lines.push(`- [${el.type}] "${el.label || el.value || "Unlabeled"}" at (${Math.round(el.centerX)}, ${Math.round(el.centerY)})`);
+      }
+    }
+
+    return {
+      content: [
+        { type: "text", text: lines.join("\n") },
+        ...(await screenshotContent(analysis.screenshotPath, args)),
+      ],
+    };
+  },
+});
+
+export const uiFindAndTapTool = defineTool({
+  name: "ui_find_and_tap",
+  description:
+    "Find a UI element by label/type/text and tap it. More reliable than coordinate-based tapping. Uses WDA if available, falls back to cliclick/AppleScript.",
+  schema: z.object({
+    label: z.string().optional().describe("Element label to find"),
+    type: z.string().optional().describe("Element type (button, textField, cell, etc.)"),
+    containsText: z.string().optional().describe("Text the element should contain"),
+    index: z.number().optional().describe("Index if multiple matches (default: 0)"),
+  }),
+  handler: async (args) => {
+    const result = await findAndTap(args);
+
+    if (result.success && result.element) {
+      return {
+        content: [{
+          type: "text",
+          text: `Tapped "${result.element.label || result.element.type}" at (${Math.round(result.element.centerX)}, ${Math.round(result.element.centerY)})`
+        }],
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Failed to tap: ${result.error}` }],
+      isError: true,
+    };
+  },
+});
+
+export const uiFindAndTypeTool = defineTool({
+  name: "ui_find_and_type",
+  description: "Find a text field and type into it. Automatically taps to focus first.",
+  schema: z.object({
+    text: z.string().describe("Text to type"),
+    label: z.string().optional().describe("Text field label"),
+    placeholder: z.string().optional().describe("Text field placeholder text"),
+    index: z.number().optional().describe("Index if multiple matches (default: 0)"),
+  }),
+  handler: async (args) => {
+    const { text, ...query } = args;
+
+    const result = await findAndType(query, text);
+
+    if (result.success) {
+      return {
+        content: [{
+          type: "text",
+          text: `Typed "${text.length > 30 ? text.substring(0, 30) + "..." : text}" into ${result.element?.label || "text field"}`
+        }],
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Failed to type: ${result.error}` }],
+      isError: true,
+    };
+  },
+});
+
+export const uiRunFlowTool = defineTool({
+  name: "ui_run_flow",
+  description:
+    "Run an automated UI test flow - a sequence of taps, types, swipes, and waits. Optionally generates XCUITest code for the flow.",
+  schema: z.object({
+    actions: z.array(z.object({
+      action: z.enum(["tap", "type", "swipe", "wait", "screenshot"]),
+      target: z.object({
+        label: z.string().optional(),
+        type: z.string().optional(),
+        containsText: z.string().optional(),
+        index: z.number().optional(),
+      }).optional().describe("Element to interact with (for tap/type)"),
+      text: z.string().optional().describe("Text to type (for type action)"),
+      coordinates: z.object({
+        x: z.number(),
+        y: z.number(),
+      }).optional().describe("Coordinates for tap (if no target)"),
+      swipe: z.object({
+        direction: z.enum(["up", "down", "left", "right"]),
+        distance: z.number().optional(),
+      }).optional().describe("Swipe configuration"),
+      duration: z.number().optional().describe("Duration in ms (for wait/swipe)"),
+    })).describe("Array of actions to perform"),
+    generateTest: z.boolean().optional().describe("Generate XCUITest code from the flow (default: false)"),
+    bundleId: z.string().optional().describe("App bundle ID for test generation"),
+  }),
+  handler: async (args) => {
+    const { actions } = args;
+    const { generateTest = false, bundleId } = args;
+
+    const result = await runAutomatedFlow(actions, {
+      recordForTest: generateTest,
+      bundleId,
+    });
+
+    const lines: string[] = [
+      `# Automation Flow Results`,
+      "",
+      `Overall: ${result.success ? "✅ Success" : "❌ Failed"}`,
+      "",
+      "## Actions:",
+    ];
+
+    for (const r of result.results) {
+      lines.push(`- ${r.action}: ${r.success ? "✅" : "❌"} ${r.error || ""}`);
+    }
+
+    if (result.testCode) {
+      lines.push("");
+      lines.push("## Generated XCUITest Code:");
+      lines.push("```swift");
+      lines.push(result.testCode);
+      lines.push("```");
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const uiRecordStartTool = defineTool({
+  name: "ui_record_start",
+  description:
+    "Start recording UI actions for XCUITest code generation. After recording, use ui_record_stop to get the generated test code.",
+  schema: z.object({
+    bundleId: z.string().optional().describe("Bundle ID of the app being tested"),
+  }),
+  handler: async (args) => {
+    const { bundleId } = args;
+
+    startUIRecording(bundleId);
+
+    return {
+      content: [{
+        type: "text",
+        text: `🔴 Recording started${bundleId ? ` for ${bundleId}` : ""}.\n\n` +
+          `Now perform UI interactions using:\n` +
+          `- ui_find_and_tap\n` +
+          `- ui_find_and_type\n` +
+          `- ui_tap / ui_swipe / ui_type\n\n` +
+          `When done, use ui_record_stop to generate XCUITest code.`
+      }],
+    };
+  },
+});
+
+export const uiRecordStopTool = defineTool({
+  name: "ui_record_stop",
+  description:
+    "Stop recording UI actions and generate XCUITest Swift code. Returns test code that can be added to your test target.",
+  schema: z.object({
+    testName: z.string().optional().describe("Name for the generated test method (default: testRecordedFlow)"),
+    className: z.string().optional().describe("Name for the test class (default: RecordedUITests)"),
+  }),
+  handler: async (args) => {
+    const { testName = "testRecordedFlow", className = "RecordedUITests" } = args;
+
+    const session = stopUIRecording();
+
+    if (!session) {
+      return {
+        content: [{ type: "text", text: "No recording session was active." }],
+        isError: true,
+      };
+    }
+
+    if (session.recordedActions.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: "Recording stopped but no actions were recorded.\n\n" +
+            "Make sure to use ui_find_and_tap, ui_find_and_type, etc. while recording."
+        }],
+      };
+    }
+
+    const testCode = generateXCUITest(session, { testName, className });
+
+    const lines: string[] = [
+      `⏹️ Recording stopped. ${session.recordedActions.length} actions recorded.`,
+      "",
+      "## Generated XCUITest Code",
+      "",
+      "Add this to your test target:",
+      "",
+      "```swift",
+      testCode,
+      "```",
+      "",
+      "## To use this test:",
+      "1. Add the code to a new file in your UITests target",
+      "2. Run with: xcode_test with onlyTesting: ['YourUITests/RecordedUITests/testRecordedFlow']",
+    ];
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+    };
+  },
+});
+
+export const uiTools = [
+  uiTapTool,
+  uiDoubleTapTool,
+  uiLongPressTool,
+  uiSwipeTool,
+  uiTypeTool,
+  uiPressKeyTool,
+  uiPressButtonTool,
+  uiScrollTool,
+  uiDismissKeyboardTool,
+  uiSetAppearanceTool,
+  uiDescribeScreenTool,
+  uiFindElementTool,
+  uiAutomationStatusTool,
+  uiAutomationStartTool,
+  uiAnalyzeScreenTool,
+  uiFindAndTapTool,
+  uiFindAndTypeTool,
+  uiRunFlowTool,
+  uiRecordStartTool,
+  uiRecordStopTool,
+];
@@ -0,0 +1,224 @@
+/**
+ * Web Tools
+ * Fetch web content and convert it to iOS code
+ */
+
+import { z } from "zod";
+import {
+  fetchWebContent,
+  downloadImage,
+  extractColors,
+  generateSwiftUIColors,
+  analyzeWebpageForUI,
+  textToSwiftUI,
+  convertWebToiOS,
+} from "../web/browser.js";
+import { defineTool } from "./registry.js";
+
+export const webFetchTool = defineTool({
+  name: "web_fetch",
+  description:
+    "Fetch content from a URL and extract text. Useful for reading documentation, getting design inspiration, or understanding API specs.",
+  schema: z.object({
+    url: z.string().describe("URL to fetch"),
+  }),
+  handler: async (args) => {
+    const { url } = args;
+
+    const result = await fetchWebContent(url);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to fetch: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const output = [
+      result.title ? `Title: ${result.title}` : "",
+      "",
+      result.content?.substring(0, 5000) || "(no content)",
+    ].filter(Boolean).join("\n");
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const webToIosTool = defineTool({
+  name: "web_to_ios",
+  description:
+    "Convert a webpage into iOS code. Extracts content, colors, and UI patterns, then generates SwiftUI views and data models.",
+  schema: z.object({
+    url: z.string().describe("URL to analyze and convert"),
+    generateView: z.boolean().optional().describe("Generate SwiftUI view (default: true)"),
+    generateModel: z.boolean().optional().describe("Generate data model (default: true)"),
+    generateColors: z.boolean().optional().describe("Extract and generate color definitions (default: true)"),
+  }),
+  handler: async (args) => {
+    const { url, generateView, generateModel, generateColors } = args;
+
+    const result = await convertWebToiOS(url, {
+      generateView: generateView !== false,
+      generateModel: generateModel !== false,
+      generateColors: generateColors !== false,
+    });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to convert: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const parts = [result.summary, ""];
+
+    if (result.swiftUIView) {
+      parts.push("=== SwiftUI View ===", result.swiftUIView, "");
+    }
+    if (result.dataModel) {
+      parts.push("=== Data Model ===", result.dataModel, "");
+    }
+    if (result.colors) {
+      parts.push("=== Colors ===", result.colors);
+    }
+
+    return {
+      content: [{ type: "text", text: parts.join("\n") }],
+    };
+  },
+});
+
+export const webAnalyzeUiTool = defineTool({
+  name: "web_analyze_ui",
+  description:
+    "Analyze a webpage's UI patterns and suggest iOS equivalents. Detects navigation, cards, lists, forms, grids, and provides SwiftUI code snippets.",
+  schema: z.object({
+    url: z.string().describe("URL to analyze for UI patterns"),
+  }),
+  handler: async (args) => {
+    const { url } = args;
+
+    const result = await analyzeWebpageForUI(url);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to analyze: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    let output = result.summary + "\n\n";
+
+    if (result.patterns.length > 0) {
+      output += "=== UI Patterns & SwiftUI Code ===\n\n";
+      for (const pattern of result.patterns) {
+        output += `--- ${pattern.type.toUpperCase()} ---\n`;
+        output += `${pattern.description}\n\n`;
+        if (pattern.swiftUICode) {
+          output += "```swift\n" + pattern.swiftUICode + "\n```\n\n";
+        }
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const webDownloadImageTool = defineTool({
+  name: "web_download_image",
+  description:
+    "Download an image from a URL for use in the iOS app. Saves to a local path that can be added to Assets.",
+  dryRun: false,
+  schema: z.object({
+    url: z.string().describe("Image URL to download"),
+    filename: z.string().optional().describe("Custom filename (optional)"),
+  }),
+  handler: async (args) => {
+    const { url, filename } = args;
+
+    const result = await downloadImage(url, { filename });
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to download: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: `Image downloaded!\n\nPath: ${result.localPath}\nFilename: ${result.filename}\nSize: ${(result.size! / 1024).toFixed(1)} KB\n\nAdd this to your Xcode project's Assets.xcassets` }],
+    };
+  },
+});
+
+export const textToSwiftuiTool = defineTool({
+  name: "text_to_swiftui",
+  description:
+    "Convert plain text content into a SwiftUI view. Useful for turning copied content into a presentable iOS screen.",
+  schema: z.object({
+    text: z.string().describe("Text content to convert"),
+    style: z.enum(["article", "list", "card", "minimal"]).optional().describe("View style to generate (default: article)"),
+  }),
+  handler: async (args) => {
+    const { text, style = "article" } = args;
+
+    const code = textToSwiftUI(text, { style });
+
+    return {
+      content: [{ type: "text", text: `Generated SwiftUI View (${style} style):\n\n\`\`\`swift\n${code}\n\`\`\`` }],
+    };
+  },
+});
+
+export const webExtractColorsTool = defineTool({
+  name: "web_extract_colors",
+  description:
+    "Extract color palette from a webpage and generate Swift color definitions. Great for matching website branding in your iOS app.",
+  schema: z.object({
+    url: z.string().describe("URL to extract colors from"),
+    framework: z.enum(["swiftui", "uikit"]).optional().describe("Framework for color definitions (default: swiftui)"),
+  }),
+  handler: async (args) => {
+    const { url, framework = "swiftui" } = args;
+
+    const fetchResult = await fetchWebContent(url, { extractText: false });
+
+    if (!fetchResult.success) {
+      return {
+        content: [{ type: "text", text: `Failed to fetch: ${fetchResult.error}` }],
+        isError: true,
+      };
+    }
+
+    const palette = extractColors(fetchResult.content || "");
+
+    if (palette.colors.length === 0) {
+      return {
+        content: [{ type: "text", text: "No colors found on the webpage." }],
+      };
+    }
+
+    const code = framework === "swiftui"
+      ? generateSwiftUIColors(palette, "brand")
+      : `import UIKit\n\nextension UIColor {\n${palette.colors.map((c, i) =>
+          `    static let brandColor${i + 1} = UIColor(red: ${(c.rgb.r / 255).toFixed(3)}, green: ${(c.rgb.g / 255).toFixed(3)}, blue: ${(c.rgb.b / 255).toFixed(3)}, alpha: 1.0) // ${c.hex}`
+        ).join("\n")}\n}`;
+
+    return {
+      content: [{ type: "text", text: `Found ${palette.colors.length} colors:\n\n${palette.colors.map(c => c.hex).join(", ")}\n\n\`\`\`swift\n${code}\n\`\`\`` }],
+    };
+  },
+});
+
+export const webTools = [
+  webFetchTool,
+  webToIosTool,
+  webAnalyzeUiTool,
+  webDownloadImageTool,
+  textToSwiftuiTool,
+  webExtractColorsTool,
+];
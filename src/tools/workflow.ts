@@ -0,0 +1,331 @@
+/**
+ * Workflow Tools
+ * Iterative development sessions (dev_*)
+ */
+
+import { z } from "zod";
+import {
+  startSession,
+  devRun,
+  devRestart,
+  devPreview,
+  getSession,
+  getSessionInfo,
+  clearSession,
+  DevRunResult,
+} from "../workflow/dev.js";
+import {
+  notifyResourcesUpdated,
+  recordBuildResult,
+  LATEST_SCREENSHOT_URI,
+  SESSION_URI,
+} from "../resources/store.js";
+import { defineTool, cancelledResponse } from "./registry.js";
+import { inlineImageOptions, screenshotContent } from "./images.js";
+
+/**
+ * Publish the build log, screenshot and session a run produced as resources.
+ * Returns the build log URI, if there was a build.
+ */
+function publishRunResources(result: DevRunResult, tool: string): string | undefined {
+  const session = getSession();
+  const buildLogUri = result.buildResult
+    ? recordBuildResult(result.buildResult, `${tool} ${session?.scheme ?? ""}`.trim())
+    : undefined;
+  const updated = [SESSION_URI];
+  if (result.screenshotPath) {
+    updated.push(LATEST_SCREENSHOT_URI);
+  }
+  notifyResourcesUpdated(updated, Boolean(result.screenshotPath));
+  return buildLogUri;
+}
+
+export const devSessionStartTool = defineTool({
+  name: "dev_session_start",
+  description:
+    "Start a development session for iterative iOS development. This sets up the project, scheme, and simulator for rapid iteration. After starting a session, use dev_run to build and run, or dev_restart for quick rebuilds. RECOMMENDED: Start here before using other dev_ tools.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().optional().describe("Xcode scheme to use (auto-detected if not specified)"),
+    simulatorName: z.string().optional().describe("Simulator device name (e.g., 'iPhone 15 Pro'). Uses booted simulator or auto-selects if not specified."),
+  }),
+  handler: async (args) => {
+    const { projectPath, scheme, simulatorName } = args;
+
+    const result = await startSession({
+      projectPath,
+      scheme,
+      simulatorName,
+    });
+
+    if (!result.success) {
+      const stepsOutput = result.steps
+        .map((s) => `${s.success ? "✓" : "✗"} ${s.step}: ${s.message}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to start development session:\n${result.error}\n\nSteps:\n${stepsOutput}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    notifyResourcesUpdated([SESSION_URI], true);
+
+    const stepsOutput = result.steps
+      .map((s) => `✓ ${s.step}: ${s.message}`)
+      .join("\n");
+
+    const sessionInfo = result.session
+      ? `\n\nSession Ready:\n- Project: ${result.session.scheme}\n- Bundle ID: ${result.session.bundleId}\n- Simulator: ${result.session.simulator.name}\n\nUse 'dev_run' to build and run your app!`
+      : "";
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Development session started!\n\n${stepsOutput}${sessionInfo}`,
+        },
+      ],
+    };
+  },
+});
+
+export const devRunTool = defineTool({
+  name: "dev_run",
+  description:
+    "Build, install, launch, and screenshot the app in one step. This is the main command for iterative development - like pressing 'Run' in Xcode but with automatic screenshots. Requires an active session (use dev_session_start first).",
+  schema: z.object({
+    clean: z.boolean().optional().describe("Clean build before building (default: false)"),
+    ...inlineImageOptions,
+  }),
+  handler: async (args, context) => {
+    const { clean } = args;
+
+    const result = await devRun({
+      clean,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Build/Run");
+    }
+
+    const buildLogUri = publishRunResources(result, "dev_run");
+
+    if (!result.success) {
+      const stepsOutput = result.steps
+        .map(
+          (s) =>
+            `${s.success ? "✓" : "✗"} ${s.step}: ${s.message}${s.duration ? ` (${(s.duration / 1000).toFixed(1)}s)` : ""}`
+        )
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Build/Run Failed:\n${result.error}\n\nSteps:\n${stepsOutput}${result.buildLogPath ? `\n\nFull build log: ${result.buildLogPath}` : ""}${buildLogUri ? `\nBuild log resource: ${buildLogUri}` : ""}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const stepsOutput = result.steps
+      .map(
+        (s) =>
+          `✓ ${s.step}: ${s.message}${s.duration ? ` (${(s.duration / 1000).toFixed(1)}s)` : ""}`
+      )
+      .join("\n");
+
+    const output = [
+      "App is running!",
+      "",
+      stepsOutput,
+      "",
+      result.buildTime
+        ? `Total build time: ${(result.buildTime / 1000).toFixed(2)}s`
+        : "",
+      result.screenshotPath ? `Screenshot: ${result.screenshotPath}` : "",
+      buildLogUri ? `Build log resource: ${buildLogUri}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+        ...(await screenshotContent(result.screenshotPath, args)),
+      ],
+    };
+  },
+});
+
+export const devRestartTool = defineTool({
+  name: "dev_restart",
+  description:
+    "Quick rebuild and relaunch for rapid iteration. Faster than dev_run as it skips clean build. Use after making code changes to see results immediately. Requires an active session.",
+  schema: z.object({
+    ...inlineImageOptions,
+  }),
+  handler: async (args, context) => {
+    const result = await devRestart({
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Restart");
+    }
+
+    const buildLogUri = publishRunResources(result, "dev_restart");
+
+    if (!result.success) {
+      const stepsOutput = result.steps
+        .map(
+          (s) =>
+            `${s.success ? "✓" : "✗"} ${s.step}: ${s.message}${s.duration ? ` (${(s.duration / 1000).toFixed(1)}s)` : ""}`
+        )
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Restart Failed:\n${result.error}\n\nSteps:\n${stepsOutput}${result.buildLogPath ? `\n\nFull build log: ${result.buildLogPath}` : ""}${buildLogUri ? `\nBuild log resource: ${buildLogUri}` : ""}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const stepsOutput = result.steps
+      .map(
+        (s) =>
+          `✓ ${s.step}: ${s.message}${s.duration ? ` (${(s.duration / 1000).toFixed(1)}s)` : ""}`
+      )
+      .join("\n");
+
+    const output = [
+      "App restarted!",
+      "",
+      stepsOutput,
+      "",
+      result.buildTime
+        ? `Build time: ${(result.buildTime / 1000).toFixed(2)}s`
+        : "",
+      result.screenshotPath ? `Screenshot: ${result.screenshotPath}` : "",
+      buildLogUri ? `Build log resource: ${buildLogUri}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+        ...(await screenshotContent(result.screenshotPath, args)),
+      ],
+    };
+  },
+});
+
+export const devPreviewTool = defineTool({
+  name: "dev_preview",
+  description:
+    "Take a screenshot of the current app state without rebuilding. Useful for checking UI state or capturing specific screens. Requires an active session with a running app.",
+  schema: z.object({
+    outputPath: z.string().optional().describe("Custom path to save the screenshot"),
+    ...inlineImageOptions,
+  }),
+  handler: async (args) => {
+    const { outputPath } = args;
+
+    const result = await devPreview({ outputPath });
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Screenshot failed: ${result.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    notifyResourcesUpdated([LATEST_SCREENSHOT_URI, SESSION_URI], true);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Screenshot captured: ${result.path}`,
+        },
+        ...(await screenshotContent(result.path, args)),
+      ],
+    };
+  },
+});
+
+export const devSessionInfoTool = defineTool({
+  name: "dev_session_info",
+  description:
+    "Show the current development session details including project, scheme, simulator, and last build info.",
+  schema: z.object({}),
+  handler: async () => {
+    return {
+      content: [
+        {
+          type: "text",
+          text: getSessionInfo(),
+        },
+      ],
+    };
+  },
+});
+
+export const devSessionEndTool = defineTool({
+  name: "dev_session_end",
+  description: "End the current development session and clear session state.",
+  schema: z.object({}),
+  handler: async () => {
+    const session = getSession();
+    clearSession();
+    if (session) {
+      notifyResourcesUpdated([SESSION_URI], true);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: session
+            ? `Development session ended for ${session.scheme}.`
+            : "No active session to end.",
+        },
+      ],
+    };
+  },
+});
+
+export const workflowTools = [
+  devSessionStartTool,
+  devRunTool,
+  devRestartTool,
+  devPreviewTool,
+  devSessionInfoTool,
+  devSessionEndTool,
+];
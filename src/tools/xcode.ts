@@ -0,0 +1,506 @@
+/**
+ * Xcode Tools
+ * Building, build settings, tests and coverage
+ */
+
+import { z } from "zod";
+import { listSchemes, build, getBuildSettings } from "../xcode/builder.js";
+import {
+  runTests,
+  listTests,
+  formatTestResults,
+  getCoverage,
+} from "../xcode/testing.js";
+import { formatBuildTimingReport } from "../xcode/timing.js";
+import { archive, exportArchive, ExportResult } from "../xcode/archive.js";
+import { recordBuildResult, recordTestResult } from "../resources/store.js";
+import { defineTool, cancelledResponse } from "./registry.js";
+
+export const xcodeListSchemesTool = defineTool({
+  name: "xcode_list_schemes",
+  description:
+    "List all available schemes, configurations, and targets in an Xcode project or workspace.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+  }),
+  handler: async (args) => {
+    const { projectPath } = args;
+
+    const result = await listSchemes(projectPath);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to list schemes: ${result.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const output = [
+      `Schemes: ${result.schemes.join(", ") || "(none)"}`,
+      `Configurations: ${result.configurations.join(", ") || "(none)"}`,
+      `Targets: ${result.targets.join(", ") || "(none)"}`,
+    ].join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  },
+});
+
+export const xcodeBuildTool = defineTool({
+  name: "xcode_build",
+  description: "Build an Xcode project or workspace. Returns build status, warnings, and errors.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme to build"),
+    configuration: z.enum(["Debug", "Release"]).optional().describe("Build configuration"),
+    sdk: z.string().optional().describe("SDK to build for (e.g., iphonesimulator, iphoneos)"),
+    destination: z.string().optional().describe("Build destination (e.g., 'platform=iOS Simulator,name=iPhone 15')"),
+    clean: z.boolean().optional().describe("Clean before building"),
+  }),
+  handler: async (args, context) => {
+    const { projectPath, scheme, configuration = "Debug", sdk, destination, clean } = args;
+
+    const result = await build(projectPath, {
+      scheme,
+      configuration,
+      sdk,
+      destination,
+      clean,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Build");
+    }
+
+    const buildLogUri = recordBuildResult(result, `xcode_build ${scheme}`);
+
+    if (!result.success) {
+      const errorOutput = [
+        `Build Failed`,
+        `Error: ${result.error}`,
+        result.errors.length > 0 ? `\nErrors:\n${result.errors.join("\n")}` : "",
+        result.warnings.length > 0 ? `\nWarnings:\n${result.warnings.join("\n")}` : "",
+        result.logPath ? `\nFull log: ${result.logPath}` : "",
+        result.resultBundlePath ? `Result bundle: ${result.resultBundlePath}` : "",
+        `Build log resource: ${buildLogUri}`,
+      ].join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: errorOutput,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const successOutput = [
+      `Build Succeeded`,
+      `Time: ${(result.buildTime / 1000).toFixed(2)}s`,
+      result.warnings.length > 0 ? `\nWarnings (${result.warnings.length}):\n${result.warnings.slice(0, 10).join("\n")}` : "",
+      result.logPath ? `\nFull log: ${result.logPath}` : "",
+      result.resultBundlePath ? `Result bundle: ${result.resultBundlePath}` : "",
+      `Build log resource: ${buildLogUri}`,
+    ].join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: successOutput,
+        },
+      ],
+    };
+  },
+});
+
+export const xcodeBuildInsightsTool = defineTool({
+  name: "xcode_build_insights",
+  description:
+    "Build an Xcode project with timing analysis and report where the time goes: build phases, Swift type-check time per target, and the slowest files, functions and expressions.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme to build"),
+    configuration: z.enum(["Debug", "Release"]).optional().describe("Build configuration"),
+    sdk: z.string().optional().describe("SDK to build for (e.g., iphonesimulator, iphoneos)"),
+    destination: z.string().optional().describe("Build destination (e.g., 'platform=iOS Simulator,name=iPhone 15')"),
+    clean: z.boolean().optional().describe("Clean before building, so every file is compiled and timed"),
+    top: z.number().int().positive().optional().describe("Hotspots to show per category (default: 10)"),
+    threshold: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Report expressions that take longer than this many ms to type-check (default: 100)"),
+  }),
+  handler: async (args, context) => {
+    const { projectPath, scheme, configuration = "Debug", sdk, destination, clean, top, threshold } = args;
+
+    const result = await build(projectPath, {
+      scheme,
+      configuration,
+      sdk,
+      destination,
+      clean,
+      analyzeTiming: true,
+      timingThreshold: threshold,
+      timingTop: top,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Build");
+    }
+
+    const buildLogUri = recordBuildResult(result, `xcode_build_insights ${scheme}`);
+    const seconds = result.timing?.totalSeconds ?? result.buildTime / 1000;
+
+    const sections = [
+      `Build Insights (${result.success ? "Build Succeeded" : "Build Failed"}, ${seconds.toFixed(2)}s)`,
+      result.success ? "" : `Error: ${result.error}${result.errors.length > 0 ? `\n${result.errors.slice(0, 10).join("\n")}` : ""}`,
+      result.timing ? formatBuildTimingReport(result.timing) : "",
+      [result.logPath ? `Full log: ${result.logPath}` : "", `Build log resource: ${buildLogUri}`].filter(Boolean).join("\n"),
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const xcodeArchiveTool = defineTool({
+  name: "xcode_archive",
+  description:
+    "Archive an Xcode scheme with xcodebuild archive. Returns the .xcarchive path for xcode_export, plus warnings and errors.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme to archive"),
+    // Not "configuration"/"destination": the project config's build defaults
+    // (Debug, a simulator) must not apply to archives
+    archiveConfiguration: z.string().optional().describe("Build configuration (default: Release)"),
+    archiveDestination: z.string().optional().describe("Archive destination (default: 'generic/platform=iOS')"),
+    archivePath: z.string().optional().describe("Where to write the .xcarchive (default: the artifact store)"),
+    teamID: z.string().optional().describe("Development team ID (sets DEVELOPMENT_TEAM)"),
+    allowProvisioningUpdates: z.boolean().optional().describe("Let xcodebuild create and update provisioning profiles"),
+  }),
+  handler: async (args, context) => {
+    const { projectPath, scheme, archiveConfiguration, archiveDestination, ...options } = args;
+
+    const result = await archive(projectPath, {
+      scheme,
+      configuration: archiveConfiguration,
+      destination: archiveDestination,
+      ...options,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Archive");
+    }
+
+    const buildLogUri = recordBuildResult(result, `xcode_archive ${scheme}`);
+    const sections = [
+      result.success
+        ? `Archive Succeeded\nArchive: ${result.archivePath}\nTime: ${(result.buildTime / 1000).toFixed(2)}s`
+        : `Archive Failed\nError: ${result.error}`,
+      result.errors.length > 0 ? `Errors:\n${result.errors.join("\n")}` : "",
+      result.warnings.length > 0 ? `Warnings (${result.warnings.length}):\n${result.warnings.slice(0, 10).join("\n")}` : "",
+      [result.logPath ? `Full log: ${result.logPath}` : "", `Build log resource: ${buildLogUri}`].filter(Boolean).join("\n"),
+    ].filter(Boolean);
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      isError: !result.success,
+    };
+  },
+});
+
+// UIDeviceFamily values
+const DEVICE_FAMILIES: Record<number, string> = { 1: "iPhone", 2: "iPad", 3: "Apple TV", 4: "Apple Watch", 7: "Apple Vision" };
+
+function formatExportResult(result: ExportResult): string {
+  const lines = ["Export Succeeded", `Export path: ${result.exportPath}`];
+  if (result.ipaPath) {
+    lines.push(`IPA: ${result.ipaPath} (${((result.size ?? 0) / (1024 * 1024)).toFixed(1)} MB)`);
+  } else {
+    lines.push("No IPA was written (uploads go straight to App Store Connect).");
+  }
+
+  const info = result.info;
+  if (info) {
+    const devices = info.deviceFamily?.map((family) => DEVICE_FAMILIES[family] ?? String(family));
+    lines.push(
+      "",
+      "Info.plist:",
+      ...[
+        info.name ? `  Name: ${info.name}` : "",
+        info.bundleIdentifier ? `  Bundle ID: ${info.bundleIdentifier}` : "",
+        info.version ? `  Version: ${info.version}${info.build ? ` (${info.build})` : ""}` : "",
+        info.minimumOSVersion ? `  Minimum OS: ${info.minimumOSVersion}` : "",
+        info.platform ? `  Platform: ${info.platform}${info.sdk ? `, SDK ${info.sdk}` : ""}` : "",
+        devices && devices.length > 0 ? `  Devices: ${devices.join(", ")}` : "",
+        info.xcode ? `  Built with Xcode: ${info.xcode}` : "",
+      ].filter(Boolean)
+    );
+  }
+
+  if (result.logPath) {
+    lines.push("", `Full log: ${result.logPath}`);
+  }
+  return lines.join("\n");
+}
+
+export const xcodeExportTool = defineTool({
+  name: "xcode_export",
+  description:
+    "Export an .xcarchive with xcodebuild -exportArchive, generating ExportOptions.plist from the given options. Returns the IPA path, size and an Info.plist summary.",
+  schema: z.object({
+    archivePath: z.string().describe("Path to the .xcarchive (from xcode_archive)"),
+    method: z
+      .enum([
+        "app-store-connect",
+        "release-testing",
+        "enterprise",
+        "debugging",
+        "developer-id",
+        "mac-application",
+        "validation",
+        "app-store",
+        "ad-hoc",
+        "development",
+      ])
+      .describe("Distribution method (app-store, ad-hoc and development are the names before Xcode 15.3)"),
+    teamID: z.string().optional().describe("Team ID to sign with"),
+    signingStyle: z.enum(["automatic", "manual"]).optional().describe("Signing style"),
+    signingCertificate: z.string().optional().describe("Certificate name or SHA-1 (e.g., 'Apple Distribution')"),
+    provisioningProfiles: z
+      .record(z.string())
+      .optional()
+      .describe("Provisioning profile per bundle identifier, for manual signing (e.g., {'com.example.app': 'App Store Profile'})"),
+    upload: z.boolean().optional().describe("Upload to App Store Connect instead of writing an IPA"),
+    exportPath: z.string().optional().describe("Directory for the IPA (default: the artifact store)"),
+    allowProvisioningUpdates: z.boolean().optional().describe("Let xcodebuild create and update provisioning profiles"),
+  }),
+  handler: async (args, context) => {
+    const { archivePath, exportPath, allowProvisioningUpdates, upload, ...exportOptions } = args;
+
+    const result = await exportArchive(archivePath, {
+      exportOptions: { ...exportOptions, destination: upload ? "upload" : undefined },
+      exportPath,
+      allowProvisioningUpdates,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Export");
+    }
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: [`Export Failed`, `Error: ${result.error}`, result.logPath ? `Full log: ${result.logPath}` : ""]
+              .filter(Boolean)
+              .join("\n"),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: formatExportResult(result) }],
+    };
+  },
+});
+
+export const xcodeGetBuildSettingsTool = defineTool({
+  name: "xcode_get_build_settings",
+  description: "Get build settings for an Xcode project scheme.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme"),
+    sdk: z.string().optional().describe("SDK to get settings for (e.g., iphonesimulator, iphoneos). Important: affects BUILT_PRODUCTS_DIR path"),
+    destination: z.string().optional().describe("Build destination (e.g., 'platform=iOS Simulator,name=iPhone 15')"),
+  }),
+  handler: async (args) => {
+    const { projectPath, scheme, sdk, destination } = args;
+
+    const result = await getBuildSettings(projectPath, scheme, {
+      sdk,
+      destination,
+    });
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to get build settings: ${result.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Show key settings
+    const keySettings = [
+      "PRODUCT_NAME",
+      "PRODUCT_BUNDLE_IDENTIFIER",
+      "INFOPLIST_FILE",
+      "CONFIGURATION_BUILD_DIR",
+      "BUILT_PRODUCTS_DIR",
+      "SDKROOT",
+      "DEPLOYMENT_TARGET_SETTING_NAME",
+      "IPHONEOS_DEPLOYMENT_TARGET",
+    ];
+
+    const output = keySettings
+      .filter((key) => result.settings[key])
+      .map((key) => `${key} = ${result.settings[key]}`)
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output || "(no settings found)",
+        },
+      ],
+    };
+  },
+});
+
+export const xcodeTestTool = defineTool({
+  name: "xcode_test",
+  description:
+    "Run XCTest unit tests or UI tests for an Xcode project. Returns test results with pass/fail status.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme containing tests"),
+    testPlan: z.string().optional().describe("Test plan to use (optional)"),
+    onlyTesting: z.array(z.string()).optional().describe("Specific tests to run (e.g., ['MyTests/testLogin'])"),
+    skipTesting: z.array(z.string()).optional().describe("Tests to skip"),
+  }),
+  handler: async (args, context) => {
+    const { projectPath, scheme, testPlan, onlyTesting, skipTesting } = args;
+
+    const result = await runTests(projectPath, {
+      scheme,
+      testPlan,
+      onlyTesting,
+      skipTesting,
+      onProgress: context.onProgress,
+      signal: context.signal,
+    });
+
+    if (result.cancelled) {
+      return cancelledResponse("Test run");
+    }
+
+    const resultUri = recordTestResult(result, `xcode_test ${scheme}`);
+    const formattedResults = `${formatTestResults(result)}\n\nResults resource: ${resultUri}`;
+
+    return {
+      content: [{ type: "text", text: formattedResults }],
+      isError: !result.success,
+    };
+  },
+});
+
+export const xcodeTestListTool = defineTool({
+  name: "xcode_test_list",
+  description: "List available tests in an Xcode project.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme"),
+  }),
+  handler: async (args) => {
+    const { projectPath, scheme } = args;
+
+    const result = await listTests(projectPath, scheme);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to list tests: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const output = result.testTargets.length > 0
+      ? result.testTargets
+          .map((t) => `${t.name}:\n${t.tests.map((test) => `  - ${test}`).join("\n")}`)
+          .join("\n\n")
+      : "No tests found";
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const xcodeCoverageTool = defineTool({
+  name: "xcode_coverage",
+  description: "Get code coverage report from the most recent test run.",
+  schema: z.object({
+    projectPath: z.string().describe("Path to .xcodeproj or .xcworkspace"),
+    scheme: z.string().describe("Xcode scheme"),
+  }),
+  handler: async (args) => {
+    const { projectPath, scheme } = args;
+
+    const result = await getCoverage(projectPath, scheme);
+
+    if (!result.success) {
+      return {
+        content: [{ type: "text", text: `Failed to get coverage: ${result.error}` }],
+        isError: true,
+      };
+    }
+
+    const coverage = result.coverage!;
+    const output = [
+      `Code Coverage: ${coverage.lineCoverage.toFixed(1)}%`,
+      "",
+      "Top Files:",
+      ...coverage.files.slice(0, 10).map(
+        (f) => `  ${f.lineCoverage.toFixed(1)}% - ${f.path} (${f.coveredLines}/${f.executableLines})`
+      ),
+    ].join("\n");
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  },
+});
+
+export const xcodeTools = [
+  xcodeListSchemesTool,
+  xcodeBuildTool,
+  xcodeBuildInsightsTool,
+  xcodeArchiveTool,
+  xcodeExportTool,
+  xcodeGetBuildSettingsTool,
+  xcodeTestTool,
+  xcodeTestListTool,
+  xcodeCoverageTool,
+];
@@ -0,0 +1,257 @@
+/**
+ * HTTP Transport
+ * Serves MCP over Streamable HTTP (/mcp) and the legacy SSE transport
+ * (GET /sse + POST /messages), with bearer-token auth. Every connection gets
+ * its own session from the factory, so clients don't share server state.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number; // 0 picks a free port
+  token: string;
+  idleTimeout?: number; // ms without requests before a session is closed (default 30 minutes)
+}
+
+/**
+ * One client's MCP server, connected to that client's transport
+ */
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type McpSessionFactory = (sessionId: string) => McpSession;
+
+export interface HttpServerHandle {
+  server: HttpServer;
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  session: McpSession;
+  lastActive: number; // when the last request finished
+  openRequests: number; // includes open event streams, so connected SSE clients never go idle
+}
+
+function sendError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return false;
+  }
+  // Compare digests so the comparison is constant-time regardless of length
+  const expected = createHash("sha256").update(token).digest();
+  const given = createHash("sha256").update(match[1].trim()).digest();
+  return timingSafeEqual(expected, given);
+}
+
+/**
+ * Read and parse a JSON request body. On failure the error response has
+ * already been sent and `ok` is false.
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<{ ok: true; body: unknown } | { ok: false }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      sendError(res, 413, "Request body too large");
+      return { ok: false };
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) };
+  } catch {
+    sendError(res, 400, "Parse error: invalid JSON", -32700);
+    return { ok: false };
+  }
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createSession: McpSessionFactory
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, SessionEntry>();
+  const idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+
+  // Clients that disappear without closing their session are evicted once idle
+  const track = (entry: SessionEntry, res: ServerResponse) => {
+    entry.openRequests++;
+    res.once("close", () => {
+      entry.openRequests--;
+      entry.lastActive = Date.now();
+    });
+  };
+  const evictIdleSessions = () => {
+    const now = Date.now();
+    for (const [id, entry] of sessions) {
+      if (entry.openRequests === 0 && now - entry.lastActive > idleTimeout) {
+        sessions.delete(id);
+        entry.session.close().catch(() => {});
+      }
+    }
+  };
+  const evictionTimer = setInterval(evictIdleSessions, Math.min(idleTimeout, 60000));
+  evictionTimer.unref();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const entry = sessions.get(sessionId);
+      if (!entry || !(entry.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, "Session not found");
+        return;
+      }
+      track(entry, res);
+      if (req.method !== "POST") {
+        await entry.transport.handleRequest(req, res);
+        return;
+      }
+      const parsed = await readJsonBody(req, res);
+      if (parsed.ok) {
+        await entry.transport.handleRequest(req, res, parsed.body);
+      }
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, "Missing mcp-session-id header");
+      return;
+    }
+    const parsed = await readJsonBody(req, res);
+    if (!parsed.ok) {
+      return;
+    }
+    const body = parsed.body;
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, "No session: the first request must be initialize");
+      return;
+    }
+
+    const id = randomUUID();
+    const session = createSession(id);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      onsessioninitialized: () => {
+        sessions.set(id, { transport, session, lastActive: Date.now(), openRequests: 0 });
+      },
+    });
+    transport.onclose = () => {
+      sessions.delete(id);
+    };
+
+    await session.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // A rejected initialize never registers the session
+    if (!sessions.has(id)) {
+      await session.close();
+    }
+  };
+
+  const handleSseConnect = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const id = transport.sessionId;
+    const session = createSession(id);
+    const entry: SessionEntry = { transport, session, lastActive: Date.now(), openRequests: 0 };
+    sessions.set(id, entry);
+    track(entry, res);
+    transport.onclose = () => {
+      sessions.delete(id);
+    };
+
+    // connect() starts the transport, which opens the event stream
+    await session.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const entry = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!entry || !(entry.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, "Session not found");
+      return;
+    }
+    track(entry, res);
+    await entry.transport.handlePostMessage(req, res);
+  };
+
+  const server = createServer(async (req, res) => {
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { "WWW-Authenticate": 'Bearer realm="ios-dev-mcp"', "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Unauthorized" }));
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendError(res, 404, "Not found");
+      }
+    } catch (error) {
+      console.error("[HTTP]", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendError(res, 500, "Internal server error", -32603);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    server,
+    url: `http://${host}:${port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(evictionTimer);
+      await Promise.all([...sessions.values()].map(({ session }) => session.close().catch(() => {})));
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Transport Options
+ * Choose between stdio and HTTP from CLI flags or environment variables
+ */
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportOptions {
+  transport: TransportMode;
+  host: string; // HTTP only
+  port: number; // HTTP only
+  token?: string; // bearer token required on every HTTP request
+}
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3100;
+
+/**
+ * Parse `--transport stdio|http` (or `--http`), `--host`, `--port` and
+ * `--token`. Flags take precedence over IOS_DEV_MCP_TRANSPORT,
+ * IOS_DEV_MCP_HOST, IOS_DEV_MCP_PORT and IOS_DEV_MCP_TOKEN.
+ * Throws on unknown flags or invalid values.
+ */
+export function parseTransportOptions(
+  argv: string[],
+  env: Record<string, string | undefined> = process.env
+): TransportOptions {
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--http") {
+      flags.transport = "http";
+      continue;
+    }
+
+    const match = /^--(transport|host|port|token)(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${match[1]}`);
+    }
+    flags[match[1]] = value;
+  }
+
+  const transport = flags.transport ?? env.IOS_DEV_MCP_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport: ${transport} (expected stdio or http)`);
+  }
+
+  const portValue = flags.port ?? env.IOS_DEV_MCP_PORT;
+  const port = portValue !== undefined ? Number(portValue) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
+
+  return {
+    transport,
+    host: flags.host ?? env.IOS_DEV_MCP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    token: flags.token || env.IOS_DEV_MCP_TOKEN || undefined,
+  };
+}
@@ -21,7 +21,7 @@ export async function isIDBAvailable(): Promise<boolean> {
     return idbAvailable;
   }
 
-  const result = await executeCommand("which", ["idb"], { timeout: 2000 });
+  const result = await executeCommand("which", ["idb"], { timeout: 2000, readOnly: true });
   idbAvailable = result.exitCode === 0;
   return idbAvailable;
 }
@@ -35,7 +35,7 @@ export async function isAXeAvailable(): Promise<boolean> {
     return axeAvailable;
   }
 
-  const result = await executeCommand("which", ["axe"], { timeout: 2000 });
+  const result = await executeCommand("which", ["axe"], { timeout: 2000, readOnly: true });
   axeAvailable = result.exitCode === 0;
   return axeAvailable;
 }
@@ -1038,7 +1038,7 @@ export async function checkUIAutomationAvailable(): Promise<{
   }
 
   // Check cliclick (requires window position but reliable)
-  const cliclickResult = await executeCommand("which", ["cliclick"], { timeout: 2000 });
+  const cliclickResult = await executeCommand("which", ["cliclick"], { timeout: 2000, readOnly: true });
   const hasCliclick = cliclickResult.exitCode === 0;
   if (hasCliclick) {
     capabilities.push("cliclick (tap, swipe, long press, double-click - requires window focus)");
@@ -1049,7 +1049,7 @@ export async function checkUIAutomationAvailable(): Promise<{
   }
 
   // Check AppleScript (basic fallback for clicks and keystrokes)
-  const osascriptResult = await executeCommand("which", ["osascript"], { timeout: 2000 });
+  const osascriptResult = await executeCommand("which", ["osascript"], { timeout: 2000, readOnly: true });
   const hasAppleScript = osascriptResult.exitCode === 0;
   if (hasAppleScript) {
     capabilities.push("AppleScript (keystroke, fallback clicks - requires window focus)");
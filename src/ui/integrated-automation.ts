@@ -15,6 +15,8 @@
  */
 
 import { executeCommand } from "../utils/process.js";
+import { clientState } from "../utils/client-scope.js";
+import { isDryRun } from "../utils/dry-run.js";
 import { getBootedSimulator, takeScreenshot } from "../simulator/controller.js";
 import { tap, swipe, typeText, isIDBAvailable, isAXeAvailable } from "./automation.js";
 import {
@@ -79,8 +81,8 @@ export interface AutomationSession {
   screenshots: string[];
 }
 
-// Session state
-let automationSession: AutomationSession | null = null;
+// Recording state, one per client
+const recordingState = clientState<{ session: AutomationSession | null }>(() => ({ session: null }));
 
 // ============================================================================
 // Screen Analysis
@@ -474,7 +476,7 @@ export async function swipeGesture(
  * Start recording actions for test generation
  */
 export function startRecording(bundleId?: string): void {
-  automationSession = {
+  recordingState().session = {
     startTime: Date.now(),
     bundleId,
     recordedActions: [],
@@ -486,8 +488,9 @@ export function startRecording(bundleId?: string): void {
  * Stop recording and return recorded actions
  */
 export function stopRecording(): AutomationSession | null {
-  const session = automationSession;
-  automationSession = null;
+  const state = recordingState();
+  const session = state.session;
+  state.session = null;
   return session;
 }
 
@@ -495,9 +498,7 @@ export function stopRecording(): AutomationSession | null {
  * Record an action (called internally)
  */
 function recordAction(action: RecordedAction): void {
-  if (automationSession) {
-    automationSession.recordedActions.push(action);
-  }
+  recordingState().session?.recordedActions.push(action);
 }
 
 /**
@@ -515,7 +516,7 @@ export function recordWait(milliseconds: number): void {
  * Get current recording session
  */
 export function getRecordingSession(): AutomationSession | null {
-  return automationSession;
+  return recordingState().session;
 }
 
 // ============================================================================
@@ -787,7 +788,9 @@ export async function runAutomatedFlow(
         break;
 
       case "wait":
-        await new Promise((resolve) => setTimeout(resolve, actionDef.duration || 1000));
+        if (!isDryRun()) {
+          await new Promise((resolve) => setTimeout(resolve, actionDef.duration || 1000));
+        }
         recordWait(actionDef.duration || 1000);
         result = { success: true };
         break;
@@ -857,11 +860,11 @@ export async function getAutomationStatus(): Promise<{
   const hasAXe = await isAXeAvailable();
 
   // Check cliclick
-  const cliclickResult = await executeCommand("which", ["cliclick"], { timeout: 2000 });
+  const cliclickResult = await executeCommand("which", ["cliclick"], { timeout: 2000, readOnly: true });
   const hasCliclick = cliclickResult.exitCode === 0;
 
   // Check AppleScript
-  const osascriptResult = await executeCommand("which", ["osascript"], { timeout: 2000 });
+  const osascriptResult = await executeCommand("which", ["osascript"], { timeout: 2000, readOnly: true });
   const hasApplescript = osascriptResult.exitCode === 0;
 
   // Determine recommended method (priority: IDB > AXe > WDA > cliclick > AppleScript)
@@ -896,7 +899,7 @@ export async function getAutomationStatus(): Promise<{
       cliclick: hasCliclick,
       applescript: hasApplescript,
     },
-    recording: automationSession !== null,
+    recording: getRecordingSession() !== null,
     recommendedMethod,
   };
 }
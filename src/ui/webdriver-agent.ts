@@ -10,6 +10,8 @@
 
 import { executeCommand, executeShell } from "../utils/process.js";
 import { getBootedSimulator } from "../simulator/controller.js";
+import { clientState } from "../utils/client-scope.js";
+import { getProjectConfig } from "../utils/config.js";
 
 export interface WDAElement {
   type: string;
@@ -44,18 +46,28 @@ export interface WDAStatus {
   error?: string;
 }
 
-// WDA state management
-let currentSession: WDASession | null = null;
-let wdaProcess: { pid: number; port: number } | null = null;
+// WDA state management, one per client
+const wdaState = clientState<{
+  session: WDASession | null;
+  process: { pid: number; port: number } | null;
+}>(() => ({ session: null, process: null }));
 
 const WDA_BUNDLE_ID = "com.facebook.WebDriverAgentRunner.xctrunner";
 const DEFAULT_WDA_PORT = 8100;
 
+/**
+ * WDA port from the project config, or the WDA default
+ */
+function configuredWDAPort(): number {
+  return getProjectConfig().wdaPort ?? DEFAULT_WDA_PORT;
+}
+
 /**
  * Check if WebDriverAgent is available
  */
 export async function checkWDAStatus(): Promise<WDAStatus> {
   // Check if WDA is responding
+  const wdaProcess = wdaState().process;
   if (wdaProcess) {
     try {
       const response = await fetchWDA(`http://localhost:${wdaProcess.port}/status`);
@@ -145,7 +157,7 @@ export async function startWDA(options?: {
   port?: number;
   bundleId?: string;
 }): Promise<{ success: boolean; session?: WDASession; error?: string }> {
-  const port = options?.port || DEFAULT_WDA_PORT;
+  const port = options?.port || configuredWDAPort();
   const bundleId = options?.bundleId;
 
   const booted = await getBootedSimulator();
@@ -158,12 +170,13 @@ export async function startWDA(options?: {
     const statusResult = await fetchWDA(`http://localhost:${port}/status`, { timeout: 2000 });
     if (statusResult.ok) {
       const status = await statusResult.json();
-      currentSession = {
+      const session: WDASession = {
         sessionId: status.sessionId || "existing",
         bundleId: bundleId || "",
         port,
       };
-      return { success: true, session: currentSession };
+      wdaState().session = session;
+      return { success: true, session };
     }
   } catch {
     // Not running, need to start
@@ -204,12 +217,13 @@ export async function startWDA(options?: {
           }
         }
 
-        currentSession = {
+        const session: WDASession = {
           sessionId: status.sessionId || "default",
           bundleId: bundleId || "",
           port,
         };
-        return { success: true, session: currentSession };
+        wdaState().session = session;
+        return { success: true, session };
       }
     } catch {
       // Keep waiting
@@ -274,13 +288,14 @@ async function createWDASession(
   }
 
   const data = await result.json();
-  currentSession = {
+  const session: WDASession = {
     sessionId: data.sessionId,
     bundleId,
     port,
   };
+  wdaState().session = session;
 
-  return { success: true, session: currentSession };
+  return { success: true, session };
 }
 
 /**
@@ -290,8 +305,8 @@ export async function getElementTree(options?: {
   port?: number;
   sessionId?: string;
 }): Promise<{ success: boolean; elements?: WDAElement; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   const url = sessionId
     ? `http://localhost:${port}/session/${sessionId}/source`
@@ -315,8 +330,8 @@ export async function findElements(
   value: string,
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; elements?: WDAElement[]; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   if (!sessionId) {
     return { success: false, error: "No WDA session. Start WDA first." };
@@ -345,8 +360,8 @@ export async function tapElement(
   elementId: string,
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   if (!sessionId) {
     return { success: false, error: "No WDA session" };
@@ -368,8 +383,8 @@ export async function tapCoordinates(
   y: number,
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   if (!sessionId) {
     return { success: false, error: "No WDA session" };
@@ -393,8 +408,8 @@ export async function typeTextWDA(
   text: string,
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   if (!sessionId) {
     return { success: false, error: "No WDA session" };
@@ -422,8 +437,8 @@ export async function swipeWDA(
   duration: number = 0.5,
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   if (!sessionId) {
     return { success: false, error: "No WDA session" };
@@ -452,8 +467,8 @@ export async function swipeWDA(
 export async function screenshotWDA(
   options?: { port?: number; sessionId?: string }
 ): Promise<{ success: boolean; base64?: string; error?: string }> {
-  const port = options?.port || currentSession?.port || DEFAULT_WDA_PORT;
-  const sessionId = options?.sessionId || currentSession?.sessionId;
+  const port = options?.port || getWDASession()?.port || configuredWDAPort();
+  const sessionId = options?.sessionId || getWDASession()?.sessionId;
 
   const url = sessionId
     ? `http://localhost:${port}/session/${sessionId}/screenshot`
@@ -473,16 +488,17 @@ export async function screenshotWDA(
  * Stop WDA
  */
 export async function stopWDA(): Promise<void> {
-  if (wdaProcess?.pid) {
-    await executeCommand("kill", [String(wdaProcess.pid)], { timeout: 5000 });
+  const state = wdaState();
+  if (state.process?.pid) {
+    await executeCommand("kill", [String(state.process.pid)], { timeout: 5000 });
   }
-  wdaProcess = null;
-  currentSession = null;
+  state.process = null;
+  state.session = null;
 }
 
 /**
  * Get current WDA session
  */
 export function getWDASession(): WDASession | null {
-  return currentSession;
+  return wdaState().session;
 }
@@ -0,0 +1,255 @@
+/**
+ * Artifact Store
+ * Central registry for files produced by tools (screenshots, recordings,
+ * push payloads, xcodebuild result bundles, archives and exports). Each server run writes to its own session directory with a
+ * manifest, and old artifacts are garbage collected by age and total size.
+ * Clients only see and delete the artifacts their own tool calls produced.
+ */
+
+import { readdir, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { currentToolCall } from "./audit.js";
+import { currentClientScope } from "./client-scope.js";
+import { ensureDir } from "./tempfile.js";
+
+export type ArtifactType = "screenshot" | "recording" | "payload" | "result-bundle" | "archive" | "export";
+
+export interface Artifact {
+  id: string;
+  type: ArtifactType;
+  path: string;
+  size: number; // bytes, including the contents of bundle directories
+  createdAt: string; // ISO time
+  udid?: string;
+  tool?: string; // tool call that produced the artifact
+  client: string; // id of the client scope that produced the artifact
+}
+
+export interface ArtifactStoreOptions {
+  root: string;
+  ttlMs: number; // artifacts older than this are collected
+  maxBytes: number; // session quota; oldest artifacts are evicted beyond it
+}
+
+export interface ArtifactFilter {
+  type?: ArtifactType;
+  udid?: string;
+  olderThanMs?: number;
+}
+
+const DEFAULT_STORE_OPTIONS: ArtifactStoreOptions = {
+  root: join(tmpdir(), "ios-dev-mcp-artifacts"),
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxBytes: 1024 * 1024 * 1024,
+};
+
+const MANIFEST_NAME = "manifest.json";
+
+// Store state
+let storeOptions: ArtifactStoreOptions = DEFAULT_STORE_OPTIONS;
+const sessionId = `session-${new Date().toISOString().replace(/[:.]/g, "-")}-${process.pid}`;
+const artifacts: Artifact[] = [];
+let manifestWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Directory this server run writes artifacts to
+ */
+export function getSessionDirectory(): string {
+  return join(storeOptions.root, sessionId);
+}
+
+/**
+ * Configure the store and sweep sessions left behind by earlier runs
+ */
+export async function configureArtifacts(
+  options: Partial<ArtifactStoreOptions> = {}
+): Promise<void> {
+  storeOptions = { ...DEFAULT_STORE_OPTIONS, ...options };
+  await collectArtifacts();
+}
+
+/**
+ * Configure the store from the environment:
+ * - IOS_DEV_MCP_ARTIFACTS_DIR=<dir>       root directory (default <tmp>/ios-dev-mcp-artifacts)
+ * - IOS_DEV_MCP_ARTIFACT_TTL_HOURS=<n>    keep artifacts for n hours (default 24)
+ * - IOS_DEV_MCP_ARTIFACT_QUOTA_MB=<n>     per-session size quota (default 1024)
+ */
+export async function configureArtifactsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<void> {
+  const options: Partial<ArtifactStoreOptions> = {};
+  if (env.IOS_DEV_MCP_ARTIFACTS_DIR) {
+    options.root = env.IOS_DEV_MCP_ARTIFACTS_DIR;
+  }
+  if (Number(env.IOS_DEV_MCP_ARTIFACT_TTL_HOURS) > 0) {
+    options.ttlMs = Number(env.IOS_DEV_MCP_ARTIFACT_TTL_HOURS) * 60 * 60 * 1000;
+  }
+  if (Number(env.IOS_DEV_MCP_ARTIFACT_QUOTA_MB) > 0) {
+    options.maxBytes = Number(env.IOS_DEV_MCP_ARTIFACT_QUOTA_MB) * 1024 * 1024;
+  }
+  await configureArtifacts(options);
+}
+
+/**
+ * Reserve a path for a new artifact in the session directory.
+ * Call registerArtifact once the file has been written.
+ */
+export async function createArtifactPath(type: ArtifactType, extension: string): Promise<string> {
+  const dir = getSessionDirectory();
+  await ensureDir(dir);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(dir, `${type}-${timestamp}-${randomBytes(3).toString("hex")}${extension}`);
+}
+
+// Size of a file, or of everything in a directory such as a .xcresult bundle
+async function diskUsage(path: string): Promise<number> {
+  const stats = await stat(path);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+  let total = 0;
+  for (const entry of await readdir(path)) {
+    total += await diskUsage(join(path, entry)).catch(() => 0);
+  }
+  return total;
+}
+
+/**
+ * Record a written file or bundle directory in the registry, then enforce
+ * TTL and quota
+ */
+export async function registerArtifact(
+  path: string,
+  type: ArtifactType,
+  metadata: { udid?: string } = {}
+): Promise<Artifact | null> {
+  const size = await diskUsage(path).catch(() => null);
+  if (size === null) {
+    return null;
+  }
+
+  const artifact: Artifact = {
+    id: randomBytes(4).toString("hex"),
+    type,
+    path,
+    size,
+    createdAt: new Date().toISOString(),
+    udid: metadata.udid,
+    tool: currentToolCall()?.tool,
+    client: currentClientScope().id,
+  };
+  artifacts.push(artifact);
+  await saveManifest();
+
+  await collectArtifacts();
+  return artifact;
+}
+
+function matches(artifact: Artifact, filter: ArtifactFilter, now: number): boolean {
+  if (filter.type && artifact.type !== filter.type) return false;
+  if (filter.udid && artifact.udid !== filter.udid) return false;
+  if (filter.olderThanMs !== undefined && now - Date.parse(artifact.createdAt) < filter.olderThanMs) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The current client's artifacts of this session (oldest first)
+ */
+export function listArtifacts(filter: ArtifactFilter = {}): Artifact[] {
+  const now = Date.now();
+  const client = currentClientScope().id;
+  return artifacts.filter((artifact) => artifact.client === client && matches(artifact, filter, now));
+}
+
+/**
+ * Delete the current client's matching artifacts of this session
+ */
+export async function purgeArtifacts(
+  filter: ArtifactFilter = {}
+): Promise<{ removed: Artifact[]; freedBytes: number }> {
+  const removed = listArtifacts(filter);
+  await removeArtifacts(removed);
+  return { removed, freedBytes: removed.reduce((total, artifact) => total + artifact.size, 0) };
+}
+
+async function removeArtifacts(toRemove: Artifact[]): Promise<void> {
+  if (toRemove.length === 0) {
+    return;
+  }
+  for (const artifact of toRemove) {
+    await rm(artifact.path, { recursive: true, force: true });
+    // An overlapping cleanup may have removed it already
+    const index = artifacts.indexOf(artifact);
+    if (index !== -1) {
+      artifacts.splice(index, 1);
+    }
+  }
+  await saveManifest();
+}
+
+function saveManifest(): Promise<void> {
+  const dir = getSessionDirectory();
+  const contents = JSON.stringify({ session: sessionId, artifacts }, null, 2);
+
+  // Serialize writes so a slow write never clobbers a newer one
+  manifestWrite = manifestWrite.then(async () => {
+    await ensureDir(dir);
+    await writeFile(join(dir, MANIFEST_NAME), contents, "utf-8");
+  });
+  return manifestWrite;
+}
+
+/**
+ * Garbage collect: drop expired artifacts, evict the oldest ones beyond the
+ * quota, and delete other sessions' directories once they are older than
+ * the TTL.
+ */
+export async function collectArtifacts(): Promise<{ removed: Artifact[]; staleSessions: string[] }> {
+  const now = Date.now();
+  const { ttlMs, maxBytes } = storeOptions;
+
+  const removed = artifacts.filter((artifact) => now - Date.parse(artifact.createdAt) > ttlMs);
+  let total = artifacts
+    .filter((artifact) => !removed.includes(artifact))
+    .reduce((sum, artifact) => sum + artifact.size, 0);
+
+  for (const artifact of artifacts) {
+    if (total <= maxBytes) break;
+    if (!removed.includes(artifact)) {
+      removed.push(artifact);
+      total -= artifact.size;
+    }
+  }
+
+  await removeArtifacts(removed);
+  return { removed, staleSessions: await sweepStaleSessions(now) };
+}
+
+/**
+ * Remove session directories from earlier runs that have not been touched
+ * within the TTL (the manifest is rewritten on every change)
+ */
+async function sweepStaleSessions(now: number): Promise<string[]> {
+  const entries = await readdir(storeOptions.root, { withFileTypes: true }).catch(() => []);
+  const stale: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === sessionId) continue;
+
+    const dir = join(storeOptions.root, entry.name);
+    const lastModified = await stat(join(dir, MANIFEST_NAME))
+      .catch(() => stat(dir))
+      .then((s) => s.mtimeMs, () => now);
+
+    if (now - lastModified > storeOptions.ttlMs) {
+      await rm(dir, { recursive: true, force: true });
+      stale.push(entry.name);
+    }
+  }
+
+  return stale;
+}
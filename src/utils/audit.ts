@@ -0,0 +1,324 @@
+/**
+ * Audit Log
+ * Records every tool call and every spawned command to a rotating JSONL file,
+ * so it is always possible to reconstruct what was done to which simulator
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { appendFile, readFile, rename, stat, unlink } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { CommandExecution, onCommandExecuted } from "./process.js";
+import { ensureDir } from "./tempfile.js";
+
+export interface ToolAuditEntry {
+  type: "tool";
+  timestamp: string; // ISO time the call started
+  callId: number;
+  tool: string;
+  args: Record<string, unknown>; // sanitized
+  udid?: string;
+  durationMs: number;
+  status: "success" | "error" | "cancelled";
+  error?: string;
+}
+
+export interface CommandAuditEntry {
+  type: "command";
+  timestamp: string; // ISO time the command finished
+  callId?: number; // tool call that spawned the command, if any
+  tool?: string;
+  command: string;
+  args: string[]; // sanitized
+  shell: boolean;
+  cwd?: string;
+  exitCode: number;
+  timedOut: boolean;
+  cancelled?: boolean;
+  durationMs: number;
+  udid?: string;
+  planned?: boolean; // dry run: recorded, not executed
+}
+
+export type AuditEntry = ToolAuditEntry | CommandAuditEntry;
+
+export interface AuditOptions {
+  directory: string;
+  maxFileSize: number; // bytes before audit.jsonl is rotated
+  maxFiles: number; // rotated files kept (audit.1.jsonl ... audit.N.jsonl)
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tool?: string; // matches tool entries and commands spawned by that tool
+  udid?: string;
+  type?: AuditEntry["type"];
+  limit?: number; // most recent N matches (default 100)
+}
+
+const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  directory: join(homedir(), ".ios-dev-mcp", "audit"),
+  maxFileSize: 5 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+const LOG_NAME = "audit";
+const MAX_ARG_LENGTH = 256;
+const SECRET_KEY_PATTERN = /token|secret|password|passwd|credential|auth|api[-_]?key|issuer|team[-_]?id|development[-_]?team/i;
+// "KEY=value" and "--key=value" in command lines, and the value after a "--key" flag
+const SECRET_ASSIGNMENT_PATTERN = /(^|\s)([^\s=]+)=("[^"]*"|'[^']*'|\S+)/g;
+const SECRET_FLAG_PATTERN = /(^|\s)(-{1,2}[\w-]+)\s+("[^"]*"|'[^']*'|[^\s-]\S*)/g;
+const UDID_PATTERN = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i;
+
+// Audit state (disabled until configured)
+let auditOptions: AuditOptions | null = null;
+let currentSize = 0;
+let writeChain: Promise<void> = Promise.resolve();
+let nextCallId = 1;
+let unsubscribe: (() => void) | null = null;
+
+// Tool call that is executing in the current async context
+const callContext = new AsyncLocalStorage<{ callId: number; tool: string }>();
+
+function logFile(index = 0): string {
+  const name = index === 0 ? `${LOG_NAME}.jsonl` : `${LOG_NAME}.${index}.jsonl`;
+  return join(auditOptions!.directory, name);
+}
+
+/**
+ * Enable auditing. Pass false to disable it again.
+ */
+export async function configureAudit(options: Partial<AuditOptions> | false = {}): Promise<void> {
+  await writeChain;
+  unsubscribe?.();
+  unsubscribe = null;
+
+  if (options === false) {
+    auditOptions = null;
+    return;
+  }
+
+  auditOptions = { ...DEFAULT_AUDIT_OPTIONS, ...options };
+  await ensureDir(auditOptions.directory);
+  currentSize = await stat(logFile()).then((s) => s.size, () => 0);
+  unsubscribe = onCommandExecuted(recordCommand);
+}
+
+/**
+ * Configure auditing from the environment:
+ * - IOS_DEV_MCP_AUDIT=off       disable the audit log
+ * - IOS_DEV_MCP_AUDIT_DIR=<dir> write audit.jsonl to <dir> (default ~/.ios-dev-mcp/audit)
+ */
+export async function configureAuditFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | null> {
+  if (env.IOS_DEV_MCP_AUDIT === "off") {
+    await configureAudit(false);
+    return null;
+  }
+
+  await configureAudit(env.IOS_DEV_MCP_AUDIT_DIR ? { directory: env.IOS_DEV_MCP_AUDIT_DIR } : {});
+  return auditOptions!.directory;
+}
+
+/**
+ * Redact secret-looking keys and shorten long strings (e.g. Swift source)
+ */
+export function sanitizeValue(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_ARG_LENGTH
+      ? `${value.slice(0, MAX_ARG_LENGTH)}... (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeValue(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, sanitizeValue(v, k)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact secret-looking `KEY=value` arguments (build settings such as
+ * DEVELOPMENT_TEAM, environment assignments) and the values of secret-looking
+ * flags (e.g. `-authenticationKeyID <id>`), then shorten long arguments
+ */
+export function sanitizeArgs(args: string[]): string[] {
+  return args.map((arg, index) => {
+    const assignment = /^([^=\s]+)=/.exec(arg);
+    if (assignment && SECRET_KEY_PATTERN.test(assignment[1])) {
+      return `${assignment[1]}=[REDACTED]`;
+    }
+    const flag = args[index - 1];
+    if (flag && /^-{1,2}[\w-]+$/.test(flag) && SECRET_KEY_PATTERN.test(flag) && !arg.startsWith("-")) {
+      return "[REDACTED]";
+    }
+    return sanitizeValue(arg) as string;
+  });
+}
+
+/**
+ * The same redaction for a command line run through the shell
+ */
+export function sanitizeCommandLine(command: string): string {
+  const redacted = command
+    .replace(SECRET_ASSIGNMENT_PATTERN, (match, space: string, key: string) =>
+      SECRET_KEY_PATTERN.test(key) ? `${space}${key}=[REDACTED]` : match
+    )
+    .replace(SECRET_FLAG_PATTERN, (match, space: string, flag: string) =>
+      SECRET_KEY_PATTERN.test(flag) ? `${space}${flag} [REDACTED]` : match
+    );
+  return sanitizeValue(redacted) as string;
+}
+
+function append(entry: AuditEntry): void {
+  if (!auditOptions) {
+    return;
+  }
+
+  const line = JSON.stringify(entry) + "\n";
+  const size = Buffer.byteLength(line);
+
+  writeChain = writeChain
+    .then(async () => {
+      if (currentSize > 0 && currentSize + size > auditOptions!.maxFileSize) {
+        await rotate();
+      }
+      await appendFile(logFile(), line, "utf-8");
+      currentSize += size;
+    })
+    .catch((error) => console.error("[audit] Failed to write audit log:", error));
+}
+
+/**
+ * Shift audit.jsonl -> audit.1.jsonl -> audit.2.jsonl ..., dropping the oldest
+ */
+async function rotate(): Promise<void> {
+  const { maxFiles } = auditOptions!;
+  await unlink(logFile(maxFiles)).catch(() => {});
+  for (let i = maxFiles - 1; i >= 0; i--) {
+    await rename(logFile(i), logFile(i + 1)).catch(() => {});
+  }
+  currentSize = 0;
+}
+
+function recordCommand(execution: CommandExecution): void {
+  if (!auditOptions) {
+    return;
+  }
+
+  const context = callContext.getStore();
+
+  append({
+    type: "command",
+    timestamp: new Date().toISOString(),
+    callId: context?.callId,
+    tool: context?.tool,
+    command: execution.shell ? sanitizeCommandLine(execution.command) : (sanitizeValue(execution.command) as string),
+    args: sanitizeArgs(execution.args),
+    shell: execution.shell,
+    cwd: execution.cwd,
+    exitCode: execution.result.exitCode,
+    timedOut: execution.result.timedOut,
+    cancelled: execution.result.cancelled || undefined,
+    durationMs: execution.durationMs,
+    udid: execution.args.find((arg) => UDID_PATTERN.test(arg)),
+    planned: execution.planned,
+  });
+}
+
+/**
+ * Run a tool call, recording it and tagging every command it spawns.
+ * `statusOf` classifies the returned value; thrown errors are recorded as
+ * "error" and rethrown.
+ */
+export async function auditToolCall<T>(
+  call: { tool: string; args: Record<string, unknown>; udid?: string },
+  run: () => Promise<T>,
+  statusOf: (value: T) => ToolAuditEntry["status"]
+): Promise<T> {
+  const callId = nextCallId++;
+  const startTime = Date.now();
+
+  const entry = (status: ToolAuditEntry["status"], error?: string): ToolAuditEntry => ({
+    type: "tool",
+    timestamp: new Date(startTime).toISOString(),
+    callId,
+    tool: call.tool,
+    args: sanitizeValue(call.args) as Record<string, unknown>,
+    udid: call.udid,
+    durationMs: Date.now() - startTime,
+    status,
+    error,
+  });
+
+  try {
+    const value = await callContext.run({ callId, tool: call.tool }, run);
+    append(entry(statusOf(value)));
+    return value;
+  } catch (error) {
+    append(entry("error", error instanceof Error ? error.message : String(error)));
+    throw error;
+  }
+}
+
+/**
+ * Tool call executing in the current async context, if any
+ */
+export function currentToolCall(): { callId: number; tool: string } | undefined {
+  return callContext.getStore();
+}
+
+/**
+ * Read audit entries (oldest first) matching a query
+ */
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  if (!auditOptions) {
+    return [];
+  }
+
+  await writeChain;
+
+  const { since, until, tool, udid, type, limit = 100 } = query;
+  const matches: AuditEntry[] = [];
+
+  // Oldest rotated file first so results come out in chronological order
+  for (let i = auditOptions.maxFiles; i >= 0; i--) {
+    const contents = await readFile(logFile(i), "utf-8").catch(() => "");
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // Skip partially written lines
+      }
+
+      const time = new Date(entry.timestamp).getTime();
+      if (since && time < since.getTime()) continue;
+      if (until && time > until.getTime()) continue;
+      if (type && entry.type !== type) continue;
+      if (tool && entry.tool !== tool) continue;
+      if (udid && entry.udid !== udid) continue;
+
+      matches.push(entry);
+    }
+  }
+
+  return matches.slice(-limit);
+}
+
+/**
+ * Directory audit files are written to, or null when auditing is disabled
+ */
+export function getAuditDirectory(): string | null {
+  return auditOptions?.directory ?? null;
+}
@@ -0,0 +1,70 @@
+/**
+ * Per-client state
+ * Over stdio there is a single client. Over HTTP every MCP session runs its
+ * requests inside its own scope, so state such as the dev session, UI
+ * automation recording and WDA session is kept apart between clients.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface ClientScope {
+  id: string;
+  state: Map<object, unknown>;
+  parent?: ClientScope; // set on forks; state not yet touched is copied from here
+}
+
+const scopeStorage = new AsyncLocalStorage<ClientScope>();
+const defaultScope = createClientScope("default");
+
+/**
+ * Create an empty scope for a client
+ */
+export function createClientScope(id: string): ClientScope {
+  return { id, state: new Map() };
+}
+
+/**
+ * Create a throwaway copy of a scope. Each piece of state is cloned from the
+ * parent on first use, so changes made inside the fork never reach the parent.
+ */
+export function forkClientScope(parent: ClientScope = currentClientScope()): ClientScope {
+  return { id: parent.id, state: new Map(), parent };
+}
+
+/**
+ * The scope used outside of any client request (and for the stdio client)
+ */
+export function defaultClientScope(): ClientScope {
+  return defaultScope;
+}
+
+/**
+ * Run fn (and everything it awaits) inside a client's scope
+ */
+export function runInClientScope<T>(scope: ClientScope, fn: () => T): T {
+  return scopeStorage.run(scope, fn);
+}
+
+export function currentClientScope(): ClientScope {
+  return scopeStorage.getStore() ?? defaultScope;
+}
+
+/**
+ * Declare a piece of module state that each client gets its own copy of.
+ * Returns an accessor that resolves to the current client's copy, creating
+ * it with `init` on first use.
+ */
+export function clientState<T>(init: () => T): () => T {
+  const key = {};
+  return () => {
+    const scope = currentClientScope();
+    if (!scope.state.has(key)) {
+      let source = scope.parent;
+      while (source && !source.state.has(key)) {
+        source = source.parent;
+      }
+      scope.state.set(key, source ? structuredClone(source.state.get(key)) : init());
+    }
+    return scope.state.get(key) as T;
+  };
+}
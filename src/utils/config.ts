@@ -0,0 +1,184 @@
+/**
+ * Project Configuration
+ * Defaults and tool profiles from an .ios-dev-mcp.json file, found by
+ * searching from the working directory upward
+ */
+
+import { readFile, stat } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { z } from "zod";
+import { formatValidationErrors } from "../tools/registry.js";
+
+export const CONFIG_FILE_NAME = ".ios-dev-mcp.json";
+
+const toolProfileSchema = z
+  .object({
+    include: z.array(z.string()).optional(), // tool groups or tool names; default: all tools
+    exclude: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const swiftSandboxSchema = z
+  .object({
+    cpuSeconds: z.number().int().positive().optional(),
+    memoryMB: z.number().int().positive().optional(),
+    maxOutputSize: z.number().int().positive().optional(), // characters per stream
+    allowNetwork: z.boolean().optional(),
+  })
+  .strict();
+
+export const projectConfigSchema = z
+  .object({
+    projectPath: z.string().optional(), // relative to the config file
+    scheme: z.string().optional(),
+    simulator: z.string().optional(), // simulator name, e.g. "iPhone 16 Pro"
+    configuration: z.enum(["Debug", "Release"]).optional(),
+    destination: z.string().optional(),
+    timeouts: z
+      .object({
+        build: z.number().int().positive().optional(),
+        test: z.number().int().positive().optional(),
+        swift: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(), // milliseconds
+    wdaPort: z.number().int().min(1).max(65535).optional(),
+    toolchain: z.string().optional(), // Swift toolchain id, version or path (see swift_toolchains)
+    swiftSandbox: z.union([z.boolean(), swiftSandboxSchema]).optional(), // run swift_execute programs under resource limits
+    dryRun: z.boolean().optional(), // plan commands instead of running them, unless a call passes dryRun: false
+    profile: z.string().optional(),
+    profiles: z.record(toolProfileSchema).optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+export type ToolProfile = z.infer<typeof toolProfileSchema>;
+
+let projectConfig: ProjectConfig = {};
+let projectConfigPath: string | null = null;
+
+export function getProjectConfig(): ProjectConfig {
+  return projectConfig;
+}
+
+/**
+ * Path of the loaded config file, or null when none was found
+ */
+export function getProjectConfigPath(): string | null {
+  return projectConfigPath;
+}
+
+/**
+ * Replace the active configuration
+ */
+export function configureProjectConfig(config: ProjectConfig, path: string | null = null): void {
+  projectConfig = config;
+  projectConfigPath = path;
+}
+
+/**
+ * Find .ios-dev-mcp.json (or another config file) in startDir or the nearest
+ * parent directory
+ */
+export async function findConfigFile(startDir: string, fileName: string = CONFIG_FILE_NAME): Promise<string | null> {
+  let dir = resolve(startDir);
+  for (;;) {
+    const candidate = join(dir, fileName);
+    const isFile = await stat(candidate).then((s) => s.isFile(), () => false);
+    if (isFile) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file. Relative project paths are resolved
+ * against the file's directory. Errors don't repeat the path.
+ */
+export async function loadProjectConfig(
+  path: string
+): Promise<{ success: boolean; config?: ProjectConfig; error?: string }> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const parsed = projectConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const lines = formatValidationErrors(parsed.error).map((line) => `  - ${line}`);
+    return { success: false, error: `\n${lines.join("\n")}` };
+  }
+
+  const config = parsed.data;
+  if (config.projectPath) {
+    config.projectPath = resolve(dirname(path), config.projectPath);
+  }
+  if (config.profile && !config.profiles?.[config.profile]) {
+    return { success: false, error: `profile "${config.profile}" is not defined in profiles` };
+  }
+  return { success: true, config };
+}
+
+/**
+ * Load the config named by IOS_DEV_MCP_CONFIG, or the nearest one above cwd.
+ * IOS_DEV_MCP_PROFILE overrides the active profile.
+ * Returns the loaded path (null when there is no config file).
+ */
+export async function configureProjectConfigFromEnv(
+  env: Record<string, string | undefined> = process.env,
+  cwd: string = process.cwd()
+): Promise<{ success: boolean; path: string | null; error?: string }> {
+  const path = env.IOS_DEV_MCP_CONFIG ? resolve(cwd, env.IOS_DEV_MCP_CONFIG) : await findConfigFile(cwd);
+
+  let config: ProjectConfig = {};
+  if (path) {
+    const loaded = await loadProjectConfig(path);
+    if (!loaded.success) {
+      return { success: false, path, error: loaded.error };
+    }
+    config = loaded.config!;
+  }
+
+  if (env.IOS_DEV_MCP_PROFILE) {
+    if (!config.profiles?.[env.IOS_DEV_MCP_PROFILE]) {
+      return { success: false, path, error: `IOS_DEV_MCP_PROFILE: profile "${env.IOS_DEV_MCP_PROFILE}" is not defined` };
+    }
+    config = { ...config, profile: env.IOS_DEV_MCP_PROFILE };
+  }
+
+  configureProjectConfig(config, path);
+  return { success: true, path };
+}
+
+/**
+ * Tool argument defaults from the config, keyed by argument name.
+ * Explicit arguments always win over these. Timeouts and the WDA port are
+ * applied where they are used instead, since argument units vary by tool.
+ */
+export function toolArgumentDefaults(config: ProjectConfig = projectConfig): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {
+    projectPath: config.projectPath,
+    scheme: config.scheme,
+    configuration: config.configuration,
+    destination: defaultDestination(config),
+    simulatorName: config.simulator,
+  };
+  return Object.fromEntries(Object.entries(defaults).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * xcodebuild destination from the config's destination or simulator name
+ */
+export function defaultDestination(config: ProjectConfig = projectConfig): string | undefined {
+  if (config.destination) {
+    return config.destination;
+  }
+  return config.simulator ? `platform=iOS Simulator,name=${config.simulator}` : undefined;
+}
@@ -0,0 +1,82 @@
+/**
+ * Dry Run
+ * Runs a tool call with command execution turned into planning, returning the
+ * commands it would have run. The call runs in a fork of the client's scope,
+ * so the dev session and recorded results are left untouched.
+ */
+
+import { forkClientScope, runInClientScope } from "./client-scope.js";
+import { isPlanningCommands, PlannedCommand, planCommands } from "./process.js";
+
+let globalDryRun = false;
+
+/**
+ * Make every tool call a dry run unless it passes dryRun: false
+ */
+export function configureDryRun(enabled: boolean): void {
+  globalDryRun = enabled;
+}
+
+/**
+ * Enable global dry runs from IOS_DEV_MCP_DRY_RUN (1/true), falling back to
+ * `fallback` (the project config) when the variable is unset.
+ * Returns whether dry runs are now on.
+ */
+export function configureDryRunFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  fallback = false
+): boolean {
+  const value = env.IOS_DEV_MCP_DRY_RUN;
+  configureDryRun(value === undefined ? fallback : value === "1" || value.toLowerCase() === "true");
+  return globalDryRun;
+}
+
+/**
+ * Whether a tool call with these arguments is a dry run: an explicit
+ * `dryRun` argument wins over the global setting
+ */
+export function isDryRunCall(args: unknown): boolean {
+  const dryRun = (args as { dryRun?: unknown } | undefined)?.dryRun;
+  return typeof dryRun === "boolean" ? dryRun : globalDryRun;
+}
+
+/**
+ * Whether the current code is running as part of a dry run
+ */
+export function isDryRun(): boolean {
+  return isPlanningCommands();
+}
+
+/**
+ * Run fn as a dry run and collect its command plan
+ */
+export async function dryRun<T>(fn: () => Promise<T>): Promise<{ value: T; plan: PlannedCommand[] }> {
+  return runInClientScope(forkClientScope(), () => planCommands(fn));
+}
+
+function quoteArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format a plan as a numbered list, one command per entry with its cwd and env
+ */
+export function formatPlan(plan: PlannedCommand[]): string {
+  if (plan.length === 0) {
+    return "Dry run: no commands would run.";
+  }
+
+  const count = `${plan.length} command${plan.length === 1 ? "" : "s"}`;
+  const lines = [`Dry run: ${count} would run. Only read-only queries were executed.`];
+  plan.forEach((planned, index) => {
+    const commandLine = planned.shell ? planned.command : [planned.command, ...planned.args].map(quoteArg).join(" ");
+    lines.push(`${index + 1}. ${commandLine}${planned.readOnly ? "  (read-only query, ran)" : ""}`);
+    if (planned.cwd) {
+      lines.push(`   cwd: ${planned.cwd}`);
+    }
+    for (const [name, value] of Object.entries(planned.env ?? {})) {
+      lines.push(`   env: ${name}=${value}`);
+    }
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,237 @@
+/**
+ * Command fixtures for record/replay
+ * Captures real xcrun/xcodebuild/simctl invocations to JSON on a Mac and
+ * serves them back anywhere, so the modules can be exercised without Xcode.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { tmpdir } from "os";
+import {
+  boundOutput,
+  cancelledResult,
+  CommandRunner,
+  DEFAULT_MAX_OUTPUT_SIZE,
+  ProcessOptions,
+  ProcessResult,
+  spawnRunner,
+  setCommandRunner,
+} from "./process.js";
+import { ensureDir } from "./tempfile.js";
+
+export interface CommandFixture {
+  command: string;
+  args: string[];
+  shell: boolean;
+  cwd?: string;
+  result: ProcessResult;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  commands: CommandFixture[];
+}
+
+export interface RecordingRunner extends CommandRunner {
+  readonly fixtures: CommandFixture[];
+  flush(): Promise<void>;
+}
+
+export interface ReplayRunner extends CommandRunner {
+  readonly fixtures: CommandFixture[];
+  unmatched: Array<{ command: string; args: string[]; shell: boolean }>;
+}
+
+const TEMP_PLACEHOLDER = "<tmp>";
+
+/**
+ * Normalize an argument for matching.
+ * Temp paths get random names on every run, so anything under the OS temp
+ * directory matches any other temp path.
+ */
+function normalizeArg(arg: string): string {
+  const tmp = tmpdir();
+  if (arg.startsWith(tmp)) {
+    return TEMP_PLACEHOLDER;
+  }
+  return arg;
+}
+
+function fixtureKey(command: string, args: string[], shell: boolean): string {
+  return JSON.stringify([shell, command, args.map(normalizeArg)]);
+}
+
+/**
+ * Create a runner that executes commands through `inner` and records
+ * every invocation to `fixturePath`. The file is rewritten after each
+ * command so a capture survives the server being killed.
+ */
+export function createRecordingRunner(
+  fixturePath: string,
+  inner: CommandRunner = spawnRunner
+): RecordingRunner {
+  const fixtures: CommandFixture[] = [];
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    const file: FixtureFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      commands: fixtures,
+    };
+    const contents = JSON.stringify(file, null, 2);
+
+    // Serialize writes so a slow write never clobbers a newer one
+    pendingWrite = pendingWrite.then(async () => {
+      await ensureDir(dirname(fixturePath));
+      await writeFile(fixturePath, contents, "utf-8");
+    });
+    return pendingWrite;
+  };
+
+  const record = async (
+    fixture: Omit<CommandFixture, "result">,
+    result: ProcessResult
+  ): Promise<ProcessResult> => {
+    fixtures.push({ ...fixture, result });
+    await flush();
+    return result;
+  };
+
+  return {
+    fixtures,
+    flush,
+    async execute(command: string, args: string[], options: ProcessOptions) {
+      const result = await inner.execute(command, args, options);
+      return record({ command, args, shell: false, cwd: options.cwd }, result);
+    },
+    async executeShell(command: string, options: ProcessOptions) {
+      const result = await inner.executeShell(command, options);
+      return record({ command, args: [], shell: true, cwd: options.cwd }, result);
+    },
+    // Long-running commands have no single result to record; they run live
+    start: inner.start?.bind(inner),
+  };
+}
+
+/**
+ * Create a runner that serves results from recorded fixtures.
+ *
+ * Fixtures with the same command and arguments are served in recorded order;
+ * once exhausted, the last one keeps being returned (polling commands such as
+ * `simctl list` run an unpredictable number of times). Unknown commands fail
+ * with exit code 127 and are collected in `unmatched`. Recorded output is fed
+ * to `onLine` callbacks, and `logPath`/`maxOutputSize` are honored, so
+ * streaming and log-spilling consumers behave as they would live.
+ */
+export function createReplayRunner(fixtures: CommandFixture[]): ReplayRunner {
+  const queues = new Map<string, CommandFixture[]>();
+  const lastServed = new Map<string, CommandFixture>();
+
+  for (const fixture of fixtures) {
+    const key = fixtureKey(fixture.command, fixture.args, fixture.shell);
+    const queue = queues.get(key) ?? [];
+    queue.push(fixture);
+    queues.set(key, queue);
+  }
+
+  const unmatched: ReplayRunner["unmatched"] = [];
+
+  const serve = async (
+    command: string,
+    args: string[],
+    shell: boolean,
+    options: ProcessOptions
+  ): Promise<ProcessResult> => {
+    if (options.signal?.aborted) {
+      return cancelledResult();
+    }
+
+    const key = fixtureKey(command, args, shell);
+    const fixture = queues.get(key)?.shift() ?? lastServed.get(key);
+
+    if (!fixture) {
+      unmatched.push({ command, args, shell });
+      return {
+        stdout: "",
+        stderr: `No recorded fixture for: ${[command, ...args].join(" ")}`,
+        exitCode: 127,
+        timedOut: false,
+      };
+    }
+
+    lastServed.set(key, fixture);
+
+    // Replay recorded output line by line for streaming consumers
+    if (options.onLine) {
+      for (const line of fixture.result.stdout.split("\n")) {
+        options.onLine(line, "stdout");
+      }
+      for (const line of fixture.result.stderr ? fixture.result.stderr.split("\n") : []) {
+        options.onLine(line, "stderr");
+      }
+    }
+
+    const { logPath, maxOutputSize = DEFAULT_MAX_OUTPUT_SIZE } = options;
+    if (logPath) {
+      await writeFile(logPath, fixture.result.stdout + "\n" + fixture.result.stderr, "utf-8");
+    }
+
+    const stdout = boundOutput(fixture.result.stdout, maxOutputSize, logPath);
+    const stderr = boundOutput(fixture.result.stderr, maxOutputSize, logPath);
+
+    return {
+      ...fixture.result,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      truncated: stdout.truncated || stderr.truncated || fixture.result.truncated,
+    };
+  };
+
+  return {
+    fixtures,
+    unmatched,
+    async execute(command: string, args: string[], options: ProcessOptions) {
+      return serve(command, args, false, options);
+    },
+    async executeShell(command: string, options: ProcessOptions) {
+      return serve(command, [], true, options);
+    },
+  };
+}
+
+/**
+ * Load a fixture file written by a recording runner
+ */
+export async function loadFixtures(fixturePath: string): Promise<CommandFixture[]> {
+  const data = JSON.parse(await readFile(fixturePath, "utf-8")) as FixtureFile;
+  if (data.version !== 1 || !Array.isArray(data.commands)) {
+    throw new Error(`Unsupported fixture file: ${fixturePath}`);
+  }
+  return data.commands;
+}
+
+/**
+ * Install a record or replay runner based on environment variables:
+ * - IOS_DEV_MCP_RECORD=<path>  record every command to <path>
+ * - IOS_DEV_MCP_REPLAY=<path>  serve commands from <path> instead of spawning
+ *
+ * Returns the mode that was activated.
+ */
+export async function configureRunnerFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<"record" | "replay" | "live"> {
+  if (env.IOS_DEV_MCP_REPLAY) {
+    const fixtures = await loadFixtures(env.IOS_DEV_MCP_REPLAY);
+    setCommandRunner(createReplayRunner(fixtures));
+    return "replay";
+  }
+
+  if (env.IOS_DEV_MCP_RECORD) {
+    setCommandRunner(createRecordingRunner(env.IOS_DEV_MCP_RECORD));
+    return "record";
+  }
+
+  return "live";
+}
@@ -0,0 +1,164 @@
+/**
+ * Image encoding for inline MCP image content
+ * Screenshots are downscaled and re-encoded with sips (built into macOS)
+ */
+
+import { readFile, rm } from "fs/promises";
+import { extname, join } from "path";
+import { executeCommand } from "./process.js";
+import { createTempDir } from "./tempfile.js";
+
+export type ImageFormat = "png" | "jpeg";
+
+export interface ImageEncodeOptions {
+  maxDimension?: number; // longest side in pixels
+  format?: ImageFormat; // default: keep PNG unless the budget forces JPEG
+  maxBytes?: number; // size budget for the encoded image
+}
+
+export interface EncodedImage {
+  data: string; // base64
+  mimeType: string;
+  bytes: number;
+  width?: number;
+  height?: number;
+  reencoded: boolean;
+}
+
+export const DEFAULT_IMAGE_MAX_BYTES = 1024 * 1024;
+
+const JPEG_QUALITIES = [80, 60, 40];
+const MIN_DIMENSION = 320;
+const SCALE_STEP = 0.75;
+
+function mimeTypeFor(path: string): string {
+  const extension = extname(path).toLowerCase();
+  return extension === ".jpg" || extension === ".jpeg" ? "image/jpeg" : "image/png";
+}
+
+/**
+ * Read pixel dimensions with sips. Returns null when sips is unavailable.
+ */
+export async function getImageSize(path: string): Promise<{ width: number; height: number } | null> {
+  const result = await executeCommand("sips", ["-g", "pixelWidth", "-g", "pixelHeight", path], {
+    timeout: 10000,
+  });
+  if (result.exitCode !== 0) {
+    return null;
+  }
+
+  const width = /pixelWidth:\s*(\d+)/.exec(result.stdout);
+  const height = /pixelHeight:\s*(\d+)/.exec(result.stdout);
+  if (!width || !height) {
+    return null;
+  }
+  return { width: parseInt(width[1], 10), height: parseInt(height[1], 10) };
+}
+
+async function convert(
+  input: string,
+  output: string,
+  format: ImageFormat,
+  maxDimension: number,
+  quality: number
+): Promise<Buffer | null> {
+  const args = ["-Z", String(maxDimension), "-s", "format", format];
+  if (format === "jpeg") {
+    args.push("-s", "formatOptions", String(quality));
+  }
+  args.push(input, "--out", output);
+
+  const result = await executeCommand("sips", args, { timeout: 30000 });
+  if (result.exitCode !== 0) {
+    return null;
+  }
+  return readFile(output).catch(() => null);
+}
+
+function scaled(size: { width: number; height: number }, maxDimension: number) {
+  const factor = Math.min(1, maxDimension / Math.max(size.width, size.height));
+  return { width: Math.round(size.width * factor), height: Math.round(size.height * factor) };
+}
+
+/**
+ * Encode an image file as base64 for an MCP image content block.
+ * The original is used as-is when it already satisfies the options; otherwise
+ * it is resized/re-encoded, falling back to JPEG, lower quality and smaller
+ * sizes until it fits in maxBytes.
+ */
+export async function encodeImage(
+  path: string,
+  options: ImageEncodeOptions = {}
+): Promise<{ success: boolean; image?: EncodedImage; error?: string }> {
+  const maxBytes = options.maxBytes ?? DEFAULT_IMAGE_MAX_BYTES;
+
+  let original: Buffer;
+  try {
+    original = await readFile(path);
+  } catch (error) {
+    return { success: false, error: `Cannot read image: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const size = await getImageSize(path);
+  const longest = size ? Math.max(size.width, size.height) : undefined;
+  const needsResize = options.maxDimension !== undefined && longest !== undefined && longest > options.maxDimension;
+
+  const mimeType = mimeTypeFor(path);
+  const formatMatches = !options.format || mimeType === `image/${options.format}`;
+
+  if (!needsResize && formatMatches && original.length <= maxBytes) {
+    return {
+      success: true,
+      image: { data: original.toString("base64"), mimeType, bytes: original.length, ...size, reencoded: false },
+    };
+  }
+
+  if (!size || longest === undefined) {
+    return {
+      success: false,
+      error: `Image is ${original.length} bytes (budget ${maxBytes}) and cannot be resized here (sips unavailable)`,
+    };
+  }
+
+  const dir = await createTempDir("ios-dev-mcp-image-");
+  try {
+    let format: ImageFormat = options.format ?? "png";
+    let dimension = Math.min(options.maxDimension ?? longest, longest);
+    let qualityIndex = 0;
+
+    for (;;) {
+      const quality = JPEG_QUALITIES[qualityIndex];
+      const output = join(dir, `image-${dimension}-${quality}.${format === "jpeg" ? "jpg" : "png"}`);
+      const data = await convert(path, output, format, dimension, quality);
+      if (!data) {
+        return { success: false, error: "sips failed to convert the image" };
+      }
+
+      if (data.length <= maxBytes) {
+        return {
+          success: true,
+          image: {
+            data: data.toString("base64"),
+            mimeType: format === "jpeg" ? "image/jpeg" : "image/png",
+            bytes: data.length,
+            ...scaled(size, dimension),
+            reencoded: true,
+          },
+        };
+      }
+
+      // Over budget: switch to JPEG, then lower quality, then shrink
+      if (format === "png") {
+        format = "jpeg";
+      } else if (qualityIndex < JPEG_QUALITIES.length - 1) {
+        qualityIndex++;
+      } else if (dimension > MIN_DIMENSION) {
+        dimension = Math.max(MIN_DIMENSION, Math.round(dimension * SCALE_STEP));
+      } else {
+        return { success: false, error: `Image does not fit in ${maxBytes} bytes even at ${dimension}px` };
+      }
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -2,20 +2,178 @@
  * Process execution utilities for running shell commands
  */
 
-import { spawn, SpawnOptions } from "child_process";
+import { AsyncLocalStorage } from "async_hooks";
+import { spawn, ChildProcess, SpawnOptions } from "child_process";
+import { createWriteStream, WriteStream } from "fs";
 
 export interface ProcessResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   timedOut: boolean;
+  cancelled?: boolean; // set when the process was stopped through ProcessOptions.signal
+  truncated?: boolean; // set when stdout or stderr exceeded maxOutputSize
+  signal?: string; // set when the process was terminated by a signal
 }
 
 export interface ProcessOptions {
   cwd?: string;
   timeout?: number; // in milliseconds
   env?: Record<string, string>;
+  cleanEnv?: boolean; // start from env alone instead of the server's environment
   input?: string; // stdin input to write to the process
+  onLine?: (line: string, stream: "stdout" | "stderr") => void; // called for each output line as it arrives
+  signal?: AbortSignal; // aborting kills the process and everything it spawned
+  maxOutputSize?: number; // characters kept in memory per stream; head and tail are retained
+  logPath?: string; // full stdout/stderr is written here regardless of maxOutputSize
+  readOnly?: boolean; // a query that changes nothing, so it still runs while commands are planned
+}
+
+// Grace period between SIGTERM and SIGKILL when a process is cancelled
+const CANCEL_KILL_DELAY = 2000;
+
+// In-memory cap per stream, overridable with IOS_DEV_MCP_MAX_OUTPUT (characters)
+export const DEFAULT_MAX_OUTPUT_SIZE =
+  Number(process.env.IOS_DEV_MCP_MAX_OUTPUT) || 4 * 1024 * 1024;
+
+/**
+ * Pluggable backend for command execution.
+ * Every module goes through executeCommand/executeShell, which delegate to the
+ * active runner, so swapping the runner (e.g. for recorded fixtures) changes
+ * how all xcrun/xcodebuild/simctl calls are served.
+ */
+export interface CommandRunner {
+  execute(command: string, args: string[], options: ProcessOptions): Promise<ProcessResult>;
+  executeShell(command: string, options: ProcessOptions): Promise<ProcessResult>;
+  start?(command: string, args: string[], options: ProcessOptions): BackgroundProcess; // runners without it can't start long-running commands
+}
+
+/**
+ * A long-running command started with startCommand, whose output is consumed
+ * while it runs
+ */
+export interface BackgroundProcess {
+  write(input: string): void;
+  onOutput(listener: (chunk: string, stream: "stdout" | "stderr") => void): void;
+  onExit(listener: (code: number | null) => void): void;
+  interrupt(): void; // SIGINT to the process itself
+  kill(): void; // SIGKILL to the process and everything it spawned
+}
+
+/**
+ * Default runner that spawns real child processes
+ */
+export const spawnRunner: CommandRunner = {
+  execute: spawnCommand,
+  executeShell: spawnShell,
+  start: startProcess,
+};
+
+let activeRunner: CommandRunner = spawnRunner;
+
+/**
+ * Get the runner currently serving executeCommand/executeShell
+ */
+export function getCommandRunner(): CommandRunner {
+  return activeRunner;
+}
+
+/**
+ * Replace the active runner. Pass null to restore the spawning runner.
+ * Returns the previously active runner so callers can restore it.
+ */
+export function setCommandRunner(runner: CommandRunner | null): CommandRunner {
+  const previous = activeRunner;
+  activeRunner = runner ?? spawnRunner;
+  return previous;
+}
+
+/**
+ * A command recorded instead of executed while planning
+ */
+export interface PlannedCommand {
+  command: string;
+  args: string[];
+  shell: boolean;
+  cwd?: string;
+  env?: Record<string, string>;
+  readOnly?: boolean; // executed anyway, so later steps see real output
+}
+
+const commandPlan = new AsyncLocalStorage<PlannedCommand[]>();
+
+/**
+ * Run fn without executing commands. Every executeCommand/executeShell call it
+ * makes is appended to the plan and reported as succeeding with empty output,
+ * so multi-step operations carry on and the whole sequence is recorded.
+ * Read-only queries (ProcessOptions.readOnly) are recorded and still run.
+ */
+export async function planCommands<T>(fn: () => Promise<T>): Promise<{ value: T; plan: PlannedCommand[] }> {
+  const plan: PlannedCommand[] = [];
+  const value = await commandPlan.run(plan, fn);
+  return { value, plan };
+}
+
+/**
+ * Whether commands are currently being planned rather than executed
+ */
+export function isPlanningCommands(): boolean {
+  return commandPlan.getStore() !== undefined;
+}
+
+/**
+ * Record a command in the active plan. Returns true when it must not run.
+ */
+function planCommand(command: Omit<PlannedCommand, "readOnly">, options: ProcessOptions): boolean {
+  const plan = commandPlan.getStore();
+  if (!plan) {
+    return false;
+  }
+  plan.push(options.readOnly ? { ...command, readOnly: true } : command);
+  return !options.readOnly;
+}
+
+const plannedResult = (): ProcessResult => ({ stdout: "", stderr: "", exitCode: 0, timedOut: false });
+
+/**
+ * Details of a finished command, passed to command observers
+ */
+export interface CommandExecution {
+  command: string;
+  args: string[];
+  shell: boolean;
+  cwd?: string;
+  result: ProcessResult;
+  durationMs: number;
+  planned?: boolean; // recorded by planCommands, not executed
+}
+
+type CommandObserver = (execution: CommandExecution) => void;
+
+const commandObservers: CommandObserver[] = [];
+
+/**
+ * Register a callback invoked after every executeCommand/executeShell call,
+ * whichever runner served it. Returns a function that unregisters it.
+ */
+export function onCommandExecuted(observer: CommandObserver): () => void {
+  commandObservers.push(observer);
+  return () => {
+    const index = commandObservers.indexOf(observer);
+    if (index !== -1) {
+      commandObservers.splice(index, 1);
+    }
+  };
+}
+
+function notifyObservers(execution: CommandExecution): void {
+  for (const observer of commandObservers) {
+    try {
+      observer(execution);
+    } catch (error) {
+      console.error("[process] Command observer failed:", error);
+    }
+  }
 }
 
 /**
@@ -26,109 +184,408 @@ export async function executeCommand(
   args: string[],
   options: ProcessOptions = {}
 ): Promise<ProcessResult> {
-  const { cwd, timeout = 30000, env, input } = options;
+  const startTime = Date.now();
+  const planned = planCommand({ command, args, shell: false, cwd: options.cwd, env: options.env }, options);
+  const result = planned ? plannedResult() : await activeRunner.execute(command, args, options);
+  notifyObservers({
+    command,
+    args,
+    shell: false,
+    cwd: options.cwd,
+    result,
+    durationMs: Date.now() - startTime,
+    planned: planned || undefined,
+  });
+  return result;
+}
 
-  return new Promise((resolve) => {
-    const spawnOptions: SpawnOptions = {
-      cwd,
-      env: { ...process.env, ...env },
-      shell: false,
+/**
+ * Execute a command through shell (for complex commands with pipes, etc.)
+ */
+export async function executeShell(
+  command: string,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  const startTime = Date.now();
+  const planned = planCommand({ command, args: [], shell: true, cwd: options.cwd, env: options.env }, options);
+  const result = planned ? plannedResult() : await activeRunner.executeShell(command, options);
+  notifyObservers({
+    command,
+    args: [],
+    shell: true,
+    cwd: options.cwd,
+    result,
+    durationMs: Date.now() - startTime,
+    planned: planned || undefined,
+  });
+  return result;
+}
+
+/**
+ * Start a long-running command, such as a REPL or a screen recording, through
+ * the active runner. It is audited when it exits. While planning it is only
+ * recorded, and the returned process does nothing and never exits.
+ */
+export function startCommand(command: string, args: string[], options: ProcessOptions = {}): BackgroundProcess {
+  const startTime = Date.now();
+  const execution = { command, args, shell: false, cwd: options.cwd };
+  if (planCommand({ ...execution, env: options.env }, options)) {
+    notifyObservers({ ...execution, result: plannedResult(), durationMs: 0, planned: true });
+    return {
+      write: () => {},
+      onOutput: () => {},
+      onExit: () => {},
+      interrupt: () => {},
+      kill: () => {},
     };
+  }
+  if (!activeRunner.start) {
+    throw new Error(`The active command runner cannot start ${command}`);
+  }
 
-    const proc = spawn(command, args, spawnOptions);
+  const proc = activeRunner.start(command, args, options);
+  proc.onExit((code) =>
+    notifyObservers({
+      ...execution,
+      result: { stdout: "", stderr: "", exitCode: code ?? 1, timedOut: false },
+      durationMs: Date.now() - startTime,
+    })
+  );
+  return proc;
+}
 
-    let stdout = "";
-    let stderr = "";
-    let timedOut = false;
+/**
+ * Spawn a command as a child process and collect its output
+ */
+async function spawnCommand(
+  command: string,
+  args: string[],
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  return spawnProcess(command, args, false, options);
+}
 
-    const timeoutId = setTimeout(() => {
-      timedOut = true;
-      proc.kill("SIGKILL");
-    }, timeout);
+/**
+ * Spawn a command through the shell and collect its output
+ */
+async function spawnShell(
+  command: string,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  return spawnProcess(command, [], true, options);
+}
 
-    proc.stdout?.on("data", (data: Buffer) => {
-      stdout += data.toString();
-    });
+/**
+ * Split a chunked stream into complete lines for an onLine callback.
+ * Returns a flush function that emits any trailing partial line.
+ */
+function createLineSplitter(
+  emit: (line: string) => void
+): { push: (chunk: string) => void; flush: () => void } {
+  let pending = "";
 
-    proc.stderr?.on("data", (data: Buffer) => {
-      stderr += data.toString();
-    });
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      const lines = pending.split(/\r?\n/);
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        emit(line);
+      }
+    },
+    flush() {
+      if (pending) {
+        emit(pending);
+        pending = "";
+      }
+    },
+  };
+}
 
-    proc.on("close", (exitCode) => {
-      clearTimeout(timeoutId);
-      resolve({
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        exitCode: exitCode ?? 1,
-        timedOut,
-      });
-    });
+/**
+ * Result returned when a command is cancelled before it was started
+ */
+export function cancelledResult(): ProcessResult {
+  return {
+    stdout: "",
+    stderr: "Cancelled",
+    exitCode: 1,
+    timedOut: false,
+    cancelled: true,
+  };
+}
 
-    proc.on("error", (error) => {
-      clearTimeout(timeoutId);
-      resolve({
-        stdout: "",
-        stderr: error.message,
-        exitCode: 1,
-        timedOut: false,
-      });
-    });
+/**
+ * Send a signal to a child and all of its descendants.
+ * Children are spawned as process group leaders, so the negative PID
+ * reaches e.g. the compilers xcodebuild started.
+ */
+function killProcessTree(proc: ChildProcess, signal: NodeJS.Signals): void {
+  if (proc.pid === undefined || proc.exitCode !== null) {
+    return;
+  }
 
-    // Write input to stdin if provided
-    if (input && proc.stdin) {
-      proc.stdin.write(input);
-      proc.stdin.end();
+  try {
+    if (process.platform === "win32") {
+      proc.kill(signal);
+    } else {
+      process.kill(-proc.pid, signal);
     }
+  } catch {
+    // Group already gone; fall back to the direct child
+    proc.kill(signal);
+  }
+}
+
+// Children lead their own process groups so a whole tree can be killed, which
+// also keeps the terminal's Ctrl-C from reaching them. Live ones are tracked
+// so they can be taken down with the server.
+const liveProcesses = new Set<ChildProcess>();
+
+/**
+ * Kill every running child process tree. Called automatically when the
+ * server process exits.
+ */
+export function killAllProcesses(signal: NodeJS.Signals = "SIGKILL"): void {
+  for (const proc of liveProcesses) {
+    killProcessTree(proc, signal);
+  }
+}
+
+process.on("exit", () => killAllProcesses());
+
+/**
+ * Accumulate a stream in memory up to a limit, keeping the first and last
+ * halves and dropping the middle once the limit is exceeded.
+ */
+export function createBoundedBuffer(limit: number): {
+  push: (chunk: string) => void;
+  toString: (logPath?: string) => string;
+  readonly truncated: boolean;
+} {
+  const headLimit = Math.floor(limit / 2);
+  const tailLimit = limit - headLimit;
+  let head = "";
+  let tail = "";
+  let total = 0;
+
+  return {
+    push(chunk: string) {
+      total += chunk.length;
+      if (head.length < headLimit) {
+        const room = headLimit - head.length;
+        head += chunk.slice(0, room);
+        chunk = chunk.slice(room);
+      }
+      if (chunk) {
+        tail += chunk;
+        // Trim lazily so long streams of small chunks stay linear
+        if (tail.length > tailLimit * 2) {
+          tail = tail.slice(-tailLimit);
+        }
+      }
+    },
+    toString(logPath?: string) {
+      if (total <= limit) {
+        return head + tail;
+      }
+      const kept = tail.slice(-tailLimit);
+      return head + truncationMarker(total - head.length - kept.length, logPath) + kept;
+    },
+    get truncated() {
+      return total > limit;
+    },
+  };
+}
+
+/**
+ * Marker inserted where output was dropped from memory
+ */
+export function truncationMarker(omitted: number, logPath?: string): string {
+  const where = logPath ? `; full log: ${logPath}` : "";
+  return `\n\n... [${omitted} characters truncated${where}] ...\n\n`;
+}
+
+/**
+ * Apply the head/tail retention of maxOutputSize to an already captured string
+ */
+export function boundOutput(
+  text: string,
+  maxOutputSize: number,
+  logPath?: string
+): { text: string; truncated: boolean } {
+  const buffer = createBoundedBuffer(maxOutputSize);
+  buffer.push(text);
+  return { text: buffer.toString(logPath), truncated: buffer.truncated };
+}
+
+/**
+ * Close a log stream and wait until its contents are on disk
+ */
+function closeLog(log: WriteStream | null): Promise<void> {
+  if (!log || log.destroyed) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    log.end(() => resolve());
+    log.once("error", () => resolve());
   });
 }
 
 /**
- * Execute a command through shell (for complex commands with pipes, etc.)
+ * Spawn a long-running child with piped stdio in its own process group
  */
-export async function executeShell(
+function startProcess(command: string, args: string[], options: ProcessOptions): BackgroundProcess {
+  const { cwd, env, cleanEnv } = options;
+  const proc = spawn(command, args, {
+    cwd,
+    env: cleanEnv ? { ...env } : { ...process.env, ...env },
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: process.platform !== "win32",
+  });
+  liveProcesses.add(proc);
+
+  // Read from the start so unconsumed output never fills the pipes
+  const outputListeners: Array<(chunk: string, stream: "stdout" | "stderr") => void> = [];
+  proc.stdout?.on("data", (data: Buffer) => outputListeners.forEach((listener) => listener(data.toString(), "stdout")));
+  proc.stderr?.on("data", (data: Buffer) => outputListeners.forEach((listener) => listener(data.toString(), "stderr")));
+  // Writes after the process died surface through onExit instead
+  proc.stdin?.on("error", () => {});
+
+  const exitListeners: Array<(code: number | null) => void> = [];
+  let exited = false;
+  const onExit = (code: number | null) => {
+    liveProcesses.delete(proc);
+    if (!exited) {
+      exited = true;
+      exitListeners.forEach((listener) => listener(code));
+    }
+  };
+  proc.on("exit", (code) => onExit(code));
+  proc.on("error", () => onExit(null));
+
+  return {
+    write: (input) => {
+      proc.stdin?.write(input);
+    },
+    onOutput: (listener) => {
+      outputListeners.push(listener);
+    },
+    onExit: (listener) => {
+      exitListeners.push(listener);
+    },
+    interrupt: () => {
+      proc.kill("SIGINT");
+    },
+    kill: () => {
+      killProcessTree(proc, "SIGKILL");
+    },
+  };
+}
+
+async function spawnProcess(
   command: string,
-  options: ProcessOptions = {}
+  args: string[],
+  shell: boolean,
+  options: ProcessOptions
 ): Promise<ProcessResult> {
-  const { cwd, timeout = 30000, env } = options;
+  const {
+    cwd,
+    timeout = 30000,
+    env,
+    cleanEnv,
+    input,
+    onLine,
+    signal,
+    maxOutputSize = DEFAULT_MAX_OUTPUT_SIZE,
+    logPath,
+  } = options;
+
+  if (signal?.aborted) {
+    return cancelledResult();
+  }
 
   return new Promise((resolve) => {
     const spawnOptions: SpawnOptions = {
       cwd,
-      env: { ...process.env, ...env },
-      shell: true,
+      env: cleanEnv ? { ...env } : { ...process.env, ...env },
+      shell,
+      detached: process.platform !== "win32",
     };
 
-    const proc = spawn(command, [], spawnOptions);
+    const proc = spawn(command, args, spawnOptions);
+    liveProcesses.add(proc);
 
-    let stdout = "";
-    let stderr = "";
+    const stdout = createBoundedBuffer(maxOutputSize);
+    const stderr = createBoundedBuffer(maxOutputSize);
     let timedOut = false;
+    let cancelled = false;
+    let forceKillId: NodeJS.Timeout | undefined;
+
+    const stdoutLines = onLine ? createLineSplitter((line) => onLine(line, "stdout")) : null;
+    const stderrLines = onLine ? createLineSplitter((line) => onLine(line, "stderr")) : null;
+
+    // Unwritable log paths must not fail the command itself
+    const log = logPath ? createWriteStream(logPath) : null;
+    log?.once("error", (error) => console.error(`[process] Cannot write ${logPath}:`, error.message));
+    const writeLog = (chunk: string) => {
+      if (log && !log.destroyed) {
+        log.write(chunk);
+      }
+    };
 
     const timeoutId = setTimeout(() => {
       timedOut = true;
-      proc.kill("SIGKILL");
+      killProcessTree(proc, "SIGKILL");
     }, timeout);
 
+    const onAbort = () => {
+      cancelled = true;
+      killProcessTree(proc, "SIGTERM");
+      forceKillId = setTimeout(() => killProcessTree(proc, "SIGKILL"), CANCEL_KILL_DELAY);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const cleanup = () => {
+      liveProcesses.delete(proc);
+      clearTimeout(timeoutId);
+      clearTimeout(forceKillId);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
     proc.stdout?.on("data", (data: Buffer) => {
-      stdout += data.toString();
+      const chunk = data.toString();
+      stdout.push(chunk);
+      writeLog(chunk);
+      stdoutLines?.push(chunk);
     });
 
     proc.stderr?.on("data", (data: Buffer) => {
-      stderr += data.toString();
+      const chunk = data.toString();
+      stderr.push(chunk);
+      writeLog(chunk);
+      stderrLines?.push(chunk);
     });
 
-    proc.on("close", (exitCode) => {
-      clearTimeout(timeoutId);
+    proc.on("close", async (exitCode, exitSignal) => {
+      cleanup();
+      stdoutLines?.flush();
+      stderrLines?.flush();
+      await closeLog(log);
       resolve({
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
+        stdout: stdout.toString(logPath).trim(),
+        stderr: stderr.toString(logPath).trim(),
         exitCode: exitCode ?? 1,
         timedOut,
+        cancelled,
+        truncated: stdout.truncated || stderr.truncated,
+        signal: exitSignal ?? undefined,
       });
     });
 
-    proc.on("error", (error) => {
-      clearTimeout(timeoutId);
+    proc.on("error", async (error) => {
+      cleanup();
+      await closeLog(log);
       resolve({
         stdout: "",
         stderr: error.message,
@@ -136,5 +593,14 @@ export async function executeShell(
         timedOut: false,
       });
     });
+
+    // Always close stdin, so programs reading it see end of input instead of waiting
+    if (proc.stdin) {
+      proc.stdin.on("error", () => {}); // the program may exit without reading it
+      if (input !== undefined) {
+        proc.stdin.write(input);
+      }
+      proc.stdin.end();
+    }
   });
 }
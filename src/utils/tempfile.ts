@@ -2,7 +2,7 @@
  * Temporary file management utilities
  */
 
-import { mkdtemp, writeFile, rm, mkdir } from "fs/promises";
+import { mkdtemp, writeFile, rm, mkdir, readdir, stat } from "fs/promises";
 import { tmpdir } from "os";
 import { join } from "path";
 import { randomBytes } from "crypto";
@@ -39,6 +39,63 @@ export async function createTempFile(
   return { path: filePath, cleanup };
 }
 
+// "name-<timestamp>-<random>", unique within a shared directory
+function uniqueName(name: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${name}-${timestamp}-${randomBytes(2).toString("hex")}`;
+}
+
+export interface LogRotationOptions {
+  ttlMs: number; // logs older than this are deleted
+  maxBytes: number; // the oldest logs are deleted beyond this total
+}
+
+const LOG_DIR = join(tmpdir(), "ios-dev-mcp-logs");
+const DEFAULT_LOG_ROTATION: LogRotationOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxBytes: 512 * 1024 * 1024,
+};
+
+/**
+ * Reserve a unique path for a command log in the shared log directory,
+ * rotating out old logs first
+ */
+export async function createLogPath(name: string): Promise<string> {
+  await ensureDir(LOG_DIR);
+  await rotateLogs(LOG_DIR);
+  return join(LOG_DIR, `${uniqueName(name)}.log`);
+}
+
+/**
+ * Delete logs older than the TTL, then the oldest ones until the directory
+ * is within its size limit. Returns the deleted paths.
+ */
+export async function rotateLogs(
+  dir: string,
+  options: LogRotationOptions = DEFAULT_LOG_ROTATION
+): Promise<string[]> {
+  const now = Date.now();
+  const names = await readdir(dir).catch(() => [] as string[]);
+  const logs: { path: string; size: number; mtimeMs: number }[] = [];
+  for (const name of names.filter((n) => n.endsWith(".log"))) {
+    const stats = await stat(join(dir, name)).catch(() => null);
+    if (stats?.isFile()) {
+      logs.push({ path: join(dir, name), size: stats.size, mtimeMs: stats.mtimeMs });
+    }
+  }
+  logs.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+  let total = logs.reduce((sum, log) => sum + log.size, 0);
+  const removed: string[] = [];
+  for (const log of logs) {
+    if (now - log.mtimeMs <= options.ttlMs && total <= options.maxBytes) continue;
+    await rm(log.path, { force: true });
+    removed.push(log.path);
+    total -= log.size;
+  }
+  return removed;
+}
+
 /**
  * Ensure a directory exists
  */
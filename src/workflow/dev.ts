@@ -11,7 +11,11 @@ import {
   build,
   getBuildSettings,
   detectProjectType,
+  XcodeBuildResult,
 } from "../xcode/builder.js";
+import { XcodebuildProgressEvent } from "../xcode/progress.js";
+import { clientState } from "../utils/client-scope.js";
+import { isDryRun } from "../utils/dry-run.js";
 import {
   listSimulators,
   findSimulator,
@@ -43,30 +47,33 @@ export interface DevSession {
   lastScreenshotPath?: string;
 }
 
-// Global session state (persists across tool calls)
-let currentSession: DevSession | null = null;
+// Session state persists across tool calls; each client has its own
+const sessionState = clientState<{ current: DevSession | null }>(() => ({ current: null }));
 
 /**
  * Get the current development session
  */
 export function getSession(): DevSession | null {
-  return currentSession;
+  return sessionState().current;
 }
 
 /**
  * Clear the current session
  */
 export function clearSession(): void {
-  currentSession = null;
+  sessionState().current = null;
 }
 
 export interface DevRunResult {
   success: boolean;
   session?: DevSession;
   buildOutput?: string;
+  buildLogPath?: string;
+  buildResult?: XcodeBuildResult;
   buildTime?: number;
   screenshotPath?: string;
   error?: string;
+  cancelled?: boolean;
   steps: Array<{
     step: string;
     success: boolean;
@@ -241,7 +248,7 @@ export async function startSession(options: {
     });
 
     // Create session
-    currentSession = {
+    const session: DevSession = {
       projectPath: options.projectPath,
       projectType,
       scheme,
@@ -252,10 +259,11 @@ export async function startSession(options: {
       },
       builtProductsDir,
     };
+    sessionState().current = session;
 
     return {
       success: true,
-      session: currentSession,
+      session,
       steps,
     };
   } catch (error) {
@@ -274,10 +282,14 @@ export async function startSession(options: {
 export async function devRun(options?: {
   clean?: boolean;
   screenshotPath?: string;
+  onProgress?: (event: XcodebuildProgressEvent) => void;
+  signal?: AbortSignal;
 }): Promise<DevRunResult> {
   const steps: DevRunResult["steps"] = [];
+  const signal = options?.signal;
 
-  if (!currentSession) {
+  const session = getSession();
+  if (!session) {
     return {
       success: false,
       error:
@@ -286,9 +298,26 @@ export async function devRun(options?: {
     };
   }
 
-  const session = currentSession;
   const buildStartTime = Date.now();
 
+  // Cancellation restores the session as it was before this run, so it never
+  // points at a half-updated build (unless the session was replaced meanwhile)
+  const snapshot: DevSession = { ...session, simulator: { ...session.simulator } };
+  const cancel = (): DevRunResult => {
+    if (getSession() === session) {
+      sessionState().current = snapshot;
+    }
+    return {
+      success: false,
+      cancelled: true,
+      error: "Run cancelled",
+      steps: [
+        ...steps,
+        { step: "Cancelled", success: false, message: "Cancelled by client" },
+      ],
+    };
+  };
+
   try {
     // Step 1: Build the project
     steps.push({
@@ -303,10 +332,16 @@ export async function devRun(options?: {
       sdk: "iphonesimulator",
       destination: `platform=iOS Simulator,id=${session.simulator.udid}`,
       clean: options?.clean,
+      onProgress: options?.onProgress,
+      signal,
     });
 
     const buildDuration = Date.now() - buildStartTime;
 
+    if (buildResult.cancelled || signal?.aborted) {
+      return cancel();
+    }
+
     if (!buildResult.success) {
       // Extract key errors for display
       const keyErrors = buildResult.errors.slice(0, 5);
@@ -314,6 +349,8 @@ export async function devRun(options?: {
         success: false,
         error: "Build failed",
         buildOutput: buildResult.output,
+        buildLogPath: buildResult.logPath,
+        buildResult,
         steps: [
           ...steps,
           {
@@ -334,6 +371,10 @@ export async function devRun(options?: {
       duration: buildDuration,
     });
 
+    if (signal?.aborted) {
+      return cancel();
+    }
+
     // Update built products dir from build settings
     // Pass iphonesimulator SDK to get correct path for simulator builds
     const postBuildSettings = await getBuildSettings(
@@ -345,7 +386,7 @@ export async function devRun(options?: {
       }
     );
     if (postBuildSettings.success) {
-      session.builtProductsDir = postBuildSettings.settings["BUILT_PRODUCTS_DIR"];
+      session.builtProductsDir = postBuildSettings.settings["BUILT_PRODUCTS_DIR"] || session.builtProductsDir;
       session.bundleId =
         postBuildSettings.settings["PRODUCT_BUNDLE_IDENTIFIER"] || session.bundleId;
     }
@@ -355,11 +396,16 @@ export async function devRun(options?: {
     if (session.builtProductsDir) {
       appPath = await findAppBundle(session.builtProductsDir);
     }
+    if (!appPath && isDryRun()) {
+      // Nothing was built, so plan with the bundle the build would produce
+      appPath = join(session.builtProductsDir ?? "<BUILT_PRODUCTS_DIR>", `${session.scheme}.app`);
+    }
 
     if (!appPath) {
       return {
         success: false,
         error: "Could not find built .app bundle",
+        buildResult,
         steps: [
           ...steps,
           {
@@ -378,6 +424,10 @@ export async function devRun(options?: {
       message: basename(appPath),
     });
 
+    if (signal?.aborted) {
+      return cancel();
+    }
+
     // Step 3: Terminate any existing instance
     await terminateApp(session.simulator.udid, session.bundleId);
 
@@ -387,6 +437,7 @@ export async function devRun(options?: {
       return {
         success: false,
         error: `Install failed: ${installResult.error}`,
+        buildResult,
         steps: [
           ...steps,
           {
@@ -404,6 +455,10 @@ export async function devRun(options?: {
       message: "App installed",
     });
 
+    if (signal?.aborted) {
+      return cancel();
+    }
+
     // Step 5: Launch the app
     const launchResult = await launchApp(
       session.simulator.udid,
@@ -413,6 +468,7 @@ export async function devRun(options?: {
       return {
         success: false,
         error: `Launch failed: ${launchResult.error}`,
+        buildResult,
         steps: [
           ...steps,
           {
@@ -431,7 +487,13 @@ export async function devRun(options?: {
     });
 
     // Step 6: Wait briefly for app to render, then take screenshot
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    if (!isDryRun()) {
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+    }
+
+    if (signal?.aborted) {
+      return cancel();
+    }
 
     const screenshotResult = await takeScreenshot(
       session.simulator.udid,
@@ -459,6 +521,8 @@ export async function devRun(options?: {
       success: true,
       session,
       buildTime: buildDuration,
+      buildLogPath: buildResult.logPath,
+      buildResult,
       screenshotPath: screenshotResult.path,
       steps,
     };
@@ -477,9 +541,16 @@ export async function devRun(options?: {
  */
 export async function devRestart(options?: {
   screenshotPath?: string;
+  onProgress?: (event: XcodebuildProgressEvent) => void;
+  signal?: AbortSignal;
 }): Promise<DevRunResult> {
   // devRestart is essentially devRun without clean build
-  return devRun({ clean: false, screenshotPath: options?.screenshotPath });
+  return devRun({
+    clean: false,
+    screenshotPath: options?.screenshotPath,
+    onProgress: options?.onProgress,
+    signal: options?.signal,
+  });
 }
 
 /**
@@ -488,7 +559,8 @@ export async function devRestart(options?: {
 export async function devPreview(options?: {
   outputPath?: string;
 }): Promise<{ success: boolean; path?: string; error?: string }> {
-  if (!currentSession) {
+  const session = getSession();
+  if (!session) {
     return {
       success: false,
       error: "No active development session",
@@ -496,12 +568,12 @@ export async function devPreview(options?: {
   }
 
   const result = await takeScreenshot(
-    currentSession.simulator.udid,
+    session.simulator.udid,
     options?.outputPath
   );
 
   if (result.success) {
-    currentSession.lastScreenshotPath = result.path;
+    session.lastScreenshotPath = result.path;
   }
 
   return result;
@@ -511,11 +583,11 @@ export async function devPreview(options?: {
  * Get formatted session info
  */
 export function getSessionInfo(): string {
-  if (!currentSession) {
+  const s = getSession();
+  if (!s) {
     return "No active development session.\n\nUse dev_session_start to initialize a session with your Xcode project.";
   }
 
-  const s = currentSession;
   return [
     "=== Development Session ===",
     "",
@@ -0,0 +1,266 @@
+/**
+ * Job Scheduler
+ * Serializes tool calls that touch the same simulator or project
+ *
+ * Each tool call is a job holding a set of resource keys such as
+ * "simulator:<udid>" or "project:<path>". Jobs whose resources conflict with a
+ * running or earlier queued job wait in FIFO order; everything else runs
+ * concurrently.
+ */
+
+import { resolve } from "path";
+import { getSession } from "./dev.js";
+
+export interface Job {
+  id: number;
+  tool: string;
+  resources: string[];
+  state: "running" | "queued";
+  queuedAt: number;
+  startedAt?: number;
+}
+
+export interface JobSnapshot extends Job {
+  position?: number; // 1-based position among queued jobs
+  blockedBy: number[]; // ids of jobs this one is waiting for
+}
+
+interface PendingJob extends Job {
+  start: () => void;
+}
+
+// Wildcard id used when a tool targets "the booted simulator" implicitly
+const ANY = "*";
+
+// Tools that act on a simulator (explicit udid, session simulator or booted one)
+const SIMULATOR_TOOLS = new Set([
+  "simulator_boot",
+  "simulator_shutdown",
+  "simulator_install_app",
+  "simulator_uninstall_app",
+  "simulator_launch_app",
+  "simulator_terminate_app",
+  "simulator_screenshot",
+  "simulator_open_url",
+  "simulator_get_app_container",
+  "simulator_get_logs",
+  "simulator_list_apps",
+  "simulator_start_recording",
+  "simulator_stop_recording",
+  "dev_session_start",
+  "dev_session_end",
+  "dev_run",
+  "dev_restart",
+  "dev_preview",
+  "ui_tap",
+  "ui_double_tap",
+  "ui_long_press",
+  "ui_swipe",
+  "ui_type",
+  "ui_press_key",
+  "ui_press_button",
+  "ui_scroll",
+  "ui_dismiss_keyboard",
+  "ui_set_appearance",
+  "ui_automation_start",
+  "ui_analyze_screen",
+  "ui_find_and_tap",
+  "ui_find_and_type",
+  "ui_run_flow",
+  "ui_describe_screen",
+  "ui_find_element",
+  "ui_record_start",
+  "ui_record_stop",
+  "send_push",
+  "set_network_condition",
+  "set_location",
+  "trigger_memory_warning",
+  "simulate_biometric",
+  "xcode_test",
+]);
+
+// Tools that build or otherwise write into a project's derived data or a package's
+// .build, or export one of its archives
+const PROJECT_TOOLS = new Set([
+  "xcode_build",
+  "xcode_build_insights",
+  "xcode_archive",
+  "xcode_export",
+  "xcode_test",
+  "spm_build",
+  "spm_test",
+  "spm_resolve",
+  "dev_session_start",
+  "dev_run",
+  "dev_restart",
+]);
+
+// Tools that use the dev session's simulator/project when no arguments are given
+const SESSION_TOOLS = new Set(["dev_run", "dev_restart", "dev_preview", "dev_session_end"]);
+
+const running: PendingJob[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+
+/**
+ * Determine which resources a tool call needs exclusive access to
+ */
+export function resourcesForTool(tool: string, args: Record<string, unknown>): string[] {
+  const resources: string[] = [];
+  const session = SESSION_TOOLS.has(tool) ? getSession() : null;
+
+  if (SIMULATOR_TOOLS.has(tool)) {
+    const udid = (args.udid as string | undefined) || session?.simulator.udid;
+    resources.push(`simulator:${udid || ANY}`);
+  }
+
+  if (PROJECT_TOOLS.has(tool)) {
+    const projectPath =
+      (args.projectPath as string | undefined) ||
+      (args.packagePath as string | undefined) ||
+      (args.archivePath as string | undefined) ||
+      session?.projectPath;
+    if (projectPath) {
+      resources.push(`project:${resolve(projectPath)}`);
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Two resource keys conflict when they name the same resource, or when one
+ * of them is the wildcard of the same kind
+ */
+function conflicts(a: string, b: string): boolean {
+  const [kindA, idA] = splitKey(a);
+  const [kindB, idB] = splitKey(b);
+  return kindA === kindB && (idA === idB || idA === ANY || idB === ANY);
+}
+
+function splitKey(key: string): [string, string] {
+  const index = key.indexOf(":");
+  return [key.slice(0, index), key.slice(index + 1)];
+}
+
+function jobsConflict(a: Job, b: Job): boolean {
+  return a.resources.some((ra) => b.resources.some((rb) => conflicts(ra, rb)));
+}
+
+/**
+ * Jobs that must finish before `job` can start: conflicting running jobs and
+ * conflicting jobs queued ahead of it (keeps the queue fair)
+ */
+function blockersOf(job: Job): Job[] {
+  const ahead = queue.slice(0, queue.findIndex((q) => q.id === job.id));
+  return [...running, ...ahead].filter((other) => jobsConflict(job, other));
+}
+
+/**
+ * Start every queued job that no longer has blockers
+ */
+function drainQueue(): void {
+  for (let i = 0; i < queue.length; ) {
+    const job = queue[i];
+    if (blockersOf(job).length === 0) {
+      queue.splice(i, 1);
+      job.start();
+    } else {
+      i++;
+    }
+  }
+}
+
+/**
+ * Run a task once its resources are free.
+ *
+ * `onQueued` is called with the job's queue position when it has to wait.
+ * Aborting `signal` while queued removes the job and rejects.
+ */
+export async function runExclusive<T>(
+  tool: string,
+  resources: string[],
+  task: () => Promise<T>,
+  options: {
+    onQueued?: (position: number, blockedBy: Job[]) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<{ value: T; waitedMs: number }> {
+  const job: PendingJob = {
+    id: nextJobId++,
+    tool,
+    resources,
+    state: "queued",
+    queuedAt: Date.now(),
+    start: () => {},
+  };
+
+  // Resolves with the start time once the job may run
+  const startedAt = await new Promise<number>((resolveStart, rejectStart) => {
+    const onAbort = () => {
+      const index = queue.indexOf(job);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        drainQueue();
+      }
+      rejectStart(new Error(`${tool} was cancelled while waiting in the job queue`));
+    };
+
+    // Mark as running synchronously so jobs started in the same drain see it
+    job.start = () => {
+      options.signal?.removeEventListener("abort", onAbort);
+      job.state = "running";
+      job.startedAt = Date.now();
+      running.push(job);
+      resolveStart(job.startedAt);
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    queue.push(job);
+    const blockers = blockersOf(job);
+    if (blockers.length === 0) {
+      queue.splice(queue.indexOf(job), 1);
+      job.start();
+      return;
+    }
+
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    options.onQueued?.(queue.indexOf(job) + 1, blockers);
+  });
+
+  try {
+    const value = await task();
+    return { value, waitedMs: startedAt - job.queuedAt };
+  } finally {
+    running.splice(running.indexOf(job), 1);
+    drainQueue();
+  }
+}
+
+/**
+ * Snapshot of running and queued jobs
+ */
+export function listJobs(): JobSnapshot[] {
+  const snapshot = (job: PendingJob): JobSnapshot => ({
+    id: job.id,
+    tool: job.tool,
+    resources: job.resources,
+    state: job.state,
+    queuedAt: job.queuedAt,
+    startedAt: job.startedAt,
+    blockedBy: [],
+  });
+
+  return [
+    ...running.map(snapshot),
+    ...queue.map((job, index) => ({
+      ...snapshot(job),
+      position: index + 1,
+      blockedBy: blockersOf(job).map((blocker) => blocker.id),
+    })),
+  ];
+}
@@ -0,0 +1,354 @@
+/**
+ * Xcode Archiving
+ * Archives a scheme with xcodebuild and exports the archive as an IPA
+ */
+
+import { readdir, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { executeCommand } from "../utils/process.js";
+import { createLogPath, createTempDir } from "../utils/tempfile.js";
+import { createArtifactPath, registerArtifact } from "../utils/artifacts.js";
+import { getProjectConfig } from "../utils/config.js";
+import { isDryRun } from "../utils/dry-run.js";
+import { createXcodebuildProgressParser, XcodebuildProgressEvent } from "./progress.js";
+import {
+  collectBuildIssue,
+  DEFAULT_BUILD_OUTPUT_SIZE,
+  DEFAULT_BUILD_TIMEOUT,
+  detectProjectType,
+  XcodeBuildResult,
+} from "./builder.js";
+
+export interface ArchiveOptions {
+  scheme: string;
+  configuration?: string; // default: Release
+  destination?: string; // default: generic/platform=iOS
+  archivePath?: string; // where to write the .xcarchive (default: artifact store)
+  derivedDataPath?: string;
+  teamID?: string; // sets DEVELOPMENT_TEAM
+  allowProvisioningUpdates?: boolean; // let xcodebuild create and update profiles
+  timeout?: number;
+  onProgress?: (event: XcodebuildProgressEvent) => void;
+  signal?: AbortSignal;
+  maxOutputSize?: number;
+  logPath?: string;
+}
+
+export interface ArchiveResult extends XcodeBuildResult {
+  archivePath: string;
+}
+
+export type ExportMethod =
+  | "app-store-connect"
+  | "release-testing"
+  | "enterprise"
+  | "debugging"
+  | "developer-id"
+  | "mac-application"
+  | "validation"
+  // Names used before Xcode 15.3
+  | "app-store"
+  | "ad-hoc"
+  | "development";
+
+export interface ExportOptions {
+  method: ExportMethod;
+  teamID?: string;
+  signingStyle?: "automatic" | "manual";
+  signingCertificate?: string; // e.g. "Apple Distribution"
+  provisioningProfiles?: Record<string, string>; // bundle identifier -> profile name or UUID
+  destination?: "export" | "upload"; // upload sends the build to App Store Connect
+}
+
+export interface IpaInfo {
+  bundleIdentifier?: string;
+  name?: string;
+  version?: string; // CFBundleShortVersionString
+  build?: string; // CFBundleVersion
+  minimumOSVersion?: string;
+  platform?: string; // DTPlatformName
+  sdk?: string; // DTSDKName
+  xcode?: string; // DTXcode
+  deviceFamily?: number[]; // UIDeviceFamily: 1 iPhone, 2 iPad
+}
+
+export interface ExportResult {
+  success: boolean;
+  exportPath: string;
+  ipaPath?: string;
+  size?: number; // bytes
+  info?: IpaInfo; // summary of the app's Info.plist inside the IPA
+  output: string;
+  error?: string;
+  cancelled?: boolean;
+  logPath?: string;
+  truncated?: boolean;
+}
+
+const DEFAULT_EXPORT_TIMEOUT = 600000; // 10 minutes
+
+/**
+ * Archive a scheme with `xcodebuild archive`
+ */
+export async function archive(projectPath: string, options: ArchiveOptions): Promise<ArchiveResult> {
+  const startTime = Date.now();
+  const projectType = await detectProjectType(projectPath);
+
+  const {
+    scheme,
+    configuration = "Release",
+    destination = "generic/platform=iOS",
+    derivedDataPath,
+    teamID,
+    allowProvisioningUpdates = false,
+    timeout = getProjectConfig().timeouts?.build ?? DEFAULT_BUILD_TIMEOUT,
+    onProgress,
+    signal,
+    maxOutputSize = DEFAULT_BUILD_OUTPUT_SIZE,
+  } = options;
+  const archivePath = options.archivePath ?? (await createArtifactPath("archive", ".xcarchive"));
+
+  if (!projectType) {
+    return {
+      success: false,
+      output: "",
+      error: `Invalid path: ${projectPath}. Must be a .xcodeproj or .xcworkspace`,
+      warnings: [],
+      errors: [`Invalid project path: ${projectPath}`],
+      buildTime: 0,
+      archivePath,
+    };
+  }
+
+  const args = [
+    projectType === "workspace" ? "-workspace" : "-project",
+    projectPath,
+    "-scheme",
+    scheme,
+    "-configuration",
+    configuration,
+    "-destination",
+    destination,
+    "-archivePath",
+    archivePath,
+  ];
+  if (derivedDataPath) {
+    args.push("-derivedDataPath", derivedDataPath);
+  }
+  if (allowProvisioningUpdates) {
+    args.push("-allowProvisioningUpdates");
+  }
+  args.push("archive");
+  if (teamID) {
+    args.push(`DEVELOPMENT_TEAM=${teamID}`);
+  }
+
+  const logPath = options.logPath ?? (await createLogPath("xcodebuild-archive"));
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const progress = onProgress ? createXcodebuildProgressParser(onProgress) : undefined;
+
+  const result = await executeCommand("xcodebuild", args, {
+    timeout,
+    onLine: (line) => {
+      collectBuildIssue(line, warnings, errors);
+      progress?.(line);
+    },
+    signal,
+    maxOutputSize,
+    logPath,
+  });
+  if (!options.archivePath) {
+    await registerArtifact(archivePath, "archive");
+  }
+
+  const summary = {
+    output: result.stdout,
+    warnings,
+    errors,
+    buildTime: Date.now() - startTime,
+    derivedDataPath,
+    logPath,
+    truncated: result.truncated,
+    archivePath,
+  };
+
+  if (result.cancelled) {
+    return { ...summary, success: false, error: "Archive cancelled", cancelled: true };
+  }
+  if (result.timedOut) {
+    return { ...summary, success: false, error: `Archive timed out after ${timeout / 1000} seconds` };
+  }
+  if (result.exitCode !== 0) {
+    return { ...summary, success: false, error: result.stderr || `xcodebuild exited with code ${result.exitCode}` };
+  }
+  return { ...summary, success: true };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Generate an ExportOptions.plist for `xcodebuild -exportArchive`
+ */
+export function generateExportOptionsPlist(options: ExportOptions): string {
+  const entries: string[] = [];
+  const add = (key: string, value: string) => entries.push(`\t<key>${key}</key>`, `\t${value}`);
+  const string = (value: string) => `<string>${escapeXml(value)}</string>`;
+
+  add("method", string(options.method));
+  if (options.teamID) {
+    add("teamID", string(options.teamID));
+  }
+  if (options.signingStyle) {
+    add("signingStyle", string(options.signingStyle));
+  }
+  if (options.signingCertificate) {
+    add("signingCertificate", string(options.signingCertificate));
+  }
+  if (options.provisioningProfiles && Object.keys(options.provisioningProfiles).length > 0) {
+    const profiles = Object.entries(options.provisioningProfiles).map(
+      ([bundleId, profile]) => `\t\t<key>${escapeXml(bundleId)}</key>\n\t\t${string(profile)}`
+    );
+    add("provisioningProfiles", `<dict>\n${profiles.join("\n")}\n\t</dict>`);
+  }
+  if (options.destination) {
+    add("destination", string(options.destination));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<dict>",
+    ...entries,
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Summarize an app's Info.plist, already converted to JSON
+ */
+export function summarizeInfoPlist(plist: Record<string, unknown>): IpaInfo {
+  const text = (key: string) => (typeof plist[key] === "string" ? (plist[key] as string) : undefined);
+  const family = plist.UIDeviceFamily;
+
+  return {
+    bundleIdentifier: text("CFBundleIdentifier"),
+    name: text("CFBundleDisplayName") ?? text("CFBundleName"),
+    version: text("CFBundleShortVersionString"),
+    build: text("CFBundleVersion"),
+    minimumOSVersion: text("MinimumOSVersion"),
+    platform: text("DTPlatformName"),
+    sdk: text("DTSDKName"),
+    xcode: text("DTXcode"),
+    deviceFamily: Array.isArray(family) ? family.map(Number) : undefined,
+  };
+}
+
+/**
+ * Read the top-level app's Info.plist from an IPA
+ */
+async function readIpaInfo(ipaPath: string): Promise<IpaInfo | undefined> {
+  const dir = await createTempDir("ios-dev-mcp-ipa-");
+  try {
+    // Nested apps (watch apps, extensions) match the pattern too; only the
+    // bundle directly under Payload is read
+    const unzip = await executeCommand("unzip", ["-q", "-o", ipaPath, "Payload/*.app/Info.plist", "-d", dir], {
+      timeout: 60000,
+    });
+    if (unzip.exitCode !== 0) {
+      return undefined;
+    }
+
+    const app = (await readdir(join(dir, "Payload"))).find((entry) => entry.endsWith(".app"));
+    if (!app) {
+      return undefined;
+    }
+
+    const plist = await executeCommand("plutil", ["-convert", "json", "-o", "-", join(dir, "Payload", app, "Info.plist")], {
+      timeout: 10000,
+      readOnly: true,
+    });
+    return plist.exitCode === 0 ? summarizeInfoPlist(JSON.parse(plist.stdout) as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Export an archive with `xcodebuild -exportArchive` and describe the IPA
+ */
+export async function exportArchive(
+  archivePath: string,
+  options: {
+    exportOptions: ExportOptions;
+    exportPath?: string; // directory for the IPA (default: artifact store)
+    allowProvisioningUpdates?: boolean;
+    timeout?: number;
+    signal?: AbortSignal;
+    logPath?: string;
+  }
+): Promise<ExportResult> {
+  const { exportOptions, allowProvisioningUpdates = false, timeout = DEFAULT_EXPORT_TIMEOUT, signal } = options;
+  const exportPath = options.exportPath ?? (await createArtifactPath("export", ""));
+
+  const archiveStats = await stat(archivePath).catch(() => null);
+  if (!archiveStats?.isDirectory()) {
+    return { success: false, exportPath, output: "", error: `Archive not found: ${archivePath}` };
+  }
+
+  const optionsDir = await createTempDir("ios-dev-mcp-export-");
+  const optionsPath = join(optionsDir, "ExportOptions.plist");
+  if (!isDryRun()) {
+    await writeFile(optionsPath, generateExportOptionsPlist(exportOptions), "utf-8");
+  }
+
+  const args = ["-exportArchive", "-archivePath", archivePath, "-exportPath", exportPath, "-exportOptionsPlist", optionsPath];
+  if (allowProvisioningUpdates) {
+    args.push("-allowProvisioningUpdates");
+  }
+
+  const logPath = options.logPath ?? (await createLogPath("xcodebuild-export"));
+  const result = await executeCommand("xcodebuild", args, {
+    timeout,
+    signal,
+    maxOutputSize: DEFAULT_BUILD_OUTPUT_SIZE,
+    logPath,
+  });
+  await rm(optionsDir, { recursive: true, force: true });
+  if (!options.exportPath) {
+    await registerArtifact(exportPath, "export");
+  }
+
+  const summary = { exportPath, output: result.stdout, logPath, truncated: result.truncated };
+  if (result.cancelled) {
+    return { ...summary, success: false, error: "Export cancelled", cancelled: true };
+  }
+  if (result.timedOut) {
+    return { ...summary, success: false, error: `Export timed out after ${timeout / 1000} seconds` };
+  }
+  if (result.exitCode !== 0) {
+    return { ...summary, success: false, error: result.stderr || `xcodebuild exited with code ${result.exitCode}` };
+  }
+
+  // Uploads to App Store Connect leave no IPA behind
+  const ipa = (await readdir(exportPath).catch(() => [])).find((entry) => entry.endsWith(".ipa"));
+  if (!ipa) {
+    return { ...summary, success: true };
+  }
+
+  const ipaPath = join(exportPath, ipa);
+  return {
+    ...summary,
+    success: true,
+    ipaPath,
+    size: (await stat(ipaPath)).size,
+    info: await readIpaInfo(ipaPath),
+  };
+}
@@ -4,6 +4,18 @@
  */
 
 import { executeCommand } from "../utils/process.js";
+import { createLogPath } from "../utils/tempfile.js";
+import { createArtifactPath, registerArtifact } from "../utils/artifacts.js";
+import { createXcodebuildProgressParser, XcodebuildProgressEvent } from "./progress.js";
+import { formatXcresultIssue, readXcresult, XcresultIssue } from "./xcresult.js";
+import {
+  BuildTimingReport,
+  createBuildTimingCollector,
+  DEFAULT_TIMING_THRESHOLD,
+  isTypeCheckTimingWarning,
+  timingSwiftFlags,
+} from "./timing.js";
+import { getProjectConfig } from "../utils/config.js";
 import { stat } from "fs/promises";
 import { basename } from "path";
 
@@ -21,6 +33,12 @@ export interface XcodeBuildResult {
   errors: string[];
   buildTime: number;
   derivedDataPath?: string;
+  cancelled?: boolean;
+  logPath?: string; // full xcodebuild output; `output` may be truncated
+  truncated?: boolean;
+  issues?: XcresultIssue[]; // structured errors and warnings from the result bundle
+  resultBundlePath?: string;
+  timing?: BuildTimingReport; // with analyzeTiming
 }
 
 export interface XcodeBuildSettings {
@@ -43,9 +61,18 @@ export interface BuildOptions {
   derivedDataPath?: string;
   clean?: boolean;
   timeout?: number;
+  onProgress?: (event: XcodebuildProgressEvent) => void; // streamed while the build runs
+  signal?: AbortSignal; // aborting kills xcodebuild and its children
+  maxOutputSize?: number; // characters of output kept in memory (head and tail)
+  logPath?: string; // where to write the full log (default: temp log directory)
+  resultBundlePath?: string; // where xcodebuild writes the .xcresult bundle (default: temp directory)
+  analyzeTiming?: boolean; // collect the build timing summary and Swift type-check times
+  timingThreshold?: number; // ms an expression may take to type-check before it's reported (default: 100)
+  timingTop?: number; // hotspots kept per category (default: 10)
 }
 
-const DEFAULT_BUILD_TIMEOUT = 600000; // 10 minutes
+export const DEFAULT_BUILD_TIMEOUT = 600000; // 10 minutes
+export const DEFAULT_BUILD_OUTPUT_SIZE = 256 * 1024; // characters kept in memory
 
 /**
  * Detect if path is a workspace or project
@@ -91,7 +118,7 @@ export async function listSchemes(projectPath: string): Promise<ListSchemesResul
       ? ["-workspace", projectPath, "-list"]
       : ["-project", projectPath, "-list"];
 
-  const result = await executeCommand("xcodebuild", args, { timeout: 30000 });
+  const result = await executeCommand("xcodebuild", args, { timeout: 30000, readOnly: true });
 
   if (result.exitCode !== 0) {
     return {
@@ -148,6 +175,18 @@ export async function listSchemes(projectPath: string): Promise<ListSchemesResul
   };
 }
 
+/**
+ * Add a streamed xcodebuild output line to the warnings or errors it reports
+ */
+export function collectBuildIssue(line: string, warnings: string[], errors: string[]): void {
+  if (line.includes(": warning:") || line.includes("⚠️")) {
+    warnings.push(line.trim());
+  }
+  if (line.includes(": error:") || line.includes("❌")) {
+    errors.push(line.trim());
+  }
+}
+
 /**
  * Build an Xcode project or workspace
  */
@@ -176,7 +215,13 @@ export async function build(
     destination,
     derivedDataPath,
     clean = false,
-    timeout = DEFAULT_BUILD_TIMEOUT,
+    timeout = getProjectConfig().timeouts?.build ?? DEFAULT_BUILD_TIMEOUT,
+    onProgress,
+    signal,
+    maxOutputSize = DEFAULT_BUILD_OUTPUT_SIZE,
+    analyzeTiming = false,
+    timingThreshold = DEFAULT_TIMING_THRESHOLD,
+    timingTop,
   } = options;
 
   const args: string[] = [];
@@ -219,22 +264,62 @@ export async function build(
     args.push("CODE_SIGNING_ALLOWED=NO");
   }
 
-  const result = await executeCommand("xcodebuild", args, { timeout });
+  // Time the build phases and every function body the Swift frontend type-checks
+  if (analyzeTiming) {
+    args.push("-showBuildTimingSummary");
+    args.push(`OTHER_SWIFT_FLAGS=$(inherited) ${timingSwiftFlags(timingThreshold).join(" ")}`);
+  }
 
-  const buildTime = Date.now() - startTime;
+  // xcodebuild refuses to overwrite an existing bundle, so every run gets a fresh one
+  const resultBundlePath = options.resultBundlePath ?? (await createArtifactPath("result-bundle", ".xcresult"));
+  args.push("-resultBundlePath", resultBundlePath);
 
-  // Parse warnings and errors from output
-  const warnings: string[] = [];
-  const errors: string[] = [];
+  const logPath = options.logPath ?? (await createLogPath("xcodebuild-build"));
 
-  const combinedOutput = result.stdout + "\n" + result.stderr;
-  for (const line of combinedOutput.split("\n")) {
-    if (line.includes(": warning:") || line.includes("⚠️")) {
-      warnings.push(line.trim());
-    }
-    if (line.includes(": error:") || line.includes("❌")) {
-      errors.push(line.trim());
+  // Scan for warnings and errors while streaming, since the output kept in
+  // memory may be truncated. The result bundle replaces them when readable.
+  let warnings: string[] = [];
+  let errors: string[] = [];
+  const progress = onProgress ? createXcodebuildProgressParser(onProgress) : undefined;
+  const timing = analyzeTiming ? createBuildTimingCollector() : undefined;
+
+  const onLine = (line: string) => {
+    timing?.push(line);
+    // Type-check time warnings requested for the analysis go into the report instead
+    if (!(timing && isTypeCheckTimingWarning(line))) {
+      collectBuildIssue(line, warnings, errors);
     }
+    progress?.(line);
+  };
+
+  const result = await executeCommand("xcodebuild", args, {
+    timeout,
+    onLine,
+    signal,
+    maxOutputSize,
+    logPath,
+  });
+
+  // Bundles of our own are left to the artifact store's TTL and quota
+  if (!options.resultBundlePath) {
+    await registerArtifact(resultBundlePath, "result-bundle");
+  }
+
+  const buildTime = Date.now() - startTime;
+  const truncated = result.truncated;
+
+  if (result.cancelled) {
+    return {
+      success: false,
+      output: result.stdout,
+      error: "Build cancelled",
+      warnings,
+      errors,
+      buildTime,
+      logPath,
+      truncated,
+      cancelled: true,
+    };
   }
 
   if (result.timedOut) {
@@ -245,9 +330,22 @@ export async function build(
       warnings,
       errors,
       buildTime,
+      logPath,
+      truncated,
     };
   }
 
+  const xcresult = await readXcresult(resultBundlePath, { includeTests: false, signal });
+  const issues = xcresult.issues.filter((i) => !(timing && isTypeCheckTimingWarning(i.message)));
+  const structured = {
+    ...(xcresult.success ? { issues, resultBundlePath } : {}),
+    ...(timing ? { timing: timing.report(timingTop) } : {}),
+  };
+  if (xcresult.success) {
+    errors = issues.filter((i) => i.severity === "error").map(formatXcresultIssue);
+    warnings = issues.filter((i) => i.severity === "warning").map(formatXcresultIssue);
+  }
+
   if (result.exitCode !== 0) {
     return {
       success: false,
@@ -256,6 +354,9 @@ export async function build(
       warnings,
       errors,
       buildTime,
+      logPath,
+      truncated,
+      ...structured,
     };
   }
 
@@ -266,6 +367,9 @@ export async function build(
     errors,
     buildTime,
     derivedDataPath,
+    logPath,
+    truncated,
+    ...structured,
   };
 }
 
@@ -312,7 +416,7 @@ export async function getBuildSettings(
 
   args.push("-showBuildSettings");
 
-  const result = await executeCommand("xcodebuild", args, { timeout: 30000 });
+  const result = await executeCommand("xcodebuild", args, { timeout: 30000, readOnly: true });
 
   if (result.exitCode !== 0) {
     return {
@@ -342,7 +446,7 @@ export async function getBuildSettings(
  */
 export async function isXcodeAvailable(): Promise<boolean> {
   try {
-    const result = await executeCommand("xcodebuild", ["-version"], { timeout: 5000 });
+    const result = await executeCommand("xcodebuild", ["-version"], { timeout: 5000, readOnly: true });
     return result.exitCode === 0;
   } catch {
     return false;
@@ -354,7 +458,7 @@ export async function isXcodeAvailable(): Promise<boolean> {
  */
 export async function getXcodeVersion(): Promise<string | null> {
   try {
-    const result = await executeCommand("xcodebuild", ["-version"], { timeout: 5000 });
+    const result = await executeCommand("xcodebuild", ["-version"], { timeout: 5000, readOnly: true });
     if (result.exitCode === 0) {
       return result.stdout.split("\n")[0] || result.stdout;
     }
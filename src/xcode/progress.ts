@@ -0,0 +1,98 @@
+/**
+ * xcodebuild Progress Parsing
+ * Turns streamed xcodebuild output lines into structured progress events
+ */
+
+import { basename } from "path";
+
+export interface XcodebuildProgressEvent {
+  kind: "step" | "target" | "test";
+  message: string;
+  step?: number; // running count of build steps
+  target?: string;
+  test?: {
+    className: string;
+    name: string;
+    status: "passed" | "failed";
+    duration: number;
+  };
+}
+
+// Every build step line ends with "(in target 'X' from project 'Y')"
+const buildStepPattern = /^(\w+)\s+(.*?)\s*\(in target '([^']+)' from project '[^']+'\)\s*$/;
+
+// Legacy header emitted before each target
+const buildTargetPattern = /^=== BUILD TARGET (\S+) OF PROJECT/;
+
+const objcTestPattern =
+  /Test Case '-\[(\S+)\s+(\w+)\]' (passed|failed) \((\d+\.?\d*) seconds\)/;
+const swiftTestPattern =
+  /Test Case '([\w.]+)\.(\w+)' (passed|failed) \((\d+\.?\d*) seconds\)/;
+
+/**
+ * Describe a build step using the action and the file it operates on
+ */
+function describeStep(action: string, details: string): string {
+  // Details usually start with arch/variant words followed by absolute paths
+  const path = details.split(/\s+/).find((part) => part.startsWith("/"));
+  return path ? `${action} ${basename(path)}` : action;
+}
+
+/**
+ * Create a stateful line handler that reports progress events.
+ * Suitable for use as ProcessOptions.onLine on an xcodebuild invocation.
+ */
+export function createXcodebuildProgressParser(
+  onProgress: (event: XcodebuildProgressEvent) => void
+): (line: string) => void {
+  let step = 0;
+  let currentTarget: string | undefined;
+
+  const enterTarget = (target: string) => {
+    if (target !== currentTarget) {
+      currentTarget = target;
+      onProgress({ kind: "target", message: `Building target ${target}`, target });
+    }
+  };
+
+  return (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const targetMatch = trimmed.match(buildTargetPattern);
+    if (targetMatch) {
+      enterTarget(targetMatch[1]);
+      return;
+    }
+
+    const stepMatch = trimmed.match(buildStepPattern);
+    if (stepMatch) {
+      const [, action, details, target] = stepMatch;
+      enterTarget(target);
+      step++;
+      onProgress({
+        kind: "step",
+        message: `[${step}] ${describeStep(action, details)}`,
+        step,
+        target,
+      });
+      return;
+    }
+
+    const testMatch = trimmed.match(objcTestPattern) || trimmed.match(swiftTestPattern);
+    if (testMatch) {
+      const status = testMatch[3] as "passed" | "failed";
+      onProgress({
+        kind: "test",
+        message: `${status === "passed" ? "✓" : "✗"} ${testMatch[1]}.${testMatch[2]}`,
+        target: currentTarget,
+        test: {
+          className: testMatch[1],
+          name: testMatch[2],
+          status,
+          duration: parseFloat(testMatch[4]),
+        },
+      });
+    }
+  };
+}
@@ -4,8 +4,17 @@
  */
 
 import { executeCommand } from "../utils/process.js";
-import { detectProjectType } from "./builder.js";
+import { detectProjectType, DEFAULT_BUILD_OUTPUT_SIZE } from "./builder.js";
 import { getBootedSimulator } from "../simulator/controller.js";
+import { createLogPath } from "../utils/tempfile.js";
+import { createArtifactPath, registerArtifact } from "../utils/artifacts.js";
+import { createXcodebuildProgressParser, XcodebuildProgressEvent } from "./progress.js";
+import { defaultDestination, getProjectConfig } from "../utils/config.js";
+import { readXcresult, XcresultAttachment, XcresultTest } from "./xcresult.js";
+
+const DEFAULT_TEST_TIMEOUT = 600000; // 10 minutes
+// Used when nothing is booted and the project config names no simulator
+const FALLBACK_DESTINATION = "platform=iOS Simulator,name=iPhone 15";
 
 export interface TestResult {
   name: string;
@@ -13,6 +22,11 @@ export interface TestResult {
   status: "passed" | "failed" | "skipped";
   duration: number;
   failureMessage?: string;
+  identifier?: string; // -only-testing identifier, from the result bundle
+  target?: string;
+  failureLocation?: { file: string; line?: number };
+  issueType?: string; // e.g. "Assertion Failure" or "Thrown Error"
+  attachments?: XcresultAttachment[];
 }
 
 export interface TestSuiteResult {
@@ -25,6 +39,10 @@ export interface TestSuiteResult {
   tests: TestResult[];
   output: string;
   error?: string;
+  cancelled?: boolean;
+  logPath?: string; // full xcodebuild output; `output` may be truncated
+  truncated?: boolean;
+  resultBundlePath?: string; // .xcresult bundle the results were read from
 }
 
 export interface TestListResult {
@@ -49,6 +67,11 @@ export async function runTests(
     onlyTesting?: string[]; // Specific tests to run
     skipTesting?: string[]; // Tests to skip
     timeout?: number;
+    onProgress?: (event: XcodebuildProgressEvent) => void; // streamed while tests run
+    signal?: AbortSignal; // aborting kills xcodebuild and its children
+    maxOutputSize?: number; // characters of output kept in memory (head and tail)
+    logPath?: string; // where to write the full log (default: temp log directory)
+    resultBundlePath?: string; // where xcodebuild writes the .xcresult bundle (default: temp directory)
   }
 ): Promise<TestSuiteResult> {
   const startTime = Date.now();
@@ -75,7 +98,10 @@ export async function runTests(
     configuration = "Debug",
     onlyTesting,
     skipTesting,
-    timeout = 600000, // 10 minutes default
+    timeout = getProjectConfig().timeouts?.test ?? DEFAULT_TEST_TIMEOUT,
+    onProgress,
+    signal,
+    maxOutputSize = DEFAULT_BUILD_OUTPUT_SIZE,
   } = options;
 
   const args: string[] = [];
@@ -99,7 +125,7 @@ export async function runTests(
     if (booted) {
       args.push("-destination", `platform=iOS Simulator,id=${booted.udid}`);
     } else {
-      args.push("-destination", "platform=iOS Simulator,name=iPhone 15");
+      args.push("-destination", defaultDestination() ?? FALLBACK_DESTINATION);
     }
   }
 
@@ -131,17 +157,61 @@ export async function runTests(
   // Enable parallel testing
   args.push("-parallel-testing-enabled", "YES");
 
-  const result = await executeCommand("xcodebuild", args, { timeout });
+  // Structured results are read from the bundle; console output is the fallback
+  const resultBundlePath = options.resultBundlePath ?? (await createArtifactPath("result-bundle", ".xcresult"));
+  args.push("-resultBundlePath", resultBundlePath);
 
-  const duration = Date.now() - startTime;
+  const logPath = options.logPath ?? (await createLogPath("xcodebuild-test"));
+
+  // Collect results while streaming, since the output kept in memory may be truncated
+  const collector = createTestResultCollector();
+  const progress = onProgress ? createXcodebuildProgressParser(onProgress) : undefined;
 
-  // Parse test results from output
-  const tests = parseTestResults(result.stdout + "\n" + result.stderr);
+  const result = await executeCommand("xcodebuild", args, {
+    timeout,
+    onLine: (line) => {
+      collector.push(line);
+      progress?.(line);
+    },
+    signal,
+    maxOutputSize,
+    logPath,
+  });
+
+  // Bundles of our own are left to the artifact store's TTL and quota
+  if (!options.resultBundlePath) {
+    await registerArtifact(resultBundlePath, "result-bundle");
+  }
+
+  const xcresult =
+    result.cancelled || result.timedOut ? undefined : await readXcresult(resultBundlePath, { signal });
+  const fromBundle = xcresult?.success && xcresult.tests.length > 0;
+
+  const duration = Date.now() - startTime;
+  const tests = fromBundle ? xcresult.tests.map(xcresultTestResult) : collector.tests;
+  const truncated = result.truncated;
 
   const passed = tests.filter((t) => t.status === "passed").length;
   const failed = tests.filter((t) => t.status === "failed").length;
   const skipped = tests.filter((t) => t.status === "skipped").length;
 
+  if (result.cancelled) {
+    return {
+      success: false,
+      totalTests: tests.length,
+      passed,
+      failed,
+      skipped,
+      duration,
+      tests,
+      output: result.stdout,
+      logPath,
+      truncated,
+      error: "Tests cancelled",
+      cancelled: true,
+    };
+  }
+
   if (result.timedOut) {
     return {
       success: false,
@@ -152,6 +222,8 @@ export async function runTests(
       duration,
       tests,
       output: result.stdout,
+      logPath,
+      truncated,
       error: `Tests timed out after ${timeout / 1000} seconds`,
     };
   }
@@ -169,33 +241,58 @@ export async function runTests(
     duration,
     tests,
     output: result.stdout,
+    logPath,
+    truncated,
+    resultBundlePath: fromBundle ? resultBundlePath : undefined,
     error: hasFailures ? `${failed} test(s) failed` : undefined,
   };
 }
 
 /**
- * Parse test results from xcodebuild output
+ * Convert a test read from a result bundle, keeping its first failure as the
+ * failure message
+ */
+function xcresultTestResult(test: XcresultTest): TestResult {
+  const failure = test.failures[0];
+  return {
+    name: test.name,
+    className: test.className,
+    status: test.status,
+    duration: test.duration,
+    failureMessage: test.status === "failed" ? (failure?.message ?? "") : undefined,
+    identifier: test.identifier,
+    target: test.target,
+    failureLocation: failure?.file ? { file: failure.file, line: failure.line } : undefined,
+    issueType: failure?.type,
+    attachments: test.attachments.length > 0 ? test.attachments : undefined,
+  };
+}
+
+// Number of preceding lines searched for a failure message
+const FAILURE_LOOKBACK = 20;
+
+/**
+ * Incrementally collect test results from xcodebuild output lines.
+ * Only a short window of recent lines is kept for failure messages, so
+ * arbitrarily long output can be streamed through it.
  */
-function parseTestResults(output: string): TestResult[] {
+function createTestResultCollector(): { push: (line: string) => void; tests: TestResult[] } {
   const tests: TestResult[] = [];
-  const lines = output.split("\n");
+  const recent: string[] = [];
 
-  // Patterns for different test result formats
+  // Patterns for different test result formats. Class names may be
+  // module-qualified or nested ("App.Outer.Inner") and are kept whole, so
+  // same-named nested classes stay apart.
   const testPassedPattern =
-    /Test Case '-\[(\w+)\s+(\w+)\]' passed \((\d+\.?\d*) seconds\)/;
+    /Test Case '-\[([\w.]+)\s+(\w+)\]' passed \((\d+\.?\d*) seconds\)/;
   const testFailedPattern =
-    /Test Case '-\[(\w+)\s+(\w+)\]' failed \((\d+\.?\d*) seconds\)/;
+    /Test Case '-\[([\w.]+)\s+(\w+)\]' failed \((\d+\.?\d*) seconds\)/;
   const swiftTestPassedPattern =
-    /Test Case '(\w+)\.(\w+)' passed \((\d+\.?\d*) seconds\)/;
+    /Test Case '([\w.]+)\.(\w+)' passed \((\d+\.?\d*) seconds\)/;
   const swiftTestFailedPattern =
-    /Test Case '(\w+)\.(\w+)' failed \((\d+\.?\d*) seconds\)/;
-
-  let currentFailureMessage = "";
-  let lastTestName = "";
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+    /Test Case '([\w.]+)\.(\w+)' failed \((\d+\.?\d*) seconds\)/;
 
+  const collect = (line: string) => {
     // Check for passed tests
     let match = line.match(testPassedPattern) || line.match(swiftTestPassedPattern);
     if (match) {
@@ -205,52 +302,59 @@ function parseTestResults(output: string): TestResult[] {
         status: "passed",
         duration: parseFloat(match[3]),
       });
-      continue;
+      return;
     }
 
     // Check for failed tests
     match = line.match(testFailedPattern) || line.match(swiftTestFailedPattern);
     if (match) {
-      const testName = match[2];
-
       // Look back for failure message
       let failureMessage = "";
-      for (let j = i - 1; j >= Math.max(0, i - 20); j--) {
+      for (let j = recent.length - 1; j >= 0; j--) {
         if (
-          lines[j].includes("XCTAssert") ||
-          lines[j].includes("failed:") ||
-          lines[j].includes("error:")
+          recent[j].includes("XCTAssert") ||
+          recent[j].includes("failed:") ||
+          recent[j].includes("error:")
         ) {
-          failureMessage = lines[j].trim();
+          failureMessage = recent[j].trim();
           break;
         }
       }
 
       tests.push({
         className: match[1],
-        name: testName,
+        name: match[2],
         status: "failed",
         duration: parseFloat(match[3]),
         failureMessage,
       });
-      continue;
+      return;
     }
 
     // Check for skipped tests
     if (line.includes("Test Case") && line.includes("skipped")) {
-      const skippedMatch = line.match(/Test Case ['-]?\[?(\w+)[.\s]+(\w+)/);
+      const skippedMatch = line.match(/Test Case '(?:-\[([\w.]+)\s+(\w+)\]|([\w.]+)\.(\w+))'/);
       if (skippedMatch) {
         tests.push({
-          className: skippedMatch[1],
-          name: skippedMatch[2],
+          className: skippedMatch[1] ?? skippedMatch[3],
+          name: skippedMatch[2] ?? skippedMatch[4],
           status: "skipped",
           duration: 0,
         });
       }
     }
-  }
+  };
 
-  return tests;
+  return {
+    tests,
+    push(line: string) {
+      collect(line);
+      recent.push(line);
+      if (recent.length > FAILURE_LOOKBACK) {
+        recent.shift();
+      }
+    },
+  };
 }
 
 /**
@@ -362,8 +466,12 @@ export async function buildForTesting(
     };
   }
 
-  const { scheme, destination, configuration = "Debug", timeout = 600000 } =
-    options;
+  const {
+    scheme,
+    destination,
+    configuration = "Debug",
+    timeout = getProjectConfig().timeouts?.test ?? DEFAULT_TEST_TIMEOUT,
+  } = options;
 
   const args: string[] = [];
 
@@ -383,7 +491,7 @@ export async function buildForTesting(
     if (booted) {
       args.push("-destination", `platform=iOS Simulator,id=${booted.udid}`);
     } else {
-      args.push("-destination", "platform=iOS Simulator,name=iPhone 15");
+      args.push("-destination", defaultDestination() ?? FALLBACK_DESTINATION);
     }
   }
 
@@ -429,8 +537,13 @@ export async function testWithoutBuilding(
     };
   }
 
-  const { scheme, destination, xctestrun, onlyTesting, timeout = 600000 } =
-    options;
+  const {
+    scheme,
+    destination,
+    xctestrun,
+    onlyTesting,
+    timeout = getProjectConfig().timeouts?.test ?? DEFAULT_TEST_TIMEOUT,
+  } = options;
 
   const args: string[] = [];
 
@@ -452,7 +565,7 @@ export async function testWithoutBuilding(
     if (booted) {
       args.push("-destination", `platform=iOS Simulator,id=${booted.udid}`);
     } else {
-      args.push("-destination", "platform=iOS Simulator,name=iPhone 15");
+      args.push("-destination", defaultDestination() ?? FALLBACK_DESTINATION);
     }
   }
 
@@ -464,10 +577,18 @@ export async function testWithoutBuilding(
 
   args.push("test-without-building");
 
-  const result = await executeCommand("xcodebuild", args, { timeout });
+  const logPath = await createLogPath("xcodebuild-test");
+  const collector = createTestResultCollector();
+
+  const result = await executeCommand("xcodebuild", args, {
+    timeout,
+    onLine: (line) => collector.push(line),
+    maxOutputSize: DEFAULT_BUILD_OUTPUT_SIZE,
+    logPath,
+  });
   const duration = Date.now() - startTime;
 
-  const tests = parseTestResults(result.stdout + "\n" + result.stderr);
+  const tests = collector.tests;
   const passed = tests.filter((t) => t.status === "passed").length;
   const failed = tests.filter((t) => t.status === "failed").length;
   const skipped = tests.filter((t) => t.status === "skipped").length;
@@ -481,6 +602,8 @@ export async function testWithoutBuilding(
     duration,
     tests,
     output: result.stdout,
+    logPath,
+    truncated: result.truncated,
     error: failed > 0 ? `${failed} test(s) failed` : undefined,
   };
 }
@@ -597,6 +720,11 @@ export async function getCoverage(
   };
 }
 
+// swift-testing results have no class
+function testName(test: TestResult): string {
+  return test.className ? `${test.className}.${test.name}` : test.name;
+}
+
 /**
  * Format test results for display
  */
@@ -614,6 +742,12 @@ export function formatTestResults(result: TestSuiteResult): string {
     `   ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped`
   );
   lines.push(`   Duration: ${(result.duration / 1000).toFixed(2)}s`);
+  if (result.logPath) {
+    lines.push(`   Full log: ${result.logPath}`);
+  }
+  if (result.resultBundlePath) {
+    lines.push(`   Result bundle: ${result.resultBundlePath}`);
+  }
   lines.push("");
 
   // Failed tests details
@@ -621,10 +755,17 @@ export function formatTestResults(result: TestSuiteResult): string {
   if (failed.length > 0) {
     lines.push("Failed Tests:");
     for (const test of failed) {
-      lines.push(`  ✗ ${test.className}.${test.name}`);
+      lines.push(`  ✗ ${testName(test)}`);
+      if (test.failureLocation) {
+        const { file, line } = test.failureLocation;
+        lines.push(`    at ${line ? `${file}:${line}` : file}${test.issueType ? ` (${test.issueType})` : ""}`);
+      }
       if (test.failureMessage) {
         lines.push(`    ${test.failureMessage}`);
       }
+      if (test.attachments) {
+        lines.push(`    attachments: ${test.attachments.map((a) => a.filename ?? a.name).join(", ")}`);
+      }
     }
     lines.push("");
   }
@@ -636,7 +777,7 @@ export function formatTestResults(result: TestSuiteResult): string {
     // Show first 10, then summarize
     const toShow = passed.slice(0, 10);
     for (const test of toShow) {
-      lines.push(`  ✓ ${test.className}.${test.name} (${test.duration.toFixed(3)}s)`);
+      lines.push(`  ✓ ${testName(test)} (${test.duration.toFixed(3)}s)`);
     }
     if (passed.length > 10) {
       lines.push(`  ... and ${passed.length - 10} more`);
@@ -0,0 +1,262 @@
+/**
+ * Build Timing Analysis
+ * Collects -showBuildTimingSummary phases and Swift frontend type-check
+ * timings from streamed xcodebuild output, and ranks the hotspots
+ */
+
+export interface BuildPhaseTiming {
+  name: string; // task type, e.g. "SwiftCompile" or "Ld"
+  tasks: number;
+  seconds: number;
+}
+
+export interface FunctionTiming {
+  file: string;
+  line: number;
+  column: number;
+  name: string; // e.g. "instance method body()"
+  milliseconds: number;
+  target?: string;
+}
+
+export interface ExpressionTiming {
+  file: string;
+  line: number;
+  column: number;
+  milliseconds: number;
+  limit: number; // threshold that made the compiler report it
+  target?: string;
+}
+
+export interface FileTiming {
+  file: string;
+  target?: string;
+  milliseconds: number; // summed function body type-check time
+  functions: number;
+}
+
+export interface TargetTiming {
+  name: string;
+  milliseconds: number; // summed function body type-check time
+  files: number;
+}
+
+export interface BuildTimingReport {
+  totalSeconds?: number; // from the "** BUILD SUCCEEDED ** [12.345 sec]" footer
+  phases: BuildPhaseTiming[];
+  targets: TargetTiming[];
+  files: FileTiming[]; // top N
+  functions: FunctionTiming[]; // top N
+  expressions: ExpressionTiming[]; // top N
+}
+
+export const DEFAULT_TIMING_THRESHOLD = 100; // ms
+export const DEFAULT_TIMING_TOP = 10;
+
+// "SwiftCompile (24 tasks) | 45.678 seconds" under "Build Timing Summary"
+const phasePattern = /^(\w+) \((\d+) tasks?\) \| (\d+\.?\d*) seconds$/;
+// "** BUILD SUCCEEDED ** [63.201 sec]"
+const footerPattern = /^\*\* BUILD \w+ \*\* \[(\d+\.?\d*) sec\]/;
+// -debug-time-function-bodies: "12.34ms\t/path/File.swift:42:10\tinstance method body()"
+const functionPattern = /^(\d+\.?\d*)ms\s+(\/.+?):(\d+):(\d+)\s+(.+)$/;
+// -warn-long-expression-type-checking: "/path/File.swift:12:20: warning: expression took 250ms to type-check (limit: 100ms)"
+const expressionPattern = /^(\/.+?):(\d+):(\d+): warning: expression took (\d+)ms to type-check \(limit: (\d+)ms\)/;
+// Every build step line ends with "(in target 'X' from project 'Y')"
+const stepTargetPattern = /\(in target '([^']+)' from project '[^']+'\)\s*$/;
+const legacyTargetPattern = /^=== BUILD TARGET (\S+) OF PROJECT/;
+
+/**
+ * Whether a compiler warning only reports type-check time. These are timing
+ * data for the report, not problems with the code.
+ */
+export function isTypeCheckTimingWarning(line: string): boolean {
+  return /took \d+ms to type-check \(limit: \d+ms\)/.test(line);
+}
+
+/**
+ * Swift flags that make the frontend report type-check times, for use in
+ * OTHER_SWIFT_FLAGS
+ */
+export function timingSwiftFlags(threshold = DEFAULT_TIMING_THRESHOLD): string[] {
+  return [
+    "-Xfrontend",
+    "-debug-time-function-bodies",
+    "-Xfrontend",
+    `-warn-long-expression-type-checking=${threshold}`,
+  ];
+}
+
+function bySlowest<T extends { milliseconds: number }>(a: T, b: T): number {
+  return b.milliseconds - a.milliseconds;
+}
+
+/**
+ * Incrementally collect build timings from xcodebuild output lines.
+ * Batch mode and multiple architectures report the same function more than
+ * once; the slowest report of each is kept.
+ */
+export function createBuildTimingCollector(): {
+  push: (line: string) => void;
+  report: (top?: number) => BuildTimingReport;
+} {
+  const phases: BuildPhaseTiming[] = [];
+  const functions = new Map<string, FunctionTiming>();
+  const expressions = new Map<string, ExpressionTiming>();
+  const fileTargets = new Map<string, string>(); // source file -> target, from build step lines
+  let currentTarget: string | undefined;
+  let totalSeconds: number | undefined;
+
+  return {
+    push(rawLine: string) {
+      const line = rawLine.trim();
+
+      let match = line.match(functionPattern);
+      if (match) {
+        const [, ms, file, lineNumber, column, name] = match;
+        const key = `${file}:${lineNumber}:${column}:${name}`;
+        const milliseconds = parseFloat(ms);
+        if (milliseconds > (functions.get(key)?.milliseconds ?? 0)) {
+          functions.set(key, { file, line: Number(lineNumber), column: Number(column), name, milliseconds });
+        }
+        return;
+      }
+
+      match = line.match(expressionPattern);
+      if (match) {
+        const [, file, lineNumber, column, ms, limit] = match;
+        const key = `${file}:${lineNumber}:${column}`;
+        const milliseconds = Number(ms);
+        if (milliseconds > (expressions.get(key)?.milliseconds ?? 0)) {
+          expressions.set(key, { file, line: Number(lineNumber), column: Number(column), milliseconds, limit: Number(limit) });
+        }
+        return;
+      }
+
+      match = line.match(phasePattern);
+      if (match) {
+        phases.push({ name: match[1], tasks: Number(match[2]), seconds: parseFloat(match[3]) });
+        return;
+      }
+
+      match = line.match(footerPattern);
+      if (match) {
+        totalSeconds = parseFloat(match[1]);
+        return;
+      }
+
+      match = line.match(legacyTargetPattern);
+      if (match) {
+        currentTarget = match[1];
+        return;
+      }
+
+      match = line.match(stepTargetPattern);
+      const target = match?.[1] ?? currentTarget;
+      if (target) {
+        for (const file of line.match(/\/\S+\.swift\b/g) ?? []) {
+          fileTargets.set(file, target);
+        }
+      }
+    },
+
+    report(top = DEFAULT_TIMING_TOP) {
+      const files = new Map<string, FileTiming>();
+      const targets = new Map<string, TargetTiming & { fileSet: Set<string> }>();
+
+      for (const timing of functions.values()) {
+        timing.target = fileTargets.get(timing.file);
+        const file = files.get(timing.file) ?? { file: timing.file, target: timing.target, milliseconds: 0, functions: 0 };
+        file.milliseconds += timing.milliseconds;
+        file.functions++;
+        files.set(timing.file, file);
+
+        const name = timing.target ?? "(unknown target)";
+        const target = targets.get(name) ?? { name, milliseconds: 0, files: 0, fileSet: new Set<string>() };
+        target.milliseconds += timing.milliseconds;
+        target.fileSet.add(timing.file);
+        targets.set(name, target);
+      }
+      for (const timing of expressions.values()) {
+        timing.target = fileTargets.get(timing.file);
+      }
+
+      return {
+        totalSeconds,
+        phases: [...phases].sort((a, b) => b.seconds - a.seconds),
+        targets: [...targets.values()]
+          .map(({ name, milliseconds, fileSet }) => ({ name, milliseconds, files: fileSet.size }))
+          .sort(bySlowest),
+        files: [...files.values()].sort(bySlowest).slice(0, top),
+        functions: [...functions.values()].sort(bySlowest).slice(0, top),
+        expressions: [...expressions.values()].sort(bySlowest).slice(0, top),
+      };
+    },
+  };
+}
+
+function location(timing: { file: string; line: number; column: number }): string {
+  return `${timing.file}:${timing.line}:${timing.column}`;
+}
+
+/**
+ * Format a timing report for display
+ */
+export function formatBuildTimingReport(report: BuildTimingReport): string {
+  const sections: string[] = [];
+
+  if (report.phases.length > 0) {
+    sections.push(
+      [
+        "Build phases:",
+        ...report.phases.map((p) => `  ${p.name} (${p.tasks} task${p.tasks === 1 ? "" : "s"}): ${p.seconds.toFixed(2)}s`),
+      ].join("\n")
+    );
+  }
+
+  if (report.targets.length > 0) {
+    sections.push(
+      [
+        "Type-check time by target:",
+        ...report.targets.map((t) => `  ${t.name}: ${(t.milliseconds / 1000).toFixed(2)}s (${t.files} files)`),
+      ].join("\n")
+    );
+  }
+
+  if (report.files.length > 0) {
+    sections.push(
+      [
+        "Slowest files:",
+        ...report.files.map(
+          (f, i) =>
+            `  ${i + 1}. ${f.milliseconds.toFixed(1)}ms ${f.file}${f.target ? ` (${f.target})` : ""}, ${f.functions} functions`
+        ),
+      ].join("\n")
+    );
+  }
+
+  if (report.functions.length > 0) {
+    sections.push(
+      [
+        "Slowest functions:",
+        ...report.functions.map((f, i) => `  ${i + 1}. ${f.milliseconds.toFixed(1)}ms ${location(f)} ${f.name}`),
+      ].join("\n")
+    );
+  }
+
+  if (report.expressions.length > 0) {
+    sections.push(
+      [
+        `Slow expressions (over ${report.expressions[0].limit}ms):`,
+        ...report.expressions.map((e, i) => `  ${i + 1}. ${e.milliseconds}ms ${location(e)}`),
+      ].join("\n")
+    );
+  }
+
+  if (report.functions.length === 0 && report.expressions.length === 0) {
+    sections.push(
+      "No Swift type-check times were reported. Up-to-date files aren't recompiled; build with clean: true for a full report."
+    );
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,339 @@
+/**
+ * Xcode Result Bundles
+ * Reads .xcresult bundles with xcresulttool and turns their typed JSON into
+ * build issues and test results
+ */
+
+import { stat } from "fs/promises";
+import { executeCommand } from "../utils/process.js";
+
+export interface XcresultIssue {
+  type: string; // issue type, e.g. "Swift Compiler Error" or "Uncategorized"
+  message: string;
+  severity: "error" | "warning" | "testFailure";
+  file?: string;
+  line?: number; // 1-based
+  column?: number; // 1-based
+  testIdentifier?: string; // failing test for test failures, e.g. "LoginTests.testInvalidPassword()"
+  target?: string; // target that produced the issue
+}
+
+export interface XcresultAttachment {
+  name: string;
+  filename?: string;
+  uniformTypeIdentifier?: string; // e.g. "public.png"
+  payloadId?: string; // export with `xcresulttool export --type file --id`
+}
+
+export interface XcresultFailure {
+  message: string;
+  type?: string;
+  file?: string;
+  line?: number;
+}
+
+export interface XcresultTest {
+  identifier: string; // -only-testing form, e.g. "AppTests/LoginTests/testInvalidPassword"
+  target: string;
+  className: string;
+  name: string;
+  status: "passed" | "failed" | "skipped";
+  duration: number; // seconds
+  failures: XcresultFailure[];
+  attachments: XcresultAttachment[];
+  summaryId?: string; // reference to the test's detailed summary
+}
+
+export interface XcresultMetrics {
+  testsCount?: number;
+  testsFailedCount?: number;
+  testsSkippedCount?: number;
+  errorCount?: number;
+  warningCount?: number;
+}
+
+export interface XcresultSummary {
+  success: boolean;
+  bundlePath: string;
+  issues: XcresultIssue[];
+  tests: XcresultTest[];
+  metrics: XcresultMetrics;
+  error?: string;
+}
+
+/**
+ * A node of xcresulttool's typed JSON: values are wrapped as { _value } and
+ * arrays as { _values }
+ */
+export type XcresultNode = { [key: string]: unknown };
+
+const XCRESULT_TIMEOUT = 60000;
+
+function child(node: XcresultNode | undefined, key: string): XcresultNode | undefined {
+  const value = node?.[key];
+  return value && typeof value === "object" ? (value as XcresultNode) : undefined;
+}
+
+function value(node: XcresultNode | undefined, key: string): string | undefined {
+  const wrapped = child(node, key)?._value;
+  return wrapped === undefined || wrapped === null ? undefined : String(wrapped);
+}
+
+function values(node: XcresultNode | undefined, key: string): XcresultNode[] {
+  const list = child(node, key)?._values;
+  return Array.isArray(list) ? (list as XcresultNode[]) : [];
+}
+
+function numberValue(node: XcresultNode | undefined, key: string): number | undefined {
+  const raw = value(node, key);
+  return raw === undefined ? undefined : Number(raw);
+}
+
+function typeName(node: XcresultNode): string | undefined {
+  const name = child(node, "_type")?._name;
+  return typeof name === "string" ? name : undefined;
+}
+
+/**
+ * Parse a document location URL such as
+ * "file:///App/View.swift#EndingLineNumber=11&StartingColumnNumber=4&StartingLineNumber=11".
+ * xcresult line and column numbers are 0-based.
+ */
+export function parseXcresultLocation(url: string): { file: string; line?: number; column?: number } {
+  const [path, fragment = ""] = url.split("#");
+  const params = new URLSearchParams(fragment);
+  const line = params.get("StartingLineNumber");
+  const column = params.get("StartingColumnNumber");
+
+  return {
+    file: path.startsWith("file://") ? decodeURIComponent(path.slice("file://".length)) : path,
+    line: line === null ? undefined : Number(line) + 1,
+    column: column === null ? undefined : Number(column) + 1,
+  };
+}
+
+function parseIssue(summary: XcresultNode, severity: XcresultIssue["severity"]): XcresultIssue {
+  const url = value(child(summary, "documentLocationInCreatingWorkspace"), "url");
+  return {
+    type: value(summary, "issueType") ?? "",
+    message: value(summary, "message") ?? "",
+    severity,
+    ...(url ? parseXcresultLocation(url) : {}),
+    testIdentifier: value(summary, "testCaseName"),
+    target: value(summary, "producingTarget"),
+  };
+}
+
+/**
+ * Read the issues of an ActionsInvocationRecord (the bundle's root object):
+ * build errors and warnings, and test failures
+ */
+export function parseXcresultIssues(root: XcresultNode): XcresultIssue[] {
+  const issues = child(root, "issues");
+  return [
+    ...values(issues, "errorSummaries").map((summary) => parseIssue(summary, "error")),
+    ...values(issues, "warningSummaries").map((summary) => parseIssue(summary, "warning")),
+    ...values(issues, "testFailureSummaries").map((summary) => parseIssue(summary, "testFailure")),
+  ];
+}
+
+/**
+ * Read the metrics of an ActionsInvocationRecord
+ */
+export function parseXcresultMetrics(root: XcresultNode): XcresultMetrics {
+  const metrics = child(root, "metrics");
+  return {
+    testsCount: numberValue(metrics, "testsCount"),
+    testsFailedCount: numberValue(metrics, "testsFailedCount"),
+    testsSkippedCount: numberValue(metrics, "testsSkippedCount"),
+    errorCount: numberValue(metrics, "errorCount"),
+    warningCount: numberValue(metrics, "warningCount"),
+  };
+}
+
+const statuses: Record<string, XcresultTest["status"]> = {
+  Success: "passed",
+  "Expected Failure": "passed",
+  Failure: "failed",
+  Skipped: "skipped",
+};
+
+function parseTestMetadata(metadata: XcresultNode, target: string): XcresultTest {
+  // Identifiers are "Class/method()"; nested types keep their dots
+  const parts = (value(metadata, "identifier") ?? value(metadata, "name") ?? "").split("/");
+  const name = parts.pop()!.replace(/\(\)$/, "");
+  const className = parts.pop() ?? "";
+
+  return {
+    identifier: [target, className, name].filter(Boolean).join("/"),
+    target,
+    className,
+    name,
+    status: statuses[value(metadata, "testStatus") ?? ""] ?? "failed",
+    duration: numberValue(metadata, "duration") ?? 0,
+    failures: [],
+    attachments: [],
+    summaryId: value(child(metadata, "summaryRef"), "id"),
+  };
+}
+
+function collectTests(group: XcresultNode, target: string, tests: XcresultTest[]): void {
+  for (const test of values(group, "subtests")) {
+    if (typeName(test) === "ActionTestMetadata" || child(test, "testStatus")) {
+      tests.push(parseTestMetadata(test, target));
+    } else {
+      collectTests(test, target, tests);
+    }
+  }
+}
+
+/**
+ * Flatten an ActionTestPlanRunSummaries object (the root's testsRef) into
+ * test results, one per test method
+ */
+export function parseXcresultTests(summaries: XcresultNode): XcresultTest[] {
+  const tests: XcresultTest[] = [];
+  for (const run of values(summaries, "summaries")) {
+    for (const testable of values(run, "testableSummaries")) {
+      const target = value(testable, "targetName") ?? "";
+      for (const group of values(testable, "tests")) {
+        collectTests(group, target, tests);
+      }
+    }
+  }
+  return tests;
+}
+
+function collectAttachments(activities: XcresultNode[], attachments: XcresultAttachment[]): void {
+  for (const activity of activities) {
+    for (const attachment of values(activity, "attachments")) {
+      attachments.push({
+        name: value(attachment, "name") ?? value(attachment, "filename") ?? "attachment",
+        filename: value(attachment, "filename"),
+        uniformTypeIdentifier: value(attachment, "uniformTypeIdentifier"),
+        payloadId: value(child(attachment, "payloadRef"), "id"),
+      });
+    }
+    collectAttachments(values(activity, "subactivities"), attachments);
+  }
+}
+
+/**
+ * Read failures and attachments from an ActionTestSummary (a test's summaryRef)
+ */
+export function parseXcresultTestDetails(summary: XcresultNode): Pick<XcresultTest, "failures" | "attachments"> {
+  const failures = values(summary, "failureSummaries").map((failure) => ({
+    message: value(failure, "message") ?? "",
+    type: value(failure, "issueType"),
+    file: value(failure, "fileName"),
+    line: numberValue(failure, "lineNumber"),
+  }));
+
+  const attachments: XcresultAttachment[] = [];
+  collectAttachments(values(summary, "activitySummaries"), attachments);
+  return { failures, attachments };
+}
+
+/**
+ * Fetch an object from a result bundle as JSON. Xcode 16 moved the typed
+ * format behind `get object --legacy`; older xcresulttools only know `get`.
+ */
+async function getXcresultObject(
+  bundlePath: string,
+  id: string | undefined,
+  signal?: AbortSignal
+): Promise<{ object?: XcresultNode; error?: string }> {
+  const idArgs = id ? ["--id", id] : [];
+  const options = { timeout: XCRESULT_TIMEOUT, signal, readOnly: true, maxOutputSize: 64 * 1024 * 1024 };
+
+  let result = await executeCommand(
+    "xcrun",
+    ["xcresulttool", "get", "object", "--legacy", "--format", "json", "--path", bundlePath, ...idArgs],
+    options
+  );
+  if (result.exitCode !== 0 && !result.cancelled) {
+    result = await executeCommand(
+      "xcrun",
+      ["xcresulttool", "get", "--format", "json", "--path", bundlePath, ...idArgs],
+      options
+    );
+  }
+
+  if (result.exitCode !== 0) {
+    return { error: result.stderr || `xcresulttool exited with code ${result.exitCode}` };
+  }
+  try {
+    return { object: JSON.parse(result.stdout) as XcresultNode };
+  } catch {
+    return { error: "xcresulttool returned invalid JSON" };
+  }
+}
+
+/**
+ * Read a result bundle's issues and, optionally, its tests. Failures and
+ * attachments are only fetched for tests that didn't pass.
+ */
+export async function readXcresult(
+  bundlePath: string,
+  options: { includeTests?: boolean; signal?: AbortSignal } = {}
+): Promise<XcresultSummary> {
+  const { includeTests = true, signal } = options;
+  const empty = { bundlePath, issues: [], tests: [], metrics: {} };
+
+  try {
+    await stat(bundlePath);
+  } catch {
+    return { ...empty, success: false, error: `Result bundle not found: ${bundlePath}` };
+  }
+
+  const { object: root, error } = await getXcresultObject(bundlePath, undefined, signal);
+  if (!root) {
+    return { ...empty, success: false, error };
+  }
+
+  const issues = parseXcresultIssues(root);
+  const metrics = parseXcresultMetrics(root);
+  if (!includeTests) {
+    return { ...empty, success: true, issues, metrics };
+  }
+
+  const tests: XcresultTest[] = [];
+  for (const action of values(root, "actions")) {
+    const testsId = value(child(child(action, "actionResult"), "testsRef"), "id");
+    if (!testsId) {
+      continue;
+    }
+    const { object: summaries } = await getXcresultObject(bundlePath, testsId, signal);
+    if (summaries) {
+      tests.push(...parseXcresultTests(summaries));
+    }
+  }
+
+  for (const test of tests.filter((t) => t.status === "failed" && t.summaryId)) {
+    const { object: summary } = await getXcresultObject(bundlePath, test.summaryId, signal);
+    if (summary) {
+      Object.assign(test, parseXcresultTestDetails(summary));
+    }
+  }
+
+  // Fall back to the root's test failure summaries where details are missing
+  for (const test of tests.filter((t) => t.status === "failed" && t.failures.length === 0)) {
+    const issue = issues.find(
+      (i) => i.severity === "testFailure" && i.testIdentifier === `${test.className}.${test.name}()`
+    );
+    if (issue) {
+      test.failures.push({ message: issue.message, type: issue.type, file: issue.file, line: issue.line });
+    }
+  }
+
+  return { ...empty, success: true, issues, tests, metrics };
+}
+
+/**
+ * Format an issue like a compiler diagnostic ("file:line:column: error: message")
+ */
+export function formatXcresultIssue(issue: XcresultIssue): string {
+  const severity = issue.severity === "warning" ? "warning" : "error";
+  const location = issue.file ? [issue.file, issue.line, issue.column].filter((part) => part !== undefined).join(":") : "";
+  return location ? `${location}: ${severity}: ${issue.message}` : `${severity}: ${issue.message}`;
+}
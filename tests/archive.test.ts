@@ -0,0 +1,230 @@
+/**
+ * Tests for archiving and IPA export
+ */
+
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { archive, exportArchive, generateExportOptionsPlist, summarizeInfoPlist } from "../src/xcode/archive.js";
+import { CommandRunner, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+import { configureProjectConfig } from "../src/utils/config.js";
+import { configureArtifacts, getSessionDirectory, listArtifacts, purgeArtifacts } from "../src/utils/artifacts.js";
+import { toolRegistry } from "../src/tools/index.js";
+
+describe("Export Options", () => {
+  it("should generate an ExportOptions.plist from structured options", () => {
+    const plist = generateExportOptionsPlist({
+      method: "app-store-connect",
+      teamID: "ABCDE12345",
+      signingStyle: "manual",
+      provisioningProfiles: { "com.example.app": "App Store", "com.example.app.widget": "Widget & Co" },
+    });
+
+    expect(plist).toContain('<plist version="1.0">');
+    expect(plist).toContain("\t<key>method</key>\n\t<string>app-store-connect</string>");
+    expect(plist).toContain("\t<key>teamID</key>\n\t<string>ABCDE12345</string>");
+    expect(plist).toContain(
+      [
+        "\t<key>provisioningProfiles</key>",
+        "\t<dict>",
+        "\t\t<key>com.example.app</key>",
+        "\t\t<string>App Store</string>",
+        "\t\t<key>com.example.app.widget</key>",
+        "\t\t<string>Widget &amp; Co</string>",
+        "\t</dict>",
+      ].join("\n")
+    );
+    expect(plist).not.toContain("signingCertificate");
+  });
+
+  it("should summarize an app's Info.plist", () => {
+    expect(
+      summarizeInfoPlist({
+        CFBundleIdentifier: "com.example.app",
+        CFBundleName: "Example",
+        CFBundleShortVersionString: "1.4.0",
+        CFBundleVersion: "42",
+        MinimumOSVersion: "16.0",
+        DTPlatformName: "iphoneos",
+        UIDeviceFamily: [1, 2],
+      })
+    ).toMatchObject({ bundleIdentifier: "com.example.app", name: "Example", version: "1.4.0", build: "42", deviceFamily: [1, 2] });
+  });
+});
+
+describe("Archive and Export", () => {
+  let dir: string;
+  let executed: string[][];
+
+  function useRunner(xcodebuild: Partial<ProcessResult> = {}, onExport?: (exportPath: string) => Promise<void>) {
+    executed = [];
+    const runner: CommandRunner = {
+      async execute(command, args) {
+        executed.push([command, ...args]);
+        const ok = { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+        if (command === "xcodebuild" && args[0] === "-exportArchive") {
+          executed.push(["ExportOptions.plist", await readFile(args[args.indexOf("-exportOptionsPlist") + 1], "utf-8")]);
+          await onExport?.(args[args.indexOf("-exportPath") + 1]);
+        }
+        if (command === "xcodebuild" && args.includes("archive")) {
+          await mkdir(args[args.indexOf("-archivePath") + 1], { recursive: true });
+        }
+        if (command === "unzip") {
+          const appDir = join(args[args.indexOf("-d") + 1], "Payload", "Example.app");
+          await mkdir(appDir, { recursive: true });
+          await writeFile(join(appDir, "Info.plist"), "binary plist");
+        }
+        if (command === "plutil") {
+          return { ...ok, stdout: JSON.stringify({ CFBundleIdentifier: "com.example.app", CFBundleShortVersionString: "1.4.0" }) };
+        }
+        return { ...ok, ...(command === "xcodebuild" ? xcodebuild : {}) };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "archive-test-"));
+    await mkdir(join(dir, "App.xcworkspace"));
+    await mkdir(join(dir, "App.xcarchive"));
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should archive a workspace scheme", async () => {
+    useRunner({ stdout: "/App/Sources/A.swift:3:1: warning: unused variable 'x'" });
+
+    const result = await archive(join(dir, "App.xcworkspace"), {
+      scheme: "App",
+      archivePath: join(dir, "Out.xcarchive"),
+      teamID: "ABCDE12345",
+      allowProvisioningUpdates: true,
+      logPath: join(dir, "log"),
+    });
+
+    expect(executed[0]).toEqual([
+      "xcodebuild",
+      "-workspace",
+      join(dir, "App.xcworkspace"),
+      "-scheme",
+      "App",
+      "-configuration",
+      "Release",
+      "-destination",
+      "generic/platform=iOS",
+      "-archivePath",
+      join(dir, "Out.xcarchive"),
+      "-allowProvisioningUpdates",
+      "archive",
+      "DEVELOPMENT_TEAM=ABCDE12345",
+    ]);
+    expect(result).toMatchObject({ success: true, archivePath: join(dir, "Out.xcarchive") });
+  });
+
+  it("should export an IPA and describe it", async () => {
+    useRunner({}, async (exportPath) => {
+      await mkdir(exportPath, { recursive: true });
+      await writeFile(join(exportPath, "Example.ipa"), Buffer.alloc(2048));
+    });
+
+    const result = await exportArchive(join(dir, "App.xcarchive"), {
+      exportOptions: { method: "ad-hoc", teamID: "ABCDE12345" },
+      exportPath: join(dir, "export"),
+      logPath: join(dir, "log"),
+    });
+
+    expect(executed[0]).toEqual(expect.arrayContaining(["-exportArchive", "-exportPath", join(dir, "export")]));
+    expect(executed[1][1]).toContain("<string>ad-hoc</string>");
+    expect(result).toMatchObject({
+      success: true,
+      ipaPath: join(dir, "export", "Example.ipa"),
+      size: 2048,
+      info: { bundleIdentifier: "com.example.app", version: "1.4.0" },
+    });
+  });
+
+  it("should report export failures and missing archives", async () => {
+    useRunner({ stderr: "error: exportArchive: No signing certificate \"iOS Distribution\" found", exitCode: 70 });
+
+    const failed = await exportArchive(join(dir, "App.xcarchive"), {
+      exportOptions: { method: "app-store-connect" },
+      logPath: join(dir, "log"),
+    });
+    const missing = await exportArchive(join(dir, "Missing.xcarchive"), { exportOptions: { method: "development" } });
+
+    expect(failed).toMatchObject({ success: false, error: expect.stringContaining("No signing certificate") });
+    expect(missing.error).toBe(`Archive not found: ${join(dir, "Missing.xcarchive")}`);
+  });
+
+  it("should keep default archive and export paths in the artifact store", async () => {
+    await configureArtifacts({ root: join(dir, "artifacts") });
+    useRunner({}, async (exportPath) => {
+      await mkdir(exportPath, { recursive: true });
+      await writeFile(join(exportPath, "Example.ipa"), Buffer.alloc(2048));
+    });
+
+    try {
+      const archived = await archive(join(dir, "App.xcworkspace"), { scheme: "App", logPath: join(dir, "log") });
+      const exported = await exportArchive(archived.archivePath, {
+        exportOptions: { method: "ad-hoc" },
+        logPath: join(dir, "log"),
+      });
+
+      expect(executed[0]).toContain(archived.archivePath);
+      expect(archived.archivePath.startsWith(getSessionDirectory())).toBe(true);
+      expect(exported.ipaPath?.startsWith(getSessionDirectory())).toBe(true);
+      expect(listArtifacts().map((artifact) => artifact.type)).toEqual(["archive", "export"]);
+    } finally {
+      await purgeArtifacts();
+      await configureArtifacts();
+    }
+  });
+
+  describe("with a project config", () => {
+    beforeEach(() => {
+      configureProjectConfig({
+        projectPath: join(dir, "App.xcworkspace"),
+        scheme: "App",
+        configuration: "Debug",
+        simulator: "iPhone 15",
+      });
+    });
+
+    afterEach(() => {
+      configureProjectConfig({});
+    });
+
+    it("should archive for devices in Release despite the build defaults", async () => {
+      useRunner();
+
+      const response = await toolRegistry.call("xcode_archive", { archivePath: join(dir, "Out.xcarchive") });
+
+      expect(response.isError).toBeFalsy();
+      expect(executed[0]).toEqual(
+        expect.arrayContaining(["-workspace", join(dir, "App.xcworkspace"), "-configuration", "Release"])
+      );
+      expect(executed[0][executed[0].indexOf("-destination") + 1]).toBe("generic/platform=iOS");
+    });
+
+    it("should export without picking up the simulator destination", async () => {
+      useRunner();
+
+      const response = await toolRegistry.call("xcode_export", {
+        archivePath: join(dir, "App.xcarchive"),
+        method: "ad-hoc",
+        exportPath: join(dir, "export"),
+      });
+      const listed = toolRegistry.list().find((tool) => tool.name === "xcode_export")!;
+
+      expect(response.isError).toBeFalsy();
+      expect(executed[1][1]).not.toContain("<key>destination</key>");
+      expect(JSON.stringify(listed.inputSchema)).not.toContain("iPhone 15");
+    });
+  });
+});
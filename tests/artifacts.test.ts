@@ -0,0 +1,133 @@
+/**
+ * Tests for the artifact store
+ */
+
+import { access, mkdir, mkdtemp, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  configureArtifacts,
+  createArtifactPath,
+  getSessionDirectory,
+  listArtifacts,
+  purgeArtifacts,
+  registerArtifact,
+  ArtifactType,
+} from "../src/utils/artifacts.js";
+import { createClientScope, runInClientScope } from "../src/utils/client-scope.js";
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+async function writeArtifact(type: ArtifactType, size: number, udid?: string) {
+  const path = await createArtifactPath(type, ".bin");
+  await writeFile(path, Buffer.alloc(size));
+  return registerArtifact(path, type, { udid });
+}
+
+describe("Artifact Store", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "artifacts-test-"));
+    await configureArtifacts({ root });
+  });
+
+  afterEach(async () => {
+    await purgeArtifacts();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should register artifacts in the session directory", async () => {
+    const artifact = await writeArtifact("screenshot", 10, "UDID-1");
+
+    expect(artifact?.path.startsWith(getSessionDirectory())).toBe(true);
+    expect(artifact).toMatchObject({ type: "screenshot", size: 10, udid: "UDID-1" });
+    expect(await exists(join(getSessionDirectory(), "manifest.json"))).toBe(true);
+  });
+
+  it("should not register files that were never written", async () => {
+    const path = await createArtifactPath("recording", ".mp4");
+    expect(await registerArtifact(path, "recording")).toBeNull();
+    expect(listArtifacts()).toHaveLength(0);
+  });
+
+  it("should measure and delete bundle directories", async () => {
+    const path = await createArtifactPath("result-bundle", ".xcresult");
+    await mkdir(join(path, "Data"), { recursive: true });
+    await writeFile(join(path, "Info.plist"), Buffer.alloc(10));
+    await writeFile(join(path, "Data", "data.0"), Buffer.alloc(20));
+
+    expect(await registerArtifact(path, "result-bundle")).toMatchObject({ type: "result-bundle", size: 30 });
+
+    await purgeArtifacts({ type: "result-bundle" });
+    expect(await exists(path)).toBe(false);
+  });
+
+  it("should filter and purge by type and udid", async () => {
+    const screenshot = await writeArtifact("screenshot", 10, "UDID-1");
+    await writeArtifact("payload", 10, "UDID-1");
+    await writeArtifact("screenshot", 10, "UDID-2");
+
+    expect(listArtifacts({ type: "screenshot" })).toHaveLength(2);
+    expect(listArtifacts({ udid: "UDID-1" })).toHaveLength(2);
+
+    const { removed, freedBytes } = await purgeArtifacts({ type: "screenshot", udid: "UDID-1" });
+    expect(removed).toHaveLength(1);
+    expect(freedBytes).toBe(10);
+    expect(await exists(screenshot!.path)).toBe(false);
+    expect(listArtifacts()).toHaveLength(2);
+
+    // Nothing is old enough yet
+    expect((await purgeArtifacts({ olderThanMs: 60_000 })).removed).toHaveLength(0);
+  });
+
+  it("should not drop other artifacts when purges overlap", async () => {
+    await writeArtifact("screenshot", 10);
+    const recording = await writeArtifact("recording", 10);
+
+    await Promise.all([purgeArtifacts({ type: "screenshot" }), purgeArtifacts({ type: "screenshot" })]);
+
+    expect(listArtifacts()).toEqual([recording]);
+    expect(await exists(recording!.path)).toBe(true);
+  });
+
+  it("should keep each client's artifacts to itself", async () => {
+    const other = createClientScope("other");
+    const theirs = await runInClientScope(other, () => writeArtifact("screenshot", 10));
+    await writeArtifact("screenshot", 10);
+
+    expect(listArtifacts()).toHaveLength(1);
+    expect((await purgeArtifacts()).removed).toHaveLength(1);
+    expect(await exists(theirs!.path)).toBe(true);
+    expect(runInClientScope(other, () => listArtifacts())).toEqual([theirs]);
+
+    await runInClientScope(other, () => purgeArtifacts());
+  });
+
+  it("should evict the oldest artifacts beyond the quota", async () => {
+    await configureArtifacts({ root, maxBytes: 25 });
+
+    const first = await writeArtifact("screenshot", 10);
+    await writeArtifact("screenshot", 10);
+    await writeArtifact("screenshot", 10);
+
+    expect(listArtifacts()).toHaveLength(2);
+    expect(await exists(first!.path)).toBe(false);
+  });
+
+  it("should sweep expired sessions from earlier runs", async () => {
+    const oldSession = join(root, "session-old");
+    await mkdir(oldSession);
+    await writeFile(join(oldSession, "manifest.json"), "{}");
+    const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    await utimes(join(oldSession, "manifest.json"), dayAgo, dayAgo);
+
+    const recentSession = join(root, "session-recent");
+    await mkdir(recentSession);
+
+    await configureArtifacts({ root });
+
+    expect(await exists(oldSession)).toBe(false);
+    expect(await exists(recentSession)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for the audit log
+ */
+
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executeCommand } from "../src/utils/process.js";
+import {
+  auditToolCall,
+  configureAudit,
+  queryAudit,
+  sanitizeArgs,
+  sanitizeCommandLine,
+  sanitizeValue,
+} from "../src/utils/audit.js";
+
+const UDID = "12345678-ABCD-4EF0-9123-456789ABCDEF";
+
+describe("Audit Log", () => {
+  let auditDir: string;
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "audit-test-"));
+    await configureAudit({ directory: auditDir });
+  });
+
+  afterEach(async () => {
+    await configureAudit(false);
+    await rm(auditDir, { recursive: true, force: true });
+  });
+
+  it("should record tool calls and tag the commands they run", async () => {
+    await auditToolCall(
+      { tool: "simulator_boot", args: { udid: UDID }, udid: UDID },
+      () => executeCommand("echo", ["boot", UDID]),
+      (result) => (result.exitCode === 0 ? "success" : "error")
+    );
+    await executeCommand("echo", ["unrelated"]);
+
+    const entries = await queryAudit({ tool: "simulator_boot" });
+    expect(entries).toHaveLength(2);
+
+    const [command, tool] = entries;
+    expect(command.type).toBe("command");
+    expect(tool.type).toBe("tool");
+    if (command.type !== "command" || tool.type !== "tool") return;
+
+    expect(command.command).toBe("echo");
+    expect(command.exitCode).toBe(0);
+    expect(command.udid).toBe(UDID);
+    expect(command.callId).toBe(tool.callId);
+    expect(tool.status).toBe("success");
+    expect(tool.args).toEqual({ udid: UDID });
+  });
+
+  it("should filter by udid, type and time range", async () => {
+    await executeCommand("echo", [UDID]);
+    await executeCommand("echo", ["other"]);
+
+    expect(await queryAudit({ udid: UDID })).toHaveLength(1);
+    expect(await queryAudit({ type: "tool" })).toHaveLength(0);
+    expect(await queryAudit({ since: new Date(Date.now() + 60_000) })).toHaveLength(0);
+    expect(await queryAudit({ until: new Date(Date.now() + 60_000) })).toHaveLength(2);
+    expect(await queryAudit({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("should record thrown errors and rethrow them", async () => {
+    await expect(
+      auditToolCall({ tool: "xcode_build", args: {} }, async () => {
+        throw new Error("boom");
+      }, () => "success")
+    ).rejects.toThrow("boom");
+
+    const [entry] = await queryAudit({ type: "tool" });
+    expect(entry).toMatchObject({ tool: "xcode_build", status: "error", error: "boom" });
+  });
+
+  it("should rotate files and keep querying across them", async () => {
+    await configureAudit({ directory: auditDir, maxFileSize: 300, maxFiles: 2 });
+
+    for (let i = 0; i < 10; i++) {
+      await executeCommand("echo", [`run-${i}`]);
+    }
+
+    // Querying waits for pending writes
+    const entries = await queryAudit();
+    expect(entries.length).toBeLessThan(10);
+    expect(entries[entries.length - 1]).toMatchObject({ args: ["run-9"] });
+
+    const files = (await readdir(auditDir)).sort();
+    expect(files).toEqual(["audit.1.jsonl", "audit.2.jsonl", "audit.jsonl"]);
+  });
+
+  describe("sanitizeValue", () => {
+    it("should redact secrets and shorten long strings", () => {
+      const sanitized = sanitizeValue({
+        code: "x".repeat(1000),
+        apiKey: "abc",
+        headers: { Authorization: "Bearer abc" },
+        udid: UDID,
+      }) as Record<string, unknown>;
+
+      expect(sanitized.apiKey).toBe("[REDACTED]");
+      expect(sanitized.headers).toEqual({ Authorization: "[REDACTED]" });
+      expect(sanitized.udid).toBe(UDID);
+      expect((sanitized.code as string).length).toBeLessThan(300);
+      expect(sanitized.code).toContain("(1000 chars)");
+    });
+
+    it("should redact secrets in command arguments", () => {
+      expect(
+        sanitizeArgs([
+          "-scheme",
+          "App",
+          "-authenticationKeyID",
+          "ABC123",
+          "-allowProvisioningUpdates",
+          "archive",
+          "DEVELOPMENT_TEAM=ABCDE12345",
+          "--password=hunter2",
+          "CONFIGURATION=Release",
+        ])
+      ).toEqual([
+        "-scheme",
+        "App",
+        "-authenticationKeyID",
+        "[REDACTED]",
+        "-allowProvisioningUpdates",
+        "archive",
+        "DEVELOPMENT_TEAM=[REDACTED]",
+        "--password=[REDACTED]",
+        "CONFIGURATION=Release",
+      ]);
+      expect(sanitizeValue({ teamID: "ABCDE12345" })).toEqual({ teamID: "[REDACTED]" });
+    });
+
+    it("should redact secrets in shell command lines", () => {
+      expect(sanitizeCommandLine("API_TOKEN=abc xcrun altool --upload-app -f App.ipa --apiIssuer 'x y' -t ios")).toBe(
+        "API_TOKEN=[REDACTED] xcrun altool --upload-app -f App.ipa --apiIssuer [REDACTED] -t ios"
+      );
+    });
+  });
+
+  it("should record command arguments redacted", async () => {
+    await executeCommand("echo", ["DEVELOPMENT_TEAM=ABCDE12345"]);
+
+    const [entry] = await queryAudit({ type: "command" });
+    expect(entry).toMatchObject({ args: ["DEVELOPMENT_TEAM=[REDACTED]"] });
+  });
+});
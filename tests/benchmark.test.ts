@@ -0,0 +1,94 @@
+/**
+ * Tests for Swift benchmarking
+ */
+
+import {
+  benchmarkSwift,
+  formatBenchmarkReport,
+  generateBenchmarkHarness,
+} from "../src/swift/benchmark.js";
+import { CommandRunner, setCommandRunner } from "../src/utils/process.js";
+
+describe("Swift Benchmark", () => {
+  let executed: string[][];
+
+  function useRunner(stdout: string, exitCode = 0) {
+    executed = [];
+    const runner: CommandRunner = {
+      async execute(command, args) {
+        executed.push([command, ...args]);
+        const running = command !== "swiftc";
+        return { stdout: running ? stdout : "", stderr: "", exitCode: running ? exitCode : 0, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  afterEach(() => {
+    setCommandRunner(null);
+  });
+
+  const variants = [
+    { name: "sorted", code: "data.sorted()" },
+    { name: "heap", code: "heapSort(data)" },
+  ];
+
+  it("should generate one harness timing every variant", () => {
+    const harness = generateBenchmarkHarness(variants, "let data = (0..<1000).shuffled()", 3, 20);
+
+    expect(harness).toContain("let data = (0..<1000).shuffled()");
+    expect(harness).toContain("__benchmark(0) {\ndata.sorted()\n}");
+    expect(harness).toContain("__benchmark(1) {\nheapSort(data)\n}");
+    expect(harness).toContain("for _ in 0..<3 {");
+    expect(harness).toContain("for _ in 0..<20 {");
+    // One line of statistics per variant, never every sample
+    expect(harness).not.toContain('joined(separator: ",")');
+    expect(harness).toContain('stats.map { String($0) }.joined(separator: "\\t")');
+  });
+
+  it("should compile once with -O and compare variants", async () => {
+    useRunner(
+      [
+        "__IOS_DEV_MCP_BENCH__\t0\t1000.0\t1100.0\t1200.0\t1100.0\t100.0\t3.0",
+        "checksum 499500",
+        "__IOS_DEV_MCP_BENCH__\t1\t3000.0\t3300.0\t3600.0\t3300.0\t300.0\t3.0",
+      ].join("\n")
+    );
+
+    const result = await benchmarkSwift(variants, { warmup: 1, iterations: 3 });
+
+    expect(executed[0][0]).toBe("swiftc");
+    expect(executed[0]).toContain("-O");
+    expect(executed).toHaveLength(2);
+    expect(result.success).toBe(true);
+    expect(result.stdout).toBe("checksum 499500");
+    expect(result.variants.map((variant) => [variant.name, variant.stats.median, variant.relative])).toEqual([
+      ["sorted", 1100, 1],
+      ["heap", 3300, 3],
+    ]);
+
+    const report = formatBenchmarkReport(result);
+    expect(report).toContain("1 warmup + 3 measured iterations");
+    expect(report.split("\n")[2]).toMatch(/^variant\s+min\s+median\s+p95\s+mean\s+stddev\s+vs fastest$/);
+    expect(report).toMatch(/sorted\s+1\.00 µs\s+1\.10 µs\s+1\.20 µs\s+1\.10 µs\s+100 ns\s+fastest/);
+    expect(report).toMatch(/heap\s+3\.00 µs\s+3\.30 µs.*3\.00x$/);
+  });
+
+  it("should report variants that did not finish", async () => {
+    useRunner("__IOS_DEV_MCP_BENCH__\t0\t10.0\t15.0\t20.0\t15.0\t7.07\t2.0\n__IOS_DEV_MCP_BENCH__\t1\t10.0", 1);
+
+    const result = await benchmarkSwift(variants);
+
+    expect(result.success).toBe(false);
+    expect(result.variants.map((variant) => variant.name)).toEqual(["sorted"]);
+    expect(result.error).toBe("Exited with code 1");
+  });
+
+  it("should reject duplicate variant names", async () => {
+    const result = await benchmarkSwift([variants[0], variants[0]]);
+    expect(result.error).toBe("Variant names must be unique");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the project config file, argument defaults and tool profiles
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { z } from "zod";
+import {
+  configureProjectConfig,
+  configureProjectConfigFromEnv,
+  findConfigFile,
+  getProjectConfig,
+  loadProjectConfig,
+  toolArgumentDefaults,
+} from "../src/utils/config.js";
+import { resolveToolProfile } from "../src/tools/profiles.js";
+import { createToolRegistry, defineTool } from "../src/tools/registry.js";
+import { activeToolProfile, toolGroups, toolRegistry } from "../src/tools/index.js";
+
+describe("Project Config", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "config-test-"));
+  });
+
+  afterEach(async () => {
+    configureProjectConfig({});
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should find the nearest config file above the working directory", async () => {
+    const nested = join(root, "App", "Sources");
+    await mkdir(nested, { recursive: true });
+    await writeFile(join(root, ".ios-dev-mcp.json"), "{}");
+
+    expect(await findConfigFile(nested)).toBe(join(root, ".ios-dev-mcp.json"));
+  });
+
+  it("should resolve the project path against the config file", async () => {
+    const path = join(root, ".ios-dev-mcp.json");
+    await writeFile(path, JSON.stringify({ projectPath: "App/App.xcodeproj", scheme: "App", simulator: "iPhone 16" }));
+
+    const result = await configureProjectConfigFromEnv({}, root);
+    expect(result).toEqual({ success: true, path });
+    expect(toolArgumentDefaults()).toEqual({
+      projectPath: join(root, "App/App.xcodeproj"),
+      scheme: "App",
+      destination: "platform=iOS Simulator,name=iPhone 16",
+      simulatorName: "iPhone 16",
+    });
+  });
+
+  it("should report invalid fields and undefined profiles", async () => {
+    const path = join(root, ".ios-dev-mcp.json");
+    await writeFile(path, JSON.stringify({ configuration: "Beta", wdaPort: "8100", extra: true }));
+
+    const invalid = await loadProjectConfig(path);
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toContain("configuration");
+    expect(invalid.error).toContain("wdaPort: Expected number, received string");
+    expect(invalid.error).toContain("extra");
+
+    await writeFile(path, JSON.stringify({ profile: "ci" }));
+    expect((await loadProjectConfig(path)).error).toContain('profile "ci" is not defined');
+
+    await writeFile(path, JSON.stringify({ profiles: { ci: {} } }));
+    const fromEnv = await configureProjectConfigFromEnv({ IOS_DEV_MCP_PROFILE: "ui" }, root);
+    expect(fromEnv.error).toContain('profile "ui" is not defined');
+  });
+
+  it("should use the profile named by IOS_DEV_MCP_PROFILE", async () => {
+    const path = join(root, "custom.json");
+    await writeFile(path, JSON.stringify({ profile: "ci", profiles: { ci: {}, ui: { include: ["ui"] } } }));
+
+    const result = await configureProjectConfigFromEnv(
+      { IOS_DEV_MCP_CONFIG: "custom.json", IOS_DEV_MCP_PROFILE: "ui" },
+      root
+    );
+    expect(result).toEqual({ success: true, path });
+    expect(getProjectConfig().profile).toBe("ui");
+  });
+});
+
+describe("Tool Profiles", () => {
+  const groups = { swift: ["swift_execute", "swift_check"], ui: ["ui_tap", "ui_swipe"] };
+
+  it("should expand groups and tool names", () => {
+    const result = resolveToolProfile({ include: ["swift", "ui_tap"], exclude: ["swift_check"] }, groups);
+    expect([...result.enabled!]).toEqual(["swift_execute", "ui_tap"]);
+  });
+
+  it("should enable everything without include", () => {
+    const result = resolveToolProfile({ exclude: ["ui"] }, groups);
+    expect([...result.enabled!]).toEqual(["swift_execute", "swift_check"]);
+  });
+
+  it("should reject unknown groups and tools", () => {
+    const result = resolveToolProfile({ include: ["swift", "android"] }, groups);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("android");
+  });
+
+  it("should filter the server's tools by the active profile", () => {
+    configureProjectConfig({ profile: "swift-only", profiles: { "swift-only": { include: ["swift"] } } });
+    try {
+      expect(toolRegistry.list().map((tool) => tool.name)).toEqual(toolGroups.swift);
+
+      configureProjectConfig({ profile: "broken", profiles: { broken: { include: ["nope"] } } });
+      expect(activeToolProfile().error).toContain('Profile "broken"');
+    } finally {
+      configureProjectConfig({});
+    }
+  });
+});
+
+describe("Registry Defaults", () => {
+  const buildTool = defineTool({
+    name: "build",
+    description: "Build a scheme",
+    schema: z.object({
+      projectPath: z.string(),
+      scheme: z.string(),
+    }),
+    handler: async ({ projectPath, scheme }) => ({
+      content: [{ type: "text", text: `${projectPath}:${scheme}` }],
+    }),
+  });
+
+  let enabled = true;
+  const registry = createToolRegistry([buildTool], {
+    defaults: () => ({ projectPath: "/App.xcodeproj", scheme: "App", simulatorName: "iPhone 16" }),
+    isEnabled: () => enabled,
+  });
+
+  afterEach(() => {
+    enabled = true;
+  });
+
+  it("should merge defaults under explicit arguments", async () => {
+    expect((await registry.call("build", {})).content[0].text).toBe("/App.xcodeproj:App");
+    expect((await registry.call("build", undefined)).content[0].text).toBe("/App.xcodeproj:App");
+    expect((await registry.call("build", { scheme: "AppTests", projectPath: undefined })).content[0].text).toBe(
+      "/App.xcodeproj:AppTests"
+    );
+  });
+
+  it("should advertise defaults and drop them from required", () => {
+    const [tool] = registry.list();
+    expect(tool.inputSchema.properties).toMatchObject({
+      projectPath: { type: "string", default: "/App.xcodeproj" },
+      scheme: { type: "string", default: "App" },
+    });
+    expect(tool.inputSchema.properties).not.toHaveProperty("simulatorName");
+    expect(tool.inputSchema.required).toBeUndefined();
+  });
+
+  it("should hide and refuse disabled tools", async () => {
+    enabled = false;
+    expect(registry.list()).toEqual([]);
+
+    const result = await registry.call("build", {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("disabled by the active tool profile");
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for dry runs: command planning and the dev_run sequence
+ */
+
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CommandExecution,
+  CommandRunner,
+  executeCommand,
+  executeShell,
+  onCommandExecuted,
+  planCommands,
+  ProcessResult,
+  setCommandRunner,
+} from "../src/utils/process.js";
+import { configureDryRun, dryRun, formatPlan, isDryRunCall } from "../src/utils/dry-run.js";
+import { configureArtifacts, purgeArtifacts } from "../src/utils/artifacts.js";
+import { createClientScope, runInClientScope } from "../src/utils/client-scope.js";
+import { getSession, startSession } from "../src/workflow/dev.js";
+import { toolRegistry } from "../src/tools/index.js";
+
+const UDID = "11111111-2222-3333-4444-555555555555";
+
+/**
+ * Runner that answers the read-only queries a dev session needs and records
+ * everything it was asked to run
+ */
+function createFakeRunner(builtProductsDir: string): CommandRunner & { executed: string[][] } {
+  const executed: string[][] = [];
+  const ok = (stdout: string): ProcessResult => ({ stdout, stderr: "", exitCode: 0, timedOut: false });
+
+  return {
+    executed,
+    async execute(command, args) {
+      executed.push([command, ...args]);
+      if (args.includes("-showBuildSettings")) {
+        return ok(`    BUILT_PRODUCTS_DIR = ${builtProductsDir}\n    PRODUCT_BUNDLE_IDENTIFIER = com.example.App`);
+      }
+      if (args.join(" ") === "simctl list --json") {
+        const device = { udid: UDID, name: "iPhone 16", state: "Booted", isAvailable: true };
+        return ok(JSON.stringify({ devices: { "com.apple.CoreSimulator.SimRuntime.iOS-18-0": [device] } }));
+      }
+      return ok("");
+    },
+    async executeShell(command) {
+      executed.push([command]);
+      return ok("");
+    },
+  };
+}
+
+describe("Command Planning", () => {
+  afterEach(() => {
+    setCommandRunner(null);
+  });
+
+  it("should record commands in order without running them", async () => {
+    const runner = createFakeRunner("/Build");
+    setCommandRunner(runner);
+    const executions: CommandExecution[] = [];
+    const unregister = onCommandExecuted((execution) => executions.push(execution));
+
+    const { value, plan } = await planCommands(async () => {
+      const build = await executeCommand("xcodebuild", ["build"], { cwd: "/App", env: { CI: "1" } });
+      await executeCommand("xcrun", ["simctl", "list", "--json"], { readOnly: true });
+      await executeShell("open -a Simulator");
+      return build;
+    });
+    unregister();
+
+    expect(value).toEqual({ stdout: "", stderr: "", exitCode: 0, timedOut: false });
+    expect(plan).toEqual([
+      { command: "xcodebuild", args: ["build"], shell: false, cwd: "/App", env: { CI: "1" } },
+      { command: "xcrun", args: ["simctl", "list", "--json"], shell: false, readOnly: true },
+      { command: "open -a Simulator", args: [], shell: true },
+    ]);
+    expect(runner.executed).toEqual([["xcrun", "simctl", "list", "--json"]]);
+    expect(executions.map((execution) => execution.planned)).toEqual([true, undefined, true]);
+  });
+
+  it("should format the plan with cwd and env", () => {
+    const text = formatPlan([
+      { command: "xcodebuild", args: ["-scheme", "My App"], shell: false, cwd: "/App", env: { CI: "1" } },
+      { command: "xcrun", args: ["simctl", "list"], shell: false, readOnly: true },
+    ]);
+    expect(text).toBe(
+      [
+        "Dry run: 2 commands would run. Only read-only queries were executed.",
+        "1. xcodebuild -scheme 'My App'",
+        "   cwd: /App",
+        "   env: CI=1",
+        "2. xcrun simctl list  (read-only query, ran)",
+      ].join("\n")
+    );
+  });
+
+  it("should let the dryRun argument override the global setting", () => {
+    expect(isDryRunCall({})).toBe(false);
+    expect(isDryRunCall({ dryRun: true })).toBe(true);
+
+    configureDryRun(true);
+    try {
+      expect(isDryRunCall(undefined)).toBe(true);
+      expect(isDryRunCall({ dryRun: false })).toBe(false);
+    } finally {
+      configureDryRun(false);
+    }
+  });
+});
+
+describe("Dry-run Tools", () => {
+  let root: string;
+  let runner: ReturnType<typeof createFakeRunner>;
+  let scope: ReturnType<typeof createClientScope>;
+
+  beforeEach(async () => {
+    scope = createClientScope("dry-run");
+    root = await mkdtemp(join(tmpdir(), "dry-run-test-"));
+    await configureArtifacts({ root: join(root, "artifacts") });
+    await mkdir(join(root, "App.xcodeproj"));
+    runner = createFakeRunner(join(root, "Build"));
+    setCommandRunner(runner);
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await purgeArtifacts();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should plan the whole dev_run sequence and leave the session untouched", async () => {
+    const projectPath = join(root, "App.xcodeproj");
+    await runInClientScope(scope, () => startSession({ projectPath, scheme: "App" }));
+    runner.executed.length = 0;
+
+    const result = await runInClientScope(scope, () =>
+      toolRegistry.call("dev_run", { dryRun: true, inlineImage: false })
+    );
+
+    const plan = result.content[0].type === "text" ? result.content[0].text : "";
+    const steps = plan.split("\n").filter((line) => /^\d+\. /.test(line));
+    expect(steps.map((line) => line.replace(/^\d+\. (\S+ \S+ \S+).*$/, "$1"))).toEqual([
+      "xcodebuild -project " + projectPath,
+      "xcodebuild -project " + projectPath,
+      `xcrun simctl terminate`,
+      `xcrun simctl install`,
+      `xcrun simctl get_app_container`,
+      `xcrun simctl launch`,
+      `xcrun simctl io`,
+    ]);
+    expect(steps[0]).toContain(" build");
+    expect(steps[1]).toContain("-showBuildSettings");
+    expect(steps[1]).toContain("(read-only query, ran)");
+    expect(steps[3]).toContain(`install ${UDID} ${join(root, "Build", "App.app")}`);
+    expect(steps[5]).toContain(`launch ${UDID} com.example.App`);
+
+    // Only the read-only query reached the runner; the real session is unchanged
+    expect(runner.executed).toHaveLength(1);
+    expect(runner.executed[0]).toContain("-showBuildSettings");
+    const session = runInClientScope(scope, () => getSession());
+    expect(session?.appPath).toBeUndefined();
+    expect(session?.lastScreenshotPath).toBeUndefined();
+  });
+
+  it("should advertise dryRun except on tools that write files directly", async () => {
+    const listed = new Map(toolRegistry.list().map((tool) => [tool.name, tool]));
+    expect(listed.get("xcode_build")!.inputSchema.properties).toHaveProperty("dryRun");
+    expect(listed.get("generate_claude_md")!.inputSchema.properties).not.toHaveProperty("dryRun");
+
+    const refused = await toolRegistry.call("artifacts_purge", { dryRun: true });
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].type === "text" && refused.content[0].text).toContain("can't run as a dry run");
+  });
+
+  it("should keep state changes inside the dry run", async () => {
+    const projectPath = join(root, "App.xcodeproj");
+    const { value } = await runInClientScope(scope, () =>
+      dryRun(() => startSession({ projectPath, scheme: "App", simulatorUdid: UDID }))
+    );
+
+    expect(value.success).toBe(true);
+    expect(runInClientScope(scope, () => getSession())).toBeNull();
+  });
+});
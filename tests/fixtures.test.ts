@@ -0,0 +1,115 @@
+/**
+ * Tests for command record/replay fixtures
+ */
+
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executeCommand, setCommandRunner } from "../src/utils/process.js";
+import {
+  createRecordingRunner,
+  createReplayRunner,
+  loadFixtures,
+  CommandFixture,
+} from "../src/utils/fixtures.js";
+import { listSimulators, getBootedSimulator } from "../src/simulator/controller.js";
+
+describe("Command Fixtures", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "fixtures-test-"));
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  describe("createRecordingRunner", () => {
+    it("should record commands and write them to disk", async () => {
+      const fixturePath = join(workDir, "capture.json");
+      const runner = createRecordingRunner(fixturePath);
+      setCommandRunner(runner);
+
+      const result = await executeCommand("echo", ["recorded"]);
+      expect(result.stdout).toBe("recorded");
+
+      const fixtures = await loadFixtures(fixturePath);
+      expect(fixtures).toHaveLength(1);
+      expect(fixtures[0].command).toBe("echo");
+      expect(fixtures[0].args).toEqual(["recorded"]);
+      expect(fixtures[0].result.exitCode).toBe(0);
+
+      const raw = JSON.parse(await readFile(fixturePath, "utf-8"));
+      expect(raw.version).toBe(1);
+    });
+  });
+
+  describe("createReplayRunner", () => {
+    const simctlList: CommandFixture = {
+      command: "xcrun",
+      args: ["simctl", "list", "--json"],
+      shell: false,
+      result: {
+        stdout: JSON.stringify({
+          runtimes: [],
+          devices: {
+            "com.apple.CoreSimulator.SimRuntime.iOS-17-2": [
+              { udid: "ABC-123", name: "iPhone 15", state: "Booted", isAvailable: true },
+            ],
+          },
+        }),
+        stderr: "",
+        exitCode: 0,
+        timedOut: false,
+      },
+    };
+
+    it("should serve recorded output to module functions", async () => {
+      setCommandRunner(createReplayRunner([simctlList]));
+
+      const list = await listSimulators();
+      expect(list.success).toBe(true);
+      expect(list.devices[0].udid).toBe("ABC-123");
+
+      // Exhausted fixtures keep serving the last recorded result
+      const booted = await getBootedSimulator();
+      expect(booted?.name).toBe("iPhone 15");
+    });
+
+    it("should serve repeated commands in recorded order", async () => {
+      const first = { ...simctlList, result: { ...simctlList.result, stdout: "first" } };
+      const second = { ...simctlList, result: { ...simctlList.result, stdout: "second" } };
+      setCommandRunner(createReplayRunner([first, second]));
+
+      expect((await executeCommand("xcrun", simctlList.args)).stdout).toBe("first");
+      expect((await executeCommand("xcrun", simctlList.args)).stdout).toBe("second");
+      expect((await executeCommand("xcrun", simctlList.args)).stdout).toBe("second");
+    });
+
+    it("should match temp paths regardless of their random names", async () => {
+      const fixture: CommandFixture = {
+        command: "swift",
+        args: [join(tmpdir(), "ios-dev-mcp-aaaa", "code_1.swift")],
+        shell: false,
+        result: { stdout: "42", stderr: "", exitCode: 0, timedOut: false },
+      };
+      setCommandRunner(createReplayRunner([fixture]));
+
+      const result = await executeCommand("swift", [join(tmpdir(), "ios-dev-mcp-bbbb", "code_2.swift")]);
+      expect(result.stdout).toBe("42");
+    });
+
+    it("should fail unknown commands and report them", async () => {
+      const runner = createReplayRunner([]);
+      setCommandRunner(runner);
+
+      const result = await executeCommand("xcodebuild", ["-version"]);
+      expect(result.exitCode).toBe(127);
+      expect(runner.unmatched).toEqual([
+        { command: "xcodebuild", args: ["-version"], shell: false },
+      ]);
+    });
+  });
+});
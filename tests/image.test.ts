@@ -0,0 +1,117 @@
+/**
+ * Tests for inline image encoding
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { encodeImage } from "../src/utils/image.js";
+import { CommandRunner, setCommandRunner } from "../src/utils/process.js";
+
+/**
+ * Fake sips: reports a 1000x2000 image and writes converted output whose
+ * size depends on format, quality and dimension
+ */
+function fakeSips(calls: string[][], sizeOf: (format: string, dimension: number, quality: number) => number): CommandRunner {
+  const ok = (stdout = "") => ({ stdout, stderr: "", exitCode: 0, timedOut: false });
+  return {
+    async execute(command, args) {
+      calls.push(args);
+      if (args[0] === "-g") {
+        return ok(`${args[args.length - 1]}\n  pixelWidth: 1000\n  pixelHeight: 2000\n`);
+      }
+      const dimension = Number(args[args.indexOf("-Z") + 1]);
+      const format = args[args.indexOf("format") + 1];
+      const qualityAt = args.indexOf("formatOptions");
+      const quality = qualityAt >= 0 ? Number(args[qualityAt + 1]) : 100;
+      await writeFile(args[args.indexOf("--out") + 1], Buffer.alloc(sizeOf(format, dimension, quality)));
+      return ok();
+    },
+    async executeShell() {
+      return ok();
+    },
+  };
+}
+
+describe("Image Encoding", () => {
+  let dir: string;
+  let png: string;
+  let calls: string[][];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "image-test-"));
+    png = join(dir, "screen.png");
+    await writeFile(png, Buffer.alloc(5000, 1));
+    calls = [];
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should inline the original when it fits the budget", async () => {
+    setCommandRunner(fakeSips(calls, () => 0));
+
+    const result = await encodeImage(png, { maxBytes: 10000 });
+
+    expect(result.success).toBe(true);
+    expect(result.image).toMatchObject({ mimeType: "image/png", bytes: 5000, width: 1000, height: 2000, reencoded: false });
+    expect(Buffer.from(result.image!.data, "base64")).toEqual(Buffer.alloc(5000, 1));
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should downscale to maxDimension", async () => {
+    setCommandRunner(fakeSips(calls, () => 1000));
+
+    const result = await encodeImage(png, { maxDimension: 500 });
+
+    expect(result.image).toMatchObject({ mimeType: "image/png", width: 250, height: 500, reencoded: true });
+    expect(calls[1]).toEqual(expect.arrayContaining(["-Z", "500", "format", "png"]));
+  });
+
+  it("should fall back to JPEG, lower quality and smaller sizes until it fits", async () => {
+    // PNG never fits; JPEG fits only at quality 40 and 1125px or less
+    setCommandRunner(
+      fakeSips(calls, (format, dimension, quality) => (format === "png" ? 9000 : quality > 40 || dimension > 1125 ? 4000 : 2000))
+    );
+
+    const result = await encodeImage(png, { maxBytes: 3000 });
+
+    expect(result.image).toMatchObject({ mimeType: "image/jpeg", bytes: 2000, reencoded: true });
+    const conversions = calls.slice(1).map((args) => {
+      const format = args[args.indexOf("format") + 1];
+      const quality = args.includes("formatOptions") ? args[args.indexOf("formatOptions") + 1] : "-";
+      return `${format} ${args[args.indexOf("-Z") + 1]} ${quality}`;
+    });
+    expect(conversions).toEqual([
+      "png 2000 -",
+      "jpeg 2000 80",
+      "jpeg 2000 60",
+      "jpeg 2000 40",
+      "jpeg 1500 40",
+      "jpeg 1125 40",
+    ]);
+  });
+
+  it("should fail when the image cannot be made small enough", async () => {
+    setCommandRunner(fakeSips(calls, () => 9000));
+
+    const result = await encodeImage(png, { maxBytes: 100 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("does not fit in 100 bytes");
+  });
+
+  it("should fail over budget when sips is unavailable", async () => {
+    setCommandRunner({
+      execute: async () => ({ stdout: "", stderr: "sips: command not found", exitCode: 127, timedOut: false }),
+      executeShell: async () => ({ stdout: "", stderr: "", exitCode: 127, timedOut: false }),
+    });
+
+    expect((await encodeImage(png, { maxBytes: 10000 })).image?.reencoded).toBe(false);
+    const result = await encodeImage(png, { maxBytes: 100 });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("sips unavailable");
+  });
+});
@@ -2,7 +2,18 @@
  * Tests for process execution utilities
  */
 
-import { executeCommand, executeShell } from "../src/utils/process.js";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CommandExecution,
+  executeCommand,
+  executeShell,
+  killAllProcesses,
+  onCommandExecuted,
+  planCommands,
+  startCommand,
+} from "../src/utils/process.js";
 
 describe("Process Utilities", () => {
   describe("executeCommand", () => {
@@ -32,6 +43,123 @@ describe("Process Utilities", () => {
       const result = await executeCommand("nonexistent_command_xyz", []);
       expect(result.exitCode).not.toBe(0);
     });
+
+    it("should stream output lines as they arrive", async () => {
+      const lines: Array<[string, string]> = [];
+      const result = await executeCommand(
+        "sh",
+        ["-c", "printf 'one\\ntwo\\n'; echo oops >&2; printf 'partial'"],
+        { onLine: (line, stream) => lines.push([stream, line]) }
+      );
+      expect(result.exitCode).toBe(0);
+      expect(lines.filter(([stream]) => stream === "stdout").map(([, line]) => line))
+        .toEqual(["one", "two", "partial"]);
+      expect(lines).toContainEqual(["stderr", "oops"]);
+    });
+
+    it("should kill the process tree when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 100);
+
+      // The shell waits on a grandchild, which must be killed too for close to fire
+      const result = await executeCommand("sh", ["-c", "sleep 10 & wait"], {
+        signal: controller.signal,
+      });
+
+      expect(result.cancelled).toBe(true);
+      expect(result.timedOut).toBe(false);
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("should kill running process trees on shutdown", async () => {
+      const started = Date.now();
+      const running = executeCommand("sh", ["-c", "sleep 10 & wait"], { timeout: 20000 });
+      setTimeout(() => killAllProcesses(), 100);
+
+      const result = await running;
+
+      expect(result.signal).toBe("SIGKILL");
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("should keep head and tail of output beyond maxOutputSize", async () => {
+      const result = await executeCommand(
+        "sh",
+        ["-c", "echo START; seq 1 5000; echo END"],
+        { maxOutputSize: 100 }
+      );
+      expect(result.truncated).toBe(true);
+      expect(result.stdout.startsWith("START")).toBe(true);
+      expect(result.stdout.endsWith("END")).toBe(true);
+      expect(result.stdout).toMatch(/\[\d+ characters truncated\]/);
+      expect(result.stdout.length).toBeLessThan(200);
+    });
+
+    it("should spill the full output to logPath", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "process-test-"));
+      const logPath = join(dir, "full.log");
+      try {
+        const result = await executeCommand("sh", ["-c", "seq 1 5000"], {
+          maxOutputSize: 100,
+          logPath,
+        });
+        expect(result.stdout).toContain(`full log: ${logPath}`);
+
+        const log = await readFile(logPath, "utf-8");
+        expect(log.trim().split("\n")).toHaveLength(5000);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should close stdin when there is no input", async () => {
+      const empty = await executeCommand("cat", [], { input: "", timeout: 5000 });
+      const none = await executeCommand("cat", [], { timeout: 5000 });
+      const piped = await executeCommand("cat", [], { input: "hello", timeout: 5000 });
+
+      expect(empty).toMatchObject({ stdout: "", exitCode: 0, timedOut: false });
+      expect(none).toMatchObject({ stdout: "", exitCode: 0, timedOut: false });
+      expect(piped.stdout).toBe("hello");
+    });
+
+    it("should not start a command when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await executeCommand("echo", ["never"], { signal: controller.signal });
+      expect(result.cancelled).toBe(true);
+      expect(result.stdout).toBe("");
+    });
+  });
+
+  describe("startCommand", () => {
+    it("should stream a long-running command and report it once it exits", async () => {
+      const executions: CommandExecution[] = [];
+      const unsubscribe = onCommandExecuted((execution) => executions.push(execution));
+      try {
+        const proc = startCommand("cat", []);
+        const output = new Promise<string>((resolve) => proc.onOutput((chunk) => resolve(chunk)));
+        const exited = new Promise<number | null>((resolve) => proc.onExit(resolve));
+
+        proc.write("hello\n");
+        expect(await output).toBe("hello\n");
+        expect(executions).toHaveLength(0);
+
+        proc.kill();
+        expect(await exited).toBeNull();
+        expect(executions).toMatchObject([{ command: "cat", args: [], result: { exitCode: 1 } }]);
+      } finally {
+        unsubscribe();
+      }
+    });
+
+    it("should only record the command while planning", async () => {
+      const { value: proc, plan } = await planCommands(async () => startCommand("swift", ["repl"]));
+
+      expect(plan).toEqual([{ command: "swift", args: ["repl"], shell: false }]);
+      proc.kill();
+    });
   });
 
   describe("executeShell", () => {
@@ -0,0 +1,56 @@
+/**
+ * Tests for xcodebuild progress parsing
+ */
+
+import {
+  createXcodebuildProgressParser,
+  XcodebuildProgressEvent,
+} from "../src/xcode/progress.js";
+
+describe("xcodebuild Progress Parser", () => {
+  function parse(lines: string[]): XcodebuildProgressEvent[] {
+    const events: XcodebuildProgressEvent[] = [];
+    const onLine = createXcodebuildProgressParser((event) => events.push(event));
+    lines.forEach(onLine);
+    return events;
+  }
+
+  it("should count build steps and report target changes", () => {
+    const events = parse([
+      "CompileSwift normal arm64 /Users/me/App/Sources/ContentView.swift (in target 'App' from project 'App')",
+      "CompileSwift normal arm64 /Users/me/App/Sources/AppDelegate.swift (in target 'App' from project 'App')",
+      "Ld /Users/me/DerivedData/App.app/App normal (in target 'AppKit' from project 'App')",
+    ]);
+
+    expect(events.map((e) => e.kind)).toEqual(["target", "step", "step", "target", "step"]);
+    expect(events[1].message).toBe("[1] CompileSwift ContentView.swift");
+    expect(events[4].step).toBe(3);
+    expect(events[4].target).toBe("AppKit");
+  });
+
+  it("should report legacy target headers", () => {
+    const events = parse(["=== BUILD TARGET Core OF PROJECT App WITH CONFIGURATION Debug ==="]);
+    expect(events).toEqual([{ kind: "target", message: "Building target Core", target: "Core" }]);
+  });
+
+  it("should report passed and failed test cases", () => {
+    const events = parse([
+      "Test Case '-[AppTests testLogin]' passed (0.012 seconds).",
+      "Test Case 'AppTests.testLogout' failed (1.500 seconds).",
+    ]);
+
+    expect(events).toHaveLength(2);
+    expect(events[0].test).toEqual({
+      className: "AppTests",
+      name: "testLogin",
+      status: "passed",
+      duration: 0.012,
+    });
+    expect(events[1].test?.status).toBe("failed");
+    expect(events[1].message).toBe("✗ AppTests.testLogout");
+  });
+
+  it("should ignore unrelated output", () => {
+    expect(parse(["", "note: Using new build system", "** BUILD SUCCEEDED **"])).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the schema-validated tool registry
+ */
+
+import { z } from "zod";
+import { createToolRegistry, defineTool } from "../src/tools/registry.js";
+import { allTools, toolRegistry } from "../src/tools/index.js";
+
+describe("Tool Registry", () => {
+  const echoTool = defineTool({
+    name: "echo",
+    description: "Echo a message",
+    schema: z.object({
+      message: z.string().describe("Message to echo"),
+      times: z.number().int().positive().default(1).describe("Repetitions"),
+      style: z.enum(["plain", "loud"]).optional(),
+    }),
+    handler: async ({ message, times, style }) => ({
+      content: [
+        { type: "text", text: (style === "loud" ? message.toUpperCase() : message).repeat(times) },
+      ],
+    }),
+  });
+
+  const registry = createToolRegistry([echoTool]);
+
+  it("should pass validated arguments with defaults applied", async () => {
+    const result = await registry.call("echo", { message: "hi" });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toBe("hi");
+  });
+
+  it("should report field-level validation errors without running the handler", async () => {
+    const result = await registry.call("echo", { times: "2", style: "quiet" });
+
+    expect(result.isError).toBe(true);
+    const text = result.content[0].text;
+    expect(text).toContain("Invalid arguments for echo:");
+    expect(text).toContain("- message: Required");
+    expect(text).toContain("- times: Expected number, received string");
+    expect(text).toMatch(/- style: Invalid enum value/);
+  });
+
+  it("should treat missing arguments as an empty object", async () => {
+    const result = await registry.call("echo", undefined);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("message: Required");
+  });
+
+  it("should throw for unknown tools", async () => {
+    await expect(registry.call("nope", {})).rejects.toThrow("Unknown tool: nope");
+  });
+
+  it("should reject duplicate tool names", () => {
+    expect(() => createToolRegistry([echoTool, echoTool])).toThrow("Duplicate tool definition: echo");
+  });
+
+  it("should generate JSON Schema for ListTools", () => {
+    const [listed] = registry.list();
+    expect(listed.name).toBe("echo");
+    expect(listed.inputSchema).toEqual({
+      type: "object",
+      properties: {
+        message: { type: "string", description: "Message to echo" },
+        times: { type: "integer", exclusiveMinimum: 0, default: 1, description: "Repetitions" },
+        style: { type: "string", enum: ["plain", "loud"] },
+      },
+      required: ["message"],
+    });
+  });
+
+  describe("server tools", () => {
+    it("should register every tool with an object schema", () => {
+      const listed = toolRegistry.list();
+      expect(listed).toHaveLength(allTools.length);
+      for (const tool of listed) {
+        expect(tool.inputSchema.type).toBe("object");
+        expect(tool.description.length).toBeGreaterThan(0);
+      }
+    });
+
+    it("should validate arguments before touching the simulator", async () => {
+      const result = await toolRegistry.call("ui_tap", { x: "10" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("x: Expected number, received string");
+      expect(result.content[0].text).toContain("y: Required");
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for Swift REPL sessions, against a fake REPL process
+ */
+
+import {
+  closeAllReplSessions,
+  closeReplSession,
+  createReplSession,
+  evaluateInReplSession,
+  listReplSessions,
+  ReplLauncher,
+  ReplProcess,
+  resetReplSession,
+  setReplLauncher,
+} from "../src/swift/repl.js";
+import { toolRegistry } from "../src/tools/index.js";
+import { DEFAULT_MAX_OUTPUT_SIZE } from "../src/utils/process.js";
+
+/**
+ * A tiny stand-in for `swift repl`: understands `let name = value`,
+ * `print(name)`, bare names, `while true {}` (hangs until interrupted),
+ * `flood` (prints more than the output cap) and the marker lines the session
+ * manager sends
+ */
+function createFakeLauncher(options: { exitOnStart?: boolean; ignoreInterrupt?: boolean } = {}) {
+  const processes: Array<{ killed: boolean }> = [];
+
+  const launcher: ReplLauncher = () => {
+    const outputListeners: Array<(chunk: string, stream: "stdout" | "stderr") => void> = [];
+    const exitListeners: Array<(code: number | null) => void> = [];
+    const variables = new Map<string, string>();
+    const state = { killed: false, hanging: false, results: 0 };
+    processes.push(state);
+
+    const emit = (chunk: string, stream: "stdout" | "stderr") =>
+      setImmediate(() => outputListeners.forEach((listener) => listener(chunk, stream)));
+    const exit = (code: number | null) => setImmediate(() => exitListeners.forEach((listener) => listener(code)));
+
+    const evaluate = (line: string) => {
+      const marker = /print\("__IOS_DEV_MCP_" \+ "EVAL_(\d+)__"\)/.exec(line);
+      if (marker) {
+        emit(`__IOS_DEV_MCP_EVAL_${marker[1]}__\n`, "stdout");
+        emit(`__IOS_DEV_MCP_EVAL_${marker[1]}__\n`, "stderr");
+        return;
+      }
+
+      let match: RegExpExecArray | null;
+      if (line === "" || line === "import Foundation") {
+        return;
+      } else if (line === "while true {}") {
+        state.hanging = true;
+      } else if (line === "flood") {
+        emit(`${"x".repeat(DEFAULT_MAX_OUTPUT_SIZE)}\n`, "stdout");
+        emit("done\n", "stdout");
+      } else if ((match = /^let (\w+) = (.+)$/.exec(line))) {
+        variables.set(match[1], match[2]);
+      } else if ((match = /^print\((\w+)\)$/.exec(line))) {
+        emit(`${variables.get(match[1])}\n`, "stdout");
+      } else if (variables.has(line)) {
+        emit(`  ${state.results + 1}> $R${state.results++}: Int = ${variables.get(line)}\n`, "stdout");
+      } else {
+        emit(`error: cannot find '${line}' in scope\n`, "stderr");
+      }
+    };
+
+    if (options.exitOnStart) {
+      emit("swift: error: REPL is not available\n", "stderr");
+      exit(1);
+    }
+
+    const repl: ReplProcess = {
+      write: (input) => {
+        for (const line of input.split("\n").slice(0, -1)) {
+          if (!state.hanging) {
+            evaluate(line);
+          }
+        }
+      },
+      onOutput: (listener) => outputListeners.push(listener),
+      onExit: (listener) => exitListeners.push(listener),
+      interrupt: () => {
+        if (!options.ignoreInterrupt) {
+          state.hanging = false;
+          emit("error: Execution was interrupted.\n", "stderr");
+        }
+      },
+      kill: () => {
+        state.killed = true;
+        exit(null);
+      },
+    };
+    return repl;
+  };
+
+  return { launcher, processes };
+}
+
+describe("Swift REPL Sessions", () => {
+  let fake: ReturnType<typeof createFakeLauncher>;
+
+  beforeEach(() => {
+    fake = createFakeLauncher();
+    setReplLauncher(fake.launcher);
+  });
+
+  afterEach(() => {
+    closeAllReplSessions();
+    setReplLauncher(null);
+  });
+
+  it("should keep declarations between evaluations and separate their output", async () => {
+    expect((await createReplSession("scratch")).success).toBe(true);
+
+    const declare = await evaluateInReplSession("scratch", "let answer = 42");
+    expect(declare).toMatchObject({ success: true, output: "", errors: "", timedOut: false });
+
+    const printed = await evaluateInReplSession("scratch", "print(answer)");
+    expect(printed.output).toBe("42");
+
+    const value = await evaluateInReplSession("scratch", "answer");
+    expect(value.output).toBe("$R0: Int = 42");
+
+    expect(listReplSessions()).toMatchObject([{ name: "scratch", evaluations: 3 }]);
+  });
+
+  it("should report compile errors without losing the session", async () => {
+    await createReplSession("scratch");
+
+    const result = await evaluateInReplSession("scratch", "missing");
+    expect(result.success).toBe(false);
+    expect(result.errors).toBe("error: cannot find 'missing' in scope");
+
+    await evaluateInReplSession("scratch", "let x = 1");
+    expect((await evaluateInReplSession("scratch", "print(x)")).output).toBe("1");
+  });
+
+  it("should cap the output kept per evaluation", async () => {
+    await createReplSession("scratch");
+
+    const flooded = await evaluateInReplSession("scratch", "flood");
+    expect(flooded).toMatchObject({ success: true, truncated: true });
+    expect(flooded.output.length).toBeLessThan(DEFAULT_MAX_OUTPUT_SIZE + 100);
+    expect(flooded.output).toMatch(/characters truncated[\s\S]*done$/);
+
+    expect((await evaluateInReplSession("scratch", "let x = 1")).truncated).toBeUndefined();
+  });
+
+  it("should interrupt only the evaluation that timed out", async () => {
+    await createReplSession("scratch");
+    await evaluateInReplSession("scratch", "let x = 7");
+
+    const hung = await evaluateInReplSession("scratch", "while true {}", { timeout: 50 });
+    expect(hung).toMatchObject({ success: false, timedOut: true });
+    expect(hung.error).toContain("still available");
+
+    const next = await evaluateInReplSession("scratch", "print(x)");
+    expect(next).toMatchObject({ success: true, output: "7", errors: "" });
+  });
+
+  it("should close a session whose REPL does not recover from an interrupt", async () => {
+    fake = createFakeLauncher({ ignoreInterrupt: true });
+    setReplLauncher(fake.launcher);
+    await createReplSession("stuck");
+
+    const hung = await evaluateInReplSession("stuck", "while true {}", { timeout: 50 });
+    expect(hung.error).toContain("was closed");
+    expect(listReplSessions()).toEqual([]);
+    expect(fake.processes[0].killed).toBe(true);
+  }, 10000);
+
+  it("should discard state on reset", async () => {
+    await createReplSession("scratch");
+    await evaluateInReplSession("scratch", "let x = 1");
+
+    expect((await resetReplSession("scratch")).success).toBe(true);
+    expect(fake.processes[0].killed).toBe(true);
+    expect((await evaluateInReplSession("scratch", "x")).success).toBe(false);
+  });
+
+  it("should reap idle sessions", async () => {
+    await createReplSession("idle", { idleTimeout: 20 });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(listReplSessions()).toEqual([]);
+    expect(fake.processes[0].killed).toBe(true);
+  });
+
+  it("should reject duplicate, unknown and failed sessions", async () => {
+    await createReplSession("scratch");
+    expect((await createReplSession("scratch")).error).toContain("already exists");
+    expect(closeReplSession("nope").error).toContain("No REPL session");
+
+    setReplLauncher(createFakeLauncher({ exitOnStart: true }).launcher);
+    const failed = await createReplSession("broken");
+    expect(failed.success).toBe(false);
+    expect(failed.error).toContain("exited with code 1");
+    expect(failed.error).toContain("REPL is not available");
+  });
+
+  it("should evaluate through the tools", async () => {
+    await toolRegistry.call("swift_repl_create", { name: "tools" });
+    await toolRegistry.call("swift_repl_eval", { name: "tools", code: "let greeting = hello" });
+
+    const result = await toolRegistry.call("swift_repl_eval", { name: "tools", code: "print(greeting)" });
+    expect(result.content[0]).toEqual({ type: "text", text: "Output:\nhello" });
+
+    const missing = await toolRegistry.call("swift_repl_eval", { name: "other", code: "1" });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].type === "text" && missing.content[0].text).toContain("swift_repl_create");
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for MCP resources backed by build, test and screenshot results
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  clearRecordedResults,
+  listResources,
+  onResourcesChanged,
+  readResource,
+  recordBuildResult,
+  recordTestResult,
+} from "../src/resources/store.js";
+import {
+  configureArtifacts,
+  createArtifactPath,
+  purgeArtifacts,
+  registerArtifact,
+} from "../src/utils/artifacts.js";
+import { createClientScope, runInClientScope } from "../src/utils/client-scope.js";
+import { DEFAULT_MAX_OUTPUT_SIZE } from "../src/utils/process.js";
+import { XcodeBuildResult } from "../src/xcode/builder.js";
+import { TestSuiteResult } from "../src/xcode/testing.js";
+
+function buildResult(overrides: Partial<XcodeBuildResult> = {}): XcodeBuildResult {
+  return {
+    success: true,
+    output: "** BUILD SUCCEEDED **",
+    warnings: [],
+    errors: [],
+    buildTime: 1200,
+    ...overrides,
+  };
+}
+
+function testResult(): TestSuiteResult {
+  return {
+    success: false,
+    totalTests: 2,
+    passed: 1,
+    failed: 1,
+    skipped: 0,
+    duration: 0.5,
+    tests: [
+      { name: "testLogin", className: "AppTests", status: "passed", duration: 0.2 },
+      { name: "testLogout", className: "AppTests", status: "failed", duration: 0.3, failureMessage: "XCTAssertTrue failed" },
+    ],
+    output: "raw xcodebuild output",
+  };
+}
+
+describe("Resources", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "resources-test-"));
+    await configureArtifacts({ root });
+    clearRecordedResults();
+  });
+
+  afterEach(async () => {
+    await purgeArtifacts();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should list nothing without builds, tests, screenshots or a session", () => {
+    expect(listResources()).toEqual([]);
+  });
+
+  it("should serve the spilled build log, falling back to in-memory output", async () => {
+    const logPath = join(root, "build.log");
+    await writeFile(logPath, "full log contents");
+
+    const first = recordBuildResult(buildResult({ logPath }), "xcode_build App");
+    const second = recordBuildResult(
+      buildResult({ success: false, output: "partial", errors: ["error: missing semicolon"] }),
+      "dev_run App"
+    );
+
+    expect(await readResource(first)).toEqual({
+      uri: first,
+      mimeType: "text/plain",
+      text: `full log contents\n\nFull log: ${logPath}`,
+    });
+
+    const latest = await readResource("buildlog://latest");
+    expect(latest).toMatchObject({ uri: "buildlog://latest", mimeType: "text/plain" });
+    expect("text" in latest && latest.text).toBe("partial\nErrors:\nerror: missing semicolon");
+
+    const uris = listResources().map((resource) => resource.uri);
+    expect(uris).toEqual(["buildlog://latest", second, first]);
+  });
+
+  it("should cap a large spilled build log to its head and tail", async () => {
+    const logPath = join(root, "build.log");
+    await writeFile(logPath, "head\n" + "x".repeat(DEFAULT_MAX_OUTPUT_SIZE) + "\ntail");
+
+    const contents = await readResource(recordBuildResult(buildResult({ logPath }), "xcode_build App"));
+    const text = "text" in contents ? contents.text : "";
+
+    expect(text.length).toBeLessThan(DEFAULT_MAX_OUTPUT_SIZE + 1000);
+    expect(text.startsWith("head\n")).toBe(true);
+    expect(text).toContain(`characters truncated; full log: ${logPath}`);
+    expect(text.endsWith(`\ntail\n\nFull log: ${logPath}`)).toBe(true);
+  });
+
+  it("should serve test results as JSON without the raw output", async () => {
+    const uri = recordTestResult(testResult(), "xcode_test App");
+    const contents = await readResource(uri);
+
+    expect(contents.mimeType).toBe("application/json");
+    const payload = JSON.parse("text" in contents ? contents.text : "");
+    expect(payload).toMatchObject({ label: "xcode_test App", totalTests: 2, failed: 1 });
+    expect(payload.tests).toHaveLength(2);
+    expect(payload.output).toBeUndefined();
+
+    const [latest] = listResources();
+    expect(latest).toMatchObject({ uri: "testresult://latest", description: "xcode_test App 1/2 passed, 1 failed" });
+  });
+
+  it("should serve screenshots from the artifact store as base64 blobs", async () => {
+    const path = await createArtifactPath("screenshot", ".png");
+    await writeFile(path, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const artifact = await registerArtifact(path, "screenshot", { udid: "UDID-1" });
+
+    const listed = listResources();
+    expect(listed.map((resource) => resource.uri)).toEqual([
+      "screenshot://latest",
+      `screenshot://${artifact!.id}`,
+    ]);
+
+    const contents = await readResource(`screenshot://${artifact!.id}`);
+    expect(contents).toEqual({
+      uri: `screenshot://${artifact!.id}`,
+      mimeType: "image/png",
+      blob: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString("base64"),
+    });
+  });
+
+  it("should reject unknown resources", async () => {
+    await expect(readResource("buildlog://99")).rejects.toThrow("Build log not found");
+    await expect(readResource("session://current")).rejects.toThrow("No active development session");
+    await expect(readResource("ftp://nope")).rejects.toThrow("Unknown resource");
+    await expect(readResource("nope")).rejects.toThrow("Invalid resource URI");
+  });
+
+  it("should notify listeners of new results", () => {
+    const changes: Array<{ updated: string[]; listChanged: boolean }> = [];
+    const unregister = onResourcesChanged((change) => changes.push(change));
+
+    const uri = recordBuildResult(buildResult(), "dev_run App");
+    unregister();
+    recordTestResult(testResult(), "xcode_test App");
+
+    expect(changes).toEqual([{ updated: [uri, "buildlog://latest"], listChanged: true }]);
+  });
+
+  it("should keep results and notifications per client", async () => {
+    const alice = createClientScope("alice");
+    const bob = createClientScope("bob");
+    const bobChanges: string[][] = [];
+    const unregister = runInClientScope(bob, () => onResourcesChanged(({ updated }) => bobChanges.push(updated)));
+
+    const uri = runInClientScope(alice, () => recordBuildResult(buildResult(), "dev_run App"));
+
+    expect(runInClientScope(alice, () => listResources()).map((resource) => resource.uri)).toContain(uri);
+    expect(runInClientScope(bob, () => listResources())).toEqual([]);
+    await expect(runInClientScope(bob, () => readResource(uri))).rejects.toThrow("Build log not found");
+    expect(bobChanges).toEqual([]);
+    unregister();
+  });
+
+  it("should only serve a client its own screenshots", async () => {
+    const alice = createClientScope("alice");
+    const path = await createArtifactPath("screenshot", ".png");
+    await writeFile(path, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const artifact = await runInClientScope(alice, () => registerArtifact(path, "screenshot"));
+
+    expect(listResources()).toEqual([]);
+    await expect(readResource(`screenshot://${artifact!.id}`)).rejects.toThrow("Screenshot not found");
+    expect(runInClientScope(alice, () => listResources()).map((resource) => resource.uri)).toContain(
+      `screenshot://${artifact!.id}`
+    );
+
+    await runInClientScope(alice, () => purgeArtifacts());
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the Swift snippet sandbox
+ */
+
+import { mkdtemp, realpath, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executeSwift } from "../src/swift/executor.js";
+import { runInSandbox, sandboxCommand, sandboxEnvironment } from "../src/swift/sandbox.js";
+import { configureProjectConfig } from "../src/utils/config.js";
+import { CommandRunner, ProcessOptions, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+
+const SHELL_LIMITS = 'ulimit -St 5; ulimit -Ht 6; ulimit -v 262144; exec "$0" "$@"';
+
+describe("Sandbox Command", () => {
+  const options = { scratch: "/scratch", cpuSeconds: 5, memoryMB: 256, denyNetwork: true, unshare: true };
+
+  it("should apply ulimits and a network namespace on Linux", () => {
+    expect(sandboxCommand("/bin/app", ["a"], { ...options, platform: "linux" })).toEqual({
+      command: "unshare",
+      args: ["-rn", "/bin/sh", "-c", SHELL_LIMITS, "/bin/app", "a"],
+      memoryLimited: true,
+      networkDenied: true,
+      writesConfined: false,
+    });
+  });
+
+  it("should report when network denial is unavailable", () => {
+    const wrapped = sandboxCommand("/bin/app", [], { ...options, platform: "linux", unshare: false });
+    expect(wrapped).toMatchObject({ command: "/bin/sh", networkDenied: false });
+
+    const allowed = sandboxCommand("/bin/app", [], { ...options, platform: "linux", denyNetwork: false });
+    expect(allowed).toMatchObject({ command: "/bin/sh", networkDenied: false });
+  });
+
+  it("should not limit address space on macOS", () => {
+    const wrapped = sandboxCommand("/bin/app", [], { ...options, platform: "darwin", denyNetwork: false });
+    expect(wrapped.args).toEqual(["-c", 'ulimit -St 5; ulimit -Ht 6; exec "$0" "$@"', "/bin/app"]);
+    expect(wrapped.memoryLimited).toBe(false);
+  });
+
+  it("should build the environment from scratch", () => {
+    const env = sandboxEnvironment("/scratch", { MODE: "test" });
+    expect(env).toEqual({ PATH: "/usr/bin:/bin", HOME: "/scratch", TMPDIR: "/scratch", LANG: "en_US.UTF-8", MODE: "test" });
+  });
+});
+
+describe("Sandboxed Execution", () => {
+  let calls: Array<{ command: string; args: string[]; options: ProcessOptions }>;
+
+  function useRunner(run: Partial<ProcessResult> = {}) {
+    calls = [];
+    const runner: CommandRunner = {
+      async execute(command, args, options) {
+        calls.push({ command, args, options });
+        const compiling = command === "swiftc" || (command === "unshare" && args[1] === "true");
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...(compiling ? {} : run) };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  afterEach(() => {
+    setCommandRunner(null);
+    configureProjectConfig({});
+  });
+
+  it("should compile a single file and run it under the limits", async () => {
+    useRunner({ stdout: "ok" });
+
+    const result = await executeSwift('print("ok")', {
+      env: { MODE: "test" },
+      sandbox: { cpuSeconds: 2, maxOutputSize: 100 },
+    });
+
+    expect(result).toMatchObject({ success: true, stdout: "ok", exitCode: 0 });
+    expect(result.sandbox).toMatchObject({ cpuSeconds: 2, maxOutputSize: 100, limitHit: undefined });
+
+    const compile = calls.find((call) => call.command === "swiftc")!;
+    const run = calls[calls.length - 1];
+    expect(run.args).toContain(compile.args[1]);
+    expect(run.args.join(" ")).toContain("ulimit -St 2");
+    expect(run.options).toMatchObject({ cleanEnv: true, maxOutputSize: 100, cwd: run.options.env!.HOME });
+    expect(run.options.env).toMatchObject({ MODE: "test", TMPDIR: run.options.cwd });
+    expect(run.options.env).not.toHaveProperty("USER");
+  });
+
+  it("should report the CPU limit when the program is killed for it", async () => {
+    useRunner({ exitCode: 1, signal: "SIGXCPU" });
+
+    const result = await executeSwift("while true {}", { sandbox: { cpuSeconds: 2 } });
+
+    expect(result).toMatchObject({ success: false, exitCode: null, error: "CPU time limit of 2s exceeded" });
+    expect(result.sandbox!.limitHit).toBe("cpu");
+  });
+
+  it("should not blame the CPU limit for a kill", async () => {
+    useRunner({ exitCode: 1, signal: "SIGKILL", cancelled: true });
+
+    const result = await executeSwift("while true {}", { sandbox: true });
+
+    expect(result.sandbox!.limitHit).toBeUndefined();
+  });
+
+  it("should report truncated output", async () => {
+    useRunner({ stdout: "y\ny\n[... truncated ...]", truncated: true });
+
+    const result = await executeSwift("while true { print(\"y\") }", { sandbox: { maxOutputSize: 10 } });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Output exceeded 10 characters and was truncated");
+    expect(result.sandbox!.limitHit).toBe("output");
+  });
+
+  it("should keep a configured sandbox even when a call turns it off", async () => {
+    useRunner();
+    configureProjectConfig({ swiftSandbox: { cpuSeconds: 3 } });
+
+    const result = await executeSwift('print("hi")', { sandbox: false });
+
+    expect(result.sandbox).toMatchObject({ cpuSeconds: 3 });
+    expect(calls.some((call) => call.command === "swift")).toBe(false);
+  });
+});
+
+const describeOnLinux = process.platform === "linux" ? describe : describe.skip;
+
+describeOnLinux("Sandbox Limits (real processes)", () => {
+  let scratch: string;
+
+  beforeEach(async () => {
+    scratch = await realpath(await mkdtemp(join(tmpdir(), "sandbox-test-")));
+  });
+
+  afterEach(async () => {
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  // node stands in for a compiled snippet; its heap needs a generous address space
+  const sandbox = { cpuSeconds: 1, memoryMB: 16384, allowNetwork: true };
+
+  it("should stop a busy loop at the CPU limit", async () => {
+    const result = await runInSandbox(
+      process.execPath,
+      ["-e", "while (true) {}"],
+      { scratch, timeout: 20000, sandbox },
+      Date.now()
+    );
+
+    expect(result.sandbox!.limitHit).toBe("cpu");
+    expect(result.success).toBe(false);
+  }, 30000);
+
+  it("should hide the server's environment and run in the scratch directory", async () => {
+    process.env.IOS_DEV_MCP_TEST_SECRET = "hunter2";
+    try {
+      const result = await runInSandbox(
+        process.execPath,
+        ["-e", "console.log(process.cwd()); console.log(Object.keys(process.env).sort().join(','))"],
+        { scratch, timeout: 20000, env: { MODE: "test" }, sandbox },
+        Date.now()
+      );
+
+      const [cwd, names] = result.stdout.split("\n");
+      expect(result.success).toBe(true);
+      expect(cwd).toBe(scratch);
+      expect(names.split(",")).toEqual(expect.arrayContaining(["HOME", "MODE", "PATH", "TMPDIR"]));
+      expect(names).not.toContain("IOS_DEV_MCP_TEST_SECRET");
+    } finally {
+      delete process.env.IOS_DEV_MCP_TEST_SECRET;
+    }
+  }, 30000);
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the job scheduler
+ */
+
+import { listJobs, resourcesForTool, runExclusive } from "../src/workflow/scheduler.js";
+import { configureProjectConfig } from "../src/utils/config.js";
+import { toolRegistry } from "../src/tools/index.js";
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("Job Scheduler", () => {
+  describe("resourcesForTool", () => {
+    it("should lock an explicit simulator", () => {
+      expect(resourcesForTool("ui_tap", { udid: "ABC", x: 1, y: 2 })).toEqual(["simulator:ABC"]);
+    });
+
+    it("should lock any simulator when none is given", () => {
+      expect(resourcesForTool("simulator_shutdown", {})).toEqual(["simulator:*"]);
+    });
+
+    it("should lock the project for builds", () => {
+      expect(resourcesForTool("xcode_build", { projectPath: "/tmp/App.xcodeproj", scheme: "App" }))
+        .toEqual(["project:/tmp/App.xcodeproj"]);
+    });
+
+    it("should lock the configured project once defaults are applied", () => {
+      configureProjectConfig({ projectPath: "/tmp/App.xcodeproj", scheme: "App" });
+      try {
+        expect(resourcesForTool("xcode_build", toolRegistry.argumentsFor("xcode_build", {})))
+          .toEqual(["project:/tmp/App.xcodeproj"]);
+      } finally {
+        configureProjectConfig({});
+      }
+    });
+
+    it("should lock the simulator for recordings, app data and logs", () => {
+      for (const tool of ["ui_record_start", "ui_record_stop", "dev_session_end"]) {
+        expect(resourcesForTool(tool, {})).toEqual(["simulator:*"]);
+      }
+      expect(resourcesForTool("simulator_get_logs", { udid: "ABC" })).toEqual(["simulator:ABC"]);
+      expect(resourcesForTool("simulator_list_apps", { udid: "ABC" })).toEqual(["simulator:ABC"]);
+      expect(resourcesForTool("simulator_get_app_container", { udid: "ABC", bundleId: "com.example.app" }))
+        .toEqual(["simulator:ABC"]);
+    });
+
+    it("should lock the archive being exported", () => {
+      expect(resourcesForTool("xcode_export", { archivePath: "/tmp/App.xcarchive", method: "ad-hoc" }))
+        .toEqual(["project:/tmp/App.xcarchive"]);
+    });
+
+    it("should not lock read-only tools", () => {
+      expect(resourcesForTool("simulator_list", {})).toEqual([]);
+      expect(resourcesForTool("jobs_list", {})).toEqual([]);
+    });
+  });
+
+  describe("runExclusive", () => {
+    it("should queue conflicting jobs and report their position", async () => {
+      const order: string[] = [];
+      const first = deferred();
+      const positions: number[] = [];
+
+      const a = runExclusive("dev_run", ["simulator:ABC"], async () => {
+        order.push("a:start");
+        await first.promise;
+        order.push("a:end");
+      });
+      const b = runExclusive(
+        "ui_tap",
+        ["simulator:ABC"],
+        async () => {
+          order.push("b");
+        },
+        { onQueued: (position) => positions.push(position) }
+      );
+
+      expect(positions).toEqual([1]);
+      expect(listJobs().map((job) => [job.tool, job.state])).toEqual([
+        ["dev_run", "running"],
+        ["ui_tap", "queued"],
+      ]);
+
+      first.resolve();
+      const [, result] = await Promise.all([a, b]);
+
+      expect(order).toEqual(["a:start", "a:end", "b"]);
+      expect(result.waitedMs).toBeGreaterThanOrEqual(0);
+      expect(listJobs()).toEqual([]);
+    });
+
+    it("should run jobs on different resources concurrently", async () => {
+      const gate = deferred();
+      const started: string[] = [];
+
+      const a = runExclusive("ui_tap", ["simulator:A"], async () => {
+        started.push("a");
+        await gate.promise;
+      });
+      const b = runExclusive("ui_tap", ["simulator:B"], async () => {
+        started.push("b");
+      });
+
+      await b;
+      expect(started).toEqual(["a", "b"]);
+      gate.resolve();
+      await a;
+    });
+
+    it("should treat the wildcard simulator as conflicting with any udid", async () => {
+      const gate = deferred();
+      const a = runExclusive("simulator_shutdown", ["simulator:*"], () => gate.promise);
+
+      let queued = false;
+      const b = runExclusive("ui_tap", ["simulator:A"], async () => {}, {
+        onQueued: () => (queued = true),
+      });
+
+      expect(queued).toBe(true);
+      gate.resolve();
+      await Promise.all([a, b]);
+    });
+
+    it("should drop a queued job when its signal is aborted", async () => {
+      const gate = deferred();
+      const controller = new AbortController();
+      const a = runExclusive("dev_run", ["project:/p"], () => gate.promise);
+      const b = runExclusive("xcode_build", ["project:/p"], async () => "never", {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+      await expect(b).rejects.toThrow("cancelled while waiting");
+      expect(listJobs()).toHaveLength(1);
+
+      gate.resolve();
+      await a;
+    });
+  });
+});
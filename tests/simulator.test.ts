@@ -9,6 +9,8 @@ import {
   findSimulator,
   getBootedSimulator,
 } from "../src/simulator/controller.js";
+import { startRecording, stopRecording } from "../src/simulator/advanced.js";
+import { CommandRunner, setCommandRunner } from "../src/utils/process.js";
 
 describe("Simulator Controller", () => {
   let simctlAvailable = false;
@@ -85,3 +87,50 @@ describe("Simulator Controller", () => {
     });
   });
 });
+
+describe("Screen Recording", () => {
+  let started: string[][];
+  let interrupted: number;
+
+  beforeEach(() => {
+    started = [];
+    interrupted = 0;
+    const runner: CommandRunner = {
+      async execute() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+      start(command, args) {
+        started.push([command, ...args]);
+        return {
+          write: () => {},
+          onOutput: () => {},
+          onExit: () => {},
+          interrupt: () => {
+            interrupted++;
+          },
+          kill: () => {},
+        };
+      },
+    };
+    setCommandRunner(runner);
+  });
+
+  afterEach(() => {
+    setCommandRunner(null);
+  });
+
+  it("should start and stop recordVideo through the command runner", async () => {
+    const recording = await startRecording({ udid: "UDID-1", outputPath: "/tmp/out.mp4" });
+    expect(recording).toMatchObject({ success: true, outputPath: "/tmp/out.mp4" });
+    expect(started).toEqual([
+      ["xcrun", "simctl", "io", "UDID-1", "recordVideo", "--codec", "h264", "--mask", "ignored", "/tmp/out.mp4"],
+    ]);
+
+    const stopped = await stopRecording({ udid: "UDID-1" });
+    expect(stopped).toMatchObject({ success: true, outputPath: "/tmp/out.mp4" });
+    expect(interrupted).toBe(1);
+  });
+});
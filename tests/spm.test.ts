@@ -0,0 +1,306 @@
+/**
+ * Tests for Swift Package Manager build, test, resolve and describe
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parsePackageDescription, parsePackageResolved, spmBuild, spmResolve } from "../src/spm/builder.js";
+import { createSpmTestCollector, spmTest } from "../src/spm/testing.js";
+import { CommandRunner, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+import { configureProjectConfig } from "../src/utils/config.js";
+import { toolRegistry } from "../src/tools/index.js";
+
+function collect(lines: string[]) {
+  const collector = createSpmTestCollector();
+  lines.forEach((line) => collector.push(line));
+  return collector.tests;
+}
+
+describe("SwiftPM Test Output", () => {
+  it("should collect XCTest results on Linux with failure messages", () => {
+    const tests = collect([
+      "Test Suite 'All tests' started at 2024-05-01 10:00:00.000",
+      "Test Case 'MathTests.testAdd' started at 2024-05-01 10:00:00.001",
+      "Test Case 'MathTests.testAdd' passed (0.001 seconds)",
+      "Test Case 'MathTests.testSubtract' started at 2024-05-01 10:00:00.002",
+      '/pkg/Tests/MathTests/MathTests.swift:12: error: MathTests.testSubtract : XCTAssertEqual failed: ("1") is not equal to ("2") - ',
+      "Test Case 'MathTests.testSubtract' failed (0.002 seconds)",
+      "Test Suite 'All tests' failed at 2024-05-01 10:00:00.010",
+    ]);
+
+    expect(tests).toEqual([
+      { className: "MathTests", name: "testAdd", status: "passed", duration: 0.001, failureMessage: undefined },
+      {
+        className: "MathTests",
+        name: "testSubtract",
+        status: "failed",
+        duration: 0.002,
+        failureMessage:
+          '/pkg/Tests/MathTests/MathTests.swift:12: XCTAssertEqual failed: ("1") is not equal to ("2") -',
+      },
+    ]);
+  });
+
+  it("should collect XCTest results on macOS", () => {
+    const tests = collect([
+      "Test Case '-[MathTests.MathTests testAdd]' started.",
+      "/pkg/Tests/MathTests/MathTests.swift:8: error: -[MathTests.MathTests testAdd] : XCTAssertTrue failed",
+      "Test Case '-[MathTests.MathTests testAdd]' failed (0.004 seconds).",
+      "Test Case '-[MathTests.MathTests testSkip]' skipped (0.000 seconds).",
+      "Test Case '-[MathTests.Other.MathTests testAdd]' started.",
+      "Test Case '-[MathTests.Other.MathTests testAdd]' passed (0.001 seconds).",
+    ]);
+
+    expect(tests.map((t) => [t.className, t.name, t.status, t.failureMessage])).toEqual([
+      ["MathTests.MathTests", "testAdd", "failed", "/pkg/Tests/MathTests/MathTests.swift:8: XCTAssertTrue failed"],
+      ["MathTests.MathTests", "testSkip", "skipped", undefined],
+      ["MathTests.Other.MathTests", "testAdd", "passed", undefined],
+    ]);
+  });
+
+  it("should collect swift-testing results", () => {
+    const tests = collect([
+      "◇ Test run started.",
+      "◇ Suite Arithmetic started.",
+      "◇ Test addition() started.",
+      "✔ Test addition() passed after 0.001 seconds.",
+      '✘ Test "Subtracts numbers" recorded an issue at MathTests.swift:20:5: Expectation failed: (a → 1) == 2',
+      '✘ Test "Subtracts numbers" failed after 0.003 seconds with 1 issue.',
+      "➜ Test division() skipped.",
+      "✘ Test run with 3 tests failed after 0.005 seconds with 1 issue.",
+    ]);
+
+    expect(tests).toEqual([
+      { className: "", name: "addition()", status: "passed", duration: 0.001, failureMessage: undefined },
+      {
+        className: "",
+        name: '"Subtracts numbers"',
+        status: "failed",
+        duration: 0.003,
+        failureMessage: "MathTests.swift:20:5: Expectation failed: (a → 1) == 2",
+      },
+      { className: "", name: "division()", status: "skipped", duration: 0 },
+    ]);
+  });
+});
+
+describe("SwiftPM Manifests", () => {
+  it("should parse swift package describe output", () => {
+    const output = [
+      "Fetching https://github.com/apple/swift-argument-parser",
+      JSON.stringify({
+        name: "Tool",
+        path: "/pkg",
+        tools_version: "5.9",
+        platforms: [{ name: "macos", version: "13.0" }],
+        products: [
+          { name: "tool", targets: ["Tool"], type: { executable: null } },
+          { name: "ToolKit", targets: ["ToolKit"], type: { library: ["automatic"] } },
+        ],
+        targets: [
+          {
+            name: "Tool",
+            type: "executable",
+            path: "Sources/Tool",
+            sources: ["main.swift", "Options.swift"],
+            target_dependencies: ["ToolKit"],
+            product_dependencies: ["ArgumentParser"],
+          },
+          { name: "ToolKitTests", type: "test", path: "Tests/ToolKitTests", sources: ["KitTests.swift"] },
+        ],
+        dependencies: [
+          {
+            identity: "swift-argument-parser",
+            type: "sourceControl",
+            url: "https://github.com/apple/swift-argument-parser",
+            requirement: { range: [{ lower_bound: "1.2.0", upper_bound: "2.0.0" }] },
+          },
+          { identity: "shared", type: "fileSystem", path: "/shared" },
+        ],
+      }),
+    ].join("\n");
+
+    const description = parsePackageDescription(output);
+
+    expect(description).toMatchObject({ name: "Tool", toolsVersion: "5.9", platforms: [{ name: "macos", version: "13.0" }] });
+    expect(description.products).toEqual([
+      { name: "tool", type: "executable", targets: ["Tool"] },
+      { name: "ToolKit", type: "library (automatic)", targets: ["ToolKit"] },
+    ]);
+    expect(description.targets[0]).toEqual({
+      name: "Tool",
+      type: "executable",
+      path: "Sources/Tool",
+      sources: 2,
+      targetDependencies: ["ToolKit"],
+      productDependencies: ["ArgumentParser"],
+    });
+    expect(description.targets[1]).toMatchObject({ sources: 1, targetDependencies: [], productDependencies: [] });
+    expect(description.dependencies).toEqual([
+      {
+        identity: "swift-argument-parser",
+        location: "https://github.com/apple/swift-argument-parser",
+        requirement: "1.2.0..<2.0.0",
+      },
+      { identity: "shared", location: "/shared", requirement: undefined },
+    ]);
+  });
+
+  it("should read pins from every Package.resolved format", () => {
+    const v2 = {
+      pins: [
+        {
+          identity: "swift-collections",
+          kind: "remoteSourceControl",
+          location: "https://github.com/apple/swift-collections.git",
+          state: { revision: "abc123", version: "1.1.0" },
+        },
+      ],
+      version: 2,
+    };
+    const v1 = {
+      object: {
+        pins: [
+          {
+            package: "Nimble",
+            repositoryURL: "https://github.com/Quick/Nimble",
+            state: { branch: "main", revision: "def456", version: null },
+          },
+        ],
+      },
+      version: 1,
+    };
+
+    expect(parsePackageResolved(JSON.stringify(v2))).toEqual([
+      {
+        identity: "swift-collections",
+        location: "https://github.com/apple/swift-collections.git",
+        version: "1.1.0",
+        branch: undefined,
+        revision: "abc123",
+      },
+    ]);
+    expect(parsePackageResolved(JSON.stringify(v1))[0]).toMatchObject({
+      identity: "nimble",
+      branch: "main",
+      version: undefined,
+    });
+  });
+});
+
+describe("SwiftPM Commands", () => {
+  let packagePath: string;
+  let executed: string[][];
+
+  function useRunner(result: Partial<ProcessResult>, lines: string[] = []) {
+    executed = [];
+    const runner: CommandRunner = {
+      async execute(command, args, options) {
+        executed.push([command, ...args]);
+        lines.forEach((line) => options?.onLine?.(line));
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...result };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  beforeEach(async () => {
+    packagePath = await mkdtemp(join(tmpdir(), "spm-test-"));
+    await writeFile(join(packagePath, "Package.swift"), "// swift-tools-version:5.9\n");
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(packagePath, { recursive: true, force: true });
+  });
+
+  const compileError = [
+    "/pkg/Sources/Tool/main.swift:3:5: error: cannot find 'prnt' in scope",
+    "    prnt(1)",
+    "    ^~~~",
+  ].join("\n");
+
+  it("should build with parseable diagnostics and report each error once", async () => {
+    useRunner({ stdout: `[1/3] Compiling Tool main.swift\n${compileError}\n${compileError}`, exitCode: 1 });
+
+    const result = await spmBuild(packagePath, { configuration: "release", product: "tool", logPath: join(packagePath, "log") });
+
+    expect(executed[0]).toEqual([
+      "swift",
+      "build",
+      "--package-path",
+      packagePath,
+      "-c",
+      "release",
+      "-Xswiftc",
+      "-diagnostic-style=llvm",
+      "--product",
+      "tool",
+    ]);
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ file: "/pkg/Sources/Tool/main.swift", line: 3, column: 5 });
+    expect(result.errors).toEqual([result.diagnostics[0].raw]);
+  });
+
+  it("should refuse a directory without Package.swift", async () => {
+    useRunner({});
+
+    const result = await spmBuild(join(packagePath, "missing"));
+
+    expect(result.error).toContain("Must be a directory containing Package.swift");
+    expect(executed).toEqual([]);
+  });
+
+  it("should run tests with filters and count results", async () => {
+    useRunner({ exitCode: 1 }, [
+      "Test Case 'MathTests.testAdd' passed (0.001 seconds)",
+      "Test Case 'MathTests.testSubtract' failed (0.002 seconds)",
+    ]);
+
+    const result = await spmTest(packagePath, { filter: ["MathTests"], logPath: join(packagePath, "log") });
+
+    expect(executed[0]).toContain("--filter");
+    expect(result).toMatchObject({ success: false, passed: 1, failed: 1, error: "1 test(s) failed" });
+  });
+
+  it("should report build errors when the tests don't compile", async () => {
+    useRunner({ stdout: compileError, exitCode: 1 });
+
+    const result = await spmTest(packagePath, { logPath: join(packagePath, "log") });
+
+    expect(result).toMatchObject({ success: false, totalTests: 0, error: "Build failed" });
+    expect(result.diagnostics).toHaveLength(1);
+  });
+
+  it("should ignore the project config's Xcode configuration", async () => {
+    useRunner({});
+    configureProjectConfig({ configuration: "Release", scheme: "App" });
+
+    try {
+      const response = await toolRegistry.call("spm_build", { packagePath });
+
+      expect(response.isError).toBeFalsy();
+      expect(executed[0]).toEqual(expect.arrayContaining(["-c", "debug"]));
+    } finally {
+      configureProjectConfig({});
+    }
+  });
+
+  it("should list pins after resolving", async () => {
+    useRunner({});
+    await writeFile(
+      join(packagePath, "Package.resolved"),
+      JSON.stringify({ pins: [{ identity: "swift-log", location: "https://github.com/apple/swift-log", state: { version: "1.5.4" } }] })
+    );
+
+    const result = await spmResolve(packagePath);
+
+    expect(executed[0]).toEqual(["swift", "package", "--package-path", packagePath, "resolve"]);
+    expect(result.pins).toMatchObject([{ identity: "swift-log", version: "1.5.4" }]);
+  });
+});
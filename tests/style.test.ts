@@ -0,0 +1,162 @@
+/**
+ * Tests for swift-format and SwiftLint integration
+ */
+
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fixSwift, lintSwift, parseSwiftFormatLint, parseSwiftLintJson } from "../src/swift/style.js";
+import { CommandRunner, setCommandRunner, spawnRunner } from "../src/utils/process.js";
+
+describe("Style Output Parsing", () => {
+  it("should parse swift-format lint findings", () => {
+    const output = [
+      "/src/A.swift:3:1: warning: [Indentation] replace leading whitespace with 2 spaces",
+      "/src/A.swift:9:12: error: [NeverForceUnwrap] do not force unwrap 'value'",
+      "unrelated line",
+    ].join("\n");
+
+    expect(parseSwiftFormatLint(output)).toEqual([
+      {
+        file: "/src/A.swift",
+        line: 3,
+        column: 1,
+        rule: "Indentation",
+        severity: "warning",
+        message: "replace leading whitespace with 2 spaces",
+        tool: "swift-format",
+      },
+      expect.objectContaining({ line: 9, rule: "NeverForceUnwrap", severity: "error" }),
+    ]);
+  });
+
+  it("should parse SwiftLint's JSON reporter", () => {
+    const output = JSON.stringify([
+      {
+        character: null,
+        file: "/src/B.swift",
+        line: 120,
+        reason: "Line should be 120 characters or less; currently it has 134 characters",
+        rule_id: "line_length",
+        severity: "Warning",
+        type: "Line Length",
+      },
+      { character: 5, file: "/src/B.swift", line: 4, reason: "Force casts should be avoided", rule_id: "force_cast", severity: "Error" },
+    ]);
+
+    expect(parseSwiftLintJson(output)).toEqual([
+      expect.objectContaining({ line: 120, column: undefined, rule: "line_length", severity: "warning", tool: "swiftlint" }),
+      expect.objectContaining({ line: 4, column: 5, rule: "force_cast", severity: "error" }),
+    ]);
+  });
+});
+
+describe("Style Tools", () => {
+  let root: string;
+  let calls: string[][];
+  let installed: string[];
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "style-test-"));
+    calls = [];
+    installed = ["swift-format", "swiftlint"];
+
+    const runner: CommandRunner = {
+      async execute(command, args, options) {
+        if (command === "diff") {
+          return spawnRunner.execute(command, args, options);
+        }
+        calls.push([command, ...args]);
+        const ok = (stdout = "", stderr = "") => ({ stdout, stderr, exitCode: 0, timedOut: false });
+        if (!installed.includes(command)) {
+          return { stdout: "", stderr: `${command}: not found`, exitCode: 127, timedOut: false };
+        }
+        if (args[0] === "--version" || args[0] === "version") {
+          return ok("1.0.0");
+        }
+
+        const file = args[args.length - 1];
+        if (command === "swift-format" && args[0] === "lint") {
+          return ok("", `${file}:2:1: warning: [Indentation] replace leading whitespace with 2 spaces`);
+        }
+        if (command === "swiftlint" && args[0] === "lint") {
+          return ok(JSON.stringify([{ character: 9, file, line: 1, reason: "Force casts", rule_id: "force_cast", severity: "Error" }]));
+        }
+        if (command === "swift-format" && args[0] === "format") {
+          // The fake formatter reindents to two spaces, in place
+          for (const path of args.filter((arg) => arg.endsWith(".swift"))) {
+            await writeFile(path, (await readFile(path, "utf-8")).replace(/^ {4}/gm, "  "));
+          }
+        }
+        return ok();
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const source = "func f() {\n    print(1)\n}\n";
+
+  it("should lint inline code with both tools and the nearest configs", async () => {
+    await writeFile(join(root, ".swiftlint.yml"), "disabled_rules: []\n");
+    await mkdir(join(root, "nested"));
+
+    const result = await lintSwift({ code: source, fileName: "Greeter.swift" }, { configDir: join(root, "nested") });
+
+    expect(result.tools).toEqual(["swift-format", "swiftlint"]);
+    expect(result.configs).toEqual({ swiftlint: join(root, ".swiftlint.yml") });
+    expect(calls.find((call) => call[0] === "swiftlint" && call[1] === "lint")).toEqual(
+      expect.arrayContaining(["--config", join(root, ".swiftlint.yml")])
+    );
+    expect(result.violations.map((v) => [v.file, v.line, v.rule, v.severity, v.tool])).toEqual([
+      ["Greeter.swift", 1, "force_cast", "error", "swiftlint"],
+      ["Greeter.swift", 2, "Indentation", "warning", "swift-format"],
+    ]);
+    expect(result.success).toBe(false);
+  });
+
+  it("should preview fixes as a diff without touching the files", async () => {
+    await mkdir(join(root, "Sources"));
+    const file = join(root, "Sources", "A.swift");
+    await writeFile(file, source);
+    await writeFile(join(root, "Sources", "B.swift"), "let x = 1\n");
+
+    const result = await fixSwift({ paths: [root] }, { tools: ["swift-format"] });
+
+    expect(result).toMatchObject({ success: true, changedFiles: [file], written: false });
+    expect(result.diff).toContain(`--- a/${file}`);
+    expect(result.diff).toContain("-    print(1)\n+  print(1)");
+    expect(await readFile(file, "utf-8")).toBe(source);
+  });
+
+  it("should write fixes when asked", async () => {
+    const file = join(root, "A.swift");
+    await writeFile(file, source);
+
+    const result = await fixSwift({ paths: [file] }, { tools: ["swift-format"], write: true });
+
+    expect(result.written).toBe(true);
+    expect(await readFile(file, "utf-8")).toBe("func f() {\n  print(1)\n}\n");
+  });
+
+  it("should return corrected inline code", async () => {
+    const result = await fixSwift({ code: source }, { tools: ["swift-format"] });
+
+    expect(result.changedFiles).toEqual(["snippet.swift"]);
+    expect(result.formatted).toBe("func f() {\n  print(1)\n}\n");
+  });
+
+  it("should report a requested tool that isn't installed", async () => {
+    installed = ["swift-format"];
+
+    expect((await lintSwift({ code: source }, { tools: ["swiftlint"] })).error).toBe("swiftlint is not installed");
+    expect((await lintSwift({ code: source })).tools).toEqual(["swift-format"]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for running Swift snippets with SwiftPM dependencies
+ */
+
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { executeSwift } from "../src/swift/executor.js";
+import {
+  generatePackageManifest,
+  packageDirectory,
+  SwiftDependency,
+  validateDependencies,
+} from "../src/swift/package.js";
+import { CommandRunner, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+
+const collections: SwiftDependency = {
+  url: "https://github.com/apple/swift-collections.git",
+  from: "1.1.0",
+  products: ["Collections"],
+};
+
+function createFakeRunner(results: Partial<Record<"build" | "run", Partial<ProcessResult>>> = {}) {
+  const executed: string[][] = [];
+  const runner: CommandRunner = {
+    async execute(command, args) {
+      executed.push([command, ...args]);
+      const result = args[0] === "build" ? results.build : results.run;
+      return { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...result };
+    },
+    async executeShell(command) {
+      executed.push([command]);
+      return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+    },
+  };
+  return { runner, executed };
+}
+
+describe("SwiftPM Snippets", () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), "swiftpm-test-"));
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should generate a manifest with package and product references", () => {
+    const manifest = generatePackageManifest([
+      collections,
+      { path: "Packages/Internal/", products: ["InternalKit", "InternalUI"] },
+    ]);
+
+    expect(manifest).toContain(
+      '.package(url: "https://github.com/apple/swift-collections.git", from: "1.1.0"),'
+    );
+    expect(manifest).toContain(`.package(path: ${JSON.stringify(resolve("Packages/Internal"))}),`);
+    expect(manifest).toContain('.product(name: "Collections", package: "swift-collections"),');
+    expect(manifest).toContain('.product(name: "InternalUI", package: "internal"),');
+  });
+
+  it("should reject ambiguous dependencies", () => {
+    expect(validateDependencies([collections])).toBeNull();
+    expect(validateDependencies([{ ...collections, exact: "1.1.0" }])).toContain("exactly one of from");
+    expect(validateDependencies([{ ...collections, path: "/pkg" }])).toContain("exactly one of url or path");
+    expect(validateDependencies([{ path: "/pkg", branch: "main", products: ["Pkg"] }])).toContain(
+      "no version requirement"
+    );
+  });
+
+  it("should build in a cached package directory and run the product", async () => {
+    const { runner, executed } = createFakeRunner({ run: { stdout: "[1, 2, 3]" } });
+    setCommandRunner(runner);
+
+    const code = "import Collections\nprint(Array(OrderedSet([1, 2, 3])))";
+    const result = await executeSwift(code, { dependencies: [collections], cacheDir });
+
+    expect(result).toMatchObject({ success: true, stdout: "[1, 2, 3]", exitCode: 0, timedOut: false });
+
+    const directory = packageDirectory([collections], cacheDir);
+    expect(await readFile(join(directory, "Sources", "main.swift"), "utf-8")).toBe(code);
+    expect(await readFile(join(directory, "Package.swift"), "utf-8")).toBe(generatePackageManifest([collections]));
+    expect(executed).toEqual([
+      [
+        "swift",
+        "build",
+        "--package-path",
+        directory,
+        "--scratch-path",
+        join(directory, ".build"),
+        "--cache-path",
+        join(cacheDir, "cache"),
+        "--product",
+        "Snippet",
+        "-c",
+        "debug",
+      ],
+      [join(directory, ".build", "debug", "Snippet")],
+    ]);
+
+    // The same dependency set reuses the directory (and so its build products)
+    await executeSwift('print("again")', { dependencies: [collections], cacheDir });
+    expect(executed[2][3]).toBe(directory);
+  });
+
+  it("should report build failures without running", async () => {
+    const { runner, executed } = createFakeRunner({
+      build: { exitCode: 1, stderr: "error: no such module 'Colections'" },
+    });
+    setCommandRunner(runner);
+
+    const result = await executeSwift("import Colections", { dependencies: [collections], cacheDir });
+
+    expect(result).toMatchObject({ success: false, exitCode: null, error: "Build failed" });
+    expect(result.stderr).toContain("no such module");
+    expect(executed).toHaveLength(1);
+  });
+
+  it("should apply the timeout to running the snippet", async () => {
+    const { runner } = createFakeRunner({ run: { timedOut: true } });
+    setCommandRunner(runner);
+
+    const result = await executeSwift("while true {}", { dependencies: [collections], cacheDir, timeout: 2000 });
+
+    expect(result).toMatchObject({ success: false, timedOut: true, error: "Execution timed out after 2 seconds" });
+  });
+});
@@ -3,7 +3,11 @@
  * Note: These tests require Swift to be installed on the system
  */
 
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { dirname, join } from "path";
 import { executeSwift, isSwiftAvailable, getSwiftVersion } from "../src/swift/executor.js";
+import { CommandRunner, ProcessOptions, ProcessResult, setCommandRunner } from "../src/utils/process.js";
 
 describe("Swift Executor", () => {
   // Check if Swift is available for these tests
@@ -44,7 +48,7 @@ describe("Swift Executor", () => {
 
       const result = await executeSwift('print("Hello, World!")');
       expect(result.success).toBe(true);
-      expect(result.output).toBe("Hello, World!");
+      expect(result.stdout).toBe("Hello, World!");
       expect(result.timedOut).toBe(false);
     });
 
@@ -61,7 +65,7 @@ print(a + b)
 `;
       const result = await executeSwift(code);
       expect(result.success).toBe(true);
-      expect(result.output).toBe("15");
+      expect(result.stdout).toBe("15");
     });
 
     it("should handle functions", async () => {
@@ -78,7 +82,7 @@ print(greet(name: "Claude"))
 `;
       const result = await executeSwift(code);
       expect(result.success).toBe(true);
-      expect(result.output).toBe("Hello, Claude!");
+      expect(result.stdout).toBe("Hello, Claude!");
     });
 
     it("should handle compilation errors gracefully", async () => {
@@ -138,3 +142,109 @@ print("done")
     });
   });
 });
+
+describe("Swift Programs", () => {
+  type Call = { command: string; args: string[]; options: ProcessOptions; sources: Record<string, string> };
+
+  /**
+   * Runner that records each command with the .swift sources it was given,
+   * read while the temp directory still exists
+   */
+  function createFakeRunner(results: Partial<Record<"compile" | "run", Partial<ProcessResult>>> = {}) {
+    const calls: Call[] = [];
+    const runner: CommandRunner = {
+      async execute(command, args, options) {
+        const sources: Record<string, string> = {};
+        for (const arg of args.filter((arg) => arg.endsWith(".swift") && existsSync(arg))) {
+          sources[arg] = await readFile(arg, "utf-8");
+        }
+        calls.push({ command, args, options, sources });
+        const result = command.endsWith("swiftc") ? results.compile : results.run;
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...result };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    return { runner, calls };
+  }
+
+  afterEach(() => {
+    setCommandRunner(null);
+  });
+
+  it("should run a single file with args, stdin and env", async () => {
+    const { runner, calls } = createFakeRunner({ run: { stdout: "hi", stderr: "warn", exitCode: 3 } });
+    setCommandRunner(runner);
+
+    const result = await executeSwift('print(readLine()!)', {
+      args: ["--name", "x"],
+      stdin: "hi\n",
+      env: { GREETING: "1" },
+    });
+
+    expect(result).toMatchObject({ success: false, stdout: "hi", stderr: "warn", exitCode: 3, timedOut: false });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].command).toBe("swift");
+    expect(calls[0].args.slice(1)).toEqual(["--name", "x"]);
+    expect(calls[0].options).toMatchObject({ input: "hi\n", env: { GREETING: "1" }, cwd: dirname(calls[0].args[0]) });
+  });
+
+  it("should compile several files with the main file as main.swift", async () => {
+    const { runner, calls } = createFakeRunner({ run: { stdout: "Hello, Ada" } });
+    setCommandRunner(runner);
+
+    const result = await executeSwift(
+      {
+        "App.swift": "print(greet(User(name: \"Ada\")))",
+        "Models/User.swift": "struct User { let name: String }",
+        "Greeting.swift": "func greet(_ user: User) -> String { \"Hello, \\(user.name)\" }",
+        "input.txt": "data",
+      },
+      { mainFile: "App.swift", args: ["a"] }
+    );
+
+    expect(result).toMatchObject({ success: true, stdout: "Hello, Ada", exitCode: 0 });
+    const [compile, run] = calls;
+    const directory = dirname(compile.args[1]).replace(/\/\.build$/, "");
+    expect(compile.command).toBe("swiftc");
+    expect(Object.keys(compile.sources).sort()).toEqual(
+      [join(directory, "Greeting.swift"), join(directory, "Models", "User.swift"), join(directory, "main.swift")].sort()
+    );
+    expect(compile.sources[join(directory, "main.swift")]).toContain("greet(User");
+    expect(run).toMatchObject({ command: compile.args[1], args: ["a"], options: { cwd: directory } });
+    expect(existsSync(directory)).toBe(false);
+  });
+
+  it("should report compile errors against the caller's file names", async () => {
+    let directory = "";
+    const { runner, calls } = createFakeRunner();
+    setCommandRunner({
+      ...runner,
+      async execute(command, args, options) {
+        directory = dirname(args[1]).replace(/\/\.build$/, "");
+        await runner.execute(command, args, options);
+        return {
+          stdout: "",
+          stderr: `${directory}/main.swift:1:1: error: cannot find 'x' in scope\n${directory}/Util.swift:2:3: error: oops`,
+          exitCode: 1,
+          timedOut: false,
+        };
+      },
+    });
+
+    const result = await executeSwift({ "App.swift": "x", "Util.swift": "" }, { mainFile: "App.swift" });
+
+    expect(result).toMatchObject({ success: false, exitCode: null, error: "Compilation failed" });
+    expect(result.stderr).toBe("App.swift:1:1: error: cannot find 'x' in scope\nUtil.swift:2:3: error: oops");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should reject file sets without a clear entry point or with escaping paths", async () => {
+    const ambiguous = await executeSwift({ "A.swift": "", "B.swift": "" });
+    expect(ambiguous.error).toContain("Specify mainFile");
+
+    const escaping = await executeSwift({ "../main.swift": "" });
+    expect(escaping.error).toContain("inside the program directory");
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for temporary file management
+ */
+
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { rotateLogs } from "../src/utils/tempfile.js";
+
+describe("Log Rotation", () => {
+  let dir: string;
+
+  async function writeLog(name: string, size: number, ageMs: number) {
+    const path = join(dir, name);
+    await writeFile(path, Buffer.alloc(size));
+    const time = new Date(Date.now() - ageMs);
+    await utimes(path, time, time);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tempfile-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should delete expired logs", async () => {
+    await writeLog("old.log", 10, 2 * 60 * 60 * 1000);
+    await writeLog("new.log", 10, 0);
+    await writeLog("notes.txt", 10, 2 * 60 * 60 * 1000);
+
+    const removed = await rotateLogs(dir, { ttlMs: 60 * 60 * 1000, maxBytes: 1000 });
+
+    expect(removed).toEqual([join(dir, "old.log")]);
+    expect((await readdir(dir)).sort()).toEqual(["new.log", "notes.txt"]);
+  });
+
+  it("should delete the oldest logs beyond the size limit", async () => {
+    await writeLog("a.log", 10, 3000);
+    await writeLog("b.log", 10, 2000);
+    await writeLog("c.log", 10, 1000);
+
+    await rotateLogs(dir, { ttlMs: 60 * 60 * 1000, maxBytes: 25 });
+
+    expect((await readdir(dir)).sort()).toEqual(["b.log", "c.log"]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for build timing analysis
+ */
+
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { build } from "../src/xcode/builder.js";
+import { createBuildTimingCollector, formatBuildTimingReport } from "../src/xcode/timing.js";
+import { CommandRunner, setCommandRunner } from "../src/utils/process.js";
+
+const output = [
+  "SwiftCompile normal arm64 /App/Sources/Feed.swift /App/Sources/Cell.swift (in target 'App' from project 'App')",
+  "SwiftCompile normal arm64 /App/Kit/Parser.swift (in target 'AppKit' from project 'App')",
+  "1200.50ms\t/App/Sources/Feed.swift:42:10\tinstance method body()",
+  "0.12ms\t/App/Sources/Feed.swift:10:6\tgetter title",
+  "30.00ms\t/App/Sources/Cell.swift:8:7\tinit(model:)",
+  "450.25ms\t/App/Kit/Parser.swift:5:17\tfunc parse(_:)",
+  // Batch mode reports a function once per architecture
+  "1100.00ms\t/App/Sources/Feed.swift:42:10\tinstance method body()",
+  "/App/Sources/Feed.swift:44:22: warning: expression took 812ms to type-check (limit: 100ms)",
+  "Build Timing Summary",
+  "Ld (2 tasks) | 1.234 seconds",
+  "SwiftCompile (24 tasks) | 45.678 seconds",
+  "CompileAssetCatalog (1 task) | 3.500 seconds",
+  "** BUILD SUCCEEDED ** [63.201 sec]",
+];
+
+describe("Build Timing Collector", () => {
+  function collect(lines: string[]) {
+    const collector = createBuildTimingCollector();
+    lines.forEach((line) => collector.push(line));
+    return collector;
+  }
+
+  it("should rank phases, targets, files, functions and expressions", () => {
+    const report = collect(output).report();
+
+    expect(report.totalSeconds).toBe(63.201);
+    expect(report.phases).toEqual([
+      { name: "SwiftCompile", tasks: 24, seconds: 45.678 },
+      { name: "CompileAssetCatalog", tasks: 1, seconds: 3.5 },
+      { name: "Ld", tasks: 2, seconds: 1.234 },
+    ]);
+    expect(report.targets.map((t) => [t.name, t.files])).toEqual([
+      ["App", 2],
+      ["AppKit", 1],
+    ]);
+    expect(report.targets[0].milliseconds).toBeCloseTo(1230.62);
+    expect(report.files.map((f) => [f.file, f.target, f.functions])).toEqual([
+      ["/App/Sources/Feed.swift", "App", 2],
+      ["/App/Kit/Parser.swift", "AppKit", 1],
+      ["/App/Sources/Cell.swift", "App", 1],
+    ]);
+    expect(report.functions[0]).toEqual({
+      file: "/App/Sources/Feed.swift",
+      line: 42,
+      column: 10,
+      name: "instance method body()",
+      milliseconds: 1200.5,
+      target: "App",
+    });
+    expect(report.expressions).toEqual([
+      { file: "/App/Sources/Feed.swift", line: 44, column: 22, milliseconds: 812, limit: 100, target: "App" },
+    ]);
+  });
+
+  it("should keep only the top hotspots", () => {
+    const report = collect(output).report(1);
+
+    expect(report.files).toHaveLength(1);
+    expect(report.functions.map((f) => f.name)).toEqual(["instance method body()"]);
+    expect(report.targets).toHaveLength(2);
+  });
+
+  it("should format the report", () => {
+    const text = formatBuildTimingReport(collect(output).report());
+
+    expect(text).toContain("SwiftCompile (24 tasks): 45.68s");
+    expect(text).toContain("1. 1200.5ms /App/Sources/Feed.swift:42:10 instance method body()");
+    expect(text).toContain("Slow expressions (over 100ms):\n  1. 812ms /App/Sources/Feed.swift:44:22");
+    expect(formatBuildTimingReport(collect([]).report())).toContain("clean: true");
+  });
+});
+
+describe("Build Timing Analysis", () => {
+  let dir: string;
+  let executed: string[][];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "timing-test-"));
+    await mkdir(join(dir, "App.xcodeproj"));
+    executed = [];
+
+    const runner: CommandRunner = {
+      async execute(command, args, options) {
+        executed.push([command, ...args]);
+        if (command === "xcodebuild") {
+          output.forEach((line) => options?.onLine?.(line, "stdout"));
+        }
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should enable timing flags and keep timing warnings out of the warnings", async () => {
+    const result = await build(join(dir, "App.xcodeproj"), {
+      scheme: "App",
+      analyzeTiming: true,
+      timingThreshold: 50,
+      logPath: join(dir, "log"),
+    });
+
+    expect(executed[0]).toContain("-showBuildTimingSummary");
+    expect(executed[0]).toContain(
+      "OTHER_SWIFT_FLAGS=$(inherited) -Xfrontend -debug-time-function-bodies -Xfrontend -warn-long-expression-type-checking=50"
+    );
+    expect(result.warnings).toEqual([]);
+    expect(result.timing?.functions[0].milliseconds).toBe(1200.5);
+  });
+
+  it("should leave timing off by default", async () => {
+    const result = await build(join(dir, "App.xcodeproj"), { scheme: "App", logPath: join(dir, "log") });
+
+    expect(executed[0]).not.toContain("-showBuildTimingSummary");
+    expect(result.timing).toBeUndefined();
+    expect(result.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for Swift toolchain discovery and selection
+ */
+
+import { chmod, mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executeSwift } from "../src/swift/executor.js";
+import { typecheckSwift } from "../src/swift/typecheck.js";
+import { discoverToolchains, resolveToolchain } from "../src/swift/toolchains.js";
+import { configureProjectConfig } from "../src/utils/config.js";
+import { CommandRunner, setCommandRunner } from "../src/utils/process.js";
+
+async function fakeSwift(dir: string, version: string): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, "swift");
+  await writeFile(path, `#!/bin/sh\necho "Swift version ${version} (swift-${version}-RELEASE)"\necho "Target: x86_64-unknown-linux-gnu"\n`);
+  await chmod(path, 0o755);
+  return path;
+}
+
+describe("Toolchain Discovery", () => {
+  let root: string;
+  let env: NodeJS.ProcessEnv;
+  let toolchainDirs: string[];
+
+  beforeEach(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), "toolchains-test-")));
+
+    await fakeSwift(join(root, "bin"), "5.10.1");
+    const xcode = join(root, "Toolchains", "swift-6.0-RELEASE.xctoolchain");
+    await fakeSwift(join(xcode, "usr", "bin"), "6.0");
+    await writeFile(
+      join(xcode, "Info.plist"),
+      "<plist><dict><key>CFBundleIdentifier</key>\n<string>org.swift.600</string></dict></plist>"
+    );
+    await fakeSwift(join(root, "swiftly", "toolchains", "main-snapshot", "usr", "bin"), "6.2-dev");
+
+    // swiftly's 5.10.1 is what PATH points at, so it is listed once
+    const swiftly = join(root, "swiftly", "toolchains", "5.10.1", "usr", "bin");
+    await mkdir(swiftly, { recursive: true });
+    await symlink(join(root, "bin", "swift"), join(swiftly, "swift"));
+
+    env = { PATH: `${join(root, "empty")}:${join(root, "bin")}`, SWIFTLY_HOME_DIR: join(root, "swiftly") };
+    toolchainDirs = [join(root, "Toolchains"), join(root, "missing")];
+  });
+
+  afterEach(async () => {
+    configureProjectConfig({});
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should find toolchains on PATH, in toolchain directories and from swiftly", async () => {
+    const toolchains = await discoverToolchains({ env, toolchainDirs });
+
+    expect(toolchains.map((t) => [t.id, t.source, t.version])).toEqual([
+      ["default", "path", "5.10.1"],
+      ["org.swift.600", "xcode", "6.0"],
+      ["main-snapshot", "swiftly", "6.2-dev"],
+    ]);
+    expect(toolchains[1]).toMatchObject({
+      name: "swift-6.0-RELEASE",
+      swiftPath: join(root, "Toolchains", "swift-6.0-RELEASE.xctoolchain", "usr", "bin", "swift"),
+      versionLine: "Swift version 6.0 (swift-6.0-RELEASE)",
+    });
+  });
+
+  it("should select by id, name or version prefix", async () => {
+    const options = { env, toolchainDirs };
+
+    expect((await resolveToolchain("org.swift.600", options)).toolchain?.version).toBeUndefined();
+    expect((await resolveToolchain("swift-6.0-RELEASE", options)).toolchain?.id).toBe("org.swift.600");
+    expect((await resolveToolchain("6.2", options)).toolchain?.id).toBe("main-snapshot");
+    expect((await resolveToolchain("5.10", options)).toolchain?.source).toBe("path");
+    expect((await resolveToolchain("4.2", options)).error).toBe(
+      'Unknown Swift toolchain "4.2" (available: default, org.swift.600, main-snapshot)'
+    );
+  });
+
+  it("should accept a toolchain directory and fall back to the project config", async () => {
+    const xcode = join(root, "Toolchains", "swift-6.0-RELEASE.xctoolchain");
+
+    expect((await resolveToolchain(xcode)).toolchain?.swiftPath).toBe(join(xcode, "usr", "bin", "swift"));
+    expect((await resolveToolchain(join(root, "missing"))).error).toBe(`No swift executable at ${join(root, "missing")}`);
+
+    expect(await resolveToolchain(undefined)).toEqual({});
+    configureProjectConfig({ toolchain: join(root, "bin") });
+    expect((await resolveToolchain(undefined)).toolchain?.swiftPath).toBe(join(root, "bin", "swift"));
+  });
+});
+
+describe("Toolchain Selection", () => {
+  let root: string;
+  let executed: string[];
+
+  beforeEach(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), "toolchains-test-")));
+    await fakeSwift(join(root, "usr", "bin"), "6.0");
+
+    executed = [];
+    const runner: CommandRunner = {
+      async execute(command) {
+        executed.push(command);
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    configureProjectConfig({});
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should run and compile with the selected toolchain", async () => {
+    await executeSwift('print("hi")', { toolchain: root });
+    await executeSwift({ "a.swift": "", "main.swift": "" }, { toolchain: root });
+
+    expect(executed[0]).toBe(join(root, "usr", "bin", "swift"));
+    expect(executed[1]).toBe(join(root, "usr", "bin", "swiftc"));
+  });
+
+  it("should typecheck with the configured toolchain's swiftc", async () => {
+    configureProjectConfig({ toolchain: root });
+
+    await typecheckSwift("let x = 1");
+
+    expect(executed).toEqual([join(root, "usr", "bin", "swiftc")]);
+  });
+
+  it("should not run anything for an unknown toolchain", async () => {
+    const result = await executeSwift('print("hi")', { toolchain: join(root, "nope") });
+
+    expect(result).toMatchObject({ success: false, exitCode: null, error: `No swift executable at ${join(root, "nope")}` });
+    expect(executed).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for transport options and the HTTP transport
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { parseTransportOptions } from "../src/transport/options.js";
+import { HttpServerHandle, McpSession, startHttpServer } from "../src/transport/http.js";
+import { clientState, createClientScope, runInClientScope } from "../src/utils/client-scope.js";
+
+describe("Transport Options", () => {
+  it("should default to stdio", () => {
+    expect(parseTransportOptions([], {})).toEqual({
+      transport: "stdio",
+      host: "127.0.0.1",
+      port: 3100,
+      token: undefined,
+    });
+  });
+
+  it("should read flags before environment variables", () => {
+    const env = { IOS_DEV_MCP_TRANSPORT: "http", IOS_DEV_MCP_PORT: "4000", IOS_DEV_MCP_TOKEN: "env-token" };
+    expect(parseTransportOptions(["--port=5000", "--host", "0.0.0.0"], env)).toEqual({
+      transport: "http",
+      host: "0.0.0.0",
+      port: 5000,
+      token: "env-token",
+    });
+    expect(parseTransportOptions(["--http", "--token", "flag-token"], {})).toMatchObject({
+      transport: "http",
+      token: "flag-token",
+    });
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(() => parseTransportOptions(["--transport", "ws"], {})).toThrow("Invalid transport: ws");
+    expect(() => parseTransportOptions(["--port", "http"], {})).toThrow("Invalid port: http");
+    expect(() => parseTransportOptions(["--port"], {})).toThrow("Missing value for --port");
+    expect(() => parseTransportOptions(["--verbose"], {})).toThrow("Unknown argument: --verbose");
+  });
+});
+
+describe("HTTP Transport", () => {
+  const token = "test-token";
+  // Counts calls per client, to check that clients don't share state
+  const counter = clientState(() => ({ calls: 0 }));
+  let http: HttpServerHandle;
+
+  function createSession(sessionId: string): McpSession {
+    const scope = createClientScope(sessionId);
+    const server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    server.setRequestHandler(CallToolRequestSchema, async () => {
+      const calls = ++counter().calls;
+      return { content: [{ type: "text", text: `${sessionId}:${calls}` }] };
+    });
+
+    return {
+      connect: async (transport) => {
+        await server.connect(transport);
+        const onmessage = transport.onmessage;
+        transport.onmessage = (message, extra) => runInClientScope(scope, () => onmessage?.(message, extra));
+      },
+      close: () => server.close(),
+    };
+  }
+
+  const auth = { headers: { Authorization: `Bearer ${token}` } };
+
+  async function callCount(client: Client): Promise<string> {
+    const result = await client.callTool({ name: "count", arguments: {} });
+    return (result.content as Array<{ text: string }>)[0].text;
+  }
+
+  beforeEach(async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, token }, createSession);
+  });
+
+  afterEach(async () => {
+    await http.close();
+  });
+
+  it("should reject requests without the bearer token", async () => {
+    const missing = await fetch(`${http.url}/mcp`, { method: "POST", body: "{}" });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+
+    const wrong = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      body: "{}",
+      headers: { Authorization: "Bearer nope" },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("should require initialize before a session exists", async () => {
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { ...auth.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+
+    const unknown = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { ...auth.headers, "Content-Type": "application/json", "mcp-session-id": "nope" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("should give each Streamable HTTP client its own session and state", async () => {
+    const first = new Client({ name: "first", version: "0.0.0" });
+    const second = new Client({ name: "second", version: "0.0.0" });
+    const firstTransport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: auth });
+    const secondTransport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: auth });
+    await first.connect(firstTransport);
+    await second.connect(secondTransport);
+
+    expect(http.sessionCount()).toBe(2);
+    expect(await callCount(first)).toBe(`${firstTransport.sessionId}:1`);
+    expect(await callCount(first)).toBe(`${firstTransport.sessionId}:2`);
+    expect(await callCount(second)).toBe(`${secondTransport.sessionId}:1`);
+
+    await firstTransport.terminateSession();
+    expect(http.sessionCount()).toBe(1);
+    await first.close();
+    await second.close();
+  });
+
+  it("should serve legacy SSE clients", async () => {
+    const client = new Client({ name: "sse", version: "0.0.0" });
+    const transport = new SSEClientTransport(new URL(`${http.url}/sse`), { requestInit: auth });
+    await client.connect(transport);
+
+    expect(await callCount(client)).toMatch(/:1$/);
+    await client.close();
+  });
+
+  it("should close sessions that stay idle", async () => {
+    const idle = await startHttpServer({ host: "127.0.0.1", port: 0, token, idleTimeout: 50 }, createSession);
+    try {
+      const response = await fetch(`${idle.url}/mcp`, {
+        method: "POST",
+        headers: { ...auth.headers, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "idle", version: "0.0.0" } },
+        }),
+      });
+      await response.text();
+      expect(idle.sessionCount()).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(idle.sessionCount()).toBe(0);
+    } finally {
+      await idle.close();
+    }
+  });
+});
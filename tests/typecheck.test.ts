@@ -0,0 +1,163 @@
+/**
+ * Tests for typecheck-only Swift runs and compiler diagnostic parsing
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { dirname } from "path";
+import { parseCompilerDiagnostics } from "../src/diagnostics/error-fixer.js";
+import { typecheckSwift } from "../src/swift/typecheck.js";
+import { CommandRunner, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+import { toolRegistry } from "../src/tools/index.js";
+
+const DIAGNOSTICS = [
+  "/tmp/check/main.swift:2:5: warning: variable 'count' was never mutated; consider changing to 'let' constant",
+  "var count = 1",
+  "~~~ ^",
+  "let",
+  "/tmp/check/main.swift:4:9: error: cannot find 'greting' in scope",
+  "let x = greting",
+  "        ^~~~~~~",
+  "/tmp/check/main.swift:1:5: note: did you mean 'greeting'?",
+  'let greeting = "hi"',
+  "    ^",
+  "/tmp/check/main.swift:6:1: error: call can throw but is not marked with 'try'",
+  "load()",
+  "^",
+  "/tmp/check/main.swift:6:1: note: did you mean to use 'try'?",
+  "load()",
+  "^",
+  "try",
+].join("\n");
+
+describe("Compiler Diagnostics", () => {
+  it("should attach notes and fix-its to their diagnostics", () => {
+    const diagnostics = parseCompilerDiagnostics(DIAGNOSTICS);
+
+    expect(diagnostics).toHaveLength(3);
+    expect(diagnostics[0]).toMatchObject({
+      file: "/tmp/check/main.swift",
+      line: 2,
+      column: 5,
+      severity: "warning",
+      fixIts: [{ line: 2, column: 1, length: 3, replacement: "let" }],
+    });
+    expect(diagnostics[1]).toMatchObject({
+      severity: "error",
+      message: "cannot find 'greting' in scope",
+      notes: [{ file: "/tmp/check/main.swift", line: 1, column: 5, message: "did you mean 'greeting'?" }],
+    });
+    expect(diagnostics[1].fixIts).toBeUndefined();
+    expect(diagnostics[2].notes![0].fixIts).toEqual([{ line: 6, column: 1, length: 0, replacement: "try" }]);
+  });
+
+  it("should ignore output that is not a diagnostic", () => {
+    const output = "main.swift:1:1: error: expected expression\n)\n^\n  [2/3] Compiling Snippet main.swift";
+    const diagnostics = parseCompilerDiagnostics(output);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].fixIts).toBeUndefined();
+  });
+});
+
+describe("Swift Typecheck", () => {
+  let calls: Array<{ command: string; args: string[]; sources: string[] }>;
+
+  function useRunner(compile: Partial<ProcessResult> = {}, sdkAvailable = true) {
+    calls = [];
+    const runner: CommandRunner = {
+      async execute(command, args) {
+        const sources: string[] = [];
+        for (const arg of args.filter((arg) => arg.endsWith(".swift") && existsSync(arg))) {
+          sources.push(await readFile(arg, "utf-8"));
+        }
+        calls.push({ command, args, sources });
+        if (command === "xcrun") {
+          const stdout = args.includes("--show-sdk-path") ? "/SDKs/iPhoneSimulator.sdk" : "17.4";
+          return sdkAvailable
+            ? { stdout, stderr: "", exitCode: 0, timedOut: false }
+            : { stdout: "", stderr: "xcrun: error: SDK not found", exitCode: 1, timedOut: false };
+        }
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...compile };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  afterEach(() => {
+    setCommandRunner(null);
+  });
+
+  it("should typecheck against the simulator SDK with a derived target", async () => {
+    useRunner();
+
+    const result = await typecheckSwift(
+      "import SwiftUI\n@main struct DemoApp: App { var body: some Scene { WindowGroup { Text(\"Hi\") } } }",
+      { sdk: "iphonesimulator" }
+    );
+
+    const arch = process.arch === "arm64" ? "arm64" : "x86_64";
+    expect(result).toMatchObject({ success: true, diagnostics: [], sdk: "/SDKs/iPhoneSimulator.sdk" });
+    expect(result.target).toBe(`${arch}-apple-ios17.4-simulator`);
+
+    const swiftc = calls.find((call) => call.command === "swiftc")!;
+    expect(swiftc.args.slice(0, 7)).toEqual([
+      "-typecheck",
+      "-diagnostic-style=llvm",
+      "-parse-as-library",
+      "-sdk",
+      "/SDKs/iPhoneSimulator.sdk",
+      "-target",
+      `${arch}-apple-ios17.4-simulator`,
+    ]);
+    expect(swiftc.sources[0]).toContain("@main struct DemoApp");
+  });
+
+  it("should fall back to the host SDK when the requested one is missing", async () => {
+    useRunner({}, false);
+
+    const result = await typecheckSwift("let x = 1", { sdk: "iphonesimulator" });
+
+    expect(result.success).toBe(true);
+    expect(result.sdk).toBeUndefined();
+    expect(result.notice).toContain("not available");
+    expect(calls.find((call) => call.command === "swiftc")!.args).not.toContain("-sdk");
+  });
+
+  it("should return diagnostics with the caller's file names", async () => {
+    setCommandRunner({
+      async execute(command, args) {
+        const directory = dirname(args[args.length - 1]);
+        const stderr = `${directory}/main.swift:1:9: error: cannot find 'y' in scope\nlet x = y\n        ^`;
+        return { stdout: "", stderr, exitCode: 1, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    });
+
+    const result = await typecheckSwift({ "Entry.swift": "let x = y", "Models.swift": "" }, { mainFile: "Entry.swift" });
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toMatchObject([
+      { file: "Entry.swift", line: 1, column: 9, severity: "error", message: "cannot find 'y' in scope" },
+    ]);
+    expect(result.error).toBeUndefined();
+  });
+
+  it("should format diagnostics through the tool", async () => {
+    useRunner({ stderr: DIAGNOSTICS.replace(/\/tmp\/check\//g, ""), exitCode: 1 });
+
+    const result = await toolRegistry.call("swift_typecheck", { code: "let x = greting" });
+
+    expect(result.isError).toBe(true);
+    const text = result.content[0].type === "text" ? result.content[0].text : "";
+    expect(text).toContain("Typecheck failed: 2 errors, 1 warning.");
+    expect(text).toContain('  fix-it: 2:1 replace 3 characters with "let"');
+    expect(text).toContain("  note: main.swift:1:5: did you mean 'greeting'?");
+    expect(text).toContain('    fix-it: 6:1 insert "try"');
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Tests for xcresult bundle parsing
+ */
+
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { build } from "../src/xcode/builder.js";
+import { formatTestResults, runTests } from "../src/xcode/testing.js";
+import {
+  parseXcresultIssues,
+  parseXcresultLocation,
+  parseXcresultTestDetails,
+  parseXcresultTests,
+  readXcresult,
+} from "../src/xcode/xcresult.js";
+import { CommandRunner, ProcessResult, setCommandRunner } from "../src/utils/process.js";
+
+const v = (value: string | number) => ({ _value: String(value) });
+const list = (...values: object[]) => ({ _values: values });
+const type = (name: string) => ({ _type: { _name: name } });
+
+const location = (file: string, line: number, column: number) => ({
+  documentLocationInCreatingWorkspace: {
+    url: v(`file://${file}#CharacterRangeLen=0&EndingColumnNumber=${column}&EndingLineNumber=${line}&StartingColumnNumber=${column}&StartingLineNumber=${line}`),
+  },
+});
+
+const root = {
+  ...type("ActionsInvocationRecord"),
+  actions: list({ actionResult: { testsRef: { id: v("0~tests") } } }),
+  issues: {
+    errorSummaries: list({
+      issueType: v("Swift Compiler Error"),
+      message: v("Cannot find 'prnt' in scope"),
+      ...location("/App/Sources/View.swift", 11, 4),
+    }),
+    warningSummaries: list({ issueType: v("Deprecation"), message: v("'foo()' is deprecated") }),
+    testFailureSummaries: list({
+      issueType: v("Uncategorized"),
+      message: v("XCTAssertEqual failed: (\"1\") is not equal to (\"2\")"),
+      producingTarget: v("AppTests"),
+      testCaseName: v("Outer.InnerTests.testSubtract()"),
+      ...location("/App/Tests/MathTests.swift", 19, 0),
+    }),
+  },
+  metrics: { testsCount: v(3), testsFailedCount: v(1), errorCount: v(1) },
+};
+
+const metadata = (identifier: string, status: string, duration: number, summaryId?: string) => ({
+  ...type("ActionTestMetadata"),
+  identifier: v(identifier),
+  name: v(identifier.split("/").pop()!),
+  testStatus: v(status),
+  duration: { _type: { _name: "Double" }, _value: String(duration) },
+  ...(summaryId ? { summaryRef: { id: v(summaryId) } } : {}),
+});
+
+const testSummaries = {
+  ...type("ActionTestPlanRunSummaries"),
+  summaries: list({
+    testableSummaries: list({
+      targetName: v("AppTests"),
+      tests: list({
+        ...type("ActionTestSummaryGroup"),
+        name: v("All tests"),
+        subtests: list({
+          ...type("ActionTestSummaryGroup"),
+          name: v("AppTests.xctest"),
+          subtests: list(
+            { ...type("ActionTestSummaryGroup"), name: v("MathTests"), subtests: list(metadata("MathTests/testAdd()", "Success", 0.012)) },
+            {
+              ...type("ActionTestSummaryGroup"),
+              name: v("Outer.InnerTests"),
+              subtests: list(
+                metadata("Outer.InnerTests/testSubtract()", "Failure", 0.5, "0~failure"),
+                metadata("Outer.InnerTests/testDivide()", "Skipped", 0)
+              ),
+            }
+          ),
+        }),
+      }),
+    }),
+  }),
+};
+
+const failureSummary = {
+  ...type("ActionTestSummary"),
+  failureSummaries: list({
+    fileName: v("/App/Tests/MathTests.swift"),
+    lineNumber: v(20),
+    message: v("XCTAssertEqual failed: (\"1\") is not equal to (\"2\")"),
+    issueType: v("Assertion Failure"),
+  }),
+  activitySummaries: list({
+    title: v("Start Test"),
+    subactivities: list({
+      title: v("Screenshot"),
+      attachments: list({
+        name: v("Login screen"),
+        filename: v("Login screen_1_ABC.png"),
+        uniformTypeIdentifier: v("public.png"),
+        payloadRef: { id: v("0~payload") },
+      }),
+    }),
+  }),
+};
+
+describe("xcresult Parsing", () => {
+  it("should convert 0-based document locations", () => {
+    expect(parseXcresultLocation("file:///App/My%20View.swift#StartingColumnNumber=4&StartingLineNumber=11")).toEqual({
+      file: "/App/My View.swift",
+      line: 12,
+      column: 5,
+    });
+  });
+
+  it("should parse build errors, warnings and test failures", () => {
+    expect(parseXcresultIssues(root)).toEqual([
+      expect.objectContaining({
+        type: "Swift Compiler Error",
+        severity: "error",
+        file: "/App/Sources/View.swift",
+        line: 12,
+        column: 5,
+      }),
+      expect.objectContaining({ severity: "warning", message: "'foo()' is deprecated" }),
+      expect.objectContaining({
+        severity: "testFailure",
+        testIdentifier: "Outer.InnerTests.testSubtract()",
+        target: "AppTests",
+        line: 20,
+      }),
+    ]);
+  });
+
+  it("should flatten nested test groups with exact identifiers", () => {
+    expect(parseXcresultTests(testSummaries).map((t) => [t.identifier, t.className, t.name, t.status, t.duration])).toEqual([
+      ["AppTests/MathTests/testAdd", "MathTests", "testAdd", "passed", 0.012],
+      ["AppTests/Outer.InnerTests/testSubtract", "Outer.InnerTests", "testSubtract", "failed", 0.5],
+      ["AppTests/Outer.InnerTests/testDivide", "Outer.InnerTests", "testDivide", "skipped", 0],
+    ]);
+  });
+
+  it("should read failures and nested attachments from a test summary", () => {
+    expect(parseXcresultTestDetails(failureSummary)).toEqual({
+      failures: [
+        {
+          message: 'XCTAssertEqual failed: ("1") is not equal to ("2")',
+          type: "Assertion Failure",
+          file: "/App/Tests/MathTests.swift",
+          line: 20,
+        },
+      ],
+      attachments: [
+        { name: "Login screen", filename: "Login screen_1_ABC.png", uniformTypeIdentifier: "public.png", payloadId: "0~payload" },
+      ],
+    });
+  });
+});
+
+describe("xcresult Bundles", () => {
+  let dir: string;
+  let bundlePath: string;
+  let executed: string[][];
+
+  function useRunner(options: { legacy?: boolean; xcodebuild?: Partial<ProcessResult> } = {}) {
+    const { legacy = true } = options;
+    executed = [];
+    const objects: Record<string, object> = { "": root, "0~tests": testSummaries, "0~failure": failureSummary };
+
+    const runner: CommandRunner = {
+      async execute(command, args) {
+        executed.push([command, ...args]);
+        const result = { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+        if (command === "xcodebuild") {
+          await mkdir(args[args.indexOf("-resultBundlePath") + 1], { recursive: true });
+          return { ...result, ...options.xcodebuild };
+        }
+        if (command === "xcrun" && args[0] === "xcresulttool") {
+          if (args.includes("--legacy") !== legacy) {
+            return { ...result, stderr: "Error: Unknown option '--legacy'", exitCode: 64 };
+          }
+          const id = args.includes("--id") ? args[args.indexOf("--id") + 1] : "";
+          return { ...result, stdout: JSON.stringify(objects[id]) };
+        }
+        return result;
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    };
+    setCommandRunner(runner);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "xcresult-test-"));
+    bundlePath = join(dir, "Run.xcresult");
+    await mkdir(join(dir, "App.xcodeproj"));
+  });
+
+  afterEach(async () => {
+    setCommandRunner(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read tests with details for failures only", async () => {
+    useRunner();
+    await mkdir(bundlePath);
+
+    const summary = await readXcresult(bundlePath);
+
+    expect(summary.success).toBe(true);
+    expect(summary.metrics).toMatchObject({ testsCount: 3, testsFailedCount: 1 });
+    expect(summary.tests[1].attachments).toHaveLength(1);
+    expect(executed.map((call) => (call.includes("--id") ? call[call.indexOf("--id") + 1] : ""))).toEqual(["", "0~tests", "0~failure"]);
+  });
+
+  it("should fall back to the pre-Xcode 16 command", async () => {
+    useRunner({ legacy: false });
+    await mkdir(bundlePath);
+
+    const summary = await readXcresult(bundlePath, { includeTests: false });
+
+    expect(summary.issues).toHaveLength(3);
+    expect(executed[1]).toEqual(["xcrun", "xcresulttool", "get", "--format", "json", "--path", bundlePath]);
+  });
+
+  it("should report a missing bundle without running xcresulttool", async () => {
+    useRunner();
+
+    expect((await readXcresult(bundlePath)).error).toContain("Result bundle not found");
+    expect(executed).toEqual([]);
+  });
+
+  it("should build with a result bundle and report its issues", async () => {
+    useRunner({ xcodebuild: { stdout: "** BUILD FAILED **", exitCode: 65 } });
+
+    const result = await build(join(dir, "App.xcodeproj"), { scheme: "App", resultBundlePath: bundlePath, logPath: join(dir, "log") });
+
+    expect(executed[0]).toEqual(expect.arrayContaining(["-resultBundlePath", bundlePath]));
+    expect(result.resultBundlePath).toBe(bundlePath);
+    expect(result.errors).toEqual(["/App/Sources/View.swift:12:5: error: Cannot find 'prnt' in scope"]);
+    expect(result.warnings).toEqual(["warning: 'foo()' is deprecated"]);
+  });
+
+  it("should run tests from the result bundle", async () => {
+    useRunner({ xcodebuild: { stdout: "** TEST FAILED **", exitCode: 65 } });
+
+    const result = await runTests(join(dir, "App.xcodeproj"), {
+      scheme: "App",
+      destination: "platform=iOS Simulator,name=iPhone 15",
+      resultBundlePath: bundlePath,
+      logPath: join(dir, "log"),
+    });
+
+    expect(result).toMatchObject({ success: false, totalTests: 3, passed: 1, failed: 1, skipped: 1, resultBundlePath: bundlePath });
+    expect(result.tests[1]).toMatchObject({
+      identifier: "AppTests/Outer.InnerTests/testSubtract",
+      failureLocation: { file: "/App/Tests/MathTests.swift", line: 20 },
+      issueType: "Assertion Failure",
+    });
+    expect(formatTestResults(result)).toContain("at /App/Tests/MathTests.swift:20 (Assertion Failure)");
+  });
+
+  it("should fall back to console output when there's no bundle", async () => {
+    executed = [];
+    setCommandRunner({
+      async execute(command, args, options) {
+        executed.push([command, ...args]);
+        options?.onLine?.("Test Case '-[AppTests.Outer.InnerTests testAdd]' passed (0.010 seconds).");
+        options?.onLine?.("Test Case '-[AppTests.Outer.InnerTests testSkip]' skipped (0.000 seconds).");
+        options?.onLine?.("Test Case '-[AppTests.Other.InnerTests testAdd]' failed (0.020 seconds).");
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+      async executeShell() {
+        return { stdout: "", stderr: "", exitCode: 0, timedOut: false };
+      },
+    });
+
+    const result = await runTests(join(dir, "App.xcodeproj"), {
+      scheme: "App",
+      destination: "platform=iOS Simulator,name=iPhone 15",
+      resultBundlePath: bundlePath,
+      logPath: join(dir, "log"),
+    });
+
+    expect(result.resultBundlePath).toBeUndefined();
+    expect(result.tests.map((t) => [t.className, t.name, t.status])).toEqual([
+      ["AppTests.Outer.InnerTests", "testAdd", "passed"],
+      ["AppTests.Outer.InnerTests", "testSkip", "skipped"],
+      ["AppTests.Other.InnerTests", "testAdd", "failed"],
+    ]);
+  });
+});